@@ -7,6 +7,15 @@ module.exports = {
 	useSphere: () => [jest.fn(), {}],
 	useCylinder: () => [jest.fn(), {}],
 	usePlane: () => [jest.fn(), {}],
+	useTrimesh: () => [jest.fn(), {}],
+	useConvexPolyhedron: () => [jest.fn(), {}],
+	useHeightfield: () => [jest.fn(), {}],
+	useContactMaterial: jest.fn(),
+	useHingeConstraint: () => [{ current: null }, { current: null }, {}],
+	usePointToPointConstraint: () => [{ current: null }, { current: null }, {}],
+	useLockConstraint: () => [{ current: null }, { current: null }, {}],
+	useDistanceConstraint: () => [{ current: null }, { current: null }, {}],
+	useSpring: () => [{ current: null }, { current: null }, {}],
 	RigidBody: ({ children }) =>
 		React.createElement(React.Fragment, null, children), // Simple passthrough
 	Physics: ({ children }) =>
@@ -7,4 +7,14 @@ module.exports = {
 		React.createElement(React.Fragment, null, children), // Simple passthrough
 	RigidBody: ({ children }) =>
 		React.createElement(React.Fragment, null, children), // Simple passthrough
+	TrimeshCollider: () => null,
+	ConvexHullCollider: () => null,
+	HeightfieldCollider: () => null,
+	useRapier: () => ({ world: null, rapier: null }),
+	useRevoluteJoint: () => ({ current: undefined }),
+	useSphericalJoint: () => ({ current: undefined }),
+	useFixedJoint: () => ({ current: undefined }),
+	usePrismaticJoint: () => ({ current: undefined }),
+	useRopeJoint: () => ({ current: undefined }),
+	useSpringJoint: () => ({ current: undefined }),
 };
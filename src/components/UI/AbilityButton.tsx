@@ -2,6 +2,7 @@
 
 import React from "react";
 import { useAbility } from "../../hooks/useAbility";
+import { useAbilityStore } from "../../stores/abilityStore";
 
 interface AbilityButtonProps {
   abilityId: string;
@@ -17,9 +18,7 @@ const AbilityButton: React.FC<AbilityButtonProps> = ({ abilityId }) => {
   }
 
   // Calculate remaining cooldown
-  const remainingCooldown = ability.isAvailable
-    ? 0
-    : Math.ceil((ability.cooldown - (Date.now() - ability.lastUsed) / 1000));
+  const remainingCooldown = Math.ceil(useAbilityStore.getState().getRemainingCooldown(abilityId));
 
   const handleClick = () => {
     if (ability.isAvailable) {
@@ -13,6 +13,7 @@ import {AbilitySystem} from "../systems/AbilitySystem/AbilitySystem";
 import {useAbilityStore} from "../stores/abilityStore";
 import {Ability} from "../types/ability.types";
 import {EventDispatcher} from "../utils/EventDispatcher";
+import {GameLoop} from "../systems/GameLoop/GameLoop";
 /**
  * Hook: useAbility
  * Provides an interface to interact with the AbilitySystem.
@@ -39,20 +40,17 @@ export const useAbility=() => {
 		[system]
 	);
 
-	// Update cooldowns every frame using requestAnimationFrame
+	// Update cooldowns every frame through the shared game loop, on its simulation time
 	useEffect(() => {
-		let animationFrameId: number;
+		const gameLoop=GameLoop.getInstance();
+		const unregister=gameLoop.register({
+			id: "abilities",
+			phase: "update",
+			update: ({time}) => system.update(time*1000),
+		});
+		gameLoop.start();
 
-		const update=() => {
-			system.update(Date.now());
-			animationFrameId=requestAnimationFrame(update);
-		};
-
-		update();
-
-		return () => {
-			cancelAnimationFrame(animationFrameId);
-		};
+		return unregister;
 	},[system]);
 
 	// Optionally, subscribe to events
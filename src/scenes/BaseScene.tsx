@@ -7,11 +7,11 @@ import { Vector3 } from 'three';
 import { Html } from '@react-three/drei'; // Import Html for rendering HTML within Canvas
 
 // Core Systems
-import { PhysicsSystemManager } from '../systems/PhysicsSystem/PhysicsSystem';
 import { SceneGraphSystemClass } from '../systems/SceneGraphSystem/SceneGraphSystem';
-import { PostProcessingSystem } from '../systems/PostProcessingSystem/PostProcessingSystem';
-import { AISystem } from '../systems/AISystem/AISystem';
-import { SerializationSystem } from '../systems/SerializationSystem/SerializationSystem';
+import { GameLoop } from '../systems/GameLoop/GameLoop';
+import { SystemRegistry } from '../systems/SystemRegistry/SystemRegistry';
+import { createCoreSystems } from '../systems/SystemRegistry/coreSystems';
+import { GameSystem } from '../types/system.types';
 import { AudioManagerInstance } from '../utils/AudioManager';
 
 // Components
@@ -30,73 +30,66 @@ interface BaseSceneProps {
   debug?: boolean;
   children?: React.ReactNode;
   onSceneReady?: () => void;
+  plugins?: GameSystem[]; // Extra systems started alongside the core ones
 }
 
 export class BaseScene extends React.Component<BaseSceneProps> {
-  private physicsSystemManager: PhysicsSystemManager;
   private sceneGraphSystem: SceneGraphSystemClass;
-  private postProcessingSystem: PostProcessingSystem;
-  private aiSystem: AISystem;
-  private serializationSystem: SerializationSystem;
+  private systemRegistry: SystemRegistry | null = null;
+  private mountCount = 0;
 
   constructor(props: BaseSceneProps) {
     super(props);
-
-    const physicsConfig = {
-      engine: 'cannon' as 'cannon' | 'rapier',
-      gravity: new Vector3(0, -9.81, 0),
-      debug: props.debug || false,
-    };
-
-    this.physicsSystemManager = PhysicsSystemManager.getInstance(physicsConfig);
-
     this.sceneGraphSystem = SceneGraphSystemClass.getInstance();
-    this.postProcessingSystem = PostProcessingSystem.getInstance();
-    this.aiSystem = AISystem.getInstance();
-    this.serializationSystem = SerializationSystem.getInstance();
   }
 
-  componentDidMount() {
+  async componentDidMount() {
+    // Counts mounts so an init still pending from an earlier mount can tell it is stale
+    const mount = ++this.mountCount;
+
     try {
-      if (this.physicsSystemManager) {
-        console.log('Initializing Physics System Manager');
-        this.physicsSystemManager.initialize();
-        console.log('Starting Physics System Manager');
-        this.physicsSystemManager.start();
-
-        // Start other core systems
-        this.aiSystem.start();
-        this.postProcessingSystem.start();
-
-        // Enable auto-save
-        this.serializationSystem.enableAutoSave();
-
-        // Initialize audio system
-        AudioManagerInstance.initializeListener();
-
-        if (this.props.onSceneReady) {
-          this.props.onSceneReady();
-        }
-      } else {
-        console.error('PhysicsSystemManager instance is null.');
+      const physicsConfig = {
+        engine: 'cannon' as 'cannon' | 'rapier',
+        gravity: new Vector3(0, -9.81, 0),
+        debug: this.props.debug || false,
+      };
+
+      // Unmounting cleans up the registry, so each mount registers with the current one.
+      // Systems it already holds are kept as they are.
+      const systemRegistry = SystemRegistry.getInstance();
+      this.systemRegistry = systemRegistry;
+      [
+        ...createCoreSystems({ physics: physicsConfig, sceneGraph: this.sceneGraphSystem }),
+        ...(this.props.plugins || [])
+      ]
+        .filter(system => !systemRegistry.get(system.id))
+        .forEach(system => systemRegistry.register(system));
+
+      console.log('Starting systems:', systemRegistry.getStartupOrder().join(' -> '));
+      await systemRegistry.initAll();
+      if (mount !== this.mountCount) return;
+      systemRegistry.startAll();
+
+      // Initialize audio system
+      AudioManagerInstance.initializeListener();
+
+      if (this.props.onSceneReady) {
+        this.props.onSceneReady();
       }
     } catch (error) {
+      if (mount !== this.mountCount) return;
       console.error('Error during componentDidMount:', error);
     }
   }
 
   componentWillUnmount() {
+    this.mountCount++;
+
     try {
-      if (this.physicsSystemManager) {
-        console.log('Cleaning up Physics System Manager');
-        this.physicsSystemManager.cleanup();
-      } else {
-        console.warn('PhysicsSystemManager instance is already null during cleanup.');
-      }
-      this.sceneGraphSystem.cleanup();
-      this.postProcessingSystem.cleanup();
-      this.aiSystem.cleanup();
-      this.serializationSystem.cleanup();
+      // Disposes every system in reverse startup order
+      this.systemRegistry?.cleanup();
+      this.systemRegistry = null;
+      GameLoop.getInstance().cleanup();
     } catch (error) {
       console.error('Error during componentWillUnmount:', error);
     }
@@ -3,6 +3,7 @@ import { useThree } from '@react-three/fiber';
 import { EventDispatcher } from '../utils/EventDispatcher';
 import { useLogicStore } from '../stores/logicStore';
 import ProceduralLevel from './ProceduralLevel';
+import { LevelLoadingOptions } from '../types/event.types';
 
 // Define types for procedural level data
 interface LevelData {
@@ -22,13 +23,6 @@ interface LevelData {
   };
 }
 
-interface LevelLoadingOptions {
-  transitionType: 'fade' | 'crossfade' | 'instant';
-  transitionDuration: number;
-  loadingPriority: 'terrain' | 'entities' | 'parallel';
-  generateNavMesh: boolean;
-}
-
 export class LevelManager extends React.Component {
   private currentLevel: LevelData | null = null;
   private levelDataCache: Map<string, LevelData> = new Map();
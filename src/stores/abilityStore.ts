@@ -7,6 +7,10 @@
 import {create} from "zustand";
 import {Ability,AbilityState} from "../types/ability.types";
 import {EventDispatcher} from "../utils/EventDispatcher";
+import {GameLoop} from "../systems/GameLoop/GameLoop";
+
+// Cooldowns run on the game loop's simulation time in milliseconds, so they stop while paused and follow the time scale
+const getCurrentTime=(): number => GameLoop.getInstance().getFrameInfo().time*1000;
 
 export const useAbilityStore=create<AbilityState>((set,get) => ({
 	abilities: {},
@@ -35,7 +39,7 @@ export const useAbilityStore=create<AbilityState>((set,get) => ({
 			return;
 		}
 
-		const currentTime=Date.now();
+		const currentTime=getCurrentTime();
 		const elapsedTime=(currentTime-ability.lastUsed)/1000;
 		const isOnCooldown=!ability.isAvailable&&elapsedTime<ability.cooldown;
 
@@ -105,7 +109,7 @@ export const useAbilityStore=create<AbilityState>((set,get) => ({
 		const ability=get().abilities[id];
 		if(!ability||ability.isAvailable) return 0;
 
-		const elapsedTime=(Date.now()-ability.lastUsed)/1000;
+		const elapsedTime=(getCurrentTime()-ability.lastUsed)/1000;
 		return Math.max(0,ability.cooldown-elapsedTime);
 	}
 }));
@@ -1,11 +1,13 @@
 // src/stores/aiStore.ts
 
 import {create} from 'zustand';
-import {AIState,AIEntity,AIBehavior,AIModifier} from '../types/ai.types';
+import {AIState,AIEntity,AIBehavior,AIModifier,BehaviorTreeNode,UtilityProfile} from '../types/ai.types';
 
 export const useAIStore=create<AIState>((set,get) => ({
 	entities: {},
 	behaviorTree: {},
+	behaviorTrees: {},
+	utilityProfiles: {},
 	modifiers: {},
 	pathfindingEnabled: true,
 
@@ -29,6 +31,14 @@ export const useAIStore=create<AIState>((set,get) => ({
 		behaviorTree: {...state.behaviorTree,[behavior.type]: behavior}
 	})),
 
+	addBehaviorTree: (id: string,tree: BehaviorTreeNode) => set((state) => ({
+		behaviorTrees: {...state.behaviorTrees,[id]: tree}
+	})),
+
+	addUtilityProfile: (id: string,profile: UtilityProfile) => set((state) => ({
+		utilityProfiles: {...state.utilityProfiles,[id]: profile}
+	})),
+
 	addModifier: (modifier: AIModifier) => set((state) => ({
 		modifiers: {...state.modifiers,[modifier.type]: modifier}
 	})),
@@ -0,0 +1,45 @@
+// src/stores/entityStore.ts
+
+import {create} from 'zustand';
+import {ComponentMap,ComponentType,EntityId,EntityRecord,EntityState} from '../types/entity.types';
+
+/**
+ * Zustand store holding every entity and its components.
+ * Mutate it through the EntityRegistry so archetype indexes stay in sync.
+ */
+export const useEntityStore=create<EntityState>((set) => ({
+	entities: {},
+
+	addEntity: (entity: EntityRecord) => set((state) => ({
+		entities: {...state.entities,[entity.id]: entity}
+	})),
+
+	removeEntity: (id: EntityId) => set((state) => {
+		const entities={...state.entities};
+		delete entities[id];
+		return {entities};
+	}),
+
+	setComponent: <T extends ComponentType>(id: EntityId,type: T,component: ComponentMap[T]) => set((state) => {
+		const entity=state.entities[id];
+		if(!entity) return state;
+		return {
+			entities: {
+				...state.entities,
+				[id]: {...entity,components: {...entity.components,[type]: component}}
+			}
+		};
+	}),
+
+	removeComponent: (id: EntityId,type: ComponentType) => set((state) => {
+		const entity=state.entities[id];
+		if(!entity) return state;
+		const components={...entity.components};
+		delete components[type];
+		return {
+			entities: {...state.entities,[id]: {...entity,components}}
+		};
+	}),
+
+	reset: () => set({entities: {}}),
+}));
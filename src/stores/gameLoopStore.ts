@@ -0,0 +1,39 @@
+// src/stores/gameLoopStore.ts
+
+import {create} from 'zustand';
+import {GameLoopState} from '../types/gameLoop.types';
+
+const DEFAULT_FIXED_TIME_STEP=1/60;
+
+/**
+ * Zustand store for the game loop's pause and time-scale settings.
+ */
+export const useGameLoopStore=create<GameLoopState>((set) => ({
+	paused: false,
+	timeScale: 1,
+	fixedTimeStep: DEFAULT_FIXED_TIME_STEP,
+
+	setPaused: (paused: boolean) => set({paused}),
+
+	// NaN or Infinity would poison the accumulator and stall the loop; 0 is allowed and freezes simulation time
+	setTimeScale: (timeScale: number) => {
+		if(!Number.isFinite(timeScale)||timeScale<0) {
+			throw new Error(`GameLoop: timeScale must be a finite number of at least 0, got ${timeScale}`);
+		}
+		set({timeScale});
+	},
+
+	// The loop divides by the step, so anything but a positive finite number would stall it for good
+	setFixedTimeStep: (fixedTimeStep: number) => {
+		if(!Number.isFinite(fixedTimeStep)||fixedTimeStep<=0) {
+			throw new Error(`GameLoop: fixedTimeStep must be a positive finite number, got ${fixedTimeStep}`);
+		}
+		set({fixedTimeStep});
+	},
+
+	reset: () => set({
+		paused: false,
+		timeScale: 1,
+		fixedTimeStep: DEFAULT_FIXED_TIME_STEP,
+	}),
+}));
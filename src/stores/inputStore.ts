@@ -28,6 +28,11 @@ const DEFAULT_BINDINGS: Record<string,InputBinding>={
 		device: 'keyboard',
 		action: 'run',
 		keys: ['Shift']
+	},
+	brake: {
+		device: 'keyboard',
+		action: 'brake',
+		keys: ['b']
 	}
 };
 
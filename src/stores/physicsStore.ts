@@ -1,10 +1,20 @@
 // src/stores/physicsStore.ts
 
 import {create} from "zustand";
-import {PhysicsBody,PhysicsState} from "../types/physics.types";
+import {PhysicsBody,PhysicsDebugLayer,PhysicsJoint,PhysicsMaterial,PhysicsState} from "../types/physics.types";
 
 export const usePhysicsStore=create<PhysicsState>((set) => ({
 	bodies: {},
+	materials: {},
+	joints: {},
+	triggerOccupants: {},
+	debugLayers: {
+		colliders: false,
+		sleepState: false,
+		aabbs: false,
+		contacts: false,
+		joints: false,
+	},
 	addBody: (body: PhysicsBody) => {
 		set((state) => ({
 			bodies: {
@@ -33,4 +43,61 @@ export const usePhysicsStore=create<PhysicsState>((set) => ({
 		}));
 		console.log(`Physics body updated: ${id}`);
 	},
+	addMaterial: (material: PhysicsMaterial) => {
+		set((state) => ({
+			materials: {
+				...state.materials,
+				[material.name]: material,
+			},
+		}));
+		console.log(`Physics material added: ${material.name}`);
+	},
+	addJoint: (joint: PhysicsJoint) => {
+		set((state) => ({
+			joints: {
+				...state.joints,
+				[joint.id]: joint,
+			},
+		}));
+		console.log(`Physics joint added: ${joint.id}`);
+	},
+	removeJoint: (id: string) => {
+		set((state) => {
+			const joints={...state.joints};
+			delete joints[id];
+			return {joints};
+		});
+		console.log(`Physics joint removed: ${id}`);
+	},
+	addTriggerOccupant: (triggerId: string,bodyId: string) => {
+		set((state) => ({
+			triggerOccupants: {
+				...state.triggerOccupants,
+				[triggerId]: [...(state.triggerOccupants[triggerId]||[]),bodyId],
+			},
+		}));
+		console.log(`Body ${bodyId} entered trigger ${triggerId}`);
+	},
+	removeTriggerOccupant: (triggerId: string,bodyId: string) => {
+		set((state) => {
+			const occupants=(state.triggerOccupants[triggerId]||[]).filter((id) => id!==bodyId);
+			const triggerOccupants={...state.triggerOccupants};
+			if(occupants.length>0) {
+				triggerOccupants[triggerId]=occupants;
+			} else {
+				delete triggerOccupants[triggerId];
+			}
+			return {triggerOccupants};
+		});
+		console.log(`Body ${bodyId} left trigger ${triggerId}`);
+	},
+	setDebugLayer: (layer: PhysicsDebugLayer,enabled: boolean) => {
+		set((state) => ({
+			debugLayers: {
+				...state.debugLayers,
+				[layer]: enabled,
+			},
+		}));
+		console.log(`Physics debug layer ${layer} ${enabled? "enabled":"disabled"}`);
+	},
 }));
@@ -0,0 +1,29 @@
+// src/stores/replayStore.ts
+
+import {create} from 'zustand';
+import {ReplayState} from '../types/replay.types';
+
+/**
+ * Zustand store exposing replay status and the playback position to the UI.
+ */
+export const useReplayStore=create<ReplayState>((set) => ({
+	status: 'idle',
+	frame: 0,
+	frameCount: 0,
+	speed: 1,
+
+	setStatus: (status) => set({status}),
+
+	setFrame: (frame) => set({frame}),
+
+	setFrameCount: (frameCount) => set({frameCount}),
+
+	setSpeed: (speed) => set({speed: Math.max(0,speed)}),
+
+	reset: () => set({
+		status: 'idle',
+		frame: 0,
+		frameCount: 0,
+		speed: 1,
+	}),
+}));
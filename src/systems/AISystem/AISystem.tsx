@@ -1,26 +1,56 @@
 // src/systems/AISystem/AISystem.ts
 
 import { Vector3 } from 'three';
-import { AIBehaviorType, AIBehavior, AIEntity, AICondition } from '../../types/ai.types';
+import {
+  AIBehavior,
+  AIBehaviorType,
+  AIEntity,
+  AICondition,
+  BehaviorTreeAction,
+  BehaviorTreeCondition,
+  BehaviorTreeLeaves,
+  BehaviorTreeNode,
+  UtilityBehaviorScore,
+  UtilityInput,
+  UtilityProfile
+} from '../../types/ai.types';
 import { useAIStore } from '../../stores/aiStore';
 import { IdleBehavior } from './behaviors/IdleBehavior';
 import { PatrolBehavior } from './behaviors/PatrolBehavior';
 import { CombatBehavior } from './behaviors/CombatBehavior';
 import { FleeBehavior } from './behaviors/FleeBehavior';
 import { FlockingBehavior } from './behaviors/FlockingBehavior';
+import { getEntityController, syncEntityController } from './movement';
+import { BehaviorTree, DEFAULT_TREE_CONDITIONS, createBehaviorTreeState } from './behaviorTree/BehaviorTree';
+import { parseBehaviorTree } from './behaviorTree/builders';
+import { DEFAULT_UTILITY_INPUTS, UtilitySelector, createUtilityState } from './utility/UtilitySelector';
+import { updateIndexedEntity } from './spatial/entityIndex';
+import { getSimulationTime } from './behaviorState';
+import { fromSerializedEntity, toSerializedEntity } from './snapshot';
 import { AggressionModifier } from './modifiers/aggressionModifier';
 import { ProgressionModifier } from './modifiers/progressionModifier';
 import { PathfindingSystem } from '../PathfindingSystem/PathfindingSystem';
 import { EventDispatcher } from '../../utils/EventDispatcher';
+import { Random } from '../../utils/Random';
+import { GameLoop } from '../GameLoop/GameLoop';
+import { EventMap, Unsubscribe } from '../../types/event.types';
+import { SerializedAI } from '../../types/serialization.types';
 
 export class AISystem {
   private static instance: AISystem | null = null;
   private pathfindingSystem: PathfindingSystem;
-  private frameId: number | null = null;
-  private lastUpdate: number = 0;
-  private readonly UPDATE_RATE = 1000 / 60;
+  private unregisterFromLoop: (() => void) | null = null;
+  private eventSubscriptions: Unsubscribe[] = [];
+  private trees: Map<string, BehaviorTree> = new Map();
+  private treeLeaves: BehaviorTreeLeaves = {
+    actions: {},
+    conditions: { ...DEFAULT_TREE_CONDITIONS },
+    behaviors: {}
+  };
+  private utilitySelectors: Map<string, UtilitySelector> = new Map();
+  private utilityInputs: Record<string, UtilityInput> = { ...DEFAULT_UTILITY_INPUTS };
 
-  // Default behaviors
+  // Built-in behavior definitions, shared by every entity. Each entity's progress lives in its behaviorStates
   private defaultBehaviors: {
     idle: IdleBehavior;
     patrol: PatrolBehavior;
@@ -76,14 +106,16 @@ export class AISystem {
   }
 
   private setupEventListeners(): void {
-    EventDispatcher.on("ENTITY_DAMAGED", this.handleEntityDamaged.bind(this));
-    EventDispatcher.on("PLAYER_DETECTED", this.handlePlayerDetected.bind(this));
-    EventDispatcher.on("ENTITY_BEHAVIOR_CHANGE", this.handleBehaviorChange.bind(this));
+    this.eventSubscriptions = [
+      EventDispatcher.on("ENTITY_DAMAGED", this.handleEntityDamaged.bind(this)),
+      EventDispatcher.on("PLAYER_DETECTED", this.handlePlayerDetected.bind(this)),
+      EventDispatcher.on("ENTITY_BEHAVIOR_CHANGE", this.handleBehaviorChange.bind(this))
+    ];
   }
 
   public createEntity(config: Partial<AIEntity> = {}): AIEntity {
     const defaultEntity: AIEntity = {
-      id: `ai-${Date.now()}`,
+      id: Random.stream('ai').id('ai'),
       position: config.position || new Vector3(),
       rotation: config.rotation || new Vector3(),
       health: config.health || 100,
@@ -124,6 +156,7 @@ export class AISystem {
 
   public removeEntity(id: string): void {
     useAIStore.getState().removeEntity(id);
+    Random.removeStream(`ai:${id}`);
     EventDispatcher.dispatch("AI_ENTITY_REMOVED", { entityId: id });
   }
 
@@ -150,12 +183,119 @@ export class AISystem {
     });
   }
 
-  private handleBehaviorChange(data: { entityId: string; newBehavior: string }): void {
+  /**
+   * Adds a tree entities can be assigned. JSON text or parsed JSON is validated first.
+   */
+  public registerBehaviorTree(id: string, tree: BehaviorTreeNode | string): void {
+    useAIStore.getState().addBehaviorTree(id, parseBehaviorTree(tree));
+  }
+
+  public registerTreeAction(name: string, action: BehaviorTreeAction): void {
+    this.treeLeaves.actions[name] = action;
+  }
+
+  public registerTreeCondition(name: string, condition: BehaviorTreeCondition): void {
+    this.treeLeaves.conditions[name] = condition;
+  }
+
+  /**
+   * Drives an entity with a registered tree, starting from the top, or hands it back to priority selection with null.
+   */
+  public setBehaviorTree(entityId: string, treeId: string | null): void {
+    if (!useAIStore.getState().entities[entityId]) return;
+
+    this.updateEntity(entityId, {
+      behaviorTreeId: treeId ?? undefined,
+      behaviorTreeState: treeId ? createBehaviorTreeState() : undefined
+    });
+  }
+
+  public registerUtilityProfile(id: string, profile: UtilityProfile): void {
+    useAIStore.getState().addUtilityProfile(id, profile);
+  }
+
+  public registerUtilityInput(name: string, input: UtilityInput): void {
+    this.utilityInputs[name] = input;
+  }
+
+  /**
+   * Lets a registered profile score the entity's behaviors, or hands it back to priority selection with null.
+   */
+  public setUtilityProfile(entityId: string, profileId: string | null): void {
+    if (!useAIStore.getState().entities[entityId]) return;
+
+    this.updateEntity(entityId, {
+      utilityProfileId: profileId ?? undefined,
+      utilityState: profileId ? createUtilityState() : undefined
+    });
+  }
+
+  /**
+   * How each behavior scored on the entity's last selection, highest first, for debugging profiles.
+   */
+  public getUtilityScores(entityId: string): UtilityBehaviorScore[] {
+    return useAIStore.getState().entities[entityId]?.utilityState?.scores ?? [];
+  }
+
+  private getUtilitySelector(id: string): UtilitySelector | null {
+    const profile = useAIStore.getState().utilityProfiles[id];
+    if (!profile) return null;
+
+    // Re-registering a profile under the same id replaces it
+    const cached = this.utilitySelectors.get(id);
+    if (cached && cached.profile === profile) return cached;
+
+    const selector = new UtilitySelector(profile, this.utilityInputs);
+    this.utilitySelectors.set(id, selector);
+    return selector;
+  }
+
+  private getBehaviorTree(id: string): BehaviorTree | null {
+    const definition = useAIStore.getState().behaviorTrees[id];
+    if (!definition) return null;
+
+    // Re-registering a tree under the same id replaces it
+    const cached = this.trees.get(id);
+    if (cached && cached.root === definition) return cached;
+
+    const tree = new BehaviorTree(definition, this.treeLeaves);
+    this.trees.set(id, tree);
+    return tree;
+  }
+
+  /**
+   * Every entity as plain data, including its behavior and behavior tree progress.
+   */
+  public serializeState(): SerializedAI {
+    return {
+      time: getSimulationTime(),
+      entities: Object.values(useAIStore.getState().entities).map(toSerializedEntity)
+    };
+  }
+
+  /**
+   * Replaces the entities with a snapshot's. Behaviors are rebuilt from the registered definitions by type.
+   */
+  public deserializeState(snapshot: SerializedAI): void {
+    const definitions = this.getBehaviorDefinitions();
+    const entities: Record<string, AIEntity> = {};
+    snapshot.entities.forEach(serialized => {
+      entities[serialized.id] = fromSerializedEntity(serialized, definitions, snapshot.time);
+    });
+    useAIStore.setState({ entities });
+  }
+
+  // Built-in behaviors plus any registered in the store, which win on a type clash
+  private getBehaviorDefinitions(): Partial<Record<AIBehaviorType, AIBehavior>> {
+    return { ...this.defaultBehaviors, ...useAIStore.getState().behaviorTree };
+  }
+
+  private handleBehaviorChange(data: EventMap['ENTITY_BEHAVIOR_CHANGE']): void {
     const entity = useAIStore.getState().entities[data.entityId];
     if (!entity) return;
 
     this.updateEntity(data.entityId, {
-      currentBehavior: data.newBehavior as AIBehaviorType
+      currentBehavior: data.newBehavior
     });
   }
 
@@ -164,57 +304,73 @@ export class AISystem {
   }
 
   public start(): void {
-    if (this.frameId !== null) return;
-    this.lastUpdate = performance.now();
-    this.update();
+    if (this.unregisterFromLoop !== null) return;
+    const gameLoop = GameLoop.getInstance();
+    this.unregisterFromLoop = gameLoop.register({
+      id: 'ai',
+      phase: 'fixedUpdate',
+      after: ['logic'],
+      update: ({ deltaTime }) => this.updateEntities(deltaTime)
+    });
+    gameLoop.start();
   }
 
   public stop(): void {
-    if (this.frameId !== null) {
-      cancelAnimationFrame(this.frameId);
-      this.frameId = null;
+    if (this.unregisterFromLoop !== null) {
+      this.unregisterFromLoop();
+      this.unregisterFromLoop = null;
     }
   }
 
-  private update = (): void => {
-    const currentTime = performance.now();
-    const deltaTime = (currentTime - this.lastUpdate) / 1000;
-
-    if (deltaTime >= this.UPDATE_RATE) {
-      this.updateEntities(deltaTime);
-      this.lastUpdate = currentTime;
-    }
-
-    this.frameId = requestAnimationFrame(this.update);
-  };
-
   private updateEntities(deltaTime: number): void {
     const store = useAIStore.getState();
     const entities = store.entities;
+    this.treeLeaves.behaviors = this.getBehaviorDefinitions();
 
     Object.values(entities).forEach((entity: AIEntity) => {
-      // Update modifiers
-      Object.values(this.defaultModifiers).forEach(modifier => {
-        modifier.update(entity, deltaTime);
-      });
+      // The dead stay where they fell
+      if (entity.health <= 0) return;
 
-      // Select and execute behavior
-      const behavior = this.selectBehavior(entity);
-      if (behavior) {
-        if (behavior.type !== entity.currentBehavior) {
-          EventDispatcher.dispatch("ENTITY_BEHAVIOR_CHANGE", {
-            entityId: entity.id,
-            newBehavior: behavior.type
-          });
-        }
-        behavior.execute(entity);
-        behavior.update(entity, deltaTime);
-      }
+      this.updateAIEntity(entity, deltaTime);
+      // Entities updated after this one see where it is now
+      updateIndexedEntity(entity);
     });
   }
 
-  private selectBehavior(entity: AIEntity): AIBehavior | null {
-    const behaviors = entity.behaviors.sort((a, b) => b.priority - a.priority);
+  private updateAIEntity(entity: AIEntity, deltaTime: number): void {
+    syncEntityController(entity);
+
+    // Update modifiers
+    Object.values(this.defaultModifiers).forEach(modifier => {
+      modifier.update(entity, deltaTime);
+    });
+
+    const tree = entity.behaviorTreeId ? this.getBehaviorTree(entity.behaviorTreeId) : null;
+    if (tree) {
+      if (!entity.behaviorTreeState) entity.behaviorTreeState = createBehaviorTreeState();
+      tree.tick(entity, entity.behaviorTreeState, deltaTime);
+      return;
+    }
+
+    // Select and execute behavior
+    const behavior = this.selectBehavior(entity, deltaTime);
+    if (behavior) {
+      if (behavior.type !== entity.currentBehavior) {
+        EventDispatcher.dispatch("ENTITY_BEHAVIOR_CHANGE", {
+          entityId: entity.id,
+          newBehavior: behavior.type
+        });
+      }
+      behavior.execute(entity);
+      behavior.update(entity, deltaTime);
+    }
+  }
+
+  private selectBehavior(entity: AIEntity, deltaTime: number): AIBehavior | null {
+    const selector = entity.utilityProfileId ? this.getUtilitySelector(entity.utilityProfileId) : null;
+    if (selector) return selector.select(entity, deltaTime) ?? this.defaultBehaviors.idle;
+
+    const behaviors = [...entity.behaviors].sort((a, b) => b.priority - a.priority);
 
     for (const behavior of behaviors) {
       if (this.checkBehaviorConditions(entity, behavior)) {
@@ -230,20 +386,31 @@ export class AISystem {
     return behavior.conditions.every((condition: AICondition) => condition.compare(entity));
   }
 
-  private handleEntityDamaged(data: { entityId: string; damage: number }): void {
+  private handleEntityDamaged(data: EventMap['ENTITY_DAMAGED']): void {
     const entity = useAIStore.getState().entities[data.entityId];
     if (!entity) return;
 
     const newHealth = Math.max(0, entity.health - data.damage);
     this.updateEntity(data.entityId, { health: newHealth });
 
+    if (newHealth === 0) {
+      if (entity.health > 0) {
+        EventDispatcher.dispatch("ENTITY_DIED", {
+          entityId: entity.id,
+          position: entity.position.clone(),
+          velocity: getEntityController(entity)?.getState().velocity ?? new Vector3()
+        });
+      }
+      return;
+    }
+
     // Consider fleeing if health is low
     if (newHealth < entity.maxHealth * 0.3) {
       this.assignBehavior(data.entityId, 'flee');
     }
   }
 
-  private handlePlayerDetected(data: { entityId: string; playerId: string }): void {
+  private handlePlayerDetected(data: EventMap['PLAYER_DETECTED']): void {
     const entity = useAIStore.getState().entities[data.entityId];
     if (!entity) return;
 
@@ -255,9 +422,11 @@ export class AISystem {
 
   public cleanup(): void {
     this.stop();
-    EventDispatcher.off("ENTITY_DAMAGED", this.handleEntityDamaged);
-    EventDispatcher.off("PLAYER_DETECTED", this.handlePlayerDetected);
-    EventDispatcher.off("ENTITY_BEHAVIOR_CHANGE", this.handleBehaviorChange);
+    this.eventSubscriptions.forEach(unsubscribe => unsubscribe());
+    this.eventSubscriptions = [];
+    this.trees.clear();
+    this.utilitySelectors.clear();
     useAIStore.setState({ entities: {}, modifiers: {} });
+    AISystem.instance = null;
   }
 }
\ No newline at end of file
@@ -0,0 +1,24 @@
+// src/systems/AISystem/behaviorState.ts
+
+import {AIBehaviorStates,AIEntity} from '../../types/ai.types';
+import {GameLoop} from '../GameLoop/GameLoop';
+
+/**
+ * The game loop's simulation time in milliseconds. AI timers read this instead of the wall clock, so they
+ * stop while paused and run the same way in headless runs and replays.
+ */
+export const getSimulationTime=(): number => GameLoop.getInstance().getFrameInfo().time*1000;
+
+/**
+ * An entity's own state for a behavior, created on first use. Behaviors keep nothing per entity themselves,
+ * so one behavior definition can drive any number of entities independently.
+ */
+export const getBehaviorState=<K extends keyof AIBehaviorStates>(
+	entity: AIEntity,
+	type: K,
+	create: () => NonNullable<AIBehaviorStates[K]>
+): NonNullable<AIBehaviorStates[K]> => {
+	if(!entity.behaviorStates) entity.behaviorStates={};
+	if(!entity.behaviorStates[type]) entity.behaviorStates[type]=create();
+	return entity.behaviorStates[type] as NonNullable<AIBehaviorStates[K]>;
+};
@@ -0,0 +1,218 @@
+// src/systems/AISystem/behaviorTree/BehaviorTree.test.ts
+
+import { Vector3 } from 'three';
+import { BehaviorTree, DEFAULT_TREE_CONDITIONS, createBehaviorTreeState } from './BehaviorTree';
+import {
+  action,
+  behavior,
+  condition,
+  cooldown,
+  inverter,
+  parallel,
+  parseBehaviorTree,
+  repeat,
+  selector,
+  sequence,
+  timeout,
+} from './builders';
+import { useAIStore } from '../../../stores/aiStore';
+import { EventDispatcher } from '../../../utils/EventDispatcher';
+import { AIBehavior, AIEntity, BehaviorTreeLeaves, BehaviorTreeNode, BehaviorTreeStatus } from '../../../types/ai.types';
+
+const createEntity = (overrides: Partial<AIEntity> = {}): AIEntity => ({
+  id: 'grunt',
+  position: new Vector3(),
+  rotation: new Vector3(),
+  health: 100,
+  maxHealth: 100,
+  speed: 5,
+  currentBehavior: 'idle',
+  behaviors: [],
+  aggressionLevel: 1,
+  detectionRange: 10,
+  attackRange: 2,
+  lastAttackTime: 0,
+  attackCooldown: 1000,
+  ...overrides,
+});
+
+// Actions that return whatever the test scripts for them and count their ticks
+const createLeaves = (): BehaviorTreeLeaves & { results: Record<string, BehaviorTreeStatus>; ticks: Record<string, number> } => {
+  const results: Record<string, BehaviorTreeStatus> = {};
+  const ticks: Record<string, number> = {};
+  const scripted = (name: string) => () => {
+    ticks[name] = (ticks[name] ?? 0) + 1;
+    return results[name] ?? 'success';
+  };
+  return {
+    results,
+    ticks,
+    actions: { a: scripted('a'), b: scripted('b'), c: scripted('c') },
+    conditions: { ...DEFAULT_TREE_CONDITIONS, flag: (_context, args) => args.value === true },
+    behaviors: {},
+  };
+};
+
+describe('BehaviorTree', () => {
+  let entity: AIEntity;
+  let leaves: ReturnType<typeof createLeaves>;
+
+  const run = (root: BehaviorTreeNode, state = createBehaviorTreeState()) => {
+    const tree = new BehaviorTree(root, leaves);
+    return { state, tick: (deltaTime = 0.1) => tree.tick(entity, state, deltaTime) };
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    useAIStore.setState({ entities: {} });
+    entity = createEntity();
+    leaves = createLeaves();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should stop sequences at the first failure and selectors at the first success', () => {
+    leaves.results.b = 'failure';
+
+    expect(run(sequence([action('a'), action('b'), action('c')])).tick()).toBe('failure');
+    expect(leaves.ticks).toEqual({ a: 1, b: 1 });
+
+    expect(run(selector([action('b'), action('a'), action('c')])).tick()).toBe('success');
+    expect(leaves.ticks).toEqual({ a: 2, b: 2 });
+
+    expect(run(selector([condition('flag', { value: false }), inverter(condition('flag', { value: true }))])).tick()).toBe('failure');
+  });
+
+  it('should resume a sequence with memory at its running child', () => {
+    leaves.results.b = 'running';
+    const reactive = run(sequence([action('a'), action('b')]));
+    const remembering = run(sequence([action('c'), action('b')], { memory: true }));
+
+    reactive.tick();
+    reactive.tick();
+    remembering.tick();
+    remembering.tick();
+
+    expect(leaves.ticks.a).toBe(2);
+    expect(leaves.ticks.c).toBe(1);
+    expect(remembering.state.nodes['0']).toEqual({ child: 1 });
+    expect(remembering.state.running).toEqual(['0.1', '0']);
+
+    leaves.results.b = 'success';
+    expect(remembering.tick()).toBe('success');
+    expect(remembering.state.nodes).toEqual({});
+    expect(remembering.state.running).toEqual([]);
+  });
+
+  it('should settle parallels by their success and failure thresholds', () => {
+    leaves.results.a = 'running';
+    const allMustSucceed = run(parallel([action('a'), action('b')]));
+    const anyMaySucceed = run(parallel([action('a'), action('b')], { successThreshold: 1 }));
+
+    expect(allMustSucceed.tick()).toBe('running');
+    expect(anyMaySucceed.tick()).toBe('success');
+    expect(anyMaySucceed.state.running).toEqual([]);
+
+    leaves.results.b = 'failure';
+    expect(allMustSucceed.tick()).toBe('failure');
+    expect(run(parallel([action('a'), action('b')], { failureThreshold: 2 })).tick()).toBe('running');
+  });
+
+  it('should hold a cooldown closed after its child finishes', () => {
+    const { tick, state } = run(cooldown(1, action('a')));
+
+    expect(tick(0.5)).toBe('success');
+    expect(tick(0.5)).toBe('failure');
+    expect(tick(0.4)).toBe('failure');
+    expect(leaves.ticks.a).toBe(1);
+    expect(tick(0.2)).toBe('success');
+    expect(leaves.ticks.a).toBe(2);
+    expect(state.nodes['0'].readyAt).toBeCloseTo(2.6);
+  });
+
+  it('should repeat a set number of times or until the child fails', () => {
+    const counted = run(repeat(action('a'), { count: 3 }));
+    expect([counted.tick(), counted.tick(), counted.tick()]).toEqual(['running', 'running', 'success']);
+    expect(counted.state.nodes).toEqual({});
+
+    const untilFailure = run(repeat(action('b'), { untilFailure: true }));
+    expect(untilFailure.tick()).toBe('running');
+    leaves.results.b = 'failure';
+    expect(untilFailure.tick()).toBe('success');
+  });
+
+  it('should fail a child that runs past its timeout and halt it', () => {
+    leaves.results.a = 'running';
+    const { tick, state } = run(timeout(0.15, sequence([action('a')], { memory: true })));
+
+    expect(tick()).toBe('running');
+    expect(tick()).toBe('running');
+    expect(tick()).toBe('failure');
+    expect(leaves.ticks.a).toBe(2);
+    expect(state.nodes).toEqual({});
+    expect(state.running).toEqual([]);
+  });
+
+  it('should reset a branch interrupted by a higher priority one', () => {
+    leaves.results.a = 'running';
+    const tree = selector([
+      sequence([condition('hasTarget'), action('b')]),
+      timeout(5, action('a')),
+    ]);
+    const { tick, state } = run(tree);
+
+    tick();
+    tick();
+    expect(state.nodes['0.1'].startedAt).toBeCloseTo(0.1);
+
+    useAIStore.setState({ entities: { player: createEntity({ id: 'player' }) } });
+    entity.targetId = 'player';
+    expect(tick()).toBe('success');
+    expect(state.nodes['0.1']).toBeUndefined();
+  });
+
+  it('should run AI behaviors as leaves that fail when their conditions do not hold', () => {
+    const patrol: AIBehavior = {
+      type: 'patrol',
+      priority: 1,
+      conditions: [{ type: 'health', value: 0.5, operator: '>', compare: e => e.health / e.maxHealth > 0.5 }],
+      execute: jest.fn(),
+      update: jest.fn(),
+    };
+    leaves.behaviors.patrol = patrol;
+    const changes: string[] = [];
+    const unsubscribe = EventDispatcher.on('ENTITY_BEHAVIOR_CHANGE', ({ newBehavior }) => changes.push(newBehavior));
+
+    const { tick } = run(selector([behavior('patrol'), action('a')]));
+    expect(tick(0.2)).toBe('running');
+    expect(patrol.execute).toHaveBeenCalledWith(entity);
+    expect(patrol.update).toHaveBeenCalledWith(entity, 0.2);
+    expect(changes).toEqual(['patrol']);
+
+    entity.health = 20;
+    expect(tick()).toBe('success');
+    expect(run(behavior('patrol', { ignoreConditions: true })).tick()).toBe('running');
+    expect(run(behavior('flee')).tick()).toBe('failure');
+    expect(console.warn).toHaveBeenCalledWith('BehaviorTree: No behavior named "flee"; the node fails.');
+    unsubscribe();
+  });
+
+  it('should load trees from JSON and reject malformed nodes', () => {
+    const json = JSON.stringify(selector([cooldown(2, action('a', { power: 3 })), behavior('idle')]));
+
+    expect(parseBehaviorTree(json)).toEqual({
+      type: 'selector',
+      children: [
+        { type: 'cooldown', duration: 2, child: { type: 'action', name: 'a', args: { power: 3 } } },
+        { type: 'behavior', behavior: 'idle' },
+      ],
+    });
+    expect(() => parseBehaviorTree({ type: 'sequence', children: [{ type: 'wait' }] })).toThrow(
+      'BehaviorTree: Invalid node at 0.0: unknown type "wait"'
+    );
+    expect(() => parseBehaviorTree({ type: 'timeout', child: { type: 'action', name: 'a' } })).toThrow('"duration" must be a number');
+    expect(() => parseBehaviorTree({ type: 'behavior', behavior: 'dance' })).toThrow('unknown behavior "dance"');
+  });
+});
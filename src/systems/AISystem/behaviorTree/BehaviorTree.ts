@@ -0,0 +1,206 @@
+// src/systems/AISystem/behaviorTree/BehaviorTree.ts
+
+import {EventDispatcher} from '../../../utils/EventDispatcher';
+import {getTargetPosition} from '../targeting';
+import {
+	AIEntity,
+	BehaviorTreeCondition,
+	BehaviorTreeContext,
+	BehaviorTreeLeaves,
+	BehaviorTreeNode,
+	BehaviorTreeNodeState,
+	BehaviorTreeState,
+	BehaviorTreeStatus,
+} from '../../../types/ai.types';
+
+const ROOT_PATH='0';
+
+// Everything one tick works on, passed down the recursion
+interface TickFrame {
+	state: BehaviorTreeState;
+	context: BehaviorTreeContext;
+	running: string[];
+}
+
+/**
+ * Conditions every tree can name without registering them.
+ */
+export const DEFAULT_TREE_CONDITIONS: Record<string,BehaviorTreeCondition>={
+	hasTarget: ({entity}) => getTargetPosition(entity)!==null,
+	// args.ratio: fraction of max health, defaults to 0.3
+	healthBelow: ({entity},args) => entity.health/entity.maxHealth<((args.ratio as number|undefined)??0.3),
+	// args.range: defaults to the entity's attack range
+	targetInRange: ({entity},args) => {
+		const targetPosition=getTargetPosition(entity);
+		return targetPosition!==null&&entity.position.distanceTo(targetPosition)<=((args.range as number|undefined)??entity.attackRange);
+	},
+};
+
+export const createBehaviorTreeState=(): BehaviorTreeState => ({
+	time: 0,
+	status: null,
+	nodes: {},
+	running: [],
+	blackboard: {},
+});
+
+/**
+ * Runs one tree definition for any number of entities. The tree keeps nothing per entity; each tick reads
+ * and writes the BehaviorTreeState it is handed.
+ */
+export class BehaviorTree {
+	public readonly root: BehaviorTreeNode;
+	private leaves: BehaviorTreeLeaves;
+	private warnedLeaves: Set<string>=new Set();
+
+	constructor(root: BehaviorTreeNode,leaves: BehaviorTreeLeaves) {
+		this.root=root;
+		this.leaves=leaves;
+	}
+
+	public tick(entity: AIEntity,state: BehaviorTreeState,deltaTime: number): BehaviorTreeStatus {
+		state.time+=deltaTime;
+		const frame: TickFrame={
+			state,
+			context: {entity,deltaTime,time: state.time,blackboard: state.blackboard},
+			running: [],
+		};
+
+		const status=this.tickNode(this.root,ROOT_PATH,frame);
+
+		// Nodes that were running but were not reached this time have been interrupted
+		state.running
+			.filter(path => !frame.running.includes(path))
+			.forEach(path => this.resetNode(state,path));
+		state.running=frame.running;
+		state.status=status;
+		return status;
+	}
+
+	private tickNode(node: BehaviorTreeNode,path: string,frame: TickFrame): BehaviorTreeStatus {
+		const status=this.evaluate(node,path,frame);
+		if(status==='running') {
+			frame.running.push(path);
+			return status;
+		}
+
+		// A finished node starts over next time, and so does anything still running beneath it
+		this.resetNode(frame.state,path);
+		frame.running=frame.running.filter(runningPath => {
+			if(!runningPath.startsWith(`${path}.`)) return true;
+			this.resetNode(frame.state,runningPath);
+			return false;
+		});
+		return status;
+	}
+
+	private evaluate(node: BehaviorTreeNode,path: string,frame: TickFrame): BehaviorTreeStatus {
+		const {state,context}=frame;
+
+		switch(node.type) {
+			case 'sequence':
+			case 'selector': {
+				// A sequence stops at the first failure, a selector at the first success
+				const stopOn: BehaviorTreeStatus=node.type==='sequence'? 'failure':'success';
+				const start=node.memory? this.getNodeState(state,path).child??0:0;
+				for(let i=start;i<node.children.length;i++) {
+					const status=this.tickNode(node.children[i],`${path}.${i}`,frame);
+					if(status==='running') {
+						if(node.memory) this.getNodeState(state,path).child=i;
+						return status;
+					}
+					if(status===stopOn) return status;
+				}
+				return node.type==='sequence'? 'success':'failure';
+			}
+			case 'parallel': {
+				const statuses=node.children.map((child,i) => this.tickNode(child,`${path}.${i}`,frame));
+				const failures=statuses.filter(status => status==='failure').length;
+				const successes=statuses.filter(status => status==='success').length;
+				if(failures>=(node.failureThreshold??1)) return 'failure';
+				if(successes>=(node.successThreshold??node.children.length)) return 'success';
+				return 'running';
+			}
+			case 'inverter': {
+				const status=this.tickNode(node.child,`${path}.0`,frame);
+				if(status==='running') return status;
+				return status==='success'? 'failure':'success';
+			}
+			case 'cooldown': {
+				const nodeState=this.getNodeState(state,path);
+				if(nodeState.readyAt!==undefined&&state.time<nodeState.readyAt) return 'failure';
+				const status=this.tickNode(node.child,`${path}.0`,frame);
+				if(status!=='running') nodeState.readyAt=state.time+node.duration;
+				return status;
+			}
+			case 'repeat': {
+				const status=this.tickNode(node.child,`${path}.0`,frame);
+				if(status==='running') return status;
+				if(status==='failure') return node.untilFailure? 'success':'failure';
+
+				// One run per tick, so a child that succeeds instantly cannot lock up the frame
+				const nodeState=this.getNodeState(state,path);
+				nodeState.iteration=(nodeState.iteration??0)+1;
+				return node.count!==undefined&&nodeState.iteration>=node.count? 'success':'running';
+			}
+			case 'timeout': {
+				const nodeState=this.getNodeState(state,path);
+				if(nodeState.startedAt===undefined) nodeState.startedAt=state.time;
+				if(state.time-nodeState.startedAt>=node.duration) return 'failure';
+				return this.tickNode(node.child,`${path}.0`,frame);
+			}
+			case 'action': {
+				const action=this.leaves.actions[node.name];
+				if(!action) return this.missingLeaf('action',node.name);
+				return action(context,node.args??{});
+			}
+			case 'condition': {
+				const condition=this.leaves.conditions[node.name];
+				if(!condition) return this.missingLeaf('condition',node.name);
+				return condition(context,node.args??{})? 'success':'failure';
+			}
+			case 'behavior': {
+				const behavior=this.leaves.behaviors[node.behavior];
+				if(!behavior) return this.missingLeaf('behavior',node.behavior);
+
+				const {entity,deltaTime}=context;
+				if(!node.ignoreConditions&&!behavior.conditions.every(condition => condition.compare(entity))) {
+					return 'failure';
+				}
+				if(behavior.type!==entity.currentBehavior) {
+					EventDispatcher.dispatch('ENTITY_BEHAVIOR_CHANGE',{
+						entityId: entity.id,
+						newBehavior: behavior.type,
+					});
+				}
+				behavior.execute(entity);
+				behavior.update(entity,deltaTime);
+				return 'running';
+			}
+		}
+	}
+
+	private getNodeState(state: BehaviorTreeState,path: string): BehaviorTreeNodeState {
+		if(!state.nodes[path]) state.nodes[path]={};
+		return state.nodes[path];
+	}
+
+	// Forgets a node's progress but keeps its cooldown
+	private resetNode(state: BehaviorTreeState,path: string): void {
+		const readyAt=state.nodes[path]?.readyAt;
+		if(readyAt===undefined) {
+			delete state.nodes[path];
+		} else {
+			state.nodes[path]={readyAt};
+		}
+	}
+
+	private missingLeaf(kind: string,name: string): BehaviorTreeStatus {
+		const key=`${kind}:${name}`;
+		if(!this.warnedLeaves.has(key)) {
+			this.warnedLeaves.add(key);
+			console.warn(`BehaviorTree: No ${kind} named "${name}"; the node fails.`);
+		}
+		return 'failure';
+	}
+}
@@ -0,0 +1,114 @@
+// src/systems/AISystem/behaviorTree/builders.ts
+
+import {AIBehaviorType,BehaviorTreeNode,BehaviorTreeNodeType} from '../../../types/ai.types';
+
+type NodeOf<T extends BehaviorTreeNodeType>=Extract<BehaviorTreeNode,{type: T}>;
+
+export const sequence=(children: BehaviorTreeNode[],options: {memory?: boolean}={}): NodeOf<'sequence'> => ({
+	type: 'sequence',
+	children,
+	...options,
+});
+
+export const selector=(children: BehaviorTreeNode[],options: {memory?: boolean}={}): NodeOf<'selector'> => ({
+	type: 'selector',
+	children,
+	...options,
+});
+
+export const parallel=(
+	children: BehaviorTreeNode[],
+	options: {successThreshold?: number; failureThreshold?: number}={}
+): NodeOf<'parallel'> => ({
+	type: 'parallel',
+	children,
+	...options,
+});
+
+export const inverter=(child: BehaviorTreeNode): NodeOf<'inverter'> => ({type: 'inverter',child});
+
+export const cooldown=(duration: number,child: BehaviorTreeNode): NodeOf<'cooldown'> => ({type: 'cooldown',duration,child});
+
+export const repeat=(child: BehaviorTreeNode,options: {count?: number; untilFailure?: boolean}={}): NodeOf<'repeat'> => ({
+	type: 'repeat',
+	child,
+	...options,
+});
+
+export const timeout=(duration: number,child: BehaviorTreeNode): NodeOf<'timeout'> => ({type: 'timeout',duration,child});
+
+export const action=(name: string,args?: Record<string,unknown>): NodeOf<'action'> => ({
+	type: 'action',
+	name,
+	...(args? {args}:{}),
+});
+
+export const condition=(name: string,args?: Record<string,unknown>): NodeOf<'condition'> => ({
+	type: 'condition',
+	name,
+	...(args? {args}:{}),
+});
+
+export const behavior=(type: AIBehaviorType,options: {ignoreConditions?: boolean}={}): NodeOf<'behavior'> => ({
+	type: 'behavior',
+	behavior: type,
+	...options,
+});
+
+const BEHAVIOR_TYPES: AIBehaviorType[]=['patrol','combat','flee','idle','flock'];
+
+const isRecord=(value: unknown): value is Record<string,unknown> =>
+	typeof value==='object'&&value!==null&&!Array.isArray(value);
+
+const fail=(path: string,message: string): never => {
+	throw new Error(`BehaviorTree: Invalid node at ${path}: ${message}`);
+};
+
+const checkNumber=(node: Record<string,unknown>,key: string,path: string,required: boolean) => {
+	if(node[key]===undefined&&!required) return;
+	if(typeof node[key]!=='number') fail(path,`"${key}" must be a number`);
+};
+
+const parseNode=(value: unknown,path: string): BehaviorTreeNode => {
+	if(!isRecord(value)) return fail(path,'expected an object');
+
+	switch(value.type) {
+		case 'sequence':
+		case 'selector':
+		case 'parallel':
+			if(!Array.isArray(value.children)) return fail(path,'"children" must be an array');
+			value.children.forEach((child,i) => parseNode(child,`${path}.${i}`));
+			checkNumber(value,'successThreshold',path,false);
+			checkNumber(value,'failureThreshold',path,false);
+			break;
+		case 'inverter':
+		case 'repeat':
+			parseNode(value.child,`${path}.0`);
+			checkNumber(value,'count',path,false);
+			break;
+		case 'cooldown':
+		case 'timeout':
+			parseNode(value.child,`${path}.0`);
+			checkNumber(value,'duration',path,true);
+			break;
+		case 'action':
+		case 'condition':
+			if(typeof value.name!=='string') return fail(path,'"name" must be a string');
+			if(value.args!==undefined&&!isRecord(value.args)) return fail(path,'"args" must be an object');
+			break;
+		case 'behavior':
+			if(!BEHAVIOR_TYPES.includes(value.behavior as AIBehaviorType)) {
+				return fail(path,`unknown behavior "${String(value.behavior)}"`);
+			}
+			break;
+		default:
+			return fail(path,`unknown type "${String(value.type)}"`);
+	}
+	return value as BehaviorTreeNode;
+};
+
+/**
+ * Checks a tree loaded from JSON, either as text or already parsed, and throws on the first malformed node.
+ */
+export const parseBehaviorTree=(source: unknown): BehaviorTreeNode =>
+	parseNode(typeof source==='string'? JSON.parse(source):source,'0');
@@ -1,18 +1,20 @@
 // src/systems/AISystem/behaviors/CombatBehavior.ts
 
-import {AIBehavior,AIBehaviorType,AIEntity,AICondition} from '../../../types/ai.types';
+import {AIBehavior,AIBehaviorType,AIEntity,AICondition,CombatBehaviorState} from '../../../types/ai.types';
 import {Vector3} from 'three';
 import {PathfindingSystem} from '../../PathfindingSystem/PathfindingSystem';
 import {EventDispatcher} from '../../../utils/EventDispatcher';
-import {useAIStore} from '../../../stores/aiStore';
 import {useParticleStore} from '../../../stores/particleStore';
+import {Random} from '../../../utils/Random';
+import {steerAlongPath} from '../movement';
+import {getBehaviorState,getSimulationTime} from '../behaviorState';
+import {getTargetPosition} from '../targeting';
 
 export class CombatBehavior implements AIBehavior {
 	public type: AIBehaviorType='combat';
 	public priority: number=3;
 	private pathfindingSystem: PathfindingSystem;
 	private repositionThreshold: number=2.0;
-	private lastRepositionTime: number=0;
 	private repositionCooldown: number=3000; // ms
 
 	constructor(priority: number=3) {
@@ -27,10 +29,9 @@ export class CombatBehavior implements AIBehavior {
 				value: 20,
 				operator: '<',
 				compare: (entity: AIEntity) => {
-					if(!entity.targetId) return false;
-					const target=useAIStore.getState().entities[entity.targetId];
-					if(!target) return false;
-					const distance=entity.position.distanceTo(target.position);
+					const targetPosition=getTargetPosition(entity);
+					if(!targetPosition) return false;
+					const distance=entity.position.distanceTo(targetPosition);
 					return distance<20;
 				},
 			},
@@ -48,8 +49,8 @@ export class CombatBehavior implements AIBehavior {
 	public execute(entity: AIEntity): void {
 		if(!entity.targetId) return;
 
-		const currentTime=Date.now();
-		const targetPosition=this.getTargetPosition(entity.targetId);
+		const currentTime=getSimulationTime();
+		const targetPosition=getTargetPosition(entity);
 		if(!targetPosition) return;
 
 		const distanceToTarget=entity.position.distanceTo(targetPosition);
@@ -64,11 +65,12 @@ export class CombatBehavior implements AIBehavior {
 		}
 
 		// Check if we should reposition
-		if(currentTime-this.lastRepositionTime>this.repositionCooldown) {
+		const state=this.getState(entity);
+		if(state.lastRepositionTime===null||currentTime-state.lastRepositionTime>this.repositionCooldown) {
 			const idealPosition=this.calculateIdealPosition(entity,targetPosition);
 			if(entity.position.distanceTo(idealPosition)>this.repositionThreshold) {
 				this.reposition(entity,idealPosition);
-				this.lastRepositionTime=currentTime;
+				state.lastRepositionTime=currentTime;
 			}
 		}
 
@@ -80,17 +82,10 @@ export class CombatBehavior implements AIBehavior {
 	}
 
 	public update(entity: AIEntity,deltaTime: number): void {
+		steerAlongPath(entity,entity.speed,deltaTime);
 		if(!entity.path?.length) return;
 
 		const nextPosition=entity.path[0];
-		const direction=nextPosition.clone().sub(entity.position).normalize();
-
-		// Move towards next path point
-		entity.position.add(direction.multiplyScalar(entity.speed*deltaTime));
-
-		// Update rotation to face movement direction
-		const targetRotation=Math.atan2(direction.x,direction.z);
-		entity.rotation.y=this.lerpAngle(entity.rotation.y,targetRotation,5*deltaTime);
 
 		// Remove reached path points
 		if(entity.position.distanceTo(nextPosition)<0.5) {
@@ -98,8 +93,12 @@ export class CombatBehavior implements AIBehavior {
 		}
 	}
 
+	private getState(entity: AIEntity): CombatBehaviorState {
+		return getBehaviorState(entity,'combat',() => ({lastRepositionTime: null}));
+	}
+
 	private performAttack(entity: AIEntity,targetPosition: Vector3): void {
-		entity.lastAttackTime=Date.now();
+		entity.lastAttackTime=getSimulationTime();
 
 		// Face target
 		const direction=targetPosition.clone().sub(entity.position);
@@ -123,7 +122,7 @@ export class CombatBehavior implements AIBehavior {
 		const idealDistance=entity.attackRange*(1-entity.aggressionLevel/5);
 
 		// Add some randomness to prevent predictable positioning
-		const angle=Math.random()*Math.PI*2;
+		const angle=Random.stream(`ai:${entity.id}`).range(0,Math.PI*2);
 		const offset=new Vector3(
 			Math.cos(angle)*idealDistance*0.3,
 			0,
@@ -140,16 +139,4 @@ export class CombatBehavior implements AIBehavior {
 		const path=this.pathfindingSystem.findPath(entity.position,position);
 		entity.path=path;
 	}
-
-	private getTargetPosition(targetId: string): Vector3|null {
-		const target=useAIStore.getState().entities[targetId];
-		if(!target) return null;
-		return target.position.clone();
-	}
-
-	private lerpAngle(start: number,end: number,t: number): number {
-		const diff=end-start;
-		const adjusted=((diff+Math.PI)%(Math.PI*2))-Math.PI;
-		return start+adjusted*t;
-	}
 }
\ No newline at end of file
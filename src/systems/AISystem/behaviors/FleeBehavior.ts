@@ -1,10 +1,13 @@
 // src/systems/AISystem/behaviors/FleeBehavior.ts
 
-import {AIBehavior,AIBehaviorType,AIEntity,AICondition} from '../../../types/ai.types';
+import {AIBehavior,AIBehaviorType,AIEntity,AICondition,FleeBehaviorState} from '../../../types/ai.types';
 import {Vector3} from 'three';
 import {PathfindingSystem} from '../../PathfindingSystem/PathfindingSystem';
 import {EventDispatcher} from '../../../utils/EventDispatcher';
-import {useAIStore} from '../../../stores/aiStore';
+import {Random} from '../../../utils/Random';
+import {steerAlongPath} from '../movement';
+import {getBehaviorState,getSimulationTime} from '../behaviorState';
+import {getTargetPosition} from '../targeting';
 
 export class FleeBehavior implements AIBehavior {
 	public type: AIBehaviorType='flee';
@@ -13,8 +16,6 @@ export class FleeBehavior implements AIBehavior {
 	private pathfindingSystem: PathfindingSystem;
 	private readonly SAFE_DISTANCE: number=30;
 	private readonly PATH_UPDATE_INTERVAL: number=500; // milliseconds
-	private lastPathUpdateTime: number=0;
-	private fleeStartPosition?: Vector3;
 
 	constructor(priority: number=4) {
 		this.priority=priority;
@@ -34,19 +35,19 @@ export class FleeBehavior implements AIBehavior {
 				value: 15,
 				operator: '<',
 				compare: (entity: AIEntity) => {
-					if(!entity.targetId) return false;
-					const target=useAIStore.getState().entities[entity.targetId];
-					if(!target) return false;
-					return entity.position.distanceTo(target.position)<15;
+					const threatPosition=getTargetPosition(entity);
+					if(!threatPosition) return false;
+					return entity.position.distanceTo(threatPosition)<15;
 				},
 			},
 		];
 	}
 
 	public execute(entity: AIEntity): void {
-		const currentTime=Date.now();
-		if(!this.fleeStartPosition) {
-			this.fleeStartPosition=entity.position.clone();
+		const currentTime=getSimulationTime();
+		const state=this.getState(entity);
+		if(!state.fleeStartPosition) {
+			state.fleeStartPosition=entity.position.toArray();
 			EventDispatcher.dispatch('AI_FLEE_START',{
 				entityId: entity.id,
 				position: entity.position,
@@ -54,21 +55,21 @@ export class FleeBehavior implements AIBehavior {
 		}
 
 		// Update escape path periodically
-		if(currentTime-this.lastPathUpdateTime>this.PATH_UPDATE_INTERVAL) {
+		if(state.lastPathUpdateTime===null||currentTime-state.lastPathUpdateTime>this.PATH_UPDATE_INTERVAL) {
 			const safePosition=this.findSafePosition(entity);
 			if(safePosition) {
 				const path=this.pathfindingSystem.findPath(entity.position,safePosition);
 				// If a valid path is found, use it
 				if(path.length>0) {
 					entity.path=path;
-					this.lastPathUpdateTime=currentTime;
+					state.lastPathUpdateTime=currentTime;
 				}
 			}
 		}
 
 		// Check if safety has been reached
-		if(this.hasSafetyBeenReached(entity)) {
-			this.fleeStartPosition=undefined;
+		if(this.hasSafetyBeenReached(entity,state)) {
+			state.fleeStartPosition=null;
 			EventDispatcher.dispatch('AI_FLEE_COMPLETE',{
 				entityId: entity.id,
 				position: entity.position,
@@ -77,22 +78,11 @@ export class FleeBehavior implements AIBehavior {
 	}
 
 	public update(entity: AIEntity,deltaTime: number): void {
+		// Move and turn faster while fleeing
+		steerAlongPath(entity,entity.speed*1.5,deltaTime,8);
 		if(!entity.path?.length) return;
 
 		const nextPosition=entity.path[0];
-		const direction=nextPosition.clone().sub(entity.position).normalize();
-
-		// Move faster while fleeing
-		const fleeSpeed=entity.speed*1.5;
-		entity.position.add(direction.multiplyScalar(fleeSpeed*deltaTime));
-
-		// Update rotation to face movement direction
-		const targetRotation=Math.atan2(direction.x,direction.z);
-		entity.rotation.y=this.lerpAngle(
-			entity.rotation.y,
-			targetRotation,
-			8*deltaTime // Faster rotation while fleeing
-		);
 
 		// Remove reached path points
 		if(entity.position.distanceTo(nextPosition)<0.5) {
@@ -101,12 +91,13 @@ export class FleeBehavior implements AIBehavior {
 	}
 
 	private findSafePosition(entity: AIEntity): Vector3|null {
-		const threatPosition=this.getThreatPosition(entity);
+		const threatPosition=getTargetPosition(entity);
 		if(!threatPosition) return null;
 
 		// Try multiple directions to find a safe position
+		const random=Random.stream(`ai:${entity.id}`);
 		for(let i=0;i<8;i++) {
-			const angle=(i*Math.PI)/4+Math.random()*(Math.PI/4);
+			const angle=(i*Math.PI)/4+random.next()*(Math.PI/4);
 			const testPosition=new Vector3(
 				entity.position.x+Math.cos(angle)*this.SAFE_DISTANCE,
 				entity.position.y,
@@ -122,10 +113,14 @@ export class FleeBehavior implements AIBehavior {
 		return null;
 	}
 
-	private hasSafetyBeenReached(entity: AIEntity): boolean {
-		if(!this.fleeStartPosition) return false;
+	private getState(entity: AIEntity): FleeBehaviorState {
+		return getBehaviorState(entity,'flee',() => ({lastPathUpdateTime: null,fleeStartPosition: null}));
+	}
+
+	private hasSafetyBeenReached(entity: AIEntity,state: FleeBehaviorState): boolean {
+		if(!state.fleeStartPosition) return false;
 
-		const threatPosition=this.getThreatPosition(entity);
+		const threatPosition=getTargetPosition(entity);
 		if(!threatPosition) return true;
 
 		return entity.position.distanceTo(threatPosition)>=this.SAFE_DISTANCE;
@@ -144,17 +139,4 @@ export class FleeBehavior implements AIBehavior {
 
 		return true;
 	}
-
-	private getThreatPosition(entity: AIEntity): Vector3|null {
-		if(!entity.targetId) return null;
-		const target=useAIStore.getState().entities[entity.targetId];
-		if(!target) return null;
-		return target.position.clone();
-	}
-
-	private lerpAngle(start: number,end: number,t: number): number {
-		const diff=end-start;
-		const adjusted=((diff+Math.PI)%(Math.PI*2))-Math.PI;
-		return start+adjusted*t;
-	}
 }
\ No newline at end of file
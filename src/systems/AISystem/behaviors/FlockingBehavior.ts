@@ -1,8 +1,9 @@
 // src/systems/AISystem/behaviors/FlockingBehavior.ts
 
-import {AIBehavior,AIBehaviorType,AIEntity,AICondition} from '../../../types/ai.types';
+import {AIBehavior,AIBehaviorType,AIEntity,AICondition,WeightedSteering} from '../../../types/ai.types';
 import {Vector3} from 'three';
-import {useAIStore} from '../../../stores/aiStore';
+import {getNearbyObstacles,getNeighbors,getSteeringAgent,steerEntity} from '../movement';
+import {align,avoidObstacles,blendSteering,seek,separation} from '../steering/steering';
 
 export class FlockingBehavior implements AIBehavior {
 	public type: AIBehaviorType='flock';
@@ -13,7 +14,7 @@ export class FlockingBehavior implements AIBehavior {
 	private alignmentWeight: number=1.0;
 	private flockRadius: number=10;
 	private separationRadius: number=3;
-	private maxForce: number=0.05;
+	private maxNeighbors: number=7; // Only the nearest few steer each member, however big the flock
 
 	constructor(priority: number=2) {
 		this.priority=priority;
@@ -31,113 +32,26 @@ export class FlockingBehavior implements AIBehavior {
 	}
 
 	public execute(entity: AIEntity): void {
-		const neighbors=this.getNeighbors(entity);
-		if(!neighbors.length) return;
-
-		const cohesion=this.calculateCohesion(entity,neighbors).multiplyScalar(this.cohesionWeight);
-		const separation=this.calculateSeparation(entity,neighbors).multiplyScalar(this.separationWeight);
-		const alignment=this.calculateAlignment(entity,neighbors).multiplyScalar(this.alignmentWeight);
-
-		// Combine forces
-		const flockingForce=new Vector3()
-			.add(cohesion)
-			.add(separation)
-			.add(alignment)
-			.clampLength(0,this.maxForce);
-
-		// Store the desired movement in the path
-		entity.path=[entity.position.clone().add(flockingForce)];
+		// Flocking has no destination to plan; update steers by the neighbors alone
+		entity.path=undefined;
 	}
 
 	public update(entity: AIEntity,deltaTime: number): void {
-		if(!entity.path?.length) return;
-
-		const targetPosition=entity.path[0];
-		const direction=targetPosition.clone().sub(entity.position);
-
-		// Apply movement
-		entity.position.add(direction.multiplyScalar(entity.speed*deltaTime));
-
-		// Update rotation to face movement direction
-		if(direction.lengthSq()>0.001) {
-			const targetRotation=Math.atan2(direction.x,direction.z);
-			entity.rotation.y=this.lerpAngle(entity.rotation.y,targetRotation,5*deltaTime);
-		}
-
-		// Remove reached path points
-		if(entity.position.distanceTo(targetPosition)<0.5) {
-			entity.path.shift();
-		}
-	}
-
-	private getNeighbors(entity: AIEntity): AIEntity[] {
-		const neighbors: AIEntity[]=[];
-		const entities=useAIStore.getState().entities;
-
-		Object.values(entities).forEach((other) => {
-			if(other.id===entity.id) return;
-
-			const distance=entity.position.distanceTo(other.position);
-			if(distance<=this.flockRadius) {
-				neighbors.push(other);
-			}
-		});
-
-		return neighbors;
-	}
-
-	private calculateCohesion(entity: AIEntity,neighbors: AIEntity[]): Vector3 {
-		const center=new Vector3();
-
-		neighbors.forEach((neighbor) => {
-			center.add(neighbor.position);
-		});
-
-		if(neighbors.length>0) {
-			center.divideScalar(neighbors.length).sub(entity.position).normalize();
-		}
-
-		return center;
-	}
-
-	private calculateSeparation(entity: AIEntity,neighbors: AIEntity[]): Vector3 {
-		const separation=new Vector3();
-
-		neighbors.forEach((neighbor) => {
-			const distance=entity.position.distanceTo(neighbor.position);
-			if(distance<this.separationRadius) {
-				const repulsion=entity.position.clone().sub(neighbor.position).normalize().divideScalar(distance);
-				separation.add(repulsion);
-			}
-		});
-
-		if(neighbors.length>0) {
-			separation.normalize();
+		const neighbors=getNeighbors(entity,this.flockRadius,this.maxNeighbors);
+		const agent=getSteeringAgent(entity);
+		const forces: WeightedSteering[]=[{force: avoidObstacles(agent,getNearbyObstacles(entity)),weight: 2}];
+
+		if(neighbors.length) {
+			const center=neighbors
+				.reduce((sum,neighbor) => sum.add(neighbor.position),new Vector3())
+				.divideScalar(neighbors.length);
+			forces.push(
+				{force: seek(agent,center),weight: this.cohesionWeight},
+				{force: separation(agent,neighbors.map(neighbor => neighbor.position),this.separationRadius),weight: this.separationWeight},
+				{force: align(agent,neighbors.map(neighbor => neighbor.velocity??new Vector3())),weight: this.alignmentWeight},
+			);
 		}
 
-		return separation;
-	}
-
-	private calculateAlignment(entity: AIEntity,neighbors: AIEntity[]): Vector3 {
-		const alignment=new Vector3();
-
-		neighbors.forEach((neighbor) => {
-			if(neighbor.path?.length) {
-				const direction=neighbor.path[0].clone().sub(neighbor.position).normalize();
-				alignment.add(direction);
-			}
-		});
-
-		if(neighbors.length>0) {
-			alignment.divideScalar(neighbors.length).normalize();
-		}
-
-		return alignment;
-	}
-
-	private lerpAngle(start: number,end: number,t: number): number {
-		const diff=end-start;
-		const adjusted=((diff+Math.PI)%(Math.PI*2))-Math.PI;
-		return start+adjusted*t;
+		steerEntity(entity,blendSteering(agent,forces),entity.speed,deltaTime);
 	}
-}
\ No newline at end of file
+}
@@ -1,18 +1,19 @@
 // src/systems/AISystem/behaviors/PatrolBehavior.ts
 
-import {AIBehavior,AIBehaviorType,AIEntity,AICondition} from '../../../types/ai.types';
+import {AIBehavior,AIBehaviorType,AIEntity,AICondition,PatrolBehaviorState} from '../../../types/ai.types';
 import {Vector3} from 'three';
 import {PathfindingSystem} from '../../PathfindingSystem/PathfindingSystem';
-import {useAIStore} from '../../../stores/aiStore';
 import {EventDispatcher} from '../../../utils/EventDispatcher';
+import {steerAlongPath} from '../movement';
+import {getBehaviorState} from '../behaviorState';
+import {getTargetPosition} from '../targeting';
 
 export class PatrolBehavior implements AIBehavior {
 	public type: AIBehaviorType='patrol';
 	public priority: number=1; // Lower priority than combat
 
 	private pathfindingSystem: PathfindingSystem;
-	private patrolPoints: Vector3[];
-	private currentPatrolIndex: number=0;
+	private patrolPoints: Vector3[]; // Route for entities without their own patrolPoints
 	private readonly PATROL_RADIUS: number=15;
 
 	constructor(patrolPoints: Vector3[]=[],priority: number=1) {
@@ -34,61 +35,56 @@ export class PatrolBehavior implements AIBehavior {
 				value: 10,
 				operator: '<',
 				compare: (entity: AIEntity) => {
-					if(!entity.targetId) return true; // No target means continue patrolling
-					const target=useAIStore.getState().entities[entity.targetId];
-					if(!target) return true;
-					return entity.position.distanceTo(target.position)>=10;
+					const targetPosition=getTargetPosition(entity);
+					if(!targetPosition) return true; // No target means continue patrolling
+					return entity.position.distanceTo(targetPosition)>=10;
 				},
 			},
 		];
 	}
 
 	public execute(entity: AIEntity): void {
-		if(this.patrolPoints.length===0) return;
+		const patrolPoints=this.getPatrolPoints(entity);
+		if(patrolPoints.length===0) return;
 
-		const targetPoint=this.patrolPoints[this.currentPatrolIndex];
+		const state=this.getState(entity);
+		const targetPoint=patrolPoints[state.patrolIndex%patrolPoints.length];
 		const path=this.pathfindingSystem.findPath(entity.position,targetPoint);
 		if(path.length>0) {
 			entity.path=path;
 		} else {
 			// If no path found, skip to next patrol point
-			this.currentPatrolIndex=(this.currentPatrolIndex+1)%this.patrolPoints.length;
+			state.patrolIndex=(state.patrolIndex+1)%patrolPoints.length;
 			EventDispatcher.dispatch('AI_PATROL_POINT_UNREACHABLE',{
 				entityId: entity.id,
-				patrolIndex: this.currentPatrolIndex,
+				patrolIndex: state.patrolIndex,
 			});
 		}
 	}
 
 	public update(entity: AIEntity,deltaTime: number): void {
+		steerAlongPath(entity,entity.speed,deltaTime);
 		if(!entity.path||entity.path.length===0) return;
 
 		const targetPosition=entity.path[0];
-		const direction=targetPosition.clone().sub(entity.position).normalize();
-
-		// Move towards the patrol point
-		entity.position.add(direction.multiplyScalar(entity.speed*deltaTime));
-
-		// Update rotation to face movement direction
-		if(direction.lengthSq()>0.001) {
-			const targetRotation=Math.atan2(direction.x,direction.z);
-			entity.rotation.y=this.lerpAngle(entity.rotation.y,targetRotation,5*deltaTime);
-		}
 
 		// Remove reached path points
 		if(entity.position.distanceTo(targetPosition)<0.5) {
 			entity.path.shift();
-			this.currentPatrolIndex=(this.currentPatrolIndex+1)%this.patrolPoints.length;
+			const state=this.getState(entity);
+			state.patrolIndex=(state.patrolIndex+1)%Math.max(this.getPatrolPoints(entity).length,1);
 			EventDispatcher.dispatch('AI_PATROL_POINT_REACHED',{
 				entityId: entity.id,
-				patrolIndex: this.currentPatrolIndex,
+				patrolIndex: state.patrolIndex,
 			});
 		}
 	}
 
-	private lerpAngle(start: number,end: number,t: number): number {
-		const diff=end-start;
-		const adjusted=((diff+Math.PI)%(Math.PI*2))-Math.PI;
-		return start+adjusted*t;
+	private getPatrolPoints(entity: AIEntity): Vector3[] {
+		return entity.patrolPoints?.length? entity.patrolPoints:this.patrolPoints;
+	}
+
+	private getState(entity: AIEntity): PatrolBehaviorState {
+		return getBehaviorState(entity,'patrol',() => ({patrolIndex: 0}));
 	}
 }
\ No newline at end of file
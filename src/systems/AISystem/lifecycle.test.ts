@@ -0,0 +1,57 @@
+// src/systems/AISystem/lifecycle.test.ts
+
+import { Vector3 } from 'three';
+import { AISystem } from './AISystem';
+import { GameLoop } from '../GameLoop/GameLoop';
+import { PathfindingSystem } from '../PathfindingSystem/PathfindingSystem';
+import { useAIStore } from '../../stores/aiStore';
+import { EventDispatcher } from '../../utils/EventDispatcher';
+
+// CombatBehavior needs a particle effect the particle store does not have yet; nothing here fights
+jest.mock('./behaviors/CombatBehavior', () => ({
+  CombatBehavior: class {
+    type = 'combat';
+    conditions = [];
+    constructor(public priority: number) {}
+    execute() {}
+    update() {}
+  },
+}));
+
+describe('AISystem lifecycle', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    (PathfindingSystem as any).instance = { findPath: jest.fn(() => []) };
+    (AISystem as any).instance = null;
+    GameLoop.getInstance().setManualStepping(true);
+  });
+
+  afterEach(() => {
+    AISystem.getInstance().cleanup();
+    (PathfindingSystem as any).instance = null;
+    GameLoop.getInstance().cleanup();
+    jest.restoreAllMocks();
+  });
+
+  it('should listen and apply modifiers again when started after a cleanup', () => {
+    const died = jest.fn();
+    const unsubscribe = EventDispatcher.on('ENTITY_DIED', died);
+    AISystem.getInstance().start();
+    AISystem.getInstance().cleanup();
+    expect(useAIStore.getState().modifiers).toEqual({});
+
+    const ai = AISystem.getInstance();
+    ai.start();
+    expect(Object.keys(useAIStore.getState().modifiers).sort()).toEqual(['aggression', 'progression']);
+
+    const id = ai.addEntity({ position: new Vector3(1, 0, 0) });
+    const health = useAIStore.getState().entities[id].health;
+    EventDispatcher.dispatch('ENTITY_DAMAGED', { entityId: id, damage: 10 });
+    expect(useAIStore.getState().entities[id].health).toBe(health - 10);
+
+    EventDispatcher.dispatch('ENTITY_DAMAGED', { entityId: id, damage: health });
+    expect(died).toHaveBeenCalledTimes(1);
+    expect(died.mock.calls[0][0]).toMatchObject({ entityId: id });
+    unsubscribe();
+  });
+});
@@ -0,0 +1,113 @@
+// src/systems/AISystem/movement.ts
+
+import {Sphere,Vector3} from 'three';
+import {AIEntity,SteeringAgent,SteeringObstacle} from '../../types/ai.types';
+import {CharacterController} from '../CharacterControllerSystem/CharacterController';
+import {CharacterControllerSystem} from '../CharacterControllerSystem/CharacterControllerSystem';
+import {useOcclusionStore} from '../../stores/occlusionStore';
+import {applySteering,avoidObstacles,blendSteering,followPath,separation} from './steering/steering';
+import {queryNearestEntities} from './spatial/entityIndex';
+
+const FORCE_PER_SPEED=4; // Default maxForce as a multiple of the steering speed: full speed in a quarter second
+const SEPARATION_RADIUS=1.5;
+const OBSTACLE_RANGE=10;
+
+export const getEntityController=(entity: AIEntity): CharacterController|null => {
+	if(!entity.controllerId) return null;
+	return CharacterControllerSystem.getInstance().getController(entity.controllerId);
+};
+
+/**
+ * Moves an entity along a direction at the given speed. Entities with a character controller walk
+ * through it, so they collide, climb steps and fall; the rest are moved directly.
+ */
+export const moveEntity=(entity: AIEntity,direction: Vector3,speed: number,deltaTime: number): void => {
+	const controller=getEntityController(entity);
+	if(!controller) {
+		entity.position.add(direction.clone().multiplyScalar(speed*deltaTime));
+		return;
+	}
+	controller.setMoveVelocity(direction.clone().multiplyScalar(speed));
+};
+
+/**
+ * Copies a controlled entity's position from its controller's feet and stops it until a behavior moves it again.
+ */
+export const syncEntityController=(entity: AIEntity): void => {
+	const controller=getEntityController(entity);
+	if(!controller) return;
+
+	entity.position.copy(controller.getFootPosition());
+	controller.setMoveVelocity(new Vector3());
+
+	// Steering carries on from how fast the entity actually went, so walls and slopes slow it down
+	const {velocity}=controller.getState();
+	entity.velocity?.set(velocity.x,0,velocity.z);
+};
+
+const lerpAngle=(start: number,end: number,t: number): number => {
+	const fullTurn=Math.PI*2;
+	const diff=((((end-start+Math.PI)%fullTurn)+fullTurn)%fullTurn)-Math.PI;
+	return start+diff*Math.min(t,1);
+};
+
+/**
+ * The entity as a steering agent. The agent's velocity is the entity's own, so steering carries over between updates.
+ */
+export const getSteeringAgent=(entity: AIEntity,maxSpeed: number=entity.speed): SteeringAgent => {
+	if(!entity.velocity) entity.velocity=new Vector3();
+	return {
+		position: entity.position,
+		velocity: entity.velocity,
+		maxSpeed,
+		maxForce: entity.maxForce??maxSpeed*FORCE_PER_SPEED,
+	};
+};
+
+/**
+ * Other living entities within the radius, nearest first, at most maxCount of them.
+ */
+export const getNeighbors=(entity: AIEntity,radius: number,maxCount: number=Infinity): AIEntity[] =>
+	queryNearestEntities(entity.position,maxCount,radius,other => other.id!==entity.id&&other.health>0);
+
+/**
+ * Occluders near the entity as obstacles to steer around, each as the sphere around its bounds.
+ */
+export const getNearbyObstacles=(entity: AIEntity,range: number=OBSTACLE_RANGE): SteeringObstacle[] =>
+	Object.values(useOcclusionStore.getState().occluders)
+		.filter(occluder => occluder.isOccluder&&occluder.id!==entity.id)
+		.map(occluder => occluder.bounds.getBoundingSphere(new Sphere()))
+		.filter(sphere => sphere.center.distanceTo(entity.position)-sphere.radius<range)
+		.map(sphere => ({position: sphere.center,radius: sphere.radius}));
+
+/**
+ * Accelerates an entity by a steering force and moves it at the resulting velocity, turning it to face where it goes.
+ */
+export const steerEntity=(
+	entity: AIEntity,
+	force: Vector3,
+	maxSpeed: number,
+	deltaTime: number,
+	turnRate: number=5
+): void => {
+	const velocity=applySteering(getSteeringAgent(entity,maxSpeed),force,deltaTime);
+	const speed=velocity.length();
+	moveEntity(entity,speed>0? velocity.clone().divideScalar(speed):new Vector3(),speed,deltaTime);
+
+	if(speed>0.05) entity.rotation.y=lerpAngle(entity.rotation.y,Math.atan2(velocity.x,velocity.z),turnRate*deltaTime);
+};
+
+/**
+ * Steers along the entity's path while keeping clear of other entities and obstacles, braking once the path is
+ * used up. Reached waypoints are left for the behavior to drop.
+ */
+export const steerAlongPath=(entity: AIEntity,maxSpeed: number,deltaTime: number,turnRate: number=5): void => {
+	const agent=getSteeringAgent(entity,maxSpeed);
+	const neighbors=getNeighbors(entity,SEPARATION_RADIUS).map(neighbor => neighbor.position);
+	const force=blendSteering(agent,[
+		{force: followPath(agent,entity.path??[]),weight: 1},
+		{force: separation(agent,neighbors,SEPARATION_RADIUS),weight: 1.5},
+		{force: avoidObstacles(agent,getNearbyObstacles(entity)),weight: 2},
+	]);
+	steerEntity(entity,force,maxSpeed,deltaTime,turnRate);
+};
@@ -0,0 +1,167 @@
+// src/systems/AISystem/snapshot.test.ts
+
+import { Vector3 } from 'three';
+import { fromSerializedEntity, toSerializedEntity } from './snapshot';
+import { PatrolBehavior } from './behaviors/PatrolBehavior';
+import { FleeBehavior } from './behaviors/FleeBehavior';
+import { IdleBehavior } from './behaviors/IdleBehavior';
+import { createBehaviorTreeState } from './behaviorTree/BehaviorTree';
+import { GameLoop } from '../GameLoop/GameLoop';
+import { PathfindingSystem } from '../PathfindingSystem/PathfindingSystem';
+import { useAIStore } from '../../stores/aiStore';
+import { useGameLoopStore } from '../../stores/gameLoopStore';
+import { Random } from '../../utils/Random';
+import { AIEntity } from '../../types/ai.types';
+
+const createEntity = (id: string, overrides: Partial<AIEntity> = {}): AIEntity => ({
+  id,
+  position: new Vector3(),
+  rotation: new Vector3(),
+  health: 100,
+  maxHealth: 100,
+  speed: 5,
+  currentBehavior: 'idle',
+  behaviors: [],
+  aggressionLevel: 1,
+  detectionRange: 10,
+  attackRange: 2,
+  lastAttackTime: 0,
+  attackCooldown: 1000,
+  ...overrides,
+});
+
+describe('AI entity state', () => {
+  let findPath: jest.Mock;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    findPath = jest.fn((_from: Vector3, to: Vector3) => [to.clone()]);
+    (PathfindingSystem as any).instance = { findPath };
+    useAIStore.setState({ entities: {} });
+  });
+
+  afterEach(() => {
+    (PathfindingSystem as any).instance = null;
+    GameLoop.getInstance().cleanup();
+    jest.restoreAllMocks();
+  });
+
+  it('should keep each entity\'s progress through a shared behavior apart', () => {
+    const patrol = new PatrolBehavior([new Vector3(0, 0, 0), new Vector3(10, 0, 0)]);
+    const first = createEntity('first');
+    const second = createEntity('second', { patrolPoints: [new Vector3(0, 0, 5), new Vector3(0, 0, -5)] });
+
+    // The first entity reaches its first point and heads for the next; the second has not moved on
+    patrol.execute(first);
+    patrol.update(first, 0.1);
+    patrol.execute(first);
+    patrol.execute(second);
+
+    expect(first.behaviorStates?.patrol).toEqual({ patrolIndex: 1 });
+    expect(first.path![0].toArray()).toEqual([10, 0, 0]);
+    expect(second.behaviorStates?.patrol).toEqual({ patrolIndex: 0 });
+    expect(second.path![0].toArray()).toEqual([0, 0, 5]);
+  });
+
+  it('should time each entity\'s idling from its own random stream', () => {
+    const idle = new IdleBehavior();
+    const idleAlone = () => {
+      Random.setSeed('idle');
+      const alone = createEntity('alone');
+      idle.execute(alone);
+      return alone.behaviorStates!.idle!.nextActionTime;
+    };
+    const expected = idleAlone();
+
+    // Another entity idling first changes nothing for this one
+    Random.setSeed('idle');
+    const alone = createEntity('alone');
+    idle.execute(createEntity('other'));
+    idle.execute(alone);
+
+    expect(alone.behaviorStates!.idle!.nextActionTime).toBe(expected);
+    ['alone', 'other'].forEach(id => Random.removeStream(`ai:${id}`));
+  });
+
+  it('should round-trip entities through JSON with their behavior state', () => {
+    const patrol = new PatrolBehavior();
+    const flee = new FleeBehavior();
+    useAIStore.setState({ entities: { player: createEntity('player', { position: new Vector3(1, 0, 0) }) } });
+    const entity = createEntity('guard', {
+      position: new Vector3(2, 0, 3),
+      behaviors: [patrol, flee],
+      currentBehavior: 'flee',
+      targetId: 'player',
+      patrolPoints: [new Vector3(4, 0, 4)],
+      behaviorTreeId: 'guard-tree',
+      behaviorTreeState: { ...createBehaviorTreeState(), time: 3, nodes: { '0': { child: 1 } } },
+    });
+    flee.execute(entity);
+
+    const saved = JSON.parse(JSON.stringify(toSerializedEntity(entity)));
+    expect(saved.behaviorStates.flee).toEqual({ lastPathUpdateTime: expect.any(Number), fleeStartPosition: [2, 0, 3] });
+
+    const restored = fromSerializedEntity(saved, { patrol, flee });
+    expect(restored.position.toArray()).toEqual([2, 0, 3]);
+    expect(restored.behaviors).toEqual([patrol, flee]);
+    expect(restored.patrolPoints![0].toArray()).toEqual([4, 0, 4]);
+    expect(restored.path!.map(point => point.toArray())).toEqual(entity.path!.map(point => point.toArray()));
+    expect(restored.behaviorStates).toEqual(entity.behaviorStates);
+    expect(restored.behaviorStates).not.toBe(entity.behaviorStates);
+    expect(restored.behaviorTreeState).toEqual(entity.behaviorTreeState);
+
+    // Behaviors with no definition to rebuild from are dropped
+    expect(fromSerializedEntity(saved, { flee }).behaviors).toEqual([flee]);
+  });
+
+  it('should keep timers running on simulation time across a save and restore', () => {
+    const gameLoop = GameLoop.getInstance();
+    gameLoop.setManualStepping(true);
+    useGameLoopStore.getState().setFixedTimeStep(0.1);
+    const flee = new FleeBehavior();
+    useAIStore.setState({ entities: { player: createEntity('player', { position: new Vector3(1, 0, 0) }) } });
+    const entity = createEntity('guard', { targetId: 'player', behaviors: [flee], attackCooldown: 1000 });
+
+    // Ten seconds into the first session the guard attacks and plans its escape
+    gameLoop.stepFixed(100);
+    entity.lastAttackTime = 10000;
+    flee.execute(entity);
+    expect(entity.behaviorStates!.flee!.lastPathUpdateTime).toBeCloseTo(10000);
+
+    gameLoop.stepFixed(2);
+    const savedAt = gameLoop.getFrameInfo().time * 1000;
+    const saved = JSON.parse(JSON.stringify(toSerializedEntity(entity)));
+
+    // Restored at the time it was saved, nothing moves
+    expect(fromSerializedEntity(saved, { flee }, savedAt).behaviorStates).toEqual(entity.behaviorStates);
+
+    // A new session starts its simulation time from zero
+    gameLoop.reset();
+    useGameLoopStore.getState().setFixedTimeStep(0.1);
+    const restored = fromSerializedEntity(saved, { flee }, savedAt);
+    expect(restored.lastAttackTime).toBeCloseTo(-200);
+    expect(restored.behaviorStates!.flee!.lastPathUpdateTime).toBeCloseTo(-200);
+    expect(fromSerializedEntity(saved, { flee }).lastAttackTime).toBe(10000);
+
+    // Half a second between escape paths: not yet, then due
+    findPath.mockClear();
+    gameLoop.stepFixed(2);
+    flee.execute(restored);
+    expect(findPath).not.toHaveBeenCalled();
+    gameLoop.stepFixed(2);
+    flee.execute(restored);
+    expect(findPath).toHaveBeenCalledTimes(1);
+    expect(restored.behaviorStates!.flee!.lastPathUpdateTime).toBeCloseTo(400);
+  });
+
+  it('should plan an escape straight away the first time, whatever the simulation time', () => {
+    const flee = new FleeBehavior();
+    useAIStore.setState({ entities: { player: createEntity('player', { position: new Vector3(1, 0, 0) }) } });
+    const entity = createEntity('guard', { targetId: 'player' });
+
+    flee.execute(entity);
+
+    expect(findPath).toHaveBeenCalledTimes(1);
+    expect(entity.behaviorStates!.flee!.lastPathUpdateTime).toBe(0);
+  });
+});
@@ -0,0 +1,103 @@
+// src/systems/AISystem/snapshot.ts
+
+// Purpose: Converts AI entities to and from the save format. Behaviors are saved by type and rebuilt from their
+// definitions; everything else, including each behavior's per-entity state, is plain data that survives JSON.
+
+import { Vector3 } from 'three';
+import { AIBehavior, AIBehaviorStates, AIBehaviorType, AIEntity } from '../../types/ai.types';
+import { SerializedAIEntity } from '../../types/serialization.types';
+import { getSimulationTime } from './behaviorState';
+
+const toTriplet = (vector: Vector3): [number, number, number] => [vector.x, vector.y, vector.z];
+
+// Deep copy that also drops anything JSON could not carry
+const copyPlainData = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+// Timers are simulation times, which start again from zero every session. Restores move them on by the simulation
+// time since the save; when that is none, as in a replay that restores the loop's time, they come back unchanged.
+const shiftTime = (time: number | null, offset: number): number | null => (time === null ? null : time + offset);
+
+const shiftBehaviorStates = (states: AIBehaviorStates, offset: number): AIBehaviorStates => {
+  const shifted = copyPlainData(states);
+  if (shifted.idle) shifted.idle.nextActionTime += offset;
+  if (shifted.combat) shifted.combat.lastRepositionTime = shiftTime(shifted.combat.lastRepositionTime, offset);
+  if (shifted.flee) shifted.flee.lastPathUpdateTime = shiftTime(shifted.flee.lastPathUpdateTime, offset);
+  return shifted;
+};
+
+export const toSerializedEntity = (entity: AIEntity): SerializedAIEntity => ({
+  id: entity.id,
+  position: toTriplet(entity.position),
+  rotation: toTriplet(entity.rotation),
+  health: entity.health,
+  maxHealth: entity.maxHealth,
+  speed: entity.speed,
+  currentBehavior: entity.currentBehavior,
+  behaviors: entity.behaviors.map(behavior => behavior.type),
+  targetId: entity.targetId,
+  path: entity.path?.map(toTriplet),
+  aggressionLevel: entity.aggressionLevel,
+  detectionRange: entity.detectionRange,
+  attackRange: entity.attackRange,
+  lastAttackTime: entity.lastAttackTime,
+  attackCooldown: entity.attackCooldown,
+  controllerId: entity.controllerId,
+  behaviorTreeId: entity.behaviorTreeId,
+  behaviorTreeState: entity.behaviorTreeState && copyPlainData(entity.behaviorTreeState),
+  behaviorStates: entity.behaviorStates && copyPlainData(entity.behaviorStates),
+  patrolPoints: entity.patrolPoints?.map(toTriplet),
+  perception: entity.perception && { ...entity.perception },
+  perceivedTargets: entity.perceivedTargets && copyPlainData(entity.perceivedTargets),
+  lastKnownTargetPosition: entity.lastKnownTargetPosition && toTriplet(entity.lastKnownTargetPosition),
+  utilityProfileId: entity.utilityProfileId,
+  utilityState: entity.utilityState && copyPlainData(entity.utilityState),
+  ammo: entity.ammo,
+  maxAmmo: entity.maxAmmo,
+  velocity: entity.velocity && toTriplet(entity.velocity),
+  maxForce: entity.maxForce,
+});
+
+/**
+ * Rebuilds an entity, looking its behaviors up by type. Types with no definition are dropped.
+ * @param savedAt Simulation time the entity was saved at. Timers move on by the time since; left out, they stay.
+ */
+export const fromSerializedEntity = (
+  serialized: SerializedAIEntity,
+  definitions: Partial<Record<AIBehaviorType, AIBehavior>>,
+  savedAt?: number
+): AIEntity => {
+  const timeOffset = savedAt === undefined ? 0 : getSimulationTime() - savedAt;
+  return {
+    id: serialized.id,
+    position: new Vector3(...serialized.position),
+    rotation: new Vector3(...serialized.rotation),
+    health: serialized.health,
+    maxHealth: serialized.maxHealth,
+    speed: serialized.speed,
+    currentBehavior: serialized.currentBehavior,
+    behaviors: serialized.behaviors
+      .map(type => definitions[type])
+      .filter((behavior): behavior is AIBehavior => behavior !== undefined),
+    targetId: serialized.targetId,
+    path: serialized.path?.map(point => new Vector3(...point)),
+    aggressionLevel: serialized.aggressionLevel,
+    detectionRange: serialized.detectionRange,
+    attackRange: serialized.attackRange,
+    lastAttackTime: serialized.lastAttackTime + timeOffset,
+    attackCooldown: serialized.attackCooldown,
+    controllerId: serialized.controllerId,
+    behaviorTreeId: serialized.behaviorTreeId,
+    behaviorTreeState: serialized.behaviorTreeState && copyPlainData(serialized.behaviorTreeState),
+    behaviorStates: serialized.behaviorStates && shiftBehaviorStates(serialized.behaviorStates, timeOffset),
+    patrolPoints: serialized.patrolPoints?.map(point => new Vector3(...point)),
+    perception: serialized.perception && { ...serialized.perception },
+    perceivedTargets: serialized.perceivedTargets && copyPlainData(serialized.perceivedTargets),
+    lastKnownTargetPosition: serialized.lastKnownTargetPosition && new Vector3(...serialized.lastKnownTargetPosition),
+    utilityProfileId: serialized.utilityProfileId,
+    utilityState: serialized.utilityState && copyPlainData(serialized.utilityState),
+    ammo: serialized.ammo,
+    maxAmmo: serialized.maxAmmo,
+    velocity: serialized.velocity && new Vector3(...serialized.velocity),
+    maxForce: serialized.maxForce,
+  };
+};
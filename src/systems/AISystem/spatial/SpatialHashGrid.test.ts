@@ -0,0 +1,116 @@
+// src/systems/AISystem/spatial/SpatialHashGrid.test.ts
+
+import { Frustum, Matrix4, PerspectiveCamera, Vector3 } from 'three';
+import { SpatialHashGrid } from './SpatialHashGrid';
+import { queryEntitiesInFrustum, queryEntitiesInRadius, queryNearestEntities, updateIndexedEntity } from './entityIndex';
+import { useAIStore } from '../../../stores/aiStore';
+import { RandomStream } from '../../../utils/Random';
+import { AIEntity } from '../../../types/ai.types';
+
+const createEntity = (id: string, position: Vector3, overrides: Partial<AIEntity> = {}): AIEntity => ({
+  id,
+  position,
+  rotation: new Vector3(),
+  health: 100,
+  maxHealth: 100,
+  speed: 5,
+  currentBehavior: 'idle',
+  behaviors: [],
+  aggressionLevel: 1,
+  detectionRange: 10,
+  attackRange: 2,
+  lastAttackTime: 0,
+  attackCooldown: 1000,
+  ...overrides,
+});
+
+// A camera at the origin looking down -z, 10m deep
+const createFrustum = (): Frustum => {
+  const camera = new PerspectiveCamera(90, 1, 0.1, 10);
+  camera.updateMatrixWorld();
+  return new Frustum().setFromProjectionMatrix(
+    new Matrix4().multiplyMatrices(camera.projectionMatrix, camera.matrixWorldInverse)
+  );
+};
+
+describe('SpatialHashGrid', () => {
+  it('should find entries within a radius as they move between cells', () => {
+    const grid = new SpatialHashGrid(2);
+    grid.update('a', new Vector3(1, 0, 1));
+    grid.update('b', new Vector3(3.5, 0, 0));
+    grid.update('c', new Vector3(-6, 0, 0));
+
+    expect(grid.queryRadius(new Vector3(), 3).sort()).toEqual(['a']);
+    expect(grid.queryRadius(new Vector3(), 3.5).sort()).toEqual(['a', 'b']);
+    expect(grid.queryRadius(new Vector3(), Infinity, id => id !== 'a').sort()).toEqual(['b', 'c']);
+
+    grid.update('c', new Vector3(-1, 0, 0));
+    grid.remove('a');
+    expect(grid.queryRadius(new Vector3(), 3).sort()).toEqual(['c']);
+    expect(grid.size).toBe(2);
+    expect(grid.getIds().sort()).toEqual(['b', 'c']);
+    expect(() => new SpatialHashGrid(0)).toThrow('SpatialHashGrid: cellSize must be greater than 0');
+  });
+
+  it('should find the nearest entries the same as checking every one', () => {
+    const grid = new SpatialHashGrid(4);
+    const random = new RandomStream(7);
+    const positions = new Map<string, Vector3>();
+    for (let i = 0; i < 200; i++) {
+      const position = new Vector3(random.range(-50, 50), 0, random.range(-50, 50));
+      positions.set(`entry-${i}`, position);
+      grid.update(`entry-${i}`, position);
+    }
+
+    const nearestByBruteForce = (center: Vector3, count: number, maxDistance = Infinity) =>
+      Array.from(positions.entries())
+        .filter(([, position]) => position.distanceTo(center) <= maxDistance)
+        .sort(([, a], [, b]) => a.distanceTo(center) - b.distanceTo(center))
+        .slice(0, count)
+        .map(([id]) => id);
+
+    [new Vector3(), new Vector3(48, 0, -48), new Vector3(200, 0, 0)].forEach(center => {
+      expect(grid.queryNearest(center, 5)).toEqual(nearestByBruteForce(center, 5));
+      expect(grid.queryNearest(center, 300, 20)).toEqual(nearestByBruteForce(center, 300, 20));
+    });
+    expect(grid.queryNearest(new Vector3(), 0)).toEqual([]);
+    expect(grid.queryNearest(new Vector3(), 1, Infinity, id => id !== 'entry-0')).not.toContain('entry-0');
+  });
+
+  it('should find entries inside a frustum', () => {
+    const grid = new SpatialHashGrid(2);
+    grid.update('ahead', new Vector3(0, 0, -5));
+    grid.update('aside', new Vector3(8, 0, -5));
+    grid.update('behind', new Vector3(0, 0, 5));
+    grid.update('beyond', new Vector3(0, 0, -15));
+    grid.update('above', new Vector3(1, 3, -5));
+
+    expect(grid.queryFrustum(createFrustum()).sort()).toEqual(['above', 'ahead']);
+  });
+
+  describe('entity index', () => {
+    afterEach(() => {
+      useAIStore.setState({ entities: {} });
+    });
+
+    it('should follow the store and entities moved in place', () => {
+      const guard = createEntity('guard', new Vector3());
+      const scout = createEntity('scout', new Vector3(3, 0, 0));
+      const far = createEntity('far', new Vector3(30, 0, 0));
+      useAIStore.setState({ entities: { guard, scout, far } });
+
+      expect(queryNearestEntities(guard.position, 2)).toEqual([guard, scout]);
+      expect(queryEntitiesInRadius(guard.position, 5, entity => entity.id !== 'guard')).toEqual([scout]);
+
+      // Moving in place goes unseen until the entity is updated in the index
+      far.position.set(0, 0, -4);
+      expect(queryEntitiesInFrustum(createFrustum())).toEqual([]);
+      updateIndexedEntity(far);
+      expect(queryEntitiesInFrustum(createFrustum())).toEqual([far]);
+
+      useAIStore.getState().removeEntity('scout');
+      updateIndexedEntity(scout);
+      expect(queryEntitiesInRadius(guard.position, 5).map(entity => entity.id).sort()).toEqual(['far', 'guard']);
+    });
+  });
+});
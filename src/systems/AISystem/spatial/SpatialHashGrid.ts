@@ -0,0 +1,214 @@
+// src/systems/AISystem/spatial/SpatialHashGrid.ts
+
+// Purpose: Uniform grid for finding things near a point without checking every one. The grid divides the ground
+// plane into square columns of cellSize and keeps each entry in the column it stands in, so moving within a column
+// only copies the position. Distances are still measured in 3D.
+
+import {Box3,Frustum,Vector3} from 'three';
+
+interface GridCell {
+	x: number;
+	z: number;
+	ids: Set<string>;
+	bounds: Box3; // The column, as high as its entries reach. Grows but never shrinks, so it may be loose
+}
+
+interface GridEntry {
+	position: Vector3;
+	cellKey: string;
+}
+
+type IdFilter=(id: string) => boolean;
+
+export class SpatialHashGrid {
+	public readonly cellSize: number;
+	private cells: Map<string,GridCell>=new Map();
+	private entries: Map<string,GridEntry>=new Map();
+
+	constructor(cellSize: number=5) {
+		if(!(cellSize>0)) throw new Error('SpatialHashGrid: cellSize must be greater than 0');
+		this.cellSize=cellSize;
+	}
+
+	public get size(): number {
+		return this.entries.size;
+	}
+
+	public has(id: string): boolean {
+		return this.entries.has(id);
+	}
+
+	public getIds(): string[] {
+		return Array.from(this.entries.keys());
+	}
+
+	/**
+	 * Adds an entry or moves it to a new position. The position is copied.
+	 */
+	public update(id: string,position: Vector3): void {
+		const x=this.toCell(position.x);
+		const z=this.toCell(position.z);
+		const cellKey=this.getCellKey(x,z);
+		const entry=this.entries.get(id);
+
+		if(entry) {
+			entry.position.copy(position);
+			if(entry.cellKey===cellKey) {
+				this.cells.get(cellKey)!.bounds.expandByPoint(position);
+				return;
+			}
+			this.removeFromCell(id,entry.cellKey);
+			entry.cellKey=cellKey;
+		} else {
+			this.entries.set(id,{position: position.clone(),cellKey});
+		}
+
+		let cell=this.cells.get(cellKey);
+		if(!cell) {
+			cell={
+				x,
+				z,
+				ids: new Set(),
+				bounds: new Box3(
+					new Vector3(x*this.cellSize,position.y,z*this.cellSize),
+					new Vector3((x+1)*this.cellSize,position.y,(z+1)*this.cellSize)
+				),
+			};
+			this.cells.set(cellKey,cell);
+		}
+		cell.ids.add(id);
+		cell.bounds.expandByPoint(position);
+	}
+
+	public remove(id: string): void {
+		const entry=this.entries.get(id);
+		if(!entry) return;
+		this.removeFromCell(id,entry.cellKey);
+		this.entries.delete(id);
+	}
+
+	public clear(): void {
+		this.cells.clear();
+		this.entries.clear();
+	}
+
+	/**
+	 * Entries within the radius of the center, in no particular order.
+	 */
+	public queryRadius(center: Vector3,radius: number,filter?: IdFilter): string[] {
+		const found: string[]=[];
+		if(!(radius>=0)) return found;
+
+		const radiusSq=radius*radius;
+		const collect=(cell: GridCell|undefined) => cell?.ids.forEach(id => {
+			if(this.entries.get(id)!.position.distanceToSquared(center)<=radiusSq&&(!filter||filter(id))) found.push(id);
+		});
+
+		const minX=this.toCell(center.x-radius);
+		const maxX=this.toCell(center.x+radius);
+		const minZ=this.toCell(center.z-radius);
+		const maxZ=this.toCell(center.z+radius);
+		// A radius wider than the occupied grid is cheaper to answer from the cells that exist
+		if((maxX-minX+1)*(maxZ-minZ+1)>this.cells.size) {
+			this.cells.forEach(cell => {
+				if(cell.x>=minX&&cell.x<=maxX&&cell.z>=minZ&&cell.z<=maxZ) collect(cell);
+			});
+			return found;
+		}
+
+		for(let x=minX;x<=maxX;x++) {
+			for(let z=minZ;z<=maxZ;z++) collect(this.cells.get(this.getCellKey(x,z)));
+		}
+		return found;
+	}
+
+	/**
+	 * Up to count entries nearest the center, nearest first, no further away than maxDistance.
+	 * Searches outwards ring by ring and stops once no unsearched cell could hold anything nearer.
+	 */
+	public queryNearest(center: Vector3,count: number,maxDistance: number=Infinity,filter?: IdFilter): string[] {
+		const found: Array<{id: string; distanceSq: number}>=[];
+		const maxDistanceSq=maxDistance*maxDistance;
+		const x=this.toCell(center.x);
+		const z=this.toCell(center.z);
+		let searched=0;
+
+		const collect=(cell: GridCell|undefined) => {
+			if(!cell) return;
+			searched+=cell.ids.size;
+			cell.ids.forEach(id => {
+				const distanceSq=this.entries.get(id)!.position.distanceToSquared(center);
+				if(distanceSq<=maxDistanceSq&&(!filter||filter(id))) found.push({id,distanceSq});
+			});
+		};
+		const byDistance=(a: {distanceSq: number},b: {distanceSq: number}) => a.distanceSq-b.distanceSq;
+
+		for(let ring=0;count>0&&searched<this.entries.size;ring++) {
+			// Rings with more cells than the grid holds: check the occupied cells not yet searched instead
+			if(ring*8>this.cells.size) {
+				this.cells.forEach(cell => {
+					if(Math.max(Math.abs(cell.x-x),Math.abs(cell.z-z))>=ring) collect(cell);
+				});
+				break;
+			}
+			this.forEachCellInRing(x,z,ring,collect);
+
+			// Everything outside the rings searched so far is further than this
+			const searchedReach=ring*this.cellSize;
+			if(searchedReach>=maxDistance) break;
+			if(found.length>=count) {
+				found.sort(byDistance);
+				if(found[count-1].distanceSq<=searchedReach*searchedReach) break;
+			}
+		}
+
+		return found
+			.sort(byDistance)
+			.slice(0,Math.max(count,0))
+			.map(({id}) => id);
+	}
+
+	/**
+	 * Entries inside the frustum, in no particular order. Columns outside it are skipped whole.
+	 */
+	public queryFrustum(frustum: Frustum,filter?: IdFilter): string[] {
+		const found: string[]=[];
+		this.cells.forEach(cell => {
+			if(!frustum.intersectsBox(cell.bounds)) return;
+			cell.ids.forEach(id => {
+				if(frustum.containsPoint(this.entries.get(id)!.position)&&(!filter||filter(id))) found.push(id);
+			});
+		});
+		return found;
+	}
+
+	private forEachCellInRing(x: number,z: number,ring: number,callback: (cell: GridCell|undefined) => void): void {
+		if(ring===0) {
+			callback(this.cells.get(this.getCellKey(x,z)));
+			return;
+		}
+		for(let i=-ring;i<=ring;i++) {
+			callback(this.cells.get(this.getCellKey(x+i,z-ring)));
+			callback(this.cells.get(this.getCellKey(x+i,z+ring)));
+		}
+		for(let i=-ring+1;i<ring;i++) {
+			callback(this.cells.get(this.getCellKey(x-ring,z+i)));
+			callback(this.cells.get(this.getCellKey(x+ring,z+i)));
+		}
+	}
+
+	private removeFromCell(id: string,cellKey: string): void {
+		const cell=this.cells.get(cellKey);
+		if(!cell) return;
+		cell.ids.delete(id);
+		if(cell.ids.size===0) this.cells.delete(cellKey);
+	}
+
+	private toCell(coordinate: number): number {
+		return Math.floor(coordinate/this.cellSize);
+	}
+
+	private getCellKey(x: number,z: number): string {
+		return `${x},${z}`;
+	}
+}
@@ -0,0 +1,75 @@
+// src/systems/AISystem/spatial/entityIndex.ts
+
+// Purpose: One spatial index of every AI entity, shared by behaviors, utility inputs and perception.
+// Whenever the store's entities change, the next query catches up on arrivals, departures and positions.
+// Between store changes, the AI system moves each entity in the index as soon as it has updated it.
+
+import {Frustum,Vector3} from 'three';
+import {useAIStore} from '../../../stores/aiStore';
+import {AIEntity} from '../../../types/ai.types';
+import {SpatialHashGrid} from './SpatialHashGrid';
+
+const CELL_SIZE=5;
+
+const grid=new SpatialHashGrid(CELL_SIZE);
+let indexedEntities: Record<string,AIEntity>|null=null;
+
+const syncWithStore=(): Record<string,AIEntity> => {
+	const entities=useAIStore.getState().entities;
+	if(entities===indexedEntities) return entities;
+
+	grid.getIds().forEach(id => {
+		if(!entities[id]) grid.remove(id);
+	});
+	Object.values(entities).forEach(entity => grid.update(entity.id,entity.position));
+	indexedEntities=entities;
+	return entities;
+};
+
+const toEntities=(entities: Record<string,AIEntity>,ids: string[]): AIEntity[] =>
+	ids.map(id => entities[id]).filter((entity): entity is AIEntity => entity!==undefined);
+
+const toIdFilter=(entities: Record<string,AIEntity>,filter?: (entity: AIEntity) => boolean) =>
+	filter&&((id: string) => entities[id]!==undefined&&filter(entities[id]));
+
+/**
+ * Moves an entity to where it is now. Call after moving an entity in place, for queries before the store next changes.
+ */
+export const updateIndexedEntity=(entity: AIEntity): void => {
+	// Entities removed from the store stay out, even if an update still holds them
+	if(syncWithStore()[entity.id]) grid.update(entity.id,entity.position);
+};
+
+/**
+ * Entities within the radius of the position, in no particular order.
+ */
+export const queryEntitiesInRadius=(
+	position: Vector3,
+	radius: number,
+	filter?: (entity: AIEntity) => boolean
+): AIEntity[] => {
+	const entities=syncWithStore();
+	return toEntities(entities,grid.queryRadius(position,radius,toIdFilter(entities,filter)));
+};
+
+/**
+ * Up to count entities nearest the position, nearest first. The filter applies before the count,
+ * so filtered-out entities do not use up places.
+ */
+export const queryNearestEntities=(
+	position: Vector3,
+	count: number,
+	maxDistance: number=Infinity,
+	filter?: (entity: AIEntity) => boolean
+): AIEntity[] => {
+	const entities=syncWithStore();
+	return toEntities(entities,grid.queryNearest(position,count,maxDistance,toIdFilter(entities,filter)));
+};
+
+/**
+ * Entities standing inside the frustum, e.g. a camera's or a view cone's.
+ */
+export const queryEntitiesInFrustum=(frustum: Frustum,filter?: (entity: AIEntity) => boolean): AIEntity[] => {
+	const entities=syncWithStore();
+	return toEntities(entities,grid.queryFrustum(frustum,toIdFilter(entities,filter)));
+};
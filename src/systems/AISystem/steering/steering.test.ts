@@ -0,0 +1,187 @@
+// src/systems/AISystem/steering/steering.test.ts
+
+import { Vector3 } from 'three';
+import {
+  align,
+  applySteering,
+  arrive,
+  avoidObstacles,
+  blendSteering,
+  evade,
+  flee,
+  followPath,
+  followWall,
+  pursue,
+  seek,
+  separation,
+  wander,
+} from './steering';
+import { PatrolBehavior } from '../behaviors/PatrolBehavior';
+import { PathfindingSystem } from '../../PathfindingSystem/PathfindingSystem';
+import { useAIStore } from '../../../stores/aiStore';
+import { useOcclusionStore } from '../../../stores/occlusionStore';
+import { RandomStream } from '../../../utils/Random';
+import { AIEntity, SteeringAgent } from '../../../types/ai.types';
+
+const createAgent = (overrides: Partial<SteeringAgent> = {}): SteeringAgent => ({
+  position: new Vector3(),
+  velocity: new Vector3(),
+  maxSpeed: 5,
+  maxForce: 100,
+  ...overrides,
+});
+
+const expectVector = (vector: Vector3, expected: [number, number, number]) => {
+  vector.toArray().forEach((component, i) => expect(component).toBeCloseTo(expected[i]));
+};
+
+// Steering asks for the change in velocity it wants within a tenth of a second
+describe('steering', () => {
+  it('should seek, flee and arrive on the ground plane', () => {
+    const agent = createAgent({ velocity: new Vector3(0, 0, 1) });
+
+    expectVector(seek(agent, new Vector3(10, 3, 0)), [50, 0, -10]);
+    expectVector(flee(agent, new Vector3(1, 0, 0)), [-50, 0, -10]);
+    expectVector(flee(agent, new Vector3(1, 0, 0), 0.5), [0, 0, 0]);
+    expectVector(arrive(agent, new Vector3(1, 0, 0)), [25, 0, -10]);
+    // Standing on the target means braking
+    expectVector(arrive(agent, new Vector3()), [0, 0, -10]);
+    expectVector(seek(createAgent({ maxForce: 10 }), new Vector3(10, 0, 0)), [10, 0, 0]);
+  });
+
+  it('should pursue and evade where a moving target is headed', () => {
+    const agent = createAgent();
+    const diagonal = 50 / Math.SQRT2;
+
+    // Two seconds away at full speed, by when the target has moved 10m along z
+    expectVector(pursue(agent, new Vector3(10, 0, 0), new Vector3(0, 0, 5)), [diagonal, 0, diagonal]);
+    expectVector(pursue(agent, new Vector3(10, 0, 0), new Vector3(0, 0, 5), 0), [50, 0, 0]);
+    expectVector(evade(agent, new Vector3(10, 0, 0), new Vector3(0, 0, 5)), [-diagonal, 0, -diagonal]);
+    expectVector(evade(agent, new Vector3(10, 0, 0), new Vector3(0, 0, 5), 5), [0, 0, 0]);
+  });
+
+  it('should follow a path and brake at its end', () => {
+    const agent = createAgent({ velocity: new Vector3(2, 0, 0) });
+
+    expectVector(followPath(agent, [new Vector3(0, 0, 10), new Vector3(10, 0, 10)]), [-20, 0, 50]);
+    expectVector(followPath(agent, [new Vector3(1, 0, 0)]), [5, 0, 0]);
+    expectVector(followPath(agent, []), [-20, 0, 0]);
+  });
+
+  it('should wander by jittering a point ahead of the agent', () => {
+    const agent = createAgent({ velocity: new Vector3(0, 0, 1) });
+    const state = { angle: 0 };
+    const random = { range: () => 1 } as unknown as RandomStream;
+
+    const force = wander(agent, state, random, { distance: 2, radius: 1, jitter: 0.5 });
+
+    expect(state.angle).toBeCloseTo(0.5);
+    const target = new Vector3(Math.sin(0.5), 0, 2 + Math.cos(0.5));
+    expectVector(force, target.setLength(5).sub(agent.velocity).multiplyScalar(10).toArray() as [number, number, number]);
+  });
+
+  it('should steer around obstacles ahead and alongside walls', () => {
+    const agent = createAgent({ velocity: new Vector3(0, 0, 5) });
+
+    // Range is a meter plus a second of travel; the obstacle is 3m ahead, slightly to the right
+    const push = avoidObstacles(agent, [{ position: new Vector3(0.3, 0, 3), radius: 1 }]);
+    expectVector(push, [-100 * (1 - 3 / 6), 0, 0]);
+    expectVector(avoidObstacles(agent, [{ position: new Vector3(0, 0, -3), radius: 1 }]), [0, 0, 0]);
+    expectVector(avoidObstacles(agent, [{ position: new Vector3(4, 0, 3), radius: 1 }]), [0, 0, 0]);
+    expectVector(avoidObstacles(createAgent(), [{ position: new Vector3(0, 0, 1), radius: 1 }]), [0, 0, 0]);
+
+    // Heading along +x beside a wall at z = 2: aim a meter off the wall and a meter further on
+    const walker = createAgent({ velocity: new Vector3(1, 0, 0) });
+    const wall = { start: new Vector3(10, 0, 2), end: new Vector3(-10, 0, 2) };
+    const expected = new Vector3(1, 0, 1).setLength(5).sub(walker.velocity).multiplyScalar(10);
+    expectVector(followWall(walker, [wall]), expected.toArray() as [number, number, number]);
+    expectVector(followWall(walker, [wall], 1, 1), [0, 0, 0]);
+  });
+
+  it('should keep apart from neighbors and match their heading', () => {
+    const agent = createAgent();
+
+    expectVector(separation(agent, [new Vector3(1, 0, 0), new Vector3(0, 0, 5)], 2), [-50, 0, 0]);
+    expectVector(separation(agent, [new Vector3(-0.1, 0, 0), new Vector3(0.1, 0, 0)], 2), [0, 0, 0]);
+    expectVector(align(agent, [new Vector3(2, 0, 0), new Vector3(0, 0, 2)]), [10, 0, 10]);
+  });
+
+  it('should blend forces by weight within the force and speed limits', () => {
+    const agent = createAgent({ maxForce: 10 });
+    const blended = blendSteering(agent, [
+      { force: new Vector3(8, 0, 0), weight: 1 },
+      { force: new Vector3(0, 0, 4), weight: 2 },
+    ]);
+    expect(blended.length()).toBeCloseTo(10);
+    expect(blended.x).toBeCloseTo(blended.z);
+
+    expectVector(applySteering(agent, new Vector3(100, 0, 0), 0.1), [1, 0, 0]);
+    for (let i = 0; i < 10; i++) applySteering(agent, new Vector3(100, 0, 0), 0.1);
+    expectVector(agent.velocity, [5, 0, 0]);
+  });
+
+  describe('in behaviors', () => {
+    const createEntity = (id: string, overrides: Partial<AIEntity> = {}): AIEntity => ({
+      id,
+      position: new Vector3(),
+      rotation: new Vector3(),
+      health: 100,
+      maxHealth: 100,
+      speed: 5,
+      currentBehavior: 'patrol',
+      behaviors: [],
+      aggressionLevel: 1,
+      detectionRange: 10,
+      attackRange: 2,
+      lastAttackTime: 0,
+      attackCooldown: 1000,
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      (PathfindingSystem as any).instance = { findPath: jest.fn((_from: Vector3, to: Vector3) => [to.clone()]) };
+      useOcclusionStore.setState({ occluders: {} });
+    });
+
+    afterEach(() => {
+      (PathfindingSystem as any).instance = null;
+      useAIStore.setState({ entities: {} });
+    });
+
+    it('should speed up and slow down smoothly instead of jumping to full speed', () => {
+      const patrol = new PatrolBehavior([new Vector3(10, 0, 0)]);
+      const entity = createEntity('guard');
+      useAIStore.setState({ entities: { guard: entity } });
+
+      patrol.execute(entity);
+      patrol.update(entity, 0.1);
+      // A quarter second to full speed
+      expectVector(entity.velocity!, [2, 0, 0]);
+      expect(entity.position.x).toBeCloseTo(0.2);
+
+      patrol.update(entity, 0.1);
+      patrol.update(entity, 0.1);
+      expectVector(entity.velocity!, [5, 0, 0]);
+
+      // Slows into the patrol point, then brakes to a stop once it is dropped from the path
+      for (let i = 0; i < 40; i++) patrol.update(entity, 0.1);
+      expect(entity.path).toEqual([]);
+      expect(entity.velocity!.length()).toBeCloseTo(0);
+      expect(entity.position.x).toBeGreaterThan(9.5);
+      expect(entity.position.x).toBeLessThan(10.5);
+    });
+
+    it('should keep entities from walking into each other', () => {
+      const patrol = new PatrolBehavior();
+      const entity = createEntity('guard', { patrolPoints: [new Vector3(0, 0, 10)] });
+      const other = createEntity('other', { position: new Vector3(0.5, 0, 0) });
+      useAIStore.setState({ entities: { guard: entity, other } });
+
+      patrol.execute(entity);
+      patrol.update(entity, 0.1);
+
+      expect(entity.velocity!.x).toBeLessThan(0);
+      expect(entity.velocity!.z).toBeGreaterThan(0);
+    });
+  });
+});
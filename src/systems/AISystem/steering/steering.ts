@@ -0,0 +1,200 @@
+// src/systems/AISystem/steering/steering.ts
+
+// Purpose: Steering forces for AI locomotion. Each force is the change in velocity per second an agent wants, at most
+// its maxForce; blendSteering weighs several together and applySteering turns the result into a new velocity.
+// Everything happens on the ground plane, so agents never steer up or down.
+
+import {Line3,Vector3} from 'three';
+import {RandomStream} from '../../../utils/Random';
+import {SteeringAgent,SteeringObstacle,SteeringWall,WanderState,WeightedSteering} from '../../../types/ai.types';
+
+const EPSILON=1e-6;
+const RESPONSE_TIME=0.1; // Seconds in which steering tries to reach the velocity it wants, if maxForce allows
+
+const flatten=(vector: Vector3): Vector3 => {
+	vector.y=0;
+	return vector;
+};
+
+// Force that turns the agent's velocity towards the desired one
+const steerTowards=(agent: SteeringAgent,desired: Vector3): Vector3 =>
+	flatten(desired.clone().sub(agent.velocity)).divideScalar(RESPONSE_TIME).clampLength(0,agent.maxForce);
+
+const getHeading=(agent: SteeringAgent): Vector3 => {
+	const heading=flatten(agent.velocity.clone());
+	return heading.lengthSq()>EPSILON? heading.normalize():new Vector3(0,0,1);
+};
+
+// Where something moving at a constant velocity will be by the time the agent could get there
+const predictPosition=(agent: SteeringAgent,position: Vector3,velocity: Vector3,maxPrediction: number): Vector3 => {
+	const time=Math.min(agent.position.distanceTo(position)/Math.max(agent.maxSpeed,EPSILON),maxPrediction);
+	return position.clone().addScaledVector(velocity,time);
+};
+
+export const seek=(agent: SteeringAgent,target: Vector3): Vector3 =>
+	steerTowards(agent,flatten(target.clone().sub(agent.position)).setLength(agent.maxSpeed));
+
+/**
+ * Runs from the threat, or does nothing once it is further away than panicDistance.
+ */
+export const flee=(agent: SteeringAgent,threat: Vector3,panicDistance: number=Infinity): Vector3 => {
+	const away=flatten(agent.position.clone().sub(threat));
+	if(away.length()>panicDistance) return new Vector3();
+	return steerTowards(agent,away.setLength(agent.maxSpeed));
+};
+
+/**
+ * Seeks the target but slows down inside slowingRadius so the agent stops on it.
+ */
+export const arrive=(agent: SteeringAgent,target: Vector3,slowingRadius: number=2): Vector3 => {
+	const offset=flatten(target.clone().sub(agent.position));
+	const distance=offset.length();
+	const speed=distance<slowingRadius? agent.maxSpeed*(distance/slowingRadius):agent.maxSpeed;
+	return steerTowards(agent,offset.setLength(speed));
+};
+
+/**
+ * Seeks where a moving target is headed, looking at most maxPrediction seconds ahead.
+ */
+export const pursue=(
+	agent: SteeringAgent,
+	targetPosition: Vector3,
+	targetVelocity: Vector3,
+	maxPrediction: number=2
+): Vector3 => seek(agent,predictPosition(agent,targetPosition,targetVelocity,maxPrediction));
+
+export const evade=(
+	agent: SteeringAgent,
+	threatPosition: Vector3,
+	threatVelocity: Vector3,
+	panicDistance: number=Infinity,
+	maxPrediction: number=2
+): Vector3 => {
+	if(agent.position.distanceTo(threatPosition)>panicDistance) return new Vector3();
+	return flee(agent,predictPosition(agent,threatPosition,threatVelocity,maxPrediction));
+};
+
+/**
+ * Drifts about by seeking a point that jitters around a circle ahead of the agent. Keep the state between calls.
+ * @param options distance: from the agent to the circle; radius: of the circle; jitter: largest turn per call in radians.
+ */
+export const wander=(
+	agent: SteeringAgent,
+	state: WanderState,
+	random: RandomStream,
+	options: {distance?: number; radius?: number; jitter?: number}={}
+): Vector3 => {
+	state.angle+=random.range(-1,1)*(options.jitter??0.5);
+	const target=agent.position.clone()
+		.addScaledVector(getHeading(agent),options.distance??2)
+		.add(new Vector3(Math.sin(state.angle),0,Math.cos(state.angle)).multiplyScalar(options.radius??1));
+	return seek(agent,target);
+};
+
+/**
+ * Seeks each waypoint in turn and arrives at the last. Callers drop waypoints as they reach them;
+ * with none left the agent brakes to a stop.
+ */
+export const followPath=(agent: SteeringAgent,path: Vector3[],slowingRadius: number=2): Vector3 => {
+	if(path.length===0) return steerTowards(agent,new Vector3());
+	return path.length===1? arrive(agent,path[0],slowingRadius):seek(agent,path[0]);
+};
+
+/**
+ * Pushes sideways off the nearest obstacle in a corridor ahead of the agent, harder the closer it is.
+ * The corridor is as wide as the agent and reaches lookAheadTime seconds of travel plus a meter.
+ */
+export const avoidObstacles=(
+	agent: SteeringAgent,
+	obstacles: SteeringObstacle[],
+	options: {agentRadius?: number; lookAheadTime?: number}={}
+): Vector3 => {
+	const speed=flatten(agent.velocity.clone()).length();
+	if(speed<EPSILON) return new Vector3();
+
+	const heading=getHeading(agent);
+	const range=1+speed*(options.lookAheadTime??1);
+	let nearestAhead=Infinity;
+	let push: Vector3|null=null;
+
+	for(const obstacle of obstacles) {
+		const offset=flatten(obstacle.position.clone().sub(agent.position));
+		const ahead=offset.dot(heading);
+		if(ahead<0||ahead>range||ahead>=nearestAhead) continue;
+
+		const lateral=offset.addScaledVector(heading,-ahead);
+		if(lateral.length()>=obstacle.radius+(options.agentRadius??0.5)) continue;
+
+		nearestAhead=ahead;
+		// Dead ahead, either side will do
+		const away=lateral.lengthSq()>EPSILON? lateral.negate().normalize():new Vector3(heading.z,0,-heading.x);
+		push=away.multiplyScalar(agent.maxForce*(1-ahead/range));
+	}
+
+	return push??new Vector3();
+};
+
+/**
+ * Runs alongside the nearest wall within range, offset from it, in whichever direction along it the agent is heading.
+ */
+export const followWall=(agent: SteeringAgent,walls: SteeringWall[],offset: number=1,range: number=5): Vector3 => {
+	const position=flatten(agent.position.clone());
+	let nearest: {wall: SteeringWall; point: Vector3; distance: number}|null=null;
+
+	for(const wall of walls) {
+		const line=new Line3(flatten(wall.start.clone()),flatten(wall.end.clone()));
+		const point=line.closestPointToPoint(position,true,new Vector3());
+		const distance=point.distanceTo(position);
+		if(distance<=range&&(!nearest||distance<nearest.distance)) nearest={wall,point,distance};
+	}
+	if(!nearest) return new Vector3();
+
+	const {wall,point,distance}=nearest;
+	const along=flatten(wall.end.clone().sub(wall.start)).normalize();
+	if(along.dot(agent.velocity)<0) along.negate();
+	const normal=distance>EPSILON? position.clone().sub(point).divideScalar(distance):new Vector3(along.z,0,-along.x);
+
+	return seek(agent,point.clone().addScaledVector(normal,offset).add(along));
+};
+
+/**
+ * Pushes away from neighbors closer than radius, harder the closer they are.
+ */
+export const separation=(agent: SteeringAgent,neighbors: Vector3[],radius: number): Vector3 => {
+	const push=new Vector3();
+	neighbors.forEach(neighbor => {
+		const away=flatten(agent.position.clone().sub(neighbor));
+		const distance=away.length();
+		if(distance<EPSILON||distance>=radius) return;
+		push.addScaledVector(away.divideScalar(distance),1-distance/radius);
+	});
+	return push.multiplyScalar(agent.maxForce).clampLength(0,agent.maxForce);
+};
+
+/**
+ * Matches the average velocity of the neighbors.
+ */
+export const align=(agent: SteeringAgent,neighborVelocities: Vector3[]): Vector3 => {
+	if(neighborVelocities.length===0) return new Vector3();
+	const average=neighborVelocities.reduce((sum,velocity) => sum.add(velocity),new Vector3());
+	return steerTowards(agent,average.divideScalar(neighborVelocities.length).clampLength(0,agent.maxSpeed));
+};
+
+/**
+ * Adds the forces by weight and limits the total to the agent's maxForce.
+ */
+export const blendSteering=(agent: SteeringAgent,forces: WeightedSteering[]): Vector3 =>
+	forces
+		.reduce((total,{force,weight}) => total.addScaledVector(force,weight),new Vector3())
+		.clampLength(0,agent.maxForce);
+
+/**
+ * Accelerates the agent by a force for deltaTime seconds, limited to its maxForce and maxSpeed.
+ * @returns The agent's velocity, updated in place.
+ */
+export const applySteering=(agent: SteeringAgent,force: Vector3,deltaTime: number): Vector3 =>
+	flatten(
+		agent.velocity
+			.addScaledVector(force.clone().clampLength(0,agent.maxForce),deltaTime)
+			.clampLength(0,agent.maxSpeed)
+	);
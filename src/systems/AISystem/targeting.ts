@@ -0,0 +1,16 @@
+// src/systems/AISystem/targeting.ts
+
+import {Vector3} from 'three';
+import {useAIStore} from '../../stores/aiStore';
+import {AIEntity} from '../../types/ai.types';
+
+/**
+ * Where an entity believes its target is. Entities with perception only know where they last sensed it;
+ * the rest read the target entity's actual position.
+ */
+export const getTargetPosition=(entity: AIEntity): Vector3|null => {
+	if(!entity.targetId) return null;
+	if(entity.lastKnownTargetPosition) return entity.lastKnownTargetPosition.clone();
+	const target=useAIStore.getState().entities[entity.targetId];
+	return target? target.position.clone():null;
+};
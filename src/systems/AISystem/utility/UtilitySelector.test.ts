@@ -0,0 +1,171 @@
+// src/systems/AISystem/utility/UtilitySelector.test.ts
+
+import { Vector3 } from 'three';
+import { DEFAULT_UTILITY_INPUTS, UtilitySelector, evaluateCurve } from './UtilitySelector';
+import { useAIStore } from '../../../stores/aiStore';
+import { AIBehavior, AIBehaviorType, AIEntity, UtilityInput, UtilityProfile } from '../../../types/ai.types';
+
+const createEntity = (id: string, overrides: Partial<AIEntity> = {}): AIEntity => ({
+  id,
+  position: new Vector3(),
+  rotation: new Vector3(),
+  health: 100,
+  maxHealth: 100,
+  speed: 5,
+  currentBehavior: 'idle',
+  behaviors: [],
+  aggressionLevel: 1,
+  detectionRange: 10,
+  attackRange: 2,
+  lastAttackTime: 0,
+  attackCooldown: 1000,
+  ...overrides,
+});
+
+const createBehavior = (type: AIBehaviorType): AIBehavior => ({
+  type,
+  priority: 1,
+  conditions: [],
+  execute: jest.fn(),
+  update: jest.fn(),
+});
+
+describe('UtilitySelector', () => {
+  let combat: AIBehavior;
+  let flee: AIBehavior;
+  let levels: Record<string, number>;
+  let inputs: Record<string, UtilityInput>;
+  let entity: AIEntity;
+
+  // Each behavior scores whatever level the test sets for it
+  const createProfile = (overrides: Partial<UtilityProfile> = {}): UtilityProfile => ({
+    scorers: (['combat', 'flee'] as AIBehaviorType[]).map(behavior => ({
+      behavior,
+      considerations: [{ input: 'level', args: { name: behavior }, curve: { type: 'linear' } }],
+    })),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    combat = createBehavior('combat');
+    flee = createBehavior('flee');
+    levels = { combat: 0.6, flee: 0.5 };
+    inputs = { ...DEFAULT_UTILITY_INPUTS, level: (_entity, args) => levels[args.name as string] };
+    entity = createEntity('grunt', { behaviors: [combat, flee] });
+    useAIStore.setState({ entities: { grunt: entity } });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should shape inputs with response curves', () => {
+    expect(evaluateCurve({ type: 'linear', slope: 2, intercept: -0.5 }, 0.5)).toBeCloseTo(0.5);
+    expect(evaluateCurve({ type: 'linear', slope: 2 }, 0.8)).toBe(1);
+    expect(evaluateCurve({ type: 'exponential', exponent: 3 }, 0.5)).toBeCloseTo(0.125);
+    expect(evaluateCurve({ type: 'logistic' }, 0.5)).toBeCloseTo(0.5);
+    expect(evaluateCurve({ type: 'logistic', steepness: 20, midpoint: 0.3 }, 0.6)).toBeGreaterThan(0.99);
+    expect(evaluateCurve({ type: 'step', midpoint: 0.3 }, 0.2)).toBe(0);
+    expect(evaluateCurve({ type: 'linear', invert: true }, 0.2)).toBeCloseTo(0.8);
+    expect(evaluateCurve({ type: 'linear' }, NaN)).toBe(0);
+  });
+
+  it('should pick the highest score and expose the breakdown', () => {
+    const selector = new UtilitySelector(
+      {
+        scorers: [
+          {
+            behavior: 'combat',
+            considerations: [
+              { input: 'ammoRatio', curve: { type: 'linear' } },
+              { input: 'healthRatio', curve: { type: 'step', midpoint: 0.3 } },
+            ],
+          },
+          { behavior: 'flee', considerations: [{ input: 'healthRatio', curve: { type: 'linear', invert: true } }], weight: 0.9 },
+          { behavior: 'patrol', considerations: [] },
+        ],
+      },
+      inputs
+    );
+    entity.ammo = 5;
+    entity.maxAmmo = 10;
+
+    expect(selector.select(entity, 0.1)).toBe(combat);
+    // Two considerations are each nudged up by half their shortfall: 0.5 becomes 0.625
+    expect(entity.utilityState!.scores).toEqual([
+      {
+        behavior: 'combat',
+        score: 0.625,
+        momentum: 0,
+        considerations: [
+          { input: 'ammoRatio', value: 0.5, score: 0.5 },
+          { input: 'healthRatio', value: 1, score: 1 },
+        ],
+      },
+      { behavior: 'flee', score: 0, momentum: 0, considerations: [{ input: 'healthRatio', value: 1, score: 0 }] },
+    ]);
+
+    entity.health = 20;
+    expect(selector.select(entity, 0.1)).toBe(flee);
+    expect(entity.utilityState!.scores[0].behavior).toBe('flee');
+    expect(entity.utilityState!.scores[0].score).toBeCloseTo(0.72);
+  });
+
+  it('should favour the current behavior by its momentum and hold it for the commit time', () => {
+    const selector = new UtilitySelector(createProfile({ momentum: 0.25, minCommitTime: 1 }), inputs);
+    expect(selector.select(entity, 0.1)).toBe(combat);
+
+    // 0.6 plus a quarter beats 0.7 but not 0.8
+    levels.flee = 0.7;
+    expect(selector.select(entity, 1.5)).toBe(combat);
+    expect(entity.utilityState!.scores[0].score).toBeCloseTo(0.75);
+    expect(entity.utilityState!.scores[0].momentum).toBeCloseTo(0.15);
+    levels.flee = 0.8;
+    expect(selector.select(entity, 0.1)).toBe(flee);
+    expect(entity.utilityState).toMatchObject({ current: 'flee', heldFor: 0 });
+
+    // Combat wins clearly, but only once flee has been held for a second
+    levels.flee = 0.1;
+    expect(selector.select(entity, 0.5)).toBe(flee);
+    expect(selector.select(entity, 0.6)).toBe(combat);
+  });
+
+  it('should idle when nothing scores above the minimum and skip what it cannot score', () => {
+    const selector = new UtilitySelector(
+      {
+        scorers: [
+          { behavior: 'combat', considerations: [{ input: 'morale', curve: { type: 'linear' } }] },
+          { behavior: 'flee', considerations: [{ input: 'level', args: { name: 'flee' }, curve: { type: 'linear' } }], checkConditions: true },
+          { behavior: 'patrol', considerations: [] },
+        ],
+        minScore: 0.4,
+      },
+      inputs
+    );
+
+    expect(selector.select(entity, 0.1)).toBe(flee);
+    expect(entity.utilityState!.scores.map(score => score.behavior)).toEqual(['flee', 'combat']);
+
+    flee.conditions = [{ type: 'health', value: 0.3, operator: '<', compare: () => false }];
+    expect(selector.select(entity, 0.1)).toBeNull();
+    expect(entity.utilityState!.current).toBeNull();
+    selector.select(entity, 0.1);
+    expect(console.warn).toHaveBeenCalledTimes(1);
+    expect(console.warn).toHaveBeenCalledWith('UtilitySelector: No input named "morale"; the consideration scores 0.');
+  });
+
+  it('should read distance to the target and nearby allies', () => {
+    const player = createEntity('player', { position: new Vector3(5, 0, 0) });
+    const ally = createEntity('ally', { position: new Vector3(0, 0, 3) });
+    const farAlly = createEntity('far', { position: new Vector3(0, 0, 30) });
+    useAIStore.setState({ entities: { grunt: entity, player, ally, far: farAlly } });
+
+    expect(DEFAULT_UTILITY_INPUTS.targetDistance(entity, {})).toBe(1);
+    entity.targetId = 'player';
+    expect(DEFAULT_UTILITY_INPUTS.targetDistance(entity, {})).toBeCloseTo(0.5);
+    expect(DEFAULT_UTILITY_INPUTS.targetDistance(entity, { range: 20 })).toBeCloseTo(0.25);
+    expect(DEFAULT_UTILITY_INPUTS.allyCount(entity, { max: 2 })).toBeCloseTo(0.5);
+    expect(DEFAULT_UTILITY_INPUTS.allyCount(entity, { radius: 50, max: 2 })).toBeCloseTo(1);
+  });
+});
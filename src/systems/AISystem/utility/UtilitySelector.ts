@@ -0,0 +1,146 @@
+// src/systems/AISystem/utility/UtilitySelector.ts
+
+import {getTargetPosition} from '../targeting';
+import {queryEntitiesInRadius} from '../spatial/entityIndex';
+import {
+	AIBehavior,
+	AIEntity,
+	UtilityBehaviorScore,
+	UtilityBehaviorScorer,
+	UtilityCurve,
+	UtilityInput,
+	UtilityProfile,
+	UtilityState,
+} from '../../../types/ai.types';
+
+const DEFAULT_MOMENTUM=0.25;
+const DEFAULT_MAX_ALLIES=5;
+
+const clamp01=(value: number): number => Math.min(1,Math.max(0,Number.isFinite(value)? value:0));
+
+/**
+ * Inputs every profile can name without registering them.
+ */
+export const DEFAULT_UTILITY_INPUTS: Record<string,UtilityInput>={
+	healthRatio: entity => entity.health/entity.maxHealth,
+	hasTarget: entity => (getTargetPosition(entity)? 1:0),
+	// args.range: distance that reads as 1, defaults to the entity's detection range. No target reads as 1.
+	targetDistance: (entity,args) => {
+		const targetPosition=getTargetPosition(entity);
+		if(!targetPosition) return 1;
+		return entity.position.distanceTo(targetPosition)/((args.range as number|undefined)??entity.detectionRange);
+	},
+	// Entities that do not track ammo read as fully loaded
+	ammoRatio: entity => (entity.ammo===undefined||!entity.maxAmmo? 1:entity.ammo/entity.maxAmmo),
+	// args.radius: defaults to the entity's detection range. args.max: allies that read as 1, defaults to 5.
+	allyCount: (entity,args) => {
+		const radius=(args.radius as number|undefined)??entity.detectionRange;
+		const allies=queryEntitiesInRadius(entity.position,radius,other =>
+			other.id!==entity.id&&other.id!==entity.targetId&&other.health>0
+		);
+		return allies.length/((args.max as number|undefined)??DEFAULT_MAX_ALLIES);
+	},
+};
+
+export const evaluateCurve=(curve: UtilityCurve,input: number): number => {
+	const x=curve.invert? 1-clamp01(input):clamp01(input);
+	const midpoint=curve.midpoint??0.5;
+
+	switch(curve.type) {
+		case 'linear':
+			return clamp01((curve.slope??1)*x+(curve.intercept??0));
+		case 'exponential':
+			return clamp01(Math.pow(x,curve.exponent??2));
+		case 'logistic':
+			return clamp01(1/(1+Math.exp(-(curve.steepness??10)*(x-midpoint))));
+		case 'step':
+			return x>=midpoint? 1:0;
+		default:
+			return 0;
+	}
+};
+
+export const createUtilityState=(): UtilityState => ({
+	current: null,
+	heldFor: 0,
+	scores: [],
+});
+
+/**
+ * Picks an entity's behavior by scoring each one. Like a behavior tree, the selector keeps nothing per entity;
+ * the choice, how long it has been held and the last score breakdown live in the entity's UtilityState.
+ */
+export class UtilitySelector {
+	public readonly profile: UtilityProfile;
+	private inputs: Record<string,UtilityInput>;
+	private warnedInputs: Set<string>=new Set();
+
+	constructor(profile: UtilityProfile,inputs: Record<string,UtilityInput>) {
+		this.profile=profile;
+		this.inputs=inputs;
+	}
+
+	/**
+	 * Scores the entity's behaviors and returns the winner, or null when none scores above minScore.
+	 * Scorers for behaviors the entity does not have are skipped.
+	 */
+	public select(entity: AIEntity,deltaTime: number): AIBehavior|null {
+		if(!entity.utilityState) entity.utilityState=createUtilityState();
+		const state=entity.utilityState;
+		state.heldFor+=deltaTime;
+
+		const available=new Map(entity.behaviors.map(behavior => [behavior.type,behavior]));
+		const momentum=this.profile.momentum??DEFAULT_MOMENTUM;
+		state.scores=this.profile.scorers
+			.filter(scorer => available.has(scorer.behavior))
+			.map(scorer => this.score(entity,scorer,available.get(scorer.behavior)!,state.current,momentum))
+			.sort((a,b) => b.score-a.score);
+
+		const current=state.scores.find(score => score.behavior===state.current);
+		const committed=current&&current.score>0&&state.heldFor<(this.profile.minCommitTime??0);
+		const best=committed? current:state.scores[0];
+
+		if(!best||best.score<=(this.profile.minScore??0)) {
+			state.current=null;
+			return null;
+		}
+		if(best.behavior!==state.current) {
+			state.current=best.behavior;
+			state.heldFor=0;
+		}
+		return available.get(best.behavior)!;
+	}
+
+	private score(
+		entity: AIEntity,
+		scorer: UtilityBehaviorScorer,
+		behavior: AIBehavior,
+		current: string|null,
+		momentum: number
+	): UtilityBehaviorScore {
+		const considerations=scorer.considerations.map(consideration => {
+			const input=this.getInput(consideration.input);
+			const value=input? clamp01(input(entity,consideration.args??{})):0;
+			return {input: consideration.input,value,score: input? evaluateCurve(consideration.curve,value):0};
+		});
+
+		// Multiplying many scores drags the total down, so each is nudged up by how many there are
+		const compensation=considerations.length>0? 1-1/considerations.length:0;
+		let score=considerations.reduce((total,{score}) => total*(score+(1-score)*compensation*score),1);
+		if(scorer.checkConditions&&!behavior.conditions.every(condition => condition.compare(entity))) score=0;
+		score*=scorer.weight??1;
+
+		const bonus=scorer.behavior===current? score*momentum:0;
+		return {behavior: scorer.behavior,score: score+bonus,momentum: bonus,considerations};
+	}
+
+	private getInput(name: string): UtilityInput|null {
+		const input=this.inputs[name];
+		if(input) return input;
+		if(!this.warnedInputs.has(name)) {
+			this.warnedInputs.add(name);
+			console.warn(`UtilitySelector: No input named "${name}"; the consideration scores 0.`);
+		}
+		return null;
+	}
+}
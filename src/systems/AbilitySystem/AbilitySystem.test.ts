@@ -1,6 +1,7 @@
 // src/systems/AbilitySystem/AbilitySystem.test.ts
 
 import {AbilitySystem} from "./AbilitySystem";
+import {GameLoop} from "../GameLoop/GameLoop";
 import {Ability} from "../../types/ability.types";
 
 describe("AbilitySystem",() => {
@@ -91,4 +92,36 @@ describe("AbilitySystem",() => {
 		const storedAbility=abilitySystem.getAbility("test-ability");
 		expect(storedAbility?.isAvailable).toBe(true);
 	});
+
+	it("should time cooldowns on the game loop's simulation time",() => {
+		const gameLoop=GameLoop.getInstance();
+		gameLoop.setManualStepping(true);
+		const update=() => abilitySystem.update(gameLoop.getFrameInfo().time*1000);
+		abilitySystem.addAbility({
+			id: "dash",
+			name: "Dash",
+			description: "A short burst of speed.",
+			cooldown: 1,
+			lastUsed: 0,
+			isAvailable: true,
+			activate: jest.fn(),
+		});
+
+		abilitySystem.useAbility("dash");
+		gameLoop.stepFixed(30);
+		update();
+		expect(abilitySystem.getAbility("dash")?.isAvailable).toBe(false);
+
+		// Wall-clock time passing does not count
+		jest.spyOn(Date,'now').mockReturnValue(Date.now()+60000);
+		update();
+		expect(abilitySystem.getAbility("dash")?.isAvailable).toBe(false);
+
+		gameLoop.stepFixed(30);
+		update();
+		expect(abilitySystem.getAbility("dash")?.isAvailable).toBe(true);
+
+		jest.restoreAllMocks();
+		gameLoop.cleanup();
+	});
 });
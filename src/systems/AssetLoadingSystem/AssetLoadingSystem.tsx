@@ -117,6 +117,10 @@ export class AssetLoadingSystemClass {
         console.warn(`No disposal method implemented for asset type: ${asset.type}`);
         break;
     }
+    EventDispatcher.dispatch("ASSET_DISPOSED", {
+      id: asset.id,
+      type: asset.type,
+    });
     if (this.config.debug) {
       console.log(`Disposed asset: ${asset.id}`);
     }
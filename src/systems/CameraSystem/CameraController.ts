@@ -1,7 +1,7 @@
 // camera controlling logic contained here for the camera system Handles camera movement and zooming based on player input and game state.
 // src/systems/CameraSystem/CameraController.ts
 
-import {Camera,Vector3,Euler,MathUtils} from 'three';
+import {Camera,Vector3,Euler,MathUtils,Quaternion} from 'three';
 import {CameraMode,CameraTransition} from '../../types/camera.types';
 
 /**
@@ -13,6 +13,8 @@ export class CameraController {
 	private currentPosition: Vector3;
 	private offset: Vector3=new Vector3(0,2,5);
 	private rotation: Euler=new Euler();
+	private targetOrientation: Quaternion=new Quaternion(); // Heading of the followed object, used by the chase mode
+	private chaseStiffness: number=5; // How quickly the chase camera closes in on its spot behind the target, per second
 	private mode: CameraMode='thirdPerson';
 	private transition: CameraTransition|null=null;
 
@@ -50,6 +52,9 @@ export class CameraController {
 				case 'cinematic':
 					this.updateCinematic(deltaTime);
 					break;
+				case 'chase':
+					this.updateChase(deltaTime);
+					break;
 			}
 		}
 
@@ -146,10 +151,35 @@ export class CameraController {
 		// Could include path following, smooth transitions, etc.
 	}
 
+	private updateChase(deltaTime: number): void {
+		// Swing the offset round with the target's heading only, so the view stays level when the target pitches or rolls
+		const forward=new Vector3(0,0,-1).applyQuaternion(this.targetOrientation);
+		const heading=Math.atan2(-forward.x,-forward.z);
+		const desiredPosition=this.offset.clone().applyAxisAngle(new Vector3(0,1,0),heading).add(this.targetPosition);
+
+		// Frame-rate independent smoothing
+		this.currentPosition.lerp(desiredPosition,1-Math.exp(-this.chaseStiffness*deltaTime));
+
+		this.camera.position.copy(this.currentPosition);
+		this.camera.lookAt(this.targetPosition);
+		this.rotation.copy(this.camera.rotation);
+	}
+
 	public setTarget(target: Vector3): void {
 		this.targetPosition.copy(target);
 	}
 
+	/**
+	 * Orientation of the followed object. The chase mode keeps the offset behind its forward (-Z) axis.
+	 */
+	public setTargetOrientation(orientation: Quaternion): void {
+		this.targetOrientation.copy(orientation);
+	}
+
+	public setChaseStiffness(stiffness: number): void {
+		this.chaseStiffness=stiffness;
+	}
+
 	public setOffset(offset: Vector3): void {
 		this.offset.copy(offset);
 	}
@@ -1,7 +1,7 @@
 // src/systems/CameraSystem/CameraSystem.test.tsx
 
 import { CameraSystem } from './CameraSystem';
-import { PerspectiveCamera, Vector3, Euler } from 'three';
+import { PerspectiveCamera, Vector3, Euler, Quaternion } from 'three';
 import { CameraTransition, CameraMode } from '../../types/camera.types';
 
 describe('CameraSystem', () => {
@@ -148,6 +148,27 @@ describe('CameraSystem', () => {
     expect(actualPosition.z).toBeCloseTo(expectedPosition.z, 1);
   });
 
+  it('should chase behind the target as it turns', () => {
+    cameraSystem.registerCamera('main', camera);
+    cameraSystem.setActiveCamera('main');
+    cameraSystem.setMode('chase');
+    cameraSystem.setTarget(new Vector3(10, 0, 0));
+    cameraSystem.setOffset(new Vector3(0, 2, 5));
+
+    // Facing +X, so "behind" is towards -X
+    cameraSystem.setTargetOrientation(new Quaternion().setFromAxisAngle(new Vector3(0, 1, 0), -Math.PI / 2));
+    for (let i = 0; i < 300; i++) {
+      cameraSystem.manualUpdate(1 / 60);
+    }
+
+    const position = cameraSystem.getActiveController()!.getPosition();
+    expect(position.x).toBeCloseTo(5, 2);
+    expect(position.y).toBeCloseTo(2, 2);
+    expect(position.z).toBeCloseTo(0, 2);
+    const view = camera.getWorldDirection(new Vector3());
+    expect(view.x).toBeGreaterThan(0.9);
+  });
+
   it('should handle cleanup correctly', () => {
     cameraSystem.registerCamera('main', camera);
     cameraSystem.setActiveCamera('main');
@@ -2,10 +2,12 @@
 //
 // src/systems/CameraSystem/CameraSystem.tsx
 
-import { Camera, Vector3, Euler } from 'three';
+import { Camera, Vector3, Euler, Quaternion } from 'three';
 import { CameraController } from './CameraController';
 import { CameraMode, CameraTransition } from '../../types/camera.types';
 import { useCameraStore } from '../../stores/cameraStore';
+import { GameLoop } from '../GameLoop/GameLoop';
+import { FrameContext } from '../../types/gameLoop.types';
 
 /**
  * CameraSystem manages the camera and its position in the game world.
@@ -14,8 +16,7 @@ export class CameraSystem {
   private static instance: CameraSystem | null = null;
   private controllers: Map<string, CameraController> = new Map();
   private activeController: CameraController | null = null;
-  private frameId: number | null = null;
-  private lastUpdate: number = 0;
+  private unregisterFromLoop: (() => void) | null = null;
 
   private constructor() {
     this.initialize();
@@ -66,6 +67,12 @@ export class CameraSystem {
     }
   }
 
+  public setTargetOrientation(orientation: Quaternion): void {
+    if (this.activeController) {
+      this.activeController.setTargetOrientation(orientation);
+    }
+  }
+
   public setOffset(offset: Vector3): void {
     if (this.activeController) {
       this.activeController.setOffset(offset);
@@ -98,15 +105,10 @@ export class CameraSystem {
     }
   }
 
-  private update = (timestamp: number): void => {
+  private update = ({ unscaledDeltaTime }: FrameContext): void => {
     if (!this.activeController) return;
 
-    const deltaTime = (timestamp - this.lastUpdate) / 1000;
-    this.lastUpdate = timestamp;
-
-    this.activeController.update(deltaTime);
-
-    this.frameId = requestAnimationFrame(this.update);
+    this.activeController.update(unscaledDeltaTime);
   };
 
   /**
@@ -121,16 +123,22 @@ export class CameraSystem {
   }
 
   private startUpdate(): void {
-    if (this.frameId === null) {
-      this.lastUpdate = performance.now();
-      this.frameId = requestAnimationFrame(this.update);
+    if (this.unregisterFromLoop === null) {
+      const gameLoop = GameLoop.getInstance();
+      this.unregisterFromLoop = gameLoop.register({
+        id: 'camera',
+        phase: 'lateUpdate',
+        runWhilePaused: true,
+        update: this.update
+      });
+      gameLoop.start();
     }
   }
 
   private stopUpdate(): void {
-    if (this.frameId !== null) {
-      cancelAnimationFrame(this.frameId);
-      this.frameId = null;
+    if (this.unregisterFromLoop !== null) {
+      this.unregisterFromLoop();
+      this.unregisterFromLoop = null;
     }
   }
 
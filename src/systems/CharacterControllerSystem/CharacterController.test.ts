@@ -0,0 +1,191 @@
+/**
+ * @jest-environment node
+ */
+// src/systems/CharacterControllerSystem/CharacterController.test.ts
+
+import RAPIER from '@dimforge/rapier3d-compat';
+import { Euler, Quaternion, Vector3 } from 'three';
+import { CharacterController } from './CharacterController';
+import { PhysicsSystemManager } from '../PhysicsSystem/PhysicsSystem';
+import { RapierBackend } from '../PhysicsSystem/backends/RapierBackend';
+import { EventDispatcher } from '../../utils/EventDispatcher';
+import { PhysicsBody } from '../../types/physics.types';
+
+const STEP = 1 / 60;
+
+describe('CharacterController', () => {
+  let world: RAPIER.World;
+  let backend: RapierBackend;
+  let grounded: jest.Mock;
+  let airborne: jest.Mock;
+  let unsubscribe: (() => void)[];
+
+  const addBox = (
+    id: string,
+    center: Vector3,
+    halfExtents: Vector3,
+    rotationZ = 0,
+    desc: RAPIER.RigidBodyDesc = RAPIER.RigidBodyDesc.fixed()
+  ) => {
+    const { x, y, z, w } = new Quaternion().setFromEuler(new Euler(0, 0, rotationZ));
+    const rigidBody = world.createRigidBody(desc.setTranslation(center.x, center.y, center.z).setRotation({ x, y, z, w }));
+    world.createCollider(RAPIER.ColliderDesc.cuboid(halfExtents.x, halfExtents.y, halfExtents.z), rigidBody);
+    backend.addBody({ id } as PhysicsBody, rigidBody);
+    return rigidBody;
+  };
+
+  // A slab whose top surface rises from (startX, 0, z) at the given angle
+  const addRamp = (id: string, startX: number, z: number, angle: number) => {
+    const along = new Vector3(Math.cos(angle), Math.sin(angle), 0);
+    const normal = new Vector3(-Math.sin(angle), Math.cos(angle), 0);
+    const center = new Vector3(startX, 0, z).addScaledVector(along, 3).addScaledVector(normal, -0.5);
+    addBox(id, center, new Vector3(3, 0.5, 1), angle);
+  };
+
+  const spawn = (position: Vector3) => {
+    const hero = new CharacterController({ id: 'hero', position });
+    // The controller's own capsule must never block its sweeps
+    const rigidBody = world.createRigidBody(
+      RAPIER.RigidBodyDesc.kinematicPositionBased().setTranslation(position.x, position.y, position.z)
+    );
+    world.createCollider(RAPIER.ColliderDesc.capsule(0.5, 0.4), rigidBody);
+    backend.addBody({ id: 'hero' } as PhysicsBody, rigidBody);
+    world.step();
+    return hero;
+  };
+
+  const run = (hero: CharacterController, seconds: number, beforeStep?: () => void) => {
+    for (let t = 0; t < seconds; t += STEP) {
+      beforeStep?.();
+      hero.update(STEP);
+      world.step();
+    }
+  };
+
+  const feet = (hero: CharacterController) => hero.getFootPosition();
+
+  beforeAll(async () => {
+    await RAPIER.init();
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    world = new RAPIER.World({ x: 0, y: 0, z: 0 });
+    backend = new RapierBackend(world, RAPIER);
+    PhysicsSystemManager.getInstance().attachBackend(backend);
+    addBox('ground', new Vector3(0, -0.5, 0), new Vector3(20, 0.5, 20));
+    grounded = jest.fn();
+    airborne = jest.fn();
+    unsubscribe = [EventDispatcher.on('CHARACTER_GROUNDED', grounded), EventDispatcher.on('CHARACTER_AIRBORNE', airborne)];
+  });
+
+  afterEach(() => {
+    unsubscribe.forEach(stop => stop());
+    (PhysicsSystemManager as any).instance = null;
+    world.free();
+    jest.restoreAllMocks();
+  });
+
+  it('should fall onto the ground and report the landing', () => {
+    const hero = spawn(new Vector3(0, 3, 0));
+
+    run(hero, 1.5);
+
+    const state = hero.getState();
+    expect(state.isGrounded).toBe(true);
+    expect(state.groundBodyId).toBe('ground');
+    expect(feet(hero).y).toBeCloseTo(0.02, 2);
+    expect(grounded).toHaveBeenCalledTimes(1);
+    expect(grounded.mock.calls[0][0]).toEqual({ id: 'hero', groundBodyId: 'ground', impactSpeed: expect.any(Number) });
+    expect(grounded.mock.calls[0][0].impactSpeed).toBeGreaterThan(5);
+  });
+
+  it('should walk up gentle slopes and be blocked by steep ones', () => {
+    addRamp('steep', 0.5, -1.5, Math.PI / 3);
+    addRamp('gentle', 0.5, 1.5, Math.PI / 6);
+    const hero = spawn(new Vector3(-1, 0.92, -1.5));
+    const climber = new CharacterController({ id: 'climber', position: new Vector3(-1, 0.92, 1.5) });
+
+    hero.setMoveVelocity(new Vector3(3, 0, 0));
+    climber.setMoveVelocity(new Vector3(3, 0, 0));
+    run(hero, 1.5, () => climber.update(STEP));
+
+    expect(feet(hero).y).toBeLessThan(0.2);
+    expect(feet(hero).x).toBeLessThan(0.8);
+    expect(feet(climber).y).toBeGreaterThan(0.8);
+    expect(climber.getState().isGrounded).toBe(true);
+  });
+
+  it('should climb steps up to the step height', () => {
+    addBox('step', new Vector3(3, 0.125, -1.5), new Vector3(2, 0.125, 1));
+    addBox('wall', new Vector3(3, 0.3, 1.5), new Vector3(2, 0.3, 1));
+    const hero = spawn(new Vector3(0, 0.92, -1.5));
+    const blocked = new CharacterController({ id: 'blocked', position: new Vector3(0, 0.92, 1.5) });
+
+    hero.setMoveVelocity(new Vector3(2, 0, 0));
+    blocked.setMoveVelocity(new Vector3(2, 0, 0));
+    run(hero, 1, () => blocked.update(STEP));
+
+    expect(feet(hero).y).toBeCloseTo(0.27, 1);
+    expect(feet(hero).x).toBeGreaterThan(1.5);
+    expect(feet(blocked).y).toBeLessThan(0.1);
+    expect(feet(blocked).x).toBeLessThan(1);
+  });
+
+  it('should snap down small drops and go airborne off ledges', () => {
+    addBox('curb', new Vector3(-3, 0.1, -1.5), new Vector3(3, 0.1, 1));
+    addBox('cliff', new Vector3(-3, 1, 1.5), new Vector3(3, 1, 1));
+    const hero = spawn(new Vector3(-1, 1.12, -1.5));
+    const diver = new CharacterController({ id: 'diver', position: new Vector3(-1, 2.92, 1.5) });
+    run(hero, 0.2, () => diver.update(STEP));
+    grounded.mockClear();
+
+    hero.setMoveVelocity(new Vector3(3, 0, 0));
+    diver.setMoveVelocity(new Vector3(3, 0, 0));
+    run(hero, 1.5, () => diver.update(STEP));
+
+    expect(feet(hero).x).toBeGreaterThan(1);
+    expect(feet(hero).y).toBeCloseTo(0.02, 2);
+    expect(airborne).toHaveBeenCalledTimes(1);
+    expect(airborne).toHaveBeenCalledWith({ id: 'diver', jumped: false }, 'CHARACTER_AIRBORNE');
+    expect(grounded).toHaveBeenCalledWith(expect.objectContaining({ id: 'diver', groundBodyId: 'ground' }), 'CHARACTER_GROUNDED');
+  });
+
+  it('should ride moving platforms', () => {
+    const lift = addBox('lift', new Vector3(0, 0.5, 0), new Vector3(1.5, 0.25, 1.5), 0, RAPIER.RigidBodyDesc.kinematicPositionBased());
+    const hero = spawn(new Vector3(0, 1.67, 0));
+    run(hero, 0.2);
+    expect(hero.getState().groundBodyId).toBe('lift');
+
+    let x = 0;
+    run(hero, 1, () => {
+      x += 0.02;
+      lift.setNextKinematicTranslation({ x, y: 0.5 + x, z: 0 });
+    });
+    world.step();
+    hero.update(STEP);
+
+    expect(feet(hero).x).toBeCloseTo(lift.translation().x, 1);
+    expect(feet(hero).y).toBeCloseTo(lift.translation().y + 0.27, 1);
+    expect(hero.getState().isGrounded).toBe(true);
+  });
+
+  it('should jump only while grounded', () => {
+    const hero = spawn(new Vector3(0, 0.92, 0));
+    run(hero, 0.1);
+    airborne.mockClear();
+
+    hero.jump();
+    let peak = 0;
+    run(hero, 0.6, () => {
+      peak = Math.max(peak, feet(hero).y);
+    });
+    hero.jump();
+    run(hero, 0.05);
+
+    expect(airborne).toHaveBeenCalledTimes(1);
+    expect(airborne).toHaveBeenCalledWith({ id: 'hero', jumped: true }, 'CHARACTER_AIRBORNE');
+    expect(peak).toBeCloseTo(5 ** 2 / (2 * 9.81), 0);
+    expect(hero.getState().isGrounded).toBe(false);
+  });
+});
@@ -0,0 +1,358 @@
+// src/systems/CharacterControllerSystem/CharacterController.ts
+
+// Purpose: Moves a kinematic capsule through the physics world with capsule sweeps instead of letting the solver push it.
+// Works the same on both engines because it only relies on the PhysicsSystemManager queries.
+
+import { Vector3 } from 'three';
+import { PhysicsSystemManager } from '../PhysicsSystem/PhysicsSystem';
+import { EventDispatcher } from '../../utils/EventDispatcher';
+import { ALL_COLLISION_LAYERS } from '../PhysicsSystem/collisionFiltering';
+import {
+  BodyTransform,
+  CharacterControllerConfig,
+  CharacterControllerState,
+  PhysicsQueryFilter,
+  RaycastHit,
+} from '../../types/physics.types';
+
+type CharacterSettings = Required<Omit<CharacterControllerConfig, 'id' | 'position' | 'collisionLayer' | 'collidesWith'>>;
+
+const DEFAULT_SETTINGS: CharacterSettings = {
+  radius: 0.4,
+  height: 1.8,
+  maxSlopeAngle: Math.PI / 4,
+  stepHeight: 0.35,
+  snapDistance: 0.3,
+  skinWidth: 0.02,
+  gravity: 9.81,
+  jumpSpeed: 5,
+};
+
+const UP = new Vector3(0, 1, 0);
+const DOWN = new Vector3(0, -1, 0);
+const MAX_SLIDE_ITERATIONS = 4;
+const MIN_MOVE_DISTANCE = 1e-5;
+const LEDGE_PROBE_OFFSET = 0.05;
+
+export class CharacterController {
+  public readonly id: string;
+  private settings: CharacterSettings;
+  private layerMask: number;
+  private position: Vector3;
+  private moveVelocity: Vector3 = new Vector3();
+  private verticalSpeed: number = 0;
+  private jumpRequested: boolean = false;
+  private velocity: Vector3 = new Vector3();
+  private grounded: boolean = false;
+  private groundNormal: Vector3 | null = null;
+  private groundBodyId: string | null = null;
+  private platformTransform: BodyTransform | null = null; // Last seen pose of the body being stood on
+
+  constructor(config: CharacterControllerConfig) {
+    this.id = config.id;
+    this.layerMask = config.collidesWith ?? ALL_COLLISION_LAYERS;
+    this.position = config.position.clone();
+    this.settings = { ...DEFAULT_SETTINGS };
+    (Object.keys(DEFAULT_SETTINGS) as (keyof CharacterSettings)[]).forEach(key => {
+      if (config[key] !== undefined) this.settings[key] = config[key]!;
+    });
+  }
+
+  /**
+   * Horizontal velocity to walk with until changed. The vertical component is ignored; gravity and jumps own it.
+   */
+  public setMoveVelocity(velocity: Vector3) {
+    this.moveVelocity.set(velocity.x, 0, velocity.z);
+  }
+
+  /**
+   * Jumps on the next step if the character is standing on something by then.
+   */
+  public jump() {
+    this.jumpRequested = true;
+  }
+
+  /**
+   * Moves the capsule without sweeping, e.g. to respawn. The character becomes airborne until it lands again.
+   */
+  public teleport(position: Vector3) {
+    this.position.copy(position);
+    this.verticalSpeed = 0;
+    this.velocity.set(0, 0, 0);
+    this.setGround(null);
+    this.syncBody();
+  }
+
+  public getPosition(): Vector3 {
+    return this.position.clone();
+  }
+
+  /**
+   * The point under the capsule, where AI entities and paths expect an entity's position to be.
+   */
+  public getFootPosition(): Vector3 {
+    return this.position.clone().addScaledVector(UP, -this.settings.height / 2);
+  }
+
+  public getState(): CharacterControllerState {
+    return {
+      position: this.position.clone(),
+      velocity: this.velocity.clone(),
+      isGrounded: this.grounded,
+      groundNormal: this.groundNormal?.clone() ?? null,
+      groundBodyId: this.groundBodyId,
+    };
+  }
+
+  public getSettings(): CharacterSettings {
+    return { ...this.settings };
+  }
+
+  public update(deltaTime: number) {
+    if (deltaTime <= 0) return;
+
+    const start = this.position.clone();
+    const wasGrounded = this.grounded;
+    let jumped = false;
+
+    this.rideGround();
+
+    if (this.jumpRequested && this.grounded) {
+      this.verticalSpeed = this.settings.jumpSpeed;
+      jumped = true;
+    } else if (this.grounded) {
+      this.verticalSpeed = 0;
+    } else {
+      this.verticalSpeed -= this.settings.gravity * deltaTime;
+    }
+    this.jumpRequested = false;
+
+    this.walk(this.moveVelocity.clone().multiplyScalar(deltaTime));
+
+    const fallSpeed = -this.verticalSpeed;
+    if (this.verticalSpeed !== 0) {
+      const hit = this.slide(UP.clone().multiplyScalar(this.verticalSpeed * deltaTime), false);
+      if (hit && this.verticalSpeed > 0 && hit.normal.y < 0) {
+        this.verticalSpeed = 0; // Bumped a ceiling
+      }
+    }
+
+    this.detectGround(wasGrounded && !jumped, fallSpeed);
+    this.velocity.copy(this.position).sub(start).divideScalar(deltaTime);
+    this.syncBody();
+
+    if (wasGrounded && !this.grounded) {
+      EventDispatcher.dispatch('CHARACTER_AIRBORNE', { id: this.id, jumped });
+    }
+  }
+
+  /**
+   * Carries the character along with the body it stands on, including the body's rotation.
+   */
+  private rideGround() {
+    if (!this.grounded || !this.groundBodyId) return;
+
+    const current = PhysicsSystemManager.getInstance().getBodyTransform(this.groundBodyId);
+    const previous = this.platformTransform;
+    this.platformTransform = current;
+    if (!current || !previous) return;
+
+    const carried = this.position
+      .clone()
+      .sub(previous.position)
+      .applyQuaternion(previous.quaternion.clone().invert())
+      .applyQuaternion(current.quaternion)
+      .add(current.position);
+
+    // The platform may already overlap the capsule, so it is left out of the sweep
+    this.slide(carried.sub(this.position), false, [this.groundBodyId]);
+  }
+
+  /**
+   * Horizontal movement: follows walkable slopes, treats steep ones as walls and climbs steps.
+   */
+  private walk(displacement: Vector3) {
+    if (displacement.lengthSq() < MIN_MOVE_DISTANCE * MIN_MOVE_DISTANCE) return;
+
+    if (this.grounded && this.groundNormal) {
+      // Follow the floor so walking downhill does not launch the character
+      const length = displacement.length();
+      displacement.projectOnPlane(this.groundNormal).setLength(length);
+    }
+
+    const start = this.position.clone();
+    const wall = this.slide(displacement, true);
+    if (!wall || !this.grounded || this.settings.stepHeight <= 0) return;
+
+    const slid = this.position.clone();
+    this.position.copy(start);
+    if (!this.stepUp(displacement, this.horizontalDistance(start, slid))) {
+      this.position.copy(slid);
+    }
+  }
+
+  /**
+   * Lifts the capsule by the step height, moves it, and puts it back down on top of the ledge.
+   * @returns false when stepping gets no further than sliding did; the position is then left undefined.
+   */
+  private stepUp(displacement: Vector3, slidDistance: number): boolean {
+    const { skinWidth, stepHeight } = this.settings;
+    const start = this.position.clone();
+    const maxLedgeY = this.getFootPosition().y + stepHeight;
+    const ceiling = this.sweep(UP, stepHeight + skinWidth);
+    const rise = ceiling ? Math.max(0, ceiling.distance - skinWidth) : stepHeight;
+    if (rise < MIN_MOVE_DISTANCE) return false;
+
+    this.position.addScaledVector(UP, rise);
+    this.slide(new Vector3(displacement.x, 0, displacement.z), true, [], maxLedgeY);
+
+    const floor = this.sweep(DOWN, rise + skinWidth);
+    if (!floor || !this.getFloorNormal(floor, maxLedgeY)) return false;
+    this.position.addScaledVector(DOWN, Math.max(0, floor.distance - skinWidth));
+
+    return this.horizontalDistance(start, this.position) > slidDistance + MIN_MOVE_DISTANCE;
+  }
+
+  /**
+   * Collide-and-slide: moves until blocked, then continues along the blocking surface.
+   * @param wallsOnly Steep surfaces are flattened into vertical walls so they cannot be climbed.
+   * @param maxLedgeY Ledges whose edge is higher than this are walls, even while stepping up.
+   * @returns The last surface that blocked a non-walkable move, if any.
+   */
+  private slide(
+    displacement: Vector3,
+    wallsOnly: boolean,
+    ignoreBodyIds: string[] = [],
+    maxLedgeY: number = this.getFootPosition().y + this.settings.stepHeight
+  ): RaycastHit | null {
+    const remaining = displacement.clone();
+    let blocked: RaycastHit | null = null;
+
+    for (let i = 0; i < MAX_SLIDE_ITERATIONS; i++) {
+      const length = remaining.length();
+      if (length < MIN_MOVE_DISTANCE) break;
+
+      const direction = remaining.clone().divideScalar(length);
+      const hit = this.sweep(direction, length + this.settings.skinWidth, ignoreBodyIds);
+      if (!hit) {
+        this.position.add(remaining);
+        break;
+      }
+
+      const travel = Math.max(0, hit.distance - this.settings.skinWidth);
+      this.position.addScaledVector(direction, travel);
+      remaining.copy(direction).multiplyScalar(length - travel);
+
+      const normal = hit.normal.clone();
+      if (!this.getFloorNormal(hit, maxLedgeY)) {
+        blocked = hit;
+        if (wallsOnly && normal.y > 0) {
+          normal.y = 0;
+          if (normal.lengthSq() < MIN_MOVE_DISTANCE) break;
+          normal.normalize();
+        }
+      } else if (!wallsOnly) {
+        blocked = hit;
+      }
+
+      const into = remaining.dot(normal);
+      if (into < 0) remaining.addScaledVector(normal, -into);
+    }
+
+    return blocked;
+  }
+
+  /**
+   * Probes below the capsule. Grounded characters snap down to floors within the snap distance.
+   */
+  private detectGround(snap: boolean, fallSpeed: number) {
+    if (this.verticalSpeed > 0) {
+      this.setGround(null);
+      return;
+    }
+
+    const { skinWidth, snapDistance } = this.settings;
+    const reach = (snap ? snapDistance : skinWidth) + skinWidth * 2;
+    const floor = this.sweep(DOWN, reach);
+    const floorNormal = floor ? this.getFloorNormal(floor, this.getFootPosition().y + this.settings.stepHeight) : null;
+    if (!floor || !floorNormal) {
+      this.setGround(null);
+      return;
+    }
+
+    this.position.addScaledVector(DOWN, Math.max(0, floor.distance - skinWidth));
+    this.verticalSpeed = 0;
+    this.setGround({ ...floor, normal: floorNormal }, fallSpeed);
+  }
+
+  private setGround(floor: RaycastHit | null, impactSpeed: number = 0) {
+    const wasGrounded = this.grounded;
+    if (floor?.bodyId !== this.groundBodyId) {
+      this.platformTransform = floor ? PhysicsSystemManager.getInstance().getBodyTransform(floor.bodyId) : null;
+    }
+
+    this.grounded = floor !== null;
+    this.groundNormal = floor?.normal.clone() ?? null;
+    this.groundBodyId = floor?.bodyId ?? null;
+
+    if (floor && !wasGrounded) {
+      EventDispatcher.dispatch('CHARACTER_GROUNDED', {
+        id: this.id,
+        groundBodyId: floor.bodyId,
+        impactSpeed: Math.max(0, impactSpeed),
+      });
+    }
+  }
+
+  private isWalkable(normal: Vector3): boolean {
+    return normal.y >= Math.cos(this.settings.maxSlopeAngle);
+  }
+
+  /**
+   * The walkable surface a hit stands for, or null for walls and steep slopes. A rounded capsule touches
+   * the edge of a ledge with a tilted normal, so the top of the ledge is probed just past the contact.
+   */
+  private getFloorNormal(hit: RaycastHit, maxLedgeY: number): Vector3 | null {
+    if (this.isWalkable(hit.normal)) return hit.normal;
+    if (hit.point.y > maxLedgeY) return null;
+
+    const { skinWidth } = this.settings;
+
+    const outward = new Vector3(hit.point.x - this.position.x, 0, hit.point.z - this.position.z);
+    if (outward.lengthSq() < MIN_MOVE_DISTANCE * MIN_MOVE_DISTANCE) return null;
+
+    const origin = hit.point
+      .clone()
+      .add(outward.setLength(LEDGE_PROBE_OFFSET))
+      .addScaledVector(UP, skinWidth * 2);
+    const top = PhysicsSystemManager.getInstance().raycast(origin, DOWN, skinWidth * 4, {
+      layerMask: this.layerMask,
+      excludeBodyIds: [this.id],
+    });
+    return top && this.isWalkable(top.normal) ? top.normal : null;
+  }
+
+  private sweep(direction: Vector3, distance: number, ignoreBodyIds: string[] = []): RaycastHit | null {
+    const { radius, height } = this.settings;
+    const filter: PhysicsQueryFilter = {
+      layerMask: this.layerMask,
+      excludeBodyIds: [this.id, ...ignoreBodyIds],
+    };
+    return PhysicsSystemManager.getInstance().capsuleCast(
+      this.position,
+      radius,
+      Math.max(0, height / 2 - radius),
+      direction,
+      distance,
+      filter
+    );
+  }
+
+  private horizontalDistance(from: Vector3, to: Vector3): number {
+    return Math.hypot(to.x - from.x, to.z - from.z);
+  }
+
+  private syncBody() {
+    PhysicsSystemManager.getInstance().moveKinematicBody(this.id, this.position);
+  }
+}
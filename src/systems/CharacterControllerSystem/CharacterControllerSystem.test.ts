@@ -0,0 +1,85 @@
+// src/systems/CharacterControllerSystem/CharacterControllerSystem.test.ts
+
+import { Vector3 } from 'three';
+import { CharacterControllerSystem } from './CharacterControllerSystem';
+import { GameLoop } from '../GameLoop/GameLoop';
+import { moveEntity, syncEntityController } from '../AISystem/movement';
+import { usePhysicsStore } from '../../stores/physicsStore';
+import { useInputStore } from '../../stores/inputStore';
+import { useGameLoopStore } from '../../stores/gameLoopStore';
+import { AIEntity } from '../../types/ai.types';
+
+describe('CharacterControllerSystem', () => {
+  let system: CharacterControllerSystem;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    usePhysicsStore.setState({ bodies: {} });
+    useInputStore.getState().reset();
+    GameLoop.getInstance().setManualStepping(true);
+    system = CharacterControllerSystem.getInstance();
+    system.start();
+  });
+
+  afterEach(() => {
+    system.cleanup();
+    (CharacterControllerSystem as any).instance = null;
+    GameLoop.getInstance().cleanup();
+    jest.restoreAllMocks();
+  });
+
+  it('should back each controller with a kinematic capsule body', () => {
+    system.addController({ id: 'player', position: new Vector3(0, 1, 0), radius: 0.5, height: 2, collisionLayer: 2 });
+
+    expect(usePhysicsStore.getState().bodies.player).toMatchObject({
+      type: 'kinematic',
+      shape: 'capsule',
+      args: [0.5, 1],
+      collisionLayer: 2,
+    });
+
+    system.removeController('player');
+    expect(usePhysicsStore.getState().bodies.player).toBeUndefined();
+    expect(system.getController('player')).toBeNull();
+  });
+
+  it('should walk bound controllers from the input axes and jump once per press', () => {
+    const controller = system.addController({ id: 'player', position: new Vector3(), gravity: 0 });
+    const jump = jest.spyOn(controller, 'jump');
+    const step = useGameLoopStore.getState().fixedTimeStep;
+    system.bindInput('player', { speed: 4 });
+
+    useInputStore.getState().setAxisValue('moveX', 1);
+    useInputStore.getState().setAxisValue('moveY', -1);
+    useInputStore.getState().setActiveAction('jump', true);
+    GameLoop.getInstance().stepFixed(3);
+
+    const position = controller.getPosition();
+    expect(position.x).toBeCloseTo(4 * Math.SQRT1_2 * step * 3);
+    expect(position.z).toBeCloseTo(-4 * Math.SQRT1_2 * step * 3);
+    expect(jump).toHaveBeenCalledTimes(1);
+
+    system.unbindInput('player');
+    GameLoop.getInstance().stepFixed(1);
+    expect(controller.getPosition().x).toBeCloseTo(position.x);
+  });
+
+  it('should move AI entities through their controller and follow its feet', () => {
+    const controller = system.addController({ id: 'grunt', position: new Vector3(0, 0.9, 0), height: 1.8, gravity: 0 });
+    const entity = { id: 'grunt', position: new Vector3(5, 5, 5), controllerId: 'grunt' } as AIEntity;
+    const step = useGameLoopStore.getState().fixedTimeStep;
+
+    syncEntityController(entity);
+    expect(entity.position.toArray()).toEqual([0, 0, 0]);
+
+    moveEntity(entity, new Vector3(0, 0, 1), 3, step);
+    expect(entity.position.z).toBe(0);
+    GameLoop.getInstance().stepFixed(1);
+    syncEntityController(entity);
+    expect(entity.position.z).toBeCloseTo(3 * step);
+
+    // Synchronising also stops the controller until a behavior moves it again
+    GameLoop.getInstance().stepFixed(1);
+    expect(controller.getPosition().z).toBeCloseTo(3 * step);
+  });
+});
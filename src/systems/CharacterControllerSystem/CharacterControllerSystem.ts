@@ -0,0 +1,129 @@
+// src/systems/CharacterControllerSystem/CharacterControllerSystem.ts
+
+// Purpose: Owns the character controllers and steps them every fixed update, after AI has chosen where to go.
+// The player is driven from the input store; AI entities link a controller through AIEntity.controllerId.
+
+import { Vector3 } from 'three';
+import { CharacterController } from './CharacterController';
+import { usePhysicsStore } from '../../stores/physicsStore';
+import { useInputStore } from '../../stores/inputStore';
+import { GameLoop } from '../GameLoop/GameLoop';
+import { CharacterControllerConfig, CharacterInputOptions } from '../../types/physics.types';
+
+const DEFAULT_INPUT_OPTIONS: Required<CharacterInputOptions> = {
+  speed: 5,
+  runMultiplier: 1.6,
+};
+
+export class CharacterControllerSystem {
+  private static instance: CharacterControllerSystem | null = null;
+  private controllers: Map<string, CharacterController> = new Map();
+  private inputBindings: Map<string, { options: Required<CharacterInputOptions>; jumpHeld: boolean }> = new Map();
+  private unregisterFromLoop: (() => void) | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): CharacterControllerSystem {
+    if (!CharacterControllerSystem.instance) {
+      CharacterControllerSystem.instance = new CharacterControllerSystem();
+    }
+    return CharacterControllerSystem.instance;
+  }
+
+  /**
+   * Creates a controller and the kinematic capsule body it moves, which dynamic bodies bump into.
+   */
+  public addController(config: CharacterControllerConfig): CharacterController {
+    this.removeController(config.id);
+
+    const controller = new CharacterController(config);
+    const { radius, height } = controller.getSettings();
+    usePhysicsStore.getState().addBody({
+      id: config.id,
+      type: 'kinematic',
+      shape: 'capsule',
+      position: config.position.clone(),
+      rotation: new Vector3(),
+      args: [radius, Math.max(0, height - radius * 2)],
+      collisionLayer: config.collisionLayer,
+      collidesWith: config.collidesWith,
+    });
+
+    this.controllers.set(config.id, controller);
+    return controller;
+  }
+
+  public removeController(id: string): void {
+    if (!this.controllers.has(id)) return;
+
+    this.controllers.delete(id);
+    this.inputBindings.delete(id);
+    usePhysicsStore.getState().removeBody(id);
+  }
+
+  public getController(id: string): CharacterController | null {
+    return this.controllers.get(id) ?? null;
+  }
+
+  /**
+   * Drives a controller from the input store every step. Axes map to world X and Z, so "moveY" at -1 walks towards -Z.
+   */
+  public bindInput(id: string, options: CharacterInputOptions = {}): void {
+    if (!this.controllers.has(id)) {
+      console.warn(`CharacterControllerSystem: No controller "${id}" to bind input to.`);
+      return;
+    }
+    this.inputBindings.set(id, { options: { ...DEFAULT_INPUT_OPTIONS, ...options }, jumpHeld: false });
+  }
+
+  public unbindInput(id: string): void {
+    this.inputBindings.delete(id);
+    this.controllers.get(id)?.setMoveVelocity(new Vector3());
+  }
+
+  public start(): void {
+    if (this.unregisterFromLoop !== null) return;
+    const gameLoop = GameLoop.getInstance();
+    this.unregisterFromLoop = gameLoop.register({
+      id: 'characterControllers',
+      phase: 'fixedUpdate',
+      after: ['ai'],
+      update: ({ deltaTime }) => this.updateControllers(deltaTime)
+    });
+    gameLoop.start();
+  }
+
+  public stop(): void {
+    if (this.unregisterFromLoop !== null) {
+      this.unregisterFromLoop();
+      this.unregisterFromLoop = null;
+    }
+  }
+
+  public cleanup(): void {
+    this.stop();
+    Array.from(this.controllers.keys()).forEach(id => this.removeController(id));
+  }
+
+  private updateControllers(deltaTime: number): void {
+    this.inputBindings.forEach((binding, id) => this.applyInput(id, binding));
+    this.controllers.forEach(controller => controller.update(deltaTime));
+  }
+
+  private applyInput(id: string, binding: { options: Required<CharacterInputOptions>; jumpHeld: boolean }): void {
+    const controller = this.controllers.get(id);
+    if (!controller) return;
+
+    const { axisValues, activeActions } = useInputStore.getState();
+    const direction = new Vector3(axisValues.moveX || 0, 0, axisValues.moveY || 0);
+    if (direction.lengthSq() > 1) direction.normalize();
+
+    const speed = binding.options.speed * (activeActions.has('run') ? binding.options.runMultiplier : 1);
+    controller.setMoveVelocity(direction.multiplyScalar(speed));
+
+    // Jump once per press rather than every step the button is held
+    const jumpHeld = activeActions.has('jump');
+    if (jumpHeld && !binding.jumpHeld) controller.jump();
+    binding.jumpHeld = jumpHeld;
+  }
+}
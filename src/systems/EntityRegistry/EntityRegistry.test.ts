@@ -0,0 +1,136 @@
+// src/systems/EntityRegistry/EntityRegistry.test.ts
+
+import { Euler, Vector3 } from 'three';
+import { EntityRegistry } from './EntityRegistry';
+import { useEntityStore } from '../../stores/entityStore';
+import { usePhysicsStore } from '../../stores/physicsStore';
+import { useAIStore } from '../../stores/aiStore';
+import { useSceneGraphStore } from '../../stores/sceneGraphStore';
+import { EventDispatcher } from '../../utils/EventDispatcher';
+import { AIEntity } from '../../types/ai.types';
+import { SceneGraphStoreNode } from '../../types/sceneGraph.types';
+
+const transform = () => ({ position: new Vector3(), rotation: new Euler(), scale: new Vector3(1, 1, 1) });
+const sceneNode = (id: string) => ({ id, name: 'Node', childrenIds: [] }) as unknown as SceneGraphStoreNode;
+
+describe('EntityRegistry', () => {
+  let registry: EntityRegistry;
+
+  beforeEach(() => {
+    (EntityRegistry as any).instance = null;
+    (EventDispatcher as any).events = {};
+    useEntityStore.getState().reset();
+    usePhysicsStore.setState({ bodies: {} });
+    useAIStore.setState({ entities: {} });
+    useSceneGraphStore.setState({ nodes: {} });
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    registry = EntityRegistry.getInstance();
+  });
+
+  afterEach(() => {
+    registry.cleanup();
+    jest.restoreAllMocks();
+  });
+
+  it('should create entities with components', () => {
+    const created = jest.fn();
+    EventDispatcher.on('ENTITY_CREATED', created);
+
+    const id = registry.createEntity({ Transform: transform() }, { name: 'crate' });
+
+    expect(registry.exists(id)).toBe(true);
+    expect(registry.getEntity(id)?.name).toBe('crate');
+    expect(registry.hasComponent(id, 'Transform')).toBe(true);
+    expect(created).toHaveBeenCalledWith({ entityId: id }, 'ENTITY_CREATED');
+  });
+
+  it('should reject duplicate ids', () => {
+    registry.createEntity({}, { id: 'player' });
+    expect(() => registry.createEntity({}, { id: 'player' })).toThrow('already exists');
+  });
+
+  it('should query entities by archetype', () => {
+    const moving = registry.createEntity({ Transform: transform(), RigidBody: { bodyId: 'b1' } });
+    const thinking = registry.createEntity({ Transform: transform(), RigidBody: { bodyId: 'b2' }, AIAgent: { agentId: 'a1' } });
+    registry.createEntity({ Transform: transform() });
+
+    expect(registry.query('Transform', 'RigidBody').map(entity => entity.id).sort()).toEqual([moving, thinking].sort());
+    expect(registry.query('AIAgent').map(entity => entity.id)).toEqual([thinking]);
+    expect(registry.query('Transform')).toHaveLength(3);
+  });
+
+  it('should move entities between archetypes as components change', () => {
+    const id = registry.createEntity({ Transform: transform() });
+
+    registry.addComponent(id, 'RigidBody', { bodyId: 'b1' });
+    expect(registry.query('RigidBody').map(entity => entity.id)).toEqual([id]);
+    expect(registry.findEntity('RigidBody', body => body.bodyId === 'b1')).toBe(id);
+
+    registry.removeComponent(id, 'RigidBody');
+    expect(registry.query('RigidBody')).toHaveLength(0);
+    expect(registry.query('Transform')).toHaveLength(1);
+  });
+
+  it('should clean up linked records in every subsystem when destroyed', () => {
+    usePhysicsStore.getState().addBody({
+      id: 'body-1',
+      type: 'dynamic',
+      shape: 'box',
+      position: new Vector3(),
+      rotation: new Vector3()
+    });
+    useAIStore.getState().addEntity({ id: 'agent-1' } as AIEntity);
+    useSceneGraphStore.getState().addNode(sceneNode('node-1'));
+
+    const id = registry.createEntity({
+      RigidBody: { bodyId: 'body-1' },
+      AIAgent: { agentId: 'agent-1' },
+      SceneNode: { nodeId: 'node-1' }
+    });
+
+    expect(registry.destroyEntity(id)).toBe(true);
+    expect(usePhysicsStore.getState().bodies['body-1']).toBeUndefined();
+    expect(useAIStore.getState().entities['agent-1']).toBeUndefined();
+    expect(useSceneGraphStore.getState().nodes['node-1']).toBeUndefined();
+    expect(registry.exists(id)).toBe(false);
+    expect(registry.destroyEntity(id)).toBe(false);
+  });
+
+  it('should run registered cleanups before the default', () => {
+    const calls: string[] = [];
+    registry.registerCleanup('SceneNode', ({ nodeId }) => {
+      calls.push(useSceneGraphStore.getState().nodes[nodeId] ? 'system:present' : 'system:missing');
+    });
+    useSceneGraphStore.getState().addNode(sceneNode('node-1'));
+
+    const id = registry.createEntity({ SceneNode: { nodeId: 'node-1' } });
+    registry.destroyEntity(id);
+
+    expect(calls).toEqual(['system:present']);
+    expect(useSceneGraphStore.getState().nodes['node-1']).toBeUndefined();
+  });
+
+  it('should clean up a component it replaces', () => {
+    ['body-1', 'body-2'].forEach(bodyId => usePhysicsStore.getState().addBody({
+      id: bodyId,
+      type: 'dynamic',
+      shape: 'box',
+      position: new Vector3(),
+      rotation: new Vector3()
+    }));
+    const cleanup = jest.fn();
+    registry.registerCleanup('RigidBody', cleanup);
+    const rigidBody = { bodyId: 'body-1' };
+    const id = registry.createEntity({ RigidBody: rigidBody });
+
+    // Setting the same component again releases nothing
+    registry.addComponent(id, 'RigidBody', rigidBody);
+    expect(cleanup).not.toHaveBeenCalled();
+
+    registry.addComponent(id, 'RigidBody', { bodyId: 'body-2' });
+    expect(cleanup).toHaveBeenCalledWith({ bodyId: 'body-1' }, id);
+    expect(usePhysicsStore.getState().bodies['body-1']).toBeUndefined();
+    expect(usePhysicsStore.getState().bodies['body-2']).toBeDefined();
+    expect(registry.getComponent(id, 'RigidBody')).toEqual({ bodyId: 'body-2' });
+  });
+});
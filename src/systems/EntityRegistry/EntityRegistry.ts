@@ -0,0 +1,270 @@
+// src/systems/EntityRegistry/EntityRegistry.ts
+
+// Purpose: Gives each game object one entity id that owns its components across subsystems.
+// Entities are grouped by archetype (their exact set of component types) so queries only scan matching groups.
+
+import {
+  ComponentCleanup,
+  ComponentMap,
+  ComponentSet,
+  ComponentType,
+  EntityId,
+  EntityRecord,
+  QueryResult
+} from '../../types/entity.types';
+import { Unsubscribe } from '../../types/event.types';
+import { useEntityStore } from '../../stores/entityStore';
+import { useAIStore } from '../../stores/aiStore';
+import { usePhysicsStore } from '../../stores/physicsStore';
+import { useSceneGraphStore } from '../../stores/sceneGraphStore';
+import { useOcclusionStore } from '../../stores/occlusionStore';
+import { useInventoryStore } from '../../stores/inventoryStore';
+import { useLODStore } from '../LODSystem/LODSystem';
+import { EventDispatcher } from '../../utils/EventDispatcher';
+import { Random } from '../../utils/Random';
+
+interface Archetype {
+  types: ComponentType[];
+  entities: Set<EntityId>;
+}
+
+type AnyCleanup = (component: unknown, entityId: EntityId) => void;
+
+/**
+ * Store-level cleanup that runs for every removed component, after any cleanup a system registered.
+ * Systems holding extra runtime state (Object3D instances, meshes) register their own on top.
+ */
+const DEFAULT_CLEANUPS: { [T in ComponentType]?: ComponentCleanup<T> } = {
+  RigidBody: ({ bodyId }) => usePhysicsStore.getState().removeBody(bodyId),
+  AIAgent: ({ agentId }) => {
+    if (!useAIStore.getState().entities[agentId]) return;
+    useAIStore.getState().removeEntity(agentId);
+    Random.removeStream(`ai:${agentId}`);
+    EventDispatcher.dispatch('AI_ENTITY_REMOVED', { entityId: agentId });
+  },
+  SceneNode: ({ nodeId }) => {
+    if (useSceneGraphStore.getState().getNode(nodeId)) {
+      useSceneGraphStore.getState().removeNode(nodeId);
+    }
+  },
+  LOD: ({ objectId }) => useLODStore.getState().removeObject(objectId),
+  Occludable: ({ occluderId }) => useOcclusionStore.getState().removeOccluder(occluderId),
+  Inventory: ({ gridIds }) => useInventoryStore.setState((state) => {
+    const grids = { ...state.grids };
+    gridIds.forEach(gridId => delete grids[gridId]);
+    return { grids };
+  })
+};
+
+export class EntityRegistry {
+  private static instance: EntityRegistry | null = null;
+  private archetypes: Map<string, Archetype> = new Map();
+  private entityArchetypes: Map<EntityId, string> = new Map();
+  private cleanups: Map<ComponentType, AnyCleanup[]> = new Map();
+
+  private constructor() {}
+
+  public static getInstance(): EntityRegistry {
+    if (!EntityRegistry.instance) {
+      EntityRegistry.instance = new EntityRegistry();
+    }
+    return EntityRegistry.instance;
+  }
+
+  /**
+   * Creates an entity with an initial set of components.
+   * @param components Components to attach.
+   * @param options Optional fixed id and display name.
+   * @returns The entity id.
+   */
+  public createEntity(components: ComponentSet = {}, options: { id?: EntityId; name?: string } = {}): EntityId {
+    const id = options.id || Random.stream('entities').id('entity');
+    if (this.exists(id)) {
+      throw new Error(`EntityRegistry: Entity "${id}" already exists`);
+    }
+
+    const entity: EntityRecord = { id, name: options.name, components: { ...components } };
+    useEntityStore.getState().addEntity(entity);
+    this.placeInArchetype(id, entity.components);
+
+    EventDispatcher.dispatch('ENTITY_CREATED', { entityId: id });
+    return id;
+  }
+
+  /**
+   * Removes an entity and every component it owns, releasing the linked records in each subsystem.
+   * @returns False if the entity did not exist.
+   */
+  public destroyEntity(id: EntityId): boolean {
+    const entity = this.getEntity(id);
+    if (!entity) return false;
+
+    (Object.keys(entity.components) as ComponentType[]).forEach(type => {
+      this.runCleanup(id, type, entity.components[type]);
+    });
+
+    this.removeFromArchetype(id);
+    useEntityStore.getState().removeEntity(id);
+
+    EventDispatcher.dispatch('ENTITY_DESTROYED', { entityId: id });
+    return true;
+  }
+
+  public exists(id: EntityId): boolean {
+    return this.entityArchetypes.has(id);
+  }
+
+  public getEntity(id: EntityId): EntityRecord | undefined {
+    return useEntityStore.getState().entities[id];
+  }
+
+  public getEntityCount(): number {
+    return this.entityArchetypes.size;
+  }
+
+  /**
+   * Attaches a component. An existing component of the same type is cleaned up before it is replaced.
+   */
+  public addComponent<T extends ComponentType>(id: EntityId, type: T, component: ComponentMap[T]): void {
+    const entity = this.getEntity(id);
+    if (!entity) {
+      throw new Error(`EntityRegistry: Entity "${id}" does not exist`);
+    }
+
+    const isNew = !(type in entity.components);
+    if (!isNew && entity.components[type] !== component) {
+      this.runCleanup(id, type, entity.components[type]);
+    }
+    useEntityStore.getState().setComponent(id, type, component);
+
+    if (isNew) {
+      this.placeInArchetype(id, { ...entity.components, [type]: component });
+      EventDispatcher.dispatch('ENTITY_COMPONENT_ADDED', { entityId: id, component: type });
+    }
+  }
+
+  /**
+   * Detaches a component and releases the record it links to.
+   */
+  public removeComponent(id: EntityId, type: ComponentType): void {
+    const entity = this.getEntity(id);
+    if (!entity || !(type in entity.components)) return;
+
+    this.runCleanup(id, type, entity.components[type]);
+    useEntityStore.getState().removeComponent(id, type);
+
+    const remaining = { ...entity.components };
+    delete remaining[type];
+    this.placeInArchetype(id, remaining);
+    EventDispatcher.dispatch('ENTITY_COMPONENT_REMOVED', { entityId: id, component: type });
+  }
+
+  public getComponent<T extends ComponentType>(id: EntityId, type: T): ComponentMap[T] | undefined {
+    return this.getEntity(id)?.components[type] as ComponentMap[T] | undefined;
+  }
+
+  public hasComponent(id: EntityId, type: ComponentType): boolean {
+    const entity = this.getEntity(id);
+    return !!entity && type in entity.components;
+  }
+
+  /**
+   * Returns every entity that has all the given components.
+   * @param types Component types the entities must have.
+   */
+  public query<T extends ComponentType>(...types: T[]): QueryResult<T>[] {
+    const entities = useEntityStore.getState().entities;
+    const results: QueryResult<T>[] = [];
+
+    this.archetypes.forEach(archetype => {
+      if (!types.every(type => archetype.types.includes(type))) return;
+      archetype.entities.forEach(id => {
+        results.push(entities[id] as QueryResult<T>);
+      });
+    });
+
+    return results;
+  }
+
+  /**
+   * Finds the entity whose component matches, e.g. the entity owning a physics body id.
+   */
+  public findEntity<T extends ComponentType>(
+    type: T,
+    predicate: (component: ComponentMap[T]) => boolean
+  ): EntityId | undefined {
+    const match = this.query(type).find(entity => predicate(entity.components[type] as ComponentMap[T]));
+    return match?.id;
+  }
+
+  /**
+   * Registers extra cleanup for a component type. It runs before the store-level default.
+   * @returns A handle that removes the cleanup.
+   */
+  public registerCleanup<T extends ComponentType>(type: T, cleanup: ComponentCleanup<T>): Unsubscribe {
+    const handlers = this.cleanups.get(type) || [];
+    handlers.push(cleanup as AnyCleanup);
+    this.cleanups.set(type, handlers);
+
+    return () => {
+      const current = this.cleanups.get(type);
+      if (current) {
+        this.cleanups.set(type, current.filter(handler => handler !== cleanup));
+      }
+    };
+  }
+
+  /**
+   * Destroys every entity, with full cleanup.
+   */
+  public reset(): void {
+    Array.from(this.entityArchetypes.keys()).forEach(id => this.destroyEntity(id));
+  }
+
+  /**
+   * Forgets every entity and registered cleanup without touching other subsystems.
+   */
+  public cleanup(): void {
+    this.archetypes.clear();
+    this.entityArchetypes.clear();
+    this.cleanups.clear();
+    useEntityStore.getState().reset();
+  }
+
+  private runCleanup(id: EntityId, type: ComponentType, component: unknown): void {
+    (this.cleanups.get(type) || []).forEach(handler => handler(component, id));
+    const fallback = DEFAULT_CLEANUPS[type] as AnyCleanup | undefined;
+    if (fallback) {
+      fallback(component, id);
+    }
+  }
+
+  private placeInArchetype(id: EntityId, components: ComponentSet): void {
+    this.removeFromArchetype(id);
+
+    const types = (Object.keys(components) as ComponentType[]).sort();
+    const key = types.join('|');
+    let archetype = this.archetypes.get(key);
+    if (!archetype) {
+      archetype = { types, entities: new Set() };
+      this.archetypes.set(key, archetype);
+    }
+
+    archetype.entities.add(id);
+    this.entityArchetypes.set(id, key);
+  }
+
+  private removeFromArchetype(id: EntityId): void {
+    const key = this.entityArchetypes.get(id);
+    if (key === undefined) return;
+
+    const archetype = this.archetypes.get(key);
+    if (archetype) {
+      archetype.entities.delete(id);
+      if (archetype.entities.size === 0) {
+        this.archetypes.delete(key);
+      }
+    }
+    this.entityArchetypes.delete(id);
+  }
+}
@@ -0,0 +1,153 @@
+// src/systems/GameLoop/GameLoop.test.ts
+
+import { GameLoop } from './GameLoop';
+import { useGameLoopStore } from '../../stores/gameLoopStore';
+import { FrameContext } from '../../types/gameLoop.types';
+
+describe('GameLoop', () => {
+  let gameLoop: GameLoop;
+
+  beforeEach(() => {
+    (GameLoop as any).instance = null;
+    useGameLoopStore.getState().reset();
+    gameLoop = GameLoop.getInstance();
+  });
+
+  afterEach(() => {
+    gameLoop.cleanup();
+  });
+
+  it('should be a singleton', () => {
+    expect(GameLoop.getInstance()).toBe(gameLoop);
+  });
+
+  it('should run fixed steps for accumulated time and expose the interpolation alpha', () => {
+    const fixedUpdate = jest.fn();
+    gameLoop.register({ id: 'physics', phase: 'fixedUpdate', update: fixedUpdate });
+
+    const step = useGameLoopStore.getState().fixedTimeStep;
+    gameLoop.advance(step * 2.5);
+
+    expect(fixedUpdate).toHaveBeenCalledTimes(2);
+    expect(fixedUpdate.mock.calls[0][0].deltaTime).toBeCloseTo(step);
+    expect(gameLoop.getFrameInfo().alpha).toBeCloseTo(0.5);
+    expect(gameLoop.getFrameInfo().fixedFrame).toBe(2);
+  });
+
+  it('should reject fixed time steps that are not positive finite numbers', () => {
+    const fixedUpdate = jest.fn();
+    gameLoop.register({ id: 'physics', phase: 'fixedUpdate', update: fixedUpdate });
+    const step = useGameLoopStore.getState().fixedTimeStep;
+
+    [0, -0.01, NaN, Infinity].forEach(invalid => {
+      expect(() => useGameLoopStore.getState().setFixedTimeStep(invalid)).toThrow(
+        'GameLoop: fixedTimeStep must be a positive finite number'
+      );
+    });
+    expect(useGameLoopStore.getState().fixedTimeStep).toBe(step);
+
+    gameLoop.advance(step * 2.5);
+    expect(fixedUpdate).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject time scales that are not finite numbers of at least 0', () => {
+    const fixedUpdate = jest.fn();
+    gameLoop.register({ id: 'physics', phase: 'fixedUpdate', update: fixedUpdate });
+    const step = useGameLoopStore.getState().fixedTimeStep;
+
+    [-1, NaN, Infinity].forEach(invalid => {
+      expect(() => gameLoop.setTimeScale(invalid)).toThrow('GameLoop: timeScale must be a finite number of at least 0');
+    });
+    expect(useGameLoopStore.getState().timeScale).toBe(1);
+
+    gameLoop.setTimeScale(0);
+    gameLoop.advance(step * 2);
+    expect(fixedUpdate).not.toHaveBeenCalled();
+
+    gameLoop.setTimeScale(1);
+    gameLoop.advance(step * 2.5);
+    expect(fixedUpdate).toHaveBeenCalledTimes(2);
+  });
+
+  it('should cap fixed steps per frame', () => {
+    const fixedUpdate = jest.fn();
+    gameLoop.register({ id: 'physics', phase: 'fixedUpdate', update: fixedUpdate });
+
+    gameLoop.advance(10);
+
+    expect(fixedUpdate).toHaveBeenCalledTimes(5);
+  });
+
+  it('should run phases in order and respect declared dependencies', () => {
+    const calls: string[] = [];
+    const record = (id: string) => () => { calls.push(id); };
+
+    gameLoop.register({ id: 'render', phase: 'render', update: record('render') });
+    gameLoop.register({ id: 'occlusion', phase: 'lateUpdate', after: ['camera'], update: record('occlusion') });
+    gameLoop.register({ id: 'camera', phase: 'lateUpdate', update: record('camera') });
+    gameLoop.register({ id: 'ai', phase: 'fixedUpdate', after: ['logic'], update: record('ai') });
+    gameLoop.register({ id: 'logic', phase: 'fixedUpdate', update: record('logic') });
+    gameLoop.register({ id: 'particles', phase: 'update', before: ['inventory'], update: record('particles') });
+    gameLoop.register({ id: 'inventory', phase: 'update', update: record('inventory') });
+
+    gameLoop.advance(useGameLoopStore.getState().fixedTimeStep);
+
+    expect(calls).toEqual(['logic', 'ai', 'particles', 'inventory', 'camera', 'occlusion', 'render']);
+  });
+
+  it('should throw on circular dependencies', () => {
+    gameLoop.register({ id: 'a', phase: 'update', after: ['b'], update: jest.fn() });
+    gameLoop.register({ id: 'b', phase: 'update', after: ['a'], update: jest.fn() });
+
+    expect(() => gameLoop.advance(0.016)).toThrow('Circular dependency');
+  });
+
+  it('should scale simulation time', () => {
+    const update = jest.fn<void, [FrameContext]>();
+    gameLoop.register({ id: 'particles', phase: 'update', update });
+
+    gameLoop.setTimeScale(0.5);
+    gameLoop.advance(0.02);
+
+    const context = update.mock.calls[0][0];
+    expect(context.deltaTime).toBeCloseTo(0.01);
+    expect(context.unscaledDeltaTime).toBeCloseTo(0.02);
+    expect(context.timeScale).toBe(0.5);
+  });
+
+  it('should skip simulation while paused but keep systems that run while paused', () => {
+    const fixedUpdate = jest.fn();
+    const particles = jest.fn();
+    const render = jest.fn();
+    gameLoop.register({ id: 'physics', phase: 'fixedUpdate', update: fixedUpdate });
+    gameLoop.register({ id: 'particles', phase: 'update', update: particles });
+    gameLoop.register({ id: 'render', phase: 'render', runWhilePaused: true, update: render });
+
+    gameLoop.pause();
+    gameLoop.advance(0.1);
+
+    expect(fixedUpdate).not.toHaveBeenCalled();
+    expect(particles).not.toHaveBeenCalled();
+    expect(render).toHaveBeenCalledTimes(1);
+
+    gameLoop.stepFixed(3);
+    expect(fixedUpdate).toHaveBeenCalledTimes(3);
+
+    gameLoop.resume();
+    gameLoop.advance(0.02);
+    expect(particles).toHaveBeenCalledTimes(1);
+  });
+
+  it('should unregister only the entry a handle registered', () => {
+    const first = jest.fn();
+    const second = jest.fn();
+    const unregisterFirst = gameLoop.register({ id: 'abilities', phase: 'update', update: first });
+    gameLoop.register({ id: 'abilities', phase: 'update', update: second });
+
+    unregisterFirst();
+    gameLoop.advance(0.016);
+
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,305 @@
+// src/systems/GameLoop/GameLoop.ts
+
+// Purpose: Owns the single frame loop and drives every system through ordered phases.
+// Fixed-step phases advance the simulation; variable-step phases render with an interpolation alpha.
+
+import { FrameContext, GameLoopConfig, LoopPhase, LoopSystem } from '../../types/gameLoop.types';
+import { useGameLoopStore } from '../../stores/gameLoopStore';
+import { EventDispatcher } from '../../utils/EventDispatcher';
+import { Runtime } from '../../utils/Runtime';
+
+const PHASE_ORDER: LoopPhase[] = ['fixedUpdate', 'update', 'lateUpdate', 'render'];
+
+export class GameLoop {
+  private static instance: GameLoop | null = null;
+  private config: GameLoopConfig;
+  private systems: Map<string, LoopSystem> = new Map();
+  private orderedPhases: Record<LoopPhase, LoopSystem[]> | null = null;
+  private frameId: number | null = null;
+  private lastTime: number = 0;
+  private accumulator: number = 0;
+  private time: number = 0;
+  private frame: number = 0;
+  private fixedFrame: number = 0;
+  private alpha: number = 0;
+  private manualStepping: boolean = false;
+
+  private constructor(config: GameLoopConfig) {
+    this.config = config;
+  }
+
+  public static getInstance(config?: Partial<GameLoopConfig>): GameLoop {
+    if (!GameLoop.instance) {
+      GameLoop.instance = new GameLoop({
+        maxSubSteps: 5,
+        maxFrameTime: 0.25,
+        ...config
+      });
+    }
+    return GameLoop.instance;
+  }
+
+  /**
+   * Registers a system to be updated every frame in its phase.
+   * @param system The system definition.
+   * @returns A handle that unregisters the system.
+   */
+  public register(system: LoopSystem): () => void {
+    if (this.systems.has(system.id)) {
+      console.warn(`GameLoop: System "${system.id}" is already registered and will be replaced.`);
+    }
+    this.systems.set(system.id, system);
+    this.orderedPhases = null;
+
+    return () => {
+      // Only remove the entry this handle registered, not a later replacement
+      if (this.systems.get(system.id) === system) {
+        this.unregister(system.id);
+      }
+    };
+  }
+
+  public unregister(id: string): void {
+    if (this.systems.delete(id)) {
+      this.orderedPhases = null;
+    }
+  }
+
+  public isRegistered(id: string): boolean {
+    return this.systems.has(id);
+  }
+
+  /**
+   * Returns the system ids of a phase in the order they run.
+   */
+  public getExecutionOrder(phase: LoopPhase): string[] {
+    return this.getOrderedPhases()[phase].map(system => system.id);
+  }
+
+  public start(): void {
+    if (this.frameId !== null || this.manualStepping) return;
+    this.lastTime = Runtime.now();
+    this.frameId = Runtime.clock.requestFrame(this.tick);
+  }
+
+  public stop(): void {
+    if (this.frameId !== null) {
+      Runtime.clock.cancelFrame(this.frameId);
+      this.frameId = null;
+    }
+  }
+
+  public isRunning(): boolean {
+    return this.frameId !== null;
+  }
+
+  /**
+   * While enabled, start() schedules no frames and the loop only moves through advance().
+   * Systems can still call start() as usual, which keeps stepped runs deterministic.
+   */
+  public setManualStepping(enabled: boolean): void {
+    this.manualStepping = enabled;
+    if (enabled) {
+      this.stop();
+    }
+  }
+
+  public isManualStepping(): boolean {
+    return this.manualStepping;
+  }
+
+  public pause(): void {
+    if (useGameLoopStore.getState().paused) return;
+    useGameLoopStore.getState().setPaused(true);
+    EventDispatcher.dispatch('GAME_LOOP_PAUSED', { frame: this.frame });
+  }
+
+  public resume(): void {
+    if (!useGameLoopStore.getState().paused) return;
+    useGameLoopStore.getState().setPaused(false);
+    EventDispatcher.dispatch('GAME_LOOP_RESUMED', { frame: this.frame });
+  }
+
+  /**
+   * Scales simulation time. 1 is normal speed, values below 1 give slow motion.
+   */
+  public setTimeScale(timeScale: number): void {
+    useGameLoopStore.getState().setTimeScale(timeScale);
+    EventDispatcher.dispatch('TIME_SCALE_CHANGED', {
+      timeScale: useGameLoopStore.getState().timeScale
+    });
+  }
+
+  /**
+   * Advances the loop by the given real time, as a single frame.
+   * Used by the animation frame callback, and directly for manual stepping.
+   * @param realDeltaTime Real seconds elapsed since the previous frame.
+   */
+  public advance(realDeltaTime: number): void {
+    const { paused, timeScale, fixedTimeStep } = useGameLoopStore.getState();
+    const phases = this.getOrderedPhases();
+    const unscaledDeltaTime = Math.min(Math.max(realDeltaTime, 0), this.config.maxFrameTime);
+    const deltaTime = paused ? 0 : unscaledDeltaTime * timeScale;
+
+    this.accumulator += deltaTime;
+
+    let subSteps = 0;
+    while (this.accumulator >= fixedTimeStep && subSteps < this.config.maxSubSteps) {
+      this.runFixedStep(phases.fixedUpdate, fixedTimeStep, unscaledDeltaTime);
+      this.accumulator -= fixedTimeStep;
+      subSteps++;
+    }
+
+    // Drop time the simulation could not catch up on instead of carrying it forever
+    if (this.accumulator >= fixedTimeStep) {
+      this.accumulator %= fixedTimeStep;
+    }
+
+    this.alpha = fixedTimeStep > 0 ? this.accumulator / fixedTimeStep : 0;
+
+    const context = this.createContext(deltaTime, unscaledDeltaTime);
+    for (const phase of PHASE_ORDER) {
+      if (phase === 'fixedUpdate') continue;
+      phases[phase].forEach(system => {
+        if (paused && !system.runWhilePaused) return;
+        system.update(context);
+      });
+    }
+
+    this.frame++;
+  }
+
+  /**
+   * Runs fixed steps regardless of pause state, without rendering phases.
+   * Useful for frame-by-frame debugging while paused.
+   * @param steps Number of fixed steps to run.
+   */
+  public stepFixed(steps: number = 1): void {
+    const { fixedTimeStep } = useGameLoopStore.getState();
+    const fixedSystems = this.getOrderedPhases().fixedUpdate;
+
+    for (let i = 0; i < steps; i++) {
+      this.runFixedStep(fixedSystems, fixedTimeStep, fixedTimeStep);
+    }
+  }
+
+  public getFrameInfo(): Omit<FrameContext, 'deltaTime' | 'unscaledDeltaTime'> {
+    const { paused, timeScale } = useGameLoopStore.getState();
+    return {
+      alpha: this.alpha,
+      time: this.time,
+      frame: this.frame,
+      fixedFrame: this.fixedFrame,
+      timeScale,
+      paused
+    };
+  }
+
+  /**
+   * Clears counters and accumulated time. Registered systems are kept.
+   */
+  public reset(): void {
+    this.accumulator = 0;
+    this.time = 0;
+    this.frame = 0;
+    this.fixedFrame = 0;
+    this.alpha = 0;
+    useGameLoopStore.getState().reset();
+  }
+
+  /**
+   * Puts the simulation clock back to a given time and fixed step, e.g. where a replay's recording started,
+   * so systems timed by it make the same decisions again.
+   */
+  public setSimulationTime(time: number, fixedFrame: number = this.fixedFrame): void {
+    this.time = time;
+    this.fixedFrame = fixedFrame;
+  }
+
+  public cleanup(): void {
+    this.stop();
+    this.systems.clear();
+    this.orderedPhases = null;
+    this.reset();
+  }
+
+  private tick = (): void => {
+    const now = Runtime.now();
+    const realDeltaTime = (now - this.lastTime) / 1000;
+    this.lastTime = now;
+
+    this.advance(realDeltaTime);
+
+    this.frameId = Runtime.clock.requestFrame(this.tick);
+  };
+
+  private runFixedStep(systems: LoopSystem[], fixedTimeStep: number, unscaledDeltaTime: number): void {
+    const context = this.createContext(fixedTimeStep, unscaledDeltaTime);
+    systems.forEach(system => system.update(context));
+    this.time += fixedTimeStep;
+    this.fixedFrame++;
+  }
+
+  private createContext(deltaTime: number, unscaledDeltaTime: number): FrameContext {
+    const { paused, timeScale } = useGameLoopStore.getState();
+    return {
+      deltaTime,
+      unscaledDeltaTime,
+      alpha: this.alpha,
+      time: this.time,
+      frame: this.frame,
+      fixedFrame: this.fixedFrame,
+      timeScale,
+      paused
+    };
+  }
+
+  private getOrderedPhases(): Record<LoopPhase, LoopSystem[]> {
+    if (!this.orderedPhases) {
+      const phases = {} as Record<LoopPhase, LoopSystem[]>;
+      PHASE_ORDER.forEach(phase => {
+        const systems = Array.from(this.systems.values()).filter(system => system.phase === phase);
+        phases[phase] = this.sortByDependencies(systems, phase);
+      });
+      this.orderedPhases = phases;
+    }
+    return this.orderedPhases;
+  }
+
+  /**
+   * Orders systems so every `after`/`before` constraint is respected.
+   * Unconstrained systems keep their registration order. Unknown ids are ignored.
+   */
+  private sortByDependencies(systems: LoopSystem[], phase: LoopPhase): LoopSystem[] {
+    const ids = new Set(systems.map(system => system.id));
+    const incoming: Map<string, Set<string>> = new Map();
+    systems.forEach(system => incoming.set(system.id, new Set()));
+
+    systems.forEach(system => {
+      (system.after || []).forEach(dependency => {
+        if (ids.has(dependency)) incoming.get(system.id)!.add(dependency);
+      });
+      (system.before || []).forEach(dependent => {
+        if (ids.has(dependent)) incoming.get(dependent)!.add(system.id);
+      });
+    });
+
+    const ordered: LoopSystem[] = [];
+    const remaining = [...systems];
+
+    while (remaining.length > 0) {
+      const index = remaining.findIndex(system => incoming.get(system.id)!.size === 0);
+      if (index === -1) {
+        throw new Error(
+          `GameLoop: Circular dependency in "${phase}" between ${remaining.map(system => system.id).join(', ')}`
+        );
+      }
+
+      const [next] = remaining.splice(index, 1);
+      ordered.push(next);
+      incoming.forEach(dependencies => dependencies.delete(next.id));
+    }
+
+    return ordered;
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * @jest-environment node
+ */
+// src/systems/HeadlessSimulation/HeadlessSimulation.test.ts
+
+import { Scene, PerspectiveCamera } from 'three';
+import { HeadlessSimulation } from './HeadlessSimulation';
+import { GameLoop } from '../GameLoop/GameLoop';
+import { LogicEngine } from '../LogicEngine/LogicEngine';
+import { useGameLoopStore } from '../../stores/gameLoopStore';
+import { useLogicStore } from '../../stores/logicStore';
+import { Runtime } from '../../utils/Runtime';
+import { FrameRenderer } from '../../types/runtime.types';
+
+describe('HeadlessSimulation', () => {
+  let simulation: HeadlessSimulation;
+
+  beforeEach(() => {
+    (GameLoop as any).instance = null;
+    useGameLoopStore.getState().reset();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    simulation = new HeadlessSimulation({ fixedTimeStep: 1 / 50 });
+  });
+
+  afterEach(() => {
+    LogicEngine.stop();
+    simulation.dispose();
+    jest.restoreAllMocks();
+  });
+
+  it('should run without a window', () => {
+    expect(typeof window).toBe('undefined');
+
+    simulation.start();
+
+    expect(Runtime.isHeadless()).toBe(true);
+    expect(Runtime.gamepads.getGamepads()).toEqual([]);
+  });
+
+  it('should step exactly one fixed update per frame', () => {
+    const fixedUpdate = jest.fn();
+    simulation.start();
+    GameLoop.getInstance().register({ id: 'physics', phase: 'fixedUpdate', update: fixedUpdate });
+
+    simulation.step(10);
+
+    expect(fixedUpdate).toHaveBeenCalledTimes(10);
+    expect(simulation.getFrameInfo().time).toBeCloseTo(0.2);
+    expect(Runtime.now()).toBeCloseTo(200);
+  });
+
+  it('should keep the loop from scheduling its own frames', () => {
+    simulation.start();
+    LogicEngine.start();
+
+    expect(GameLoop.getInstance().isRunning()).toBe(false);
+  });
+
+  it('should process logic events frame by frame', () => {
+    simulation.start();
+    LogicEngine.start();
+
+    useLogicStore.getState().enqueueEvent({ type: 'START_GAME' });
+    useLogicStore.getState().enqueueEvent({ type: 'END_GAME' });
+
+    simulation.step();
+    expect(useLogicStore.getState().gameState).toBe('playing');
+
+    simulation.step();
+    expect(useLogicStore.getState().gameState).toBe('gameOver');
+  });
+
+  it('should render the scene through the supplied renderer', () => {
+    const renderer: FrameRenderer = { render: jest.fn(), setSize: jest.fn(), dispose: jest.fn() };
+    const scene = new Scene();
+    const camera = new PerspectiveCamera();
+    simulation = new HeadlessSimulation({ scene, camera, renderer });
+
+    simulation.start();
+    simulation.stepFor(0.1);
+
+    expect(renderer.render).toHaveBeenCalledTimes(5);
+    expect(renderer.render).toHaveBeenCalledWith(scene, camera);
+  });
+
+  it('should restore the previous runtime profile on dispose', () => {
+    const previous = Runtime.getProfile();
+    simulation.start();
+    simulation.dispose();
+
+    expect(Runtime.getProfile()).toBe(previous);
+    expect(() => simulation.step()).toThrow('start() must be called');
+  });
+});
@@ -0,0 +1,110 @@
+// src/systems/HeadlessSimulation/HeadlessSimulation.ts
+
+// Purpose: Runs the game loop without a window or WebGL, one frame at a time.
+// Swaps the runtime to the headless profile so systems get a manual clock, null input and in-memory storage.
+
+import { Camera, Scene } from 'three';
+import { FrameContext } from '../../types/gameLoop.types';
+import { FrameRenderer, HeadlessSimulationOptions, RuntimeProfile } from '../../types/runtime.types';
+import { useGameLoopStore } from '../../stores/gameLoopStore';
+import { GameLoop } from '../GameLoop/GameLoop';
+import { ManualClock, NullRenderer, Runtime, createHeadlessProfile } from '../../utils/Runtime';
+
+export class HeadlessSimulation {
+  private clock: ManualClock = new ManualClock();
+  private renderer: FrameRenderer;
+  private scene: Scene | null;
+  private camera: Camera | null;
+  private previousProfile: RuntimeProfile | null = null;
+  private unregisterRenderer: (() => void) | null = null;
+
+  constructor(options: HeadlessSimulationOptions = {}) {
+    this.scene = options.scene || null;
+    this.camera = options.camera || null;
+    this.renderer = options.renderer || new NullRenderer();
+
+    if (options.fixedTimeStep) {
+      useGameLoopStore.getState().setFixedTimeStep(options.fixedTimeStep);
+    }
+  }
+
+  /**
+   * Switches the runtime to the headless profile and puts the game loop in manual stepping.
+   * Call this before starting other systems so they subscribe to the headless input target.
+   */
+  public start(): void {
+    if (this.previousProfile) return;
+
+    this.previousProfile = Runtime.getProfile();
+    Runtime.setProfile(createHeadlessProfile(this.clock));
+
+    const gameLoop = GameLoop.getInstance();
+    if (this.scene && this.camera) {
+      const scene = this.scene;
+      const camera = this.camera;
+      this.unregisterRenderer = gameLoop.register({
+        id: 'headlessRenderer',
+        phase: 'render',
+        runWhilePaused: true,
+        update: () => this.renderer.render(scene, camera)
+      });
+    }
+    gameLoop.setManualStepping(true);
+  }
+
+  /**
+   * Runs loop frames of exactly one fixed step each, advancing the clock alongside.
+   * @param frames Number of frames to run.
+   */
+  public step(frames: number = 1): void {
+    if (!this.previousProfile) {
+      throw new Error('HeadlessSimulation: start() must be called before stepping');
+    }
+
+    const gameLoop = GameLoop.getInstance();
+    const { fixedTimeStep } = useGameLoopStore.getState();
+    for (let i = 0; i < frames; i++) {
+      this.clock.advance(fixedTimeStep * 1000);
+      gameLoop.advance(fixedTimeStep);
+    }
+  }
+
+  /**
+   * Runs as many fixed-step frames as fit in the given simulated time.
+   * @param seconds Simulated seconds to run.
+   * @returns The number of frames that ran.
+   */
+  public stepFor(seconds: number): number {
+    const { fixedTimeStep } = useGameLoopStore.getState();
+    const frames = Math.round(seconds / fixedTimeStep);
+    this.step(frames);
+    return frames;
+  }
+
+  public getFrameInfo(): Omit<FrameContext, 'deltaTime' | 'unscaledDeltaTime'> {
+    return GameLoop.getInstance().getFrameInfo();
+  }
+
+  public getClock(): ManualClock {
+    return this.clock;
+  }
+
+  /**
+   * Stops the loop, unregisters every loop system and restores the previous runtime profile.
+   */
+  public dispose(): void {
+    if (!this.previousProfile) return;
+
+    if (this.unregisterRenderer) {
+      this.unregisterRenderer();
+      this.unregisterRenderer = null;
+    }
+    const gameLoop = GameLoop.getInstance();
+    gameLoop.setManualStepping(false);
+    gameLoop.cleanup();
+    this.renderer.dispose();
+
+    Runtime.setProfile(this.previousProfile);
+    this.previousProfile = null;
+  }
+}
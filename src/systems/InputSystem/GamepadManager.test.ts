@@ -0,0 +1,83 @@
+/**
+ * @jest-environment node
+ */
+// src/systems/InputSystem/GamepadManager.test.ts
+
+import { GamepadManager } from './GamepadManager';
+import { EventDispatcher } from '../../utils/EventDispatcher';
+import { ManualClock, Runtime, createHeadlessProfile } from '../../utils/Runtime';
+import { InputEventTarget, RuntimeProfile } from '../../types/runtime.types';
+
+const createInput = (): InputEventTarget => ({
+  addEventListener: jest.fn(),
+  removeEventListener: jest.fn(),
+  innerWidth: 1,
+  innerHeight: 1,
+});
+
+const createGamepad = (pressed: boolean): Gamepad =>
+  ({ id: 'pad', index: 0, buttons: [{ pressed }], axes: [0] }) as unknown as Gamepad;
+
+describe('GamepadManager', () => {
+  let previousProfile: RuntimeProfile;
+  let clock: ManualClock;
+  let profile: RuntimeProfile;
+  let gamepad: Gamepad;
+
+  beforeEach(() => {
+    previousProfile = Runtime.getProfile();
+    clock = new ManualClock();
+    gamepad = createGamepad(false);
+    profile = { ...createHeadlessProfile(clock), input: createInput(), gamepads: { getGamepads: () => [gamepad] } };
+    Runtime.setProfile(profile);
+    (GamepadManager as any).instance = null;
+  });
+
+  afterEach(() => {
+    GamepadManager.getInstance().cleanup();
+    (GamepadManager as any).instance = null;
+    Runtime.setProfile(previousProfile);
+    jest.restoreAllMocks();
+  });
+
+  it('should poll on the runtime clock instead of a timer', () => {
+    const setInterval = jest.spyOn(global, 'setInterval');
+    const buttons = jest.fn();
+    const unsubscribe = EventDispatcher.on('GAMEPAD_BUTTON', buttons);
+    const manager = GamepadManager.getInstance();
+
+    manager.startPolling(16);
+    expect(setInterval).not.toHaveBeenCalled();
+    expect(manager.getGamepad(0)).toBeUndefined();
+
+    clock.advance(16);
+    expect(manager.getGamepad(0)!.buttons).toEqual([false]);
+
+    // Too soon for the next poll, then due
+    gamepad = createGamepad(true);
+    clock.advance(8);
+    expect(buttons).not.toHaveBeenCalled();
+    clock.advance(8);
+    expect(buttons).toHaveBeenCalledTimes(1);
+    expect(buttons.mock.calls[0][0]).toEqual({ gamepadId: 'pad', button: 0, pressed: true });
+
+    manager.stopPolling();
+    gamepad = createGamepad(false);
+    clock.advance(16);
+    expect(buttons).toHaveBeenCalledTimes(1);
+    unsubscribe();
+  });
+
+  it('should remove its listeners from the target it added them to', () => {
+    const manager = GamepadManager.getInstance();
+    const addEventListener = profile.input.addEventListener as jest.Mock;
+    expect(addEventListener).toHaveBeenCalledTimes(2);
+
+    const nextInput = createInput();
+    Runtime.setProfile({ ...createHeadlessProfile(), input: nextInput });
+    manager.cleanup();
+
+    expect((profile.input.removeEventListener as jest.Mock).mock.calls).toEqual(addEventListener.mock.calls);
+    expect(nextInput.removeEventListener).not.toHaveBeenCalled();
+  });
+});
@@ -1,21 +1,27 @@
 // src/systems/InputSystem/GamepadManager.ts
 
 import {GamepadData} from '../../types/input.types';
+import {FrameClock,InputEventTarget} from '../../types/runtime.types';
 import {EventDispatcher} from '../../utils/EventDispatcher';
+import {Runtime} from '../../utils/Runtime';
 
 export class GamepadManager {
 	private static instance: GamepadManager|null=null;
 	private gamepads: Map<number,GamepadData>;
-	private pollInterval: NodeJS.Timeout|null;
+	private pollFrame: number|null;
+	private pollClock: FrameClock|null; // The clock the pending poll frame was requested from
+	private inputTarget: InputEventTarget; // Where the connection listeners were added, even if the profile changes
 	private debugMode: boolean;
 
 	private constructor(debug: boolean=false) {
 		this.gamepads=new Map();
-		this.pollInterval=null;
+		this.pollFrame=null;
+		this.pollClock=null;
 		this.debugMode=debug;
 
-		window.addEventListener('gamepadconnected',this.handleGamepadConnected);
-		window.addEventListener('gamepaddisconnected',this.handleGamepadDisconnected);
+		this.inputTarget=Runtime.input;
+		this.inputTarget.addEventListener('gamepadconnected',this.handleGamepadConnected);
+		this.inputTarget.addEventListener('gamepaddisconnected',this.handleGamepadDisconnected);
 	}
 
 	public static getInstance(debug?: boolean): GamepadManager {
@@ -32,7 +38,7 @@ export class GamepadManager {
 			index: gamepad.index,
 			buttons: Array.from(gamepad.buttons.map(b => b.pressed)),
 			axes: Array.from(gamepad.axes),
-			timestamp: performance.now()
+			timestamp: Runtime.now()
 		});
 
 		if(this.debugMode) {
@@ -53,30 +59,48 @@ export class GamepadManager {
 		EventDispatcher.dispatch('GAMEPAD_DISCONNECTED',{gamepadId: gamepad.id});
 	};
 
+	/**
+	 * Polls on the runtime clock's frames, at most once per pollRate milliseconds. A headless
+	 * ManualClock only polls when it is advanced, so nothing keeps a Node process alive.
+	 */
 	public startPolling(pollRate: number=16): void {
-		if(this.pollInterval) return;
-
-		this.pollInterval=setInterval(() => {
-			const gamepads=navigator.getGamepads();
-			for(const gamepad of gamepads) {
-				if(!gamepad) continue;
-
-				const prevState=this.gamepads.get(gamepad.index);
-				const newState: GamepadData={
-					id: gamepad.id,
-					index: gamepad.index,
-					buttons: Array.from(gamepad.buttons.map(b => b.pressed)),
-					axes: Array.from(gamepad.axes),
-					timestamp: performance.now()
-				};
-
-				if(prevState) {
-					this.detectChanges(prevState,newState);
-				}
-
-				this.gamepads.set(gamepad.index,newState);
+		if(this.pollFrame!==null) return;
+
+		const clock=Runtime.clock;
+		let lastPollTime=-Infinity;
+		const poll=() => {
+			const now=clock.now();
+			if(now-lastPollTime>=pollRate) {
+				lastPollTime=now;
+				this.pollGamepads();
 			}
-		},pollRate);
+			this.pollFrame=clock.requestFrame(poll);
+		};
+
+		this.pollClock=clock;
+		this.pollFrame=clock.requestFrame(poll);
+	}
+
+	private pollGamepads(): void {
+		const gamepads=Runtime.gamepads.getGamepads();
+		for(const gamepad of gamepads) {
+			if(!gamepad) continue;
+
+			const prevState=this.gamepads.get(gamepad.index);
+			const newState: GamepadData={
+				id: gamepad.id,
+				index: gamepad.index,
+				buttons: Array.from(gamepad.buttons.map(b => b.pressed)),
+				axes: Array.from(gamepad.axes),
+				timestamp: Runtime.now()
+			};
+
+			if(prevState) {
+				this.detectChanges(prevState,newState);
+			}
+
+			this.gamepads.set(gamepad.index,newState);
+		}
 	}
 
 	private detectChanges(prev: GamepadData,curr: GamepadData): void {
@@ -104,9 +128,10 @@ export class GamepadManager {
 	}
 
 	public stopPolling(): void {
-		if(this.pollInterval) {
-			clearInterval(this.pollInterval);
-			this.pollInterval=null;
+		if(this.pollFrame!==null) {
+			this.pollClock?.cancelFrame(this.pollFrame);
+			this.pollFrame=null;
+			this.pollClock=null;
 		}
 	}
 
@@ -116,8 +141,8 @@ export class GamepadManager {
 
 	public cleanup(): void {
 		this.stopPolling();
-		window.removeEventListener('gamepadconnected',this.handleGamepadConnected);
-		window.removeEventListener('gamepaddisconnected',this.handleGamepadDisconnected);
+		this.inputTarget.removeEventListener('gamepadconnected',this.handleGamepadConnected);
+		this.inputTarget.removeEventListener('gamepaddisconnected',this.handleGamepadDisconnected);
 		this.gamepads.clear();
 	}
 }
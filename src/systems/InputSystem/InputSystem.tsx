@@ -5,6 +5,9 @@ import { InputMapper } from './InputMapper';
 import { useInputStore } from '../../stores/inputStore';
 import { InputAction, InputBinding, InputDevice, InputConfig, InputEvent, InputStore } from '../../types/input.types';
 import { EventDispatcher } from '../../utils/EventDispatcher';
+import { Unsubscribe } from '../../types/event.types';
+import { Runtime } from '../../utils/Runtime';
+import { InputEventTarget } from '../../types/runtime.types';
 
 export class InputSystem {
   private static instance: InputSystem | null = null;
@@ -13,13 +16,20 @@ export class InputSystem {
   private inputMapper: InputMapper;
   private inputHistory: InputEvent[] = [];
   private readonly HISTORY_LIMIT = 100;
-  private frameId: number | null = null;
+  private suspended: boolean = false; // Live input is ignored while a replay drives the input store
+  private eventSubscriptions: Unsubscribe[] = [];
+  private inputTarget: InputEventTarget | null = null; // Where the listeners were added, even if the profile changes
 
   private constructor(config: InputConfig) {
     this.config = config;
     this.gamepadManager = GamepadManager.getInstance(config.debug);
     this.inputMapper = InputMapper.getInstance(config.debug);
     this.setupEventListeners();
+
+    this.eventSubscriptions = [
+      EventDispatcher.on('REPLAY_PLAYBACK_STARTED', () => { this.suspended = true; }),
+      EventDispatcher.on('REPLAY_PLAYBACK_STOPPED', () => { this.suspended = false; })
+    ];
   }
 
   public static getInstance(config?: InputConfig): InputSystem {
@@ -35,19 +45,24 @@ export class InputSystem {
   }
 
   private setupEventListeners(): void {
+    // Never listen on two targets at once
+    this.removeEventListeners();
+    const target = Runtime.input;
+    this.inputTarget = target;
+
     // Keyboard events
-    window.addEventListener('keydown', this.handleKeyDown);
-    window.addEventListener('keyup', this.handleKeyUp);
+    target.addEventListener('keydown', this.handleKeyDown);
+    target.addEventListener('keyup', this.handleKeyUp);
 
     // Mouse events
-    window.addEventListener('mousemove', this.handleMouseMove);
-    window.addEventListener('mousedown', this.handleMouseDown);
-    window.addEventListener('mouseup', this.handleMouseUp);
-    window.addEventListener('wheel', this.handleMouseWheel);
+    target.addEventListener('mousemove', this.handleMouseMove);
+    target.addEventListener('mousedown', this.handleMouseDown);
+    target.addEventListener('mouseup', this.handleMouseUp);
+    target.addEventListener('wheel', this.handleMouseWheel);
 
     // Gamepad events
-    window.addEventListener('gamepadconnected', this.handleGamepadConnected);
-    window.addEventListener('gamepaddisconnected', this.handleGamepadDisconnected);
+    target.addEventListener('gamepadconnected', this.handleGamepadConnected);
+    target.addEventListener('gamepaddisconnected', this.handleGamepadDisconnected);
 
     // Start gamepad polling
     this.gamepadManager.startPolling(this.config.pollRate);
@@ -58,6 +73,7 @@ export class InputSystem {
   }
 
   private handleKeyDown = (event: KeyboardEvent): void => {
+    if (this.suspended) return;
     const action = this.inputMapper.mapKeyToAction(event.key);
     if (action) {
       useInputStore.getState().setActiveAction(action, true);
@@ -66,12 +82,14 @@ export class InputSystem {
         action,
         value: 1, // Example value
         device: 'keyboard',
-        timestamp: performance.now()
+        timestamp: Runtime.now(),
+        kind: 'action'
       });
     }
   };
 
   private handleKeyUp = (event: KeyboardEvent): void => {
+    if (this.suspended) return;
     const action = this.inputMapper.mapKeyToAction(event.key);
     if (action) {
       useInputStore.getState().setActiveAction(action, false);
@@ -79,14 +97,16 @@ export class InputSystem {
         action,
         value: 0, // Example value
         device: 'keyboard',
-        timestamp: performance.now()
+        timestamp: Runtime.now(),
+        kind: 'action'
       });
     }
   };
 
   private handleMouseMove = (event: MouseEvent): void => {
-    const normalizedX = event.movementX / window.innerWidth;
-    const normalizedY = event.movementY / window.innerHeight;
+    if (this.suspended) return;
+    const normalizedX = event.movementX / Runtime.input.innerWidth;
+    const normalizedY = event.movementY / Runtime.input.innerHeight;
 
     if (Math.abs(normalizedX) > this.config.axisThreshold) {
       this.updateAxisValue('lookX', normalizedX);
@@ -99,6 +119,7 @@ export class InputSystem {
   };
 
   private handleMouseDown = (event: MouseEvent): void => {
+    if (this.suspended) return;
     const action = this.inputMapper.mapMouseButtonToAction(event.button);
     if (action) {
       useInputStore.getState().setActiveAction(action, true);
@@ -107,12 +128,14 @@ export class InputSystem {
         action,
         value: 1,
         device: 'mouse',
-        timestamp: performance.now()
+        timestamp: Runtime.now(),
+        kind: 'action'
       });
     }
   };
 
   private handleMouseUp = (event: MouseEvent): void => {
+    if (this.suspended) return;
     const action = this.inputMapper.mapMouseButtonToAction(event.button);
     if (action) {
       useInputStore.getState().setActiveAction(action, false);
@@ -120,12 +143,14 @@ export class InputSystem {
         action,
         value: 0,
         device: 'mouse',
-        timestamp: performance.now()
+        timestamp: Runtime.now(),
+        kind: 'action'
       });
     }
   };
 
   private handleMouseWheel = (event: WheelEvent): void => {
+    if (this.suspended) return;
     const normalizedDelta = Math.sign(event.deltaY) * 0.1;
     this.updateAxisValue('scroll', normalizedDelta);
   };
@@ -187,7 +212,8 @@ export class InputSystem {
       action: axis as InputAction,
       value: finalValue,
       device: 'mouse', // or 'gamepad' based on context
-      timestamp: performance.now()
+      timestamp: Runtime.now(),
+      kind: 'axis'
     });
   }
 
@@ -196,21 +222,29 @@ export class InputSystem {
     if (this.inputHistory.length > this.HISTORY_LIMIT) {
       this.inputHistory.shift();
     }
+    EventDispatcher.dispatch('INPUT_RECEIVED', event);
   }
 
   public getInputHistory(): InputEvent[] {
     return [...this.inputHistory];
   }
 
+  private removeEventListeners(): void {
+    const target = this.inputTarget;
+    if (!target) return;
+    target.removeEventListener('keydown', this.handleKeyDown);
+    target.removeEventListener('keyup', this.handleKeyUp);
+    target.removeEventListener('mousemove', this.handleMouseMove);
+    target.removeEventListener('mousedown', this.handleMouseDown);
+    target.removeEventListener('mouseup', this.handleMouseUp);
+    target.removeEventListener('wheel', this.handleMouseWheel);
+    target.removeEventListener('gamepadconnected', this.handleGamepadConnected);
+    target.removeEventListener('gamepaddisconnected', this.handleGamepadDisconnected);
+    this.inputTarget = null;
+  }
+
   public cleanup(): void {
-    window.removeEventListener('keydown', this.handleKeyDown);
-    window.removeEventListener('keyup', this.handleKeyUp);
-    window.removeEventListener('mousemove', this.handleMouseMove);
-    window.removeEventListener('mousedown', this.handleMouseDown);
-    window.removeEventListener('mouseup', this.handleMouseUp);
-    window.removeEventListener('wheel', this.handleMouseWheel);
-    window.removeEventListener('gamepadconnected', this.handleGamepadConnected);
-    window.removeEventListener('gamepaddisconnected', this.handleGamepadDisconnected);
+    this.removeEventListeners();
     this.gamepadManager.cleanup();
     this.inputMapper.clear();
     this.inputHistory = [];
@@ -218,6 +252,8 @@ export class InputSystem {
 
   public reset(): void {
     this.cleanup();
+    this.eventSubscriptions.forEach(unsubscribe => unsubscribe());
+    this.eventSubscriptions = [];
     useInputStore.getState().reset();
     InputSystem.instance = null;
   }
@@ -3,10 +3,13 @@
 import { InventoryItem, InventoryGrid, InventorySlot } from '../../types/inventory.types';
 import { useInventoryStore } from '../../stores/inventoryStore';
 import { EventDispatcher } from '../../utils/EventDispatcher';
+import { GameLoop } from '../GameLoop/GameLoop';
+import { EventMap, Unsubscribe } from '../../types/event.types';
 
 export class InventorySystem {
   private static instance: InventorySystem | null = null;
-  private frameId: number | null = null;
+  private unregisterFromLoop: (() => void) | null = null;
+  private eventSubscriptions: Unsubscribe[] = [];
 
   private constructor() {
     this.setupEventListeners();
@@ -20,9 +23,11 @@ export class InventorySystem {
   }
 
   private setupEventListeners(): void {
-    EventDispatcher.on("ITEM_DROPPED", this.handleItemDrop.bind(this));
-    EventDispatcher.on("ITEM_PICKED_UP", this.handleItemPickup.bind(this));
-    EventDispatcher.on("INVENTORY_FULL", this.handleInventoryFull.bind(this));
+    this.eventSubscriptions = [
+      EventDispatcher.on("ITEM_DROPPED", this.handleItemDrop.bind(this)),
+      EventDispatcher.on("ITEM_PICKED_UP", this.handleItemPickup.bind(this)),
+      EventDispatcher.on("INVENTORY_FULL", this.handleInventoryFull.bind(this))
+    ];
   }
 
   public createGrid(config: {
@@ -124,42 +129,46 @@ export class InventorySystem {
     return null;
   }
 
-  private handleItemDrop(data: { item: InventoryItem; position: { x: number; y: number; z: number } }): void {
+  private handleItemDrop(data: EventMap['ITEM_DROPPED']): void {
     const store = useInventoryStore.getState();
     // Implement item dropping logic
   }
 
-  private handleItemPickup(data: { item: InventoryItem }): void {
+  private handleItemPickup(data: EventMap['ITEM_PICKED_UP']): void {
     this.addItemToInventory(data.item);
   }
 
-  private handleInventoryFull(data: { item: InventoryItem }): void {
+  private handleInventoryFull(data: EventMap['INVENTORY_FULL']): void {
     // Implement inventory full behavior (e.g., show notification)
     console.warn('Inventory is full!', data.item);
   }
 
   public update = (): void => {
     // Implement any per-frame updates needed
-    this.frameId = requestAnimationFrame(this.update);
   };
 
   public start(): void {
-    if (this.frameId === null) {
-      this.update();
+    if (this.unregisterFromLoop === null) {
+      const gameLoop = GameLoop.getInstance();
+      this.unregisterFromLoop = gameLoop.register({
+        id: 'inventory',
+        phase: 'update',
+        update: this.update
+      });
+      gameLoop.start();
     }
   }
 
   public stop(): void {
-    if (this.frameId !== null) {
-      cancelAnimationFrame(this.frameId);
-      this.frameId = null;
+    if (this.unregisterFromLoop !== null) {
+      this.unregisterFromLoop();
+      this.unregisterFromLoop = null;
     }
   }
 
   public cleanup(): void {
     this.stop();
-    EventDispatcher.off("ITEM_DROPPED", this.handleItemDrop);
-    EventDispatcher.off("ITEM_PICKED_UP", this.handleItemPickup);
-    EventDispatcher.off("INVENTORY_FULL", this.handleInventoryFull);
+    this.eventSubscriptions.forEach(unsubscribe => unsubscribe());
+    this.eventSubscriptions = [];
   }
 }
\ No newline at end of file
@@ -7,10 +7,11 @@
 
 import { GameEvent, LogicComponent, LogicState } from "../../types/logic.types";
 import { useLogicStore } from "../../stores/logicStore";
+import { GameLoop } from "../GameLoop/GameLoop";
 
 export class LogicEngineClass {
   private static instance: LogicEngineClass | null = null;
-  private running: boolean = false;
+  private unregisterFromLoop: (() => void) | null = null;
 
   private constructor() {}
 
@@ -22,26 +23,30 @@ export class LogicEngineClass {
   }
 
   public start(): void {
-    if (this.running) return;
-    this.running = true;
-    this.loop();
+    if (this.unregisterFromLoop) return;
+    const gameLoop = GameLoop.getInstance();
+    this.unregisterFromLoop = gameLoop.register({
+      id: "logic",
+      phase: "fixedUpdate",
+      update: () => this.processNextEvent(),
+    });
+    gameLoop.start();
     console.log("LogicEngine started.");
   }
 
   public stop(): void {
-    this.running = false;
+    if (this.unregisterFromLoop) {
+      this.unregisterFromLoop();
+      this.unregisterFromLoop = null;
+    }
     console.log("LogicEngine stopped.");
   }
 
-  private loop(): void {
-    if (!this.running) return;
-
+  private processNextEvent(): void {
     const event = useLogicStore.getState().dequeueEvent();
     if (event) {
       this.handleEvent(event);
     }
-
-    requestAnimationFrame(() => this.loop());
   }
 
   private handleEvent(event: GameEvent): void {
@@ -4,6 +4,8 @@ import { Camera, Frustum, Matrix4, Box3, Vector3, Object3D } from 'three';
 import { OccluderObject, OcclusionConfig } from '../../types/occlusion.types';
 import { useOcclusionStore } from '../../stores/occlusionStore';
 import { EventDispatcher } from '../../utils/EventDispatcher';
+import { GameLoop } from '../GameLoop/GameLoop';
+import { FrameContext } from '../../types/gameLoop.types';
 
 export class OcclusionSystem {
   private static instance: OcclusionSystem | null = null;
@@ -12,8 +14,7 @@ export class OcclusionSystem {
   private frustum: Frustum;
   private projScreenMatrix: Matrix4;
   private updateTimer: number;
-  private lastUpdate: number;
-  private frameId: number | null;
+  private unregisterFromLoop: (() => void) | null;
 
   private constructor(config: OcclusionConfig) {
     this.config = config;
@@ -21,8 +22,7 @@ export class OcclusionSystem {
     this.frustum = new Frustum();
     this.projScreenMatrix = new Matrix4();
     this.updateTimer = 0;
-    this.lastUpdate = 0;
-    this.frameId = null;
+    this.unregisterFromLoop = null;
   }
 
   public static getInstance(config?: OcclusionConfig): OcclusionSystem {
@@ -47,13 +47,19 @@ export class OcclusionSystem {
     }
   }
 
+  /**
+   * Registers an object for occlusion culling.
+   * @param options `id` defaults to the object's uuid; pass the entity id to link the two.
+   * @returns The occluder id.
+   */
   public registerObject(object: Object3D, options: {
+    id?: string;
     isOccluder?: boolean;
     isOccludable?: boolean;
-  } = {}): void {
+  } = {}): string {
     const bounds = new Box3().setFromObject(object);
     const occluder: OccluderObject = {
-      id: object.uuid,
+      id: options.id ?? object.uuid,
       bounds,
       position: object.position,
       isOccluder: options.isOccluder ?? true,
@@ -68,6 +74,8 @@ export class OcclusionSystem {
     if (this.config.debug) {
       console.log(`OcclusionSystem: Registered object ${occluder.id}`);
     }
+
+    return occluder.id;
   }
 
   public unregisterObject(id: string): void {
@@ -159,12 +167,12 @@ export class OcclusionSystem {
     }
   }
 
-  private update = (timestamp: number): void => {
+  private update = ({ unscaledDeltaTime }: FrameContext): void => {
     if (!this.camera) return;
 
-    const deltaTime = timestamp - this.lastUpdate;
+    this.updateTimer += unscaledDeltaTime * 1000;
 
-    if (deltaTime >= this.config.updateFrequency) {
+    if (this.updateTimer >= this.config.updateFrequency) {
       const occluders = Object.values(useOcclusionStore.getState().occluders)
         .filter(obj => obj.isOccluder)
         .sort((a, b) => {
@@ -179,22 +187,28 @@ export class OcclusionSystem {
           this.updateObjectVisibility(object, occluders);
         });
 
-      this.lastUpdate = timestamp;
+      this.updateTimer = 0;
     }
-
-    this.frameId = requestAnimationFrame(this.update);
   };
 
   private startUpdate(): void {
-    if (this.frameId === null) {
-      this.frameId = requestAnimationFrame(this.update);
+    if (this.unregisterFromLoop === null) {
+      const gameLoop = GameLoop.getInstance();
+      this.unregisterFromLoop = gameLoop.register({
+        id: 'occlusion',
+        phase: 'lateUpdate',
+        after: ['camera'],
+        runWhilePaused: true,
+        update: this.update
+      });
+      gameLoop.start();
     }
   }
 
   private stopUpdate(): void {
-    if (this.frameId !== null) {
-      cancelAnimationFrame(this.frameId);
-      this.frameId = null;
+    if (this.unregisterFromLoop !== null) {
+      this.unregisterFromLoop();
+      this.unregisterFromLoop = null;
     }
   }
 
@@ -3,6 +3,8 @@
 import {Vector3,Color} from 'three';
 import {Particle,EmitterConfig} from '../../types/particle.types';
 import {useParticleStore} from '../../stores/particleStore';
+import {Runtime} from '../../utils/Runtime';
+import {Random,RandomStream} from '../../utils/Random';
 
 export class Emitter implements Emitter {
 	public config: EmitterConfig; // Changed from private to public
@@ -10,16 +12,18 @@ export class Emitter implements Emitter {
 	private active: boolean=false;
 	private startTime: number;
 	private lastEmitTime: number;
+	private random: RandomStream;
 
 	constructor(config: EmitterConfig) {
 		this.config=config;
+		this.random=Random.stream(`particles:${config.id}`);
 		this.startTime=0;
 		this.lastEmitTime=0;
 	}
 
 	public start(): void {
 		this.active=true;
-		this.startTime=performance.now();
+		this.startTime=Runtime.now();
 		this.lastEmitTime=this.startTime;
 	}
 
@@ -74,9 +78,9 @@ export class Emitter implements Emitter {
 	private getEmissionPosition(): Vector3 {
 		const {position,spread}=this.config;
 		return new Vector3(
-			position.x+(Math.random()-0.5)*spread.x,
-			position.y+(Math.random()-0.5)*spread.y,
-			position.z+(Math.random()-0.5)*spread.z
+			position.x+(this.random.next()-0.5)*spread.x,
+			position.y+(this.random.next()-0.5)*spread.y,
+			position.z+(this.random.next()-0.5)*spread.z
 		);
 	}
 
@@ -90,11 +94,11 @@ export class Emitter implements Emitter {
 		const {startColor,endColor}=this.config;
 		if(!endColor) return startColor.clone();
 
-		const t=Math.random();
+		const t=this.random.next();
 		return new Color().lerpColors(startColor,endColor,t);
 	}
 
 	private getRandomRange(range: {min: number; max: number}): number {
-		return range.min+Math.random()*(range.max-range.min);
+		return this.random.range(range.min,range.max);
 	}
 }
\ No newline at end of file
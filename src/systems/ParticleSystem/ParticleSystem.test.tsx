@@ -236,6 +236,6 @@ describe('ParticleSystem', () => {
     expect(useParticleStore.getState().emitters[config.id]).toBeUndefined();
     expect(useParticleStore.getState().particles).toEqual({});
     expect(useParticleStore.getState().particleCount).toBe(0);
-    expect(particleSystem['frameId']).toBeNull();
+    expect(particleSystem['unregisterFromLoop']).toBeNull();
   });
 });
\ No newline at end of file
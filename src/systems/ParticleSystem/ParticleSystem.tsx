@@ -6,13 +6,17 @@ import { Emitter } from './Emitter';
 import { useParticleStore } from '../../stores/particleStore';
 import { Particle, EmitterConfig } from '../../types/particle.types';
 import { EventDispatcher } from '../../utils/EventDispatcher';
+import { Runtime } from '../../utils/Runtime';
+import { Random } from '../../utils/Random';
+import { GameLoop } from '../GameLoop/GameLoop';
+import { FrameContext } from '../../types/gameLoop.types';
 
 export class ParticleSystem {
   private static instance: ParticleSystem | null = null;
   private physics: ParticlePhysics;
   private bounds: { min: Vector3; max: Vector3 };
   private debug: boolean;
-  private frameId: number | null = null;
+  private unregisterFromLoop: (() => void) | null = null;
 
   private constructor(debug: boolean = false) {
     this.physics = new ParticlePhysics();
@@ -38,23 +42,32 @@ export class ParticleSystem {
 
   public removeEmitter(id: string): void {
     useParticleStore.getState().removeEmitter(id);
+    Random.removeStream(`particles:${id}`);
   }
 
   public start(): void {
     useParticleStore.getState().setActive(true);
-    this.update();
+    if (this.unregisterFromLoop === null) {
+      const gameLoop = GameLoop.getInstance();
+      this.unregisterFromLoop = gameLoop.register({
+        id: 'particles',
+        phase: 'update',
+        update: this.update
+      });
+      gameLoop.start();
+    }
   }
 
   public stop(): void {
     useParticleStore.getState().setActive(false);
-    if (this.frameId !== null) {
-      cancelAnimationFrame(this.frameId);
-      this.frameId = null;
+    if (this.unregisterFromLoop !== null) {
+      this.unregisterFromLoop();
+      this.unregisterFromLoop = null;
     }
   }
 
-  private update = (): void => {
-    const currentTime = performance.now();
+  private update = ({ deltaTime }: FrameContext): void => {
+    const currentTime = Runtime.now();
     const store = useParticleStore.getState();
 
     if (!store.active) return;
@@ -66,22 +79,20 @@ export class ParticleSystem {
 
     // Update particles
     Object.values(store.particles).forEach(particle => {
-      this.updateParticle(particle, currentTime);
+      this.updateParticle(particle, deltaTime);
     });
-
-    this.frameId = requestAnimationFrame(this.update);
   };
 
-  private updateParticle(particle: Particle, currentTime: number): void {
+  private updateParticle(particle: Particle, deltaTime: number): void {
     // Update lifetime
-    particle.life += 1/60; // Assuming 60fps
+    particle.life += deltaTime;
     if (particle.life >= particle.maxLife) {
       useParticleStore.getState().removeParticle(particle.id);
       return;
     }
 
     // Update physics
-    this.physics.updateParticle(particle, 1/60);
+    this.physics.updateParticle(particle, deltaTime);
     this.physics.checkCollision(particle, this.bounds);
 
     // Update color and size based on lifetime
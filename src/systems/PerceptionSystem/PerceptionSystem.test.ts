@@ -0,0 +1,187 @@
+// src/systems/PerceptionSystem/PerceptionSystem.test.ts
+
+import { Box3, Object3D, Vector3 } from 'three';
+import { PerceptionSystem } from './PerceptionSystem';
+import { CharacterControllerSystem } from '../CharacterControllerSystem/CharacterControllerSystem';
+import { GameLoop } from '../GameLoop/GameLoop';
+import { PhysicsSystemManager } from '../PhysicsSystem/PhysicsSystem';
+import { useAIStore } from '../../stores/aiStore';
+import { useGameLoopStore } from '../../stores/gameLoopStore';
+import { useOcclusionStore } from '../../stores/occlusionStore';
+import { EventDispatcher } from '../../utils/EventDispatcher';
+import { AIEntity, PerceptionConfig } from '../../types/ai.types';
+import { PhysicsBackend } from '../../types/physics.types';
+
+const createEntity = (overrides: Partial<AIEntity> = {}): AIEntity => ({
+  id: 'guard',
+  position: new Vector3(),
+  rotation: new Vector3(), // Facing +z
+  health: 100,
+  maxHealth: 100,
+  speed: 5,
+  currentBehavior: 'idle',
+  behaviors: [],
+  aggressionLevel: 1,
+  detectionRange: 20,
+  attackRange: 2,
+  lastAttackTime: 0,
+  attackCooldown: 1000,
+  perception: { fieldOfView: Math.PI / 2, memoryDuration: 1 },
+  ...overrides,
+});
+
+describe('PerceptionSystem', () => {
+  let system: PerceptionSystem;
+  let player: Vector3;
+  let fixedTimeStep: number;
+
+  const guard = () => useAIStore.getState().entities.guard;
+
+  const setup = (config: Partial<PerceptionConfig> = {}) => {
+    system = PerceptionSystem.getInstance({ lineOfSight: 'none', ...config });
+    system.registerTarget('player', () => player);
+    system.start();
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    fixedTimeStep = useGameLoopStore.getState().fixedTimeStep;
+    useGameLoopStore.getState().setFixedTimeStep(0.1);
+    GameLoop.getInstance().setManualStepping(true);
+    useAIStore.setState({ entities: { guard: createEntity() } });
+    useOcclusionStore.setState({ occluders: {} });
+    player = new Vector3(0, 0, 10);
+  });
+
+  afterEach(() => {
+    system.cleanup();
+    (PerceptionSystem as any).instance = null;
+    (CharacterControllerSystem as any).instance = null;
+    (PhysicsSystemManager as any).instance = null;
+    useAIStore.setState({ entities: {} });
+    useGameLoopStore.getState().setFixedTimeStep(fixedTimeStep);
+    GameLoop.getInstance().cleanup();
+    jest.restoreAllMocks();
+  });
+
+  it('should see targets inside the view cone and range and run before the AI', () => {
+    const detected = jest.fn();
+    const unsubscribe = EventDispatcher.on('PLAYER_DETECTED', detected);
+    setup();
+    GameLoop.getInstance().register({ id: 'ai', phase: 'fixedUpdate', after: ['logic'], update: () => {} });
+    expect(GameLoop.getInstance().getExecutionOrder('fixedUpdate')).toEqual(['perception', 'ai']);
+
+    GameLoop.getInstance().stepFixed(2);
+    expect(guard().targetId).toBe('player');
+    expect(guard().lastKnownTargetPosition!.toArray()).toEqual([0, 0, 10]);
+    expect(guard().perceivedTargets).toEqual([
+      { targetId: 'player', lastKnownPosition: [0, 0, 10], sense: 'sight', awareness: 1, timeSinceSensed: 0, visible: true },
+    ]);
+    expect(detected).toHaveBeenCalledTimes(1);
+    expect(detected.mock.calls[0][0]).toEqual({ entityId: 'guard', playerId: 'player' });
+
+    // Behind the guard, then beyond its sight range
+    player.set(0, 0, -5);
+    GameLoop.getInstance().stepFixed();
+    expect(guard().perceivedTargets![0]).toMatchObject({ visible: false, lastKnownPosition: [0, 0, 10] });
+    useAIStore.getState().updateEntity('guard', { perceivedTargets: [], perception: { sightRange: 8 } });
+    player.set(0, 0, 9);
+    GameLoop.getInstance().stepFixed();
+    expect(guard().perceivedTargets).toEqual([]);
+    expect(guard().targetId).toBeUndefined();
+    unsubscribe();
+  });
+
+  it('should lose sight behind occluders or physics bodies', () => {
+    setup({ lineOfSight: 'occluders' });
+    useOcclusionStore.getState().addOccluder({
+      id: 'wall',
+      bounds: new Box3(new Vector3(-2, 0, 4), new Vector3(2, 3, 5)),
+      position: new Vector3(0, 1.5, 4.5),
+      isOccluder: true,
+      isOccludable: false,
+      visible: true,
+      lastVisibilityCheck: 0,
+      object: new Object3D(),
+    });
+    GameLoop.getInstance().stepFixed();
+    expect(guard().targetId).toBeUndefined();
+
+    player.set(6, 0, 10);
+    GameLoop.getInstance().stepFixed();
+    expect(guard().targetId).toBe('player');
+
+    // Without a physics world the wall still blocks sight, and looking does not create one
+    system.cleanup();
+    useAIStore.setState({ entities: { guard: createEntity() } });
+    player.set(0, 0, 10);
+    setup({ lineOfSight: 'physics' });
+    GameLoop.getInstance().stepFixed();
+    expect(guard().targetId).toBeUndefined();
+    expect(PhysicsSystemManager.findInstance()).toBeNull();
+
+    system.cleanup();
+    player.set(6, 0, 10);
+    const physics = PhysicsSystemManager.getInstance();
+    jest.spyOn(physics, 'getBackend').mockReturnValue({} as PhysicsBackend);
+    const raycast = jest.spyOn(physics, 'raycast').mockReturnValue(null);
+    setup({ lineOfSight: 'physics' });
+    system.registerTarget('player', () => player, { bodyId: 'player-body' });
+    useAIStore.getState().updateEntity('guard', { controllerId: 'guard-capsule' });
+    GameLoop.getInstance().stepFixed();
+
+    const [eye, direction, distance, filter] = raycast.mock.calls[0];
+    expect(eye.toArray()).toEqual([0, 1.6, 0]);
+    expect(direction.length()).toBeCloseTo(1);
+    expect(distance).toBeCloseTo(new Vector3(6, -0.6, 10).length());
+    expect(filter).toEqual({ excludeBodyIds: ['guard-capsule', 'player-body'] });
+  });
+
+  it('should hear weapons and footsteps and forget targets as the memory fades', () => {
+    const lost = jest.fn();
+    const unsubscribe = EventDispatcher.on('AI_TARGET_LOST', lost);
+    player.set(0, 0, -30);
+    setup();
+
+    // A gunshot carries far; the guard hears it behind itself
+    EventDispatcher.dispatch('WEAPON_FIRED', { weaponId: 'pistol' });
+    GameLoop.getInstance().stepFixed();
+    expect(guard().targetId).toBe('player');
+    expect(guard().perceivedTargets![0]).toMatchObject({ sense: 'hearing', awareness: 1 - (0.5 * 30) / 40 });
+
+    GameLoop.getInstance().stepFixed(7);
+    expect(guard().targetId).toBeUndefined();
+    expect(guard().lastKnownTargetPosition).toBeUndefined();
+    expect(lost).toHaveBeenCalledTimes(1);
+    expect(lost.mock.calls[0][0].lastKnownPosition.toArray()).toEqual([0, 0, -30]);
+
+    // Running steps are heard further away than walking ones
+    const state = { isGrounded: true, velocity: new Vector3(10, 0, 0) };
+    const controller = { getState: () => state, getFootPosition: () => new Vector3(0, 0, -10) };
+    (CharacterControllerSystem as any).instance = { getController: (id: string) => (id === 'player-capsule' ? controller : null) };
+    system.registerTarget('player', () => player, { controllerId: 'player-capsule' });
+    const noises: number[] = [];
+    const unsubscribeNoise = EventDispatcher.on('NOISE_EMITTED', ({ radius }) => noises.push(radius));
+
+    GameLoop.getInstance().stepFixed(2);
+    expect(noises).toEqual([12, 12]);
+    expect(guard().perceivedTargets![0].lastKnownPosition).toEqual([0, 0, -10]);
+
+    state.isGrounded = false;
+    GameLoop.getInstance().stepFixed(2);
+    expect(noises).toHaveLength(2);
+    unsubscribe();
+    unsubscribeNoise();
+  });
+
+  it('should still hear weapons after a cleanup', () => {
+    player.set(0, 0, -30);
+    setup();
+    system.cleanup();
+    setup();
+
+    EventDispatcher.dispatch('WEAPON_FIRED', { weaponId: 'pistol' });
+    GameLoop.getInstance().stepFixed();
+    expect(guard().targetId).toBe('player');
+  });
+});
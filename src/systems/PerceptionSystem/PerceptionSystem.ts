@@ -0,0 +1,307 @@
+// src/systems/PerceptionSystem/PerceptionSystem.ts
+
+// Purpose: Lets AI entities find their targets instead of being told about them. Entities with a perception config
+// see targets inside their view cone and in line of sight, hear the noises targets make, and remember both for a
+// while. The strongest memory becomes the entity's target, along with where it was last sensed.
+
+import { Ray, Vector3 } from 'three';
+import { CharacterControllerSystem } from '../CharacterControllerSystem/CharacterControllerSystem';
+import { GameLoop } from '../GameLoop/GameLoop';
+import { PhysicsSystemManager } from '../PhysicsSystem/PhysicsSystem';
+import { queryEntitiesInRadius } from '../AISystem/spatial/entityIndex';
+import { useAIStore } from '../../stores/aiStore';
+import { useOcclusionStore } from '../../stores/occlusionStore';
+import { EventDispatcher } from '../../utils/EventDispatcher';
+import { EventMap, Unsubscribe } from '../../types/event.types';
+import { AIEntity, PerceivedTarget, PerceptionConfig, PerceptionTargetOptions } from '../../types/ai.types';
+
+const DEFAULT_FIELD_OF_VIEW = (120 * Math.PI) / 180;
+const DEFAULT_MEMORY_DURATION = 5;
+const DEFAULT_EYE_HEIGHT = 1.6;
+const DEFAULT_AIM_HEIGHT = 1;
+const FOOTSTEP_WALK_SPEED = 5; // Steps at this speed are heard at footstepRadius
+
+interface PerceptionTarget {
+  getPosition: () => Vector3;
+  options: PerceptionTargetOptions;
+  distanceSinceStep: number;
+}
+
+type Noise = EventMap['NOISE_EMITTED'];
+
+export class PerceptionSystem {
+  private static instance: PerceptionSystem | null = null;
+  private config: PerceptionConfig;
+  private targets: Map<string, PerceptionTarget> = new Map();
+  private pendingNoises: Noise[] = []; // Heard on the next update
+  private unregisterFromLoop: (() => void) | null = null;
+  private eventSubscriptions: Unsubscribe[] = [];
+
+  private constructor(config: PerceptionConfig) {
+    this.config = config;
+    this.setupEventListeners();
+  }
+
+  public static getInstance(config?: Partial<PerceptionConfig>): PerceptionSystem {
+    if (!PerceptionSystem.instance) {
+      PerceptionSystem.instance = new PerceptionSystem({
+        lineOfSight: 'physics',
+        weaponHolderId: 'player',
+        gunshotRadius: 40,
+        meleeRadius: 8,
+        footstepRadius: 6,
+        strideLength: 0.8,
+        ...config
+      });
+    }
+    return PerceptionSystem.instance;
+  }
+
+  private setupEventListeners(): void {
+    this.eventSubscriptions.push(
+      EventDispatcher.on("NOISE_EMITTED", noise => this.pendingNoises.push(noise)),
+      EventDispatcher.on("WEAPON_FIRED", () => this.emitWeaponNoise(this.config.gunshotRadius)),
+      EventDispatcher.on("WEAPON_SWUNG", () => this.emitWeaponNoise(this.config.meleeRadius))
+    );
+  }
+
+  /**
+   * Makes something perceivable. Only targets are remembered; noises from any other source are ignored.
+   * @param getPosition Read on every update, so the target can move.
+   */
+  public registerTarget(id: string, getPosition: () => Vector3, options: PerceptionTargetOptions = {}): void {
+    this.targets.set(id, { getPosition, options, distanceSinceStep: 0 });
+  }
+
+  public unregisterTarget(id: string): void {
+    this.targets.delete(id);
+  }
+
+  /**
+   * Makes a noise that entities within the radius hear. Same as dispatching NOISE_EMITTED.
+   */
+  public emitNoise(sourceId: string, position: Vector3, radius: number): void {
+    EventDispatcher.dispatch("NOISE_EMITTED", { sourceId, position: position.clone(), radius });
+  }
+
+  public start(): void {
+    if (this.unregisterFromLoop !== null) return;
+    const gameLoop = GameLoop.getInstance();
+    this.unregisterFromLoop = gameLoop.register({
+      id: 'perception',
+      phase: 'fixedUpdate',
+      after: ['logic'],
+      before: ['ai'],
+      update: ({ deltaTime }) => this.updatePerception(deltaTime)
+    });
+    gameLoop.start();
+  }
+
+  public stop(): void {
+    if (this.unregisterFromLoop !== null) {
+      this.unregisterFromLoop();
+      this.unregisterFromLoop = null;
+    }
+  }
+
+  public cleanup(): void {
+    this.stop();
+    this.eventSubscriptions.forEach(unsubscribe => unsubscribe());
+    this.eventSubscriptions = [];
+    this.targets.clear();
+    this.pendingNoises = [];
+    PerceptionSystem.instance = null;
+  }
+
+  private updatePerception(deltaTime: number): void {
+    this.emitFootsteps(deltaTime);
+
+    const noises = this.pendingNoises;
+    this.pendingNoises = [];
+    const perceivers = Object.values(useAIStore.getState().entities).filter(
+      entity => entity.perception && entity.health > 0
+    );
+    const heard = this.findListeners(noises, perceivers);
+    perceivers.forEach(entity => this.perceive(entity, heard.get(entity.id) ?? [], deltaTime));
+  }
+
+  // Which perceivers each noise could reach, looking only near the noise. Each still checks its own hearing range
+  private findListeners(noises: Noise[], perceivers: AIEntity[]): Map<string, Noise[]> {
+    const heard = new Map<string, Noise[]>();
+    if (noises.length === 0) return heard;
+
+    const maxMultiplier = Math.max(...perceivers.map(entity => entity.perception!.hearingMultiplier ?? 1));
+    noises.forEach(noise => {
+      queryEntitiesInRadius(noise.position, noise.radius * maxMultiplier, entity => !!entity.perception).forEach(
+        entity => heard.set(entity.id, [...(heard.get(entity.id) ?? []), noise])
+      );
+    });
+    return heard;
+  }
+
+  private emitWeaponNoise(radius: number): void {
+    const holder = this.targets.get(this.config.weaponHolderId);
+    if (holder) this.emitNoise(this.config.weaponHolderId, holder.getPosition(), radius);
+  }
+
+  // A step every stride while a target's controller walks on the ground, louder the faster it goes
+  private emitFootsteps(deltaTime: number): void {
+    const controllers = CharacterControllerSystem.getInstance();
+    this.targets.forEach((target, id) => {
+      const controller = target.options.controllerId ? controllers.getController(target.options.controllerId) : null;
+      if (!controller) return;
+
+      const { isGrounded, velocity } = controller.getState();
+      const speed = Math.hypot(velocity.x, velocity.z);
+      if (!isGrounded || speed < 0.01) {
+        target.distanceSinceStep = 0;
+        return;
+      }
+
+      target.distanceSinceStep += speed * deltaTime;
+      if (target.distanceSinceStep < this.config.strideLength) return;
+      target.distanceSinceStep -= this.config.strideLength;
+      this.emitNoise(id, controller.getFootPosition(), this.config.footstepRadius * (speed / FOOTSTEP_WALK_SPEED));
+    });
+  }
+
+  private perceive(entity: AIEntity, noises: Noise[], deltaTime: number): void {
+    const perception = entity.perception!;
+    const memoryDuration = perception.memoryDuration ?? DEFAULT_MEMORY_DURATION;
+    const memories = new Map<string, PerceivedTarget>();
+
+    (entity.perceivedTargets ?? []).forEach(memory => {
+      memories.set(memory.targetId, {
+        ...memory,
+        awareness: memory.awareness - deltaTime / memoryDuration,
+        timeSinceSensed: memory.timeSinceSensed + deltaTime,
+        visible: false
+      });
+    });
+
+    this.targets.forEach((target, targetId) => {
+      const position = target.getPosition();
+      if (!this.canSee(entity, targetId, target, position)) return;
+
+      // Detected on the first sighting since the target was forgotten or only heard
+      const previous = memories.get(targetId);
+      if (!previous || previous.sense !== 'sight' || previous.awareness <= 0) {
+        EventDispatcher.dispatch("PLAYER_DETECTED", { entityId: entity.id, playerId: targetId });
+      }
+      memories.set(targetId, {
+        targetId,
+        lastKnownPosition: [position.x, position.y, position.z],
+        sense: 'sight',
+        awareness: 1,
+        timeSinceSensed: 0,
+        visible: true
+      });
+    });
+
+    noises.forEach(noise => {
+      const memory = memories.get(noise.sourceId);
+      if (!this.targets.has(noise.sourceId) || memory?.visible) return;
+
+      const radius = noise.radius * (perception.hearingMultiplier ?? 1);
+      const distance = entity.position.distanceTo(noise.position);
+      if (distance > radius) return;
+
+      // Faint noises at the edge of hearing leave half the awareness a sighting does
+      const awareness = 1 - (0.5 * distance) / radius;
+      memories.set(noise.sourceId, {
+        targetId: noise.sourceId,
+        lastKnownPosition: [noise.position.x, noise.position.y, noise.position.z],
+        sense: 'hearing',
+        awareness: Math.max(awareness, memory?.awareness ?? 0),
+        timeSinceSensed: 0,
+        visible: false
+      });
+    });
+
+    memories.forEach((memory, targetId) => {
+      if (memory.awareness > 0) return;
+      memories.delete(targetId);
+      EventDispatcher.dispatch("AI_TARGET_LOST", {
+        entityId: entity.id,
+        targetId,
+        lastKnownPosition: new Vector3(...memory.lastKnownPosition)
+      });
+    });
+
+    const perceivedTargets = Array.from(memories.values());
+    const strongest = perceivedTargets.reduce<PerceivedTarget | null>(
+      (best, memory) => (!best || memory.awareness > best.awareness ? memory : best),
+      null
+    );
+    useAIStore.getState().updateEntity(entity.id, {
+      perceivedTargets,
+      targetId: strongest?.targetId,
+      lastKnownTargetPosition: strongest ? new Vector3(...strongest.lastKnownPosition) : undefined
+    });
+  }
+
+  private canSee(entity: AIEntity, targetId: string, target: PerceptionTarget, position: Vector3): boolean {
+    const perception = entity.perception!;
+    const eye = entity.position.clone();
+    eye.y += perception.eyeHeight ?? DEFAULT_EYE_HEIGHT;
+    const aim = position.clone();
+    aim.y += target.options.aimHeight ?? DEFAULT_AIM_HEIGHT;
+
+    const toTarget = aim.sub(eye);
+    const distance = toTarget.length();
+    if (distance > (perception.sightRange ?? entity.detectionRange)) return false;
+    if (distance < 1e-6) return true;
+
+    // The cone is measured across the ground, so height differences alone never hide a target
+    const flat = new Vector3(position.x - entity.position.x, 0, position.z - entity.position.z);
+    if (flat.lengthSq() > 1e-6) {
+      const forward = new Vector3(Math.sin(entity.rotation.y), 0, Math.cos(entity.rotation.y));
+      if (forward.angleTo(flat) > (perception.fieldOfView ?? DEFAULT_FIELD_OF_VIEW) / 2) return false;
+    }
+
+    return this.hasLineOfSight(entity, targetId, target, eye, toTarget.divideScalar(distance), distance);
+  }
+
+  private hasLineOfSight(
+    entity: AIEntity,
+    targetId: string,
+    target: PerceptionTarget,
+    eye: Vector3,
+    direction: Vector3,
+    distance: number
+  ): boolean {
+    switch (this.config.lineOfSight) {
+      case 'physics': {
+        // Until a physics world is attached there is nothing to cast against, so occluders stand in for it
+        const physics = PhysicsSystemManager.findInstance();
+        if (!physics?.getBackend()) return this.isClearOfOccluders(entity.id, targetId, eye, direction, distance);
+
+        const excludeBodyIds = [entity.controllerId, target.options.bodyId, target.options.controllerId]
+          .filter((id): id is string => id !== undefined);
+        return physics.raycast(eye, direction, distance, { excludeBodyIds }) === null;
+      }
+      case 'occluders':
+        return this.isClearOfOccluders(entity.id, targetId, eye, direction, distance);
+      default:
+        return true;
+    }
+  }
+
+  private isClearOfOccluders(
+    entityId: string,
+    targetId: string,
+    eye: Vector3,
+    direction: Vector3,
+    distance: number
+  ): boolean {
+    const ray = new Ray(eye, direction);
+    const hit = new Vector3();
+    return !Object.values(useOcclusionStore.getState().occluders).some(occluder =>
+      occluder.isOccluder &&
+      occluder.id !== entityId &&
+      occluder.id !== targetId &&
+      ray.intersectBox(occluder.bounds, hit) !== null &&
+      eye.distanceTo(hit) < distance
+    );
+  }
+}
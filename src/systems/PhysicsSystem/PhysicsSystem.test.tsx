@@ -4,6 +4,8 @@ import { PhysicsSystemManager, handleRapierCollision, handleCannonCollision } fr
 import { PhysicsBody } from "../../types/physics.types";
 import { usePhysicsStore } from "../../stores/physicsStore";
 import { Vector3 } from "three";
+import { CollisionEnterPayload } from "@react-three/rapier";
+import { CollideEvent } from "@react-three/cannon";
 
 describe("PhysicsSystemManager", () => {
   let physicsSystem: PhysicsSystemManager;
@@ -132,9 +134,12 @@ describe("PhysicsSystemManager", () => {
     const contactPoint = new Vector3(0, 1, 0);
 
     const rapierEvent = {
-      otherRigidBodyObject: () => ({ userData: { id: otherBodyId } }),
-      contacts: [{ x: contactPoint.x, y: contactPoint.y, z: contactPoint.z }],
-    };
+      other: { rigidBody: { userData: { id: otherBodyId } } },
+      manifold: {
+        numSolverContacts: () => 1,
+        solverContactPoint: () => ({ x: contactPoint.x, y: contactPoint.y, z: contactPoint.z }),
+      },
+    } as unknown as CollisionEnterPayload;
 
     handleRapierCollision(rapierEvent, body, "rapier");
 
@@ -168,7 +173,7 @@ describe("PhysicsSystemManager", () => {
         normal: [0, 1, 0],
         impactVelocity: 10,
       },
-    };
+    } as unknown as CollideEvent;
 
     handleCannonCollision(cannonEvent, body, "cannon");
 
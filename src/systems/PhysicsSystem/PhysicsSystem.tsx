@@ -1,19 +1,124 @@
 // src/systems/PhysicsSystem/PhysicsSystem.tsx
 
-import React, { useEffect } from 'react';
-import { Mesh } from 'three';
-import { RigidBody } from '@react-three/rapier';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Box3, Box3Helper, BufferGeometry, Euler, Group, Mesh, MeshBasicMaterial, Object3D, Quaternion } from 'three';
+import {
+  RigidBody,
+  RapierRigidBody,
+  useRapier,
+  useAfterPhysicsStep,
+  TrimeshCollider,
+  ConvexHullCollider,
+  HeightfieldCollider,
+  CuboidCollider,
+  BallCollider,
+  CapsuleCollider,
+  CylinderCollider,
+  useRevoluteJoint,
+  useSphericalJoint,
+  useFixedJoint,
+  usePrismaticJoint,
+  useRopeJoint,
+  useSpringJoint,
+} from '@react-three/rapier';
 import {
   Physics as CannonPhysics,
+  PublicApi,
+  Triplet,
   useBox,
   useSphere,
   useCylinder,
   usePlane,
+  useTrimesh,
+  useConvexPolyhedron,
+  useHeightfield,
+  useCompoundBody,
+  useContactMaterial,
+  useHingeConstraint,
+  usePointToPointConstraint,
+  useLockConstraint,
+  useDistanceConstraint,
+  useSpring,
+  CollideBeginEvent,
+  CollideEndEvent,
+  CollideEvent,
 } from '@react-three/cannon';
-import { Physics as RapierPhysics } from '@react-three/rapier';
+import { ActiveCollisionTypes } from '@dimforge/rapier3d-compat';
+import {
+  Physics as RapierPhysics,
+  CollisionEnterPayload,
+  CollisionTarget,
+  IntersectionEnterPayload,
+  IntersectionExitPayload,
+} from '@react-three/rapier';
 import { Vector3 } from 'three';
-import { usePhysicsStore, PhysicsBody, PhysicsEngine, PhysicsConfig, PhysicsState } from '../../stores/physicsStore';
-import { extend } from '@react-three/fiber';
+import { usePhysicsStore } from '../../stores/physicsStore';
+import { useAssetStore } from '../../stores/assetStore';
+import { EventDispatcher } from '../../utils/EventDispatcher';
+import { Unsubscribe } from '../../types/event.types';
+import {
+  BodyState,
+  BodyTransform,
+  ClosestPointResult,
+  CompoundArgs,
+  CompoundColliderPart,
+  ConvexHullArgs,
+  HeightfieldArgs,
+  JointAnchors,
+  MeshArgs,
+  PhysicsBackend,
+  PhysicsBody,
+  PhysicsBodyHandle,
+  PhysicsConfig,
+  PhysicsContact,
+  PhysicsDebugLayer,
+  PhysicsEngine,
+  PhysicsJoint,
+  PhysicsMaterial,
+  PhysicsQueryFilter,
+  RaycastHit,
+} from '../../types/physics.types';
+import { SerializedPhysics } from '../../types/serialization.types';
+import { RapierBackend } from './backends/RapierBackend';
+import { CannonBackend, getCannonHeightfieldData, getCannonPose } from './backends/CannonBackend';
+import { createCompoundBody, createMeshBodies, getConvexHullData, getHeightfieldSize, getTrimeshData } from './colliderGeometry';
+import { canCollide, getCollisionLayer, getCollisionMask, toRapierCollisionGroups } from './collisionFiltering';
+import {
+  DEFAULT_PHYSICS_MATERIAL,
+  RAPIER_COMBINE_RULES,
+  getBodyMaterial,
+  getPhysicsMaterial,
+  resolveContactMaterial,
+} from './physicsMaterials';
+import {
+  DEFAULT_SPRING_DAMPING,
+  DEFAULT_SPRING_STIFFNESS,
+  JointFrames,
+  getInitialTransform,
+  getJointFrames,
+  measureJointStrain,
+} from './joints';
+import { TriggerTracker } from './triggers';
+import {
+  DEBUG_COLORS,
+  PHYSICS_DEBUG_LAYERS,
+  createDebugGeometry,
+  getBodyDebugColor,
+  getContactLines,
+  getJointLines,
+} from './debugGeometry';
+import { fromSerializedBody, getRestingState, toSerializedBody } from './snapshot';
+import { GameLoop } from '../GameLoop/GameLoop';
+import { extend, useFrame } from '@react-three/fiber';
+
+/**
+ * Contacts between bodies whose layers exclude each other are never reported,
+ * even if the engine produced them before a body's layers changed.
+ */
+const shouldReportContact = (body: PhysicsBody, otherBodyId: string): boolean => {
+  const otherBody = usePhysicsStore.getState().bodies[otherBodyId];
+  return !otherBody || canCollide(body, otherBody);
+};
 
 /**
  * Collision Handler for Rapier
@@ -23,23 +128,22 @@ import { extend } from '@react-three/fiber';
  * @param engine - The physics engine in use ("rapier")
  */
 export const handleRapierCollision = (
-  event: any, // Replace 'any' with proper type if available
+  event: CollisionEnterPayload,
   body: PhysicsBody,
   engine: PhysicsEngine
 ) => {
   if (engine !== 'rapier') return;
 
-  const otherRigidBody = event.otherRigidBodyObject?.();
-  const otherBodyId = otherRigidBody?.userData?.id;
-  const contactPoints = event.contacts;
+  const otherBodyId = getRapierTargetBodyId(event.other);
+  const { manifold } = event;
 
-  if (otherBodyId && contactPoints && contactPoints.length > 0) {
-    const point = new Vector3(
-      contactPoints[0].x,
-      contactPoints[0].y,
-      contactPoints[0].z
-    );
-    body.onCollide && body.onCollide(otherBodyId, point);
+  if (otherBodyId && manifold.numSolverContacts() > 0 && shouldReportContact(body, otherBodyId)) {
+    // Solver contact points are in world space
+    const contactPoint = manifold.solverContactPoint(0);
+    const point = new Vector3(contactPoint.x, contactPoint.y, contactPoint.z);
+    if (body.onCollide) {
+      body.onCollide(otherBodyId, point);
+    }
   }
 };
 
@@ -51,26 +155,154 @@ export const handleRapierCollision = (
  * @param engine - The physics engine in use ("cannon")
  */
 export const handleCannonCollision = (
-  event: any, // Replace 'any' with proper type if available
+  event: CollideEvent,
   body: PhysicsBody,
   engine: PhysicsEngine
 ) => {
   if (engine !== 'cannon') return;
 
-  const otherBody = event.body;
-  const otherBodyId = otherBody?.userData?.id;
+  const otherBodyId = getCannonEventBodyId(event.body);
   const contactPoint = event.contact?.contactPoint;
 
-  if (otherBodyId && contactPoint) {
-    const point = new Vector3(
-      contactPoint.x,
-      contactPoint.y,
-      contactPoint.z
-    );
-    body.onCollide && body.onCollide(otherBodyId, point);
+  if (otherBodyId && contactPoint && shouldReportContact(body, otherBodyId)) {
+    const point = toVector3(contactPoint);
+    if (body.onCollide) {
+      body.onCollide(otherBodyId, point);
+    }
+
+    // Kept for the debug overlay; the worker's normal points at this body
+    const backend = PhysicsSystemManager.getInstance().getBackend();
+    const contactNormal = event.contact.contactNormal;
+    if (backend instanceof CannonBackend && contactNormal) {
+      backend.recordContact({ bodyA: body.id, bodyB: otherBodyId, point, normal: toVector3(contactNormal).negate() });
+    }
+  }
+};
+
+// The Cannon worker sends vectors as arrays
+const toVector3 = (value: number[] | { x: number; y: number; z: number }) =>
+  Array.isArray(value) ? new Vector3().fromArray(value) : new Vector3(value.x, value.y, value.z);
+
+// Rapier bodies carry the userData they were rendered with
+const getRapierTargetBodyId = (target: CollisionTarget): string | undefined =>
+  (target.rigidBody?.userData as { id?: string } | undefined)?.id ?? target.rigidBodyObject?.userData?.id;
+
+// Cannon events carry scene objects, which only know their body id through the registered handles
+const getCannonEventBodyId = (object?: Object3D | null): string | null =>
+  object?.userData?.id ?? (object ? PhysicsSystemManager.getInstance().getBodyIdByObject(object) : null);
+
+/**
+ * Sensor overlap handler for Rapier trigger bodies
+ *
+ * @param event - The intersection event payload from Rapier
+ * @param trigger - The trigger body that was entered or left
+ * @param entered - Whether the overlap started or ended
+ */
+export const handleRapierIntersection = (
+  event: IntersectionEnterPayload | IntersectionExitPayload,
+  trigger: PhysicsBody,
+  entered: boolean
+) => {
+  const otherBodyId = getRapierTargetBodyId(event.other);
+  if (!otherBodyId) return;
+
+  const manager = PhysicsSystemManager.getInstance();
+  if (entered) {
+    manager.enterTrigger(trigger.id, otherBodyId);
+  } else {
+    manager.exitTrigger(trigger.id, otherBodyId);
+  }
+};
+
+/**
+ * Overlap handler for Cannon trigger bodies. Cannon reports the other body's scene object.
+ *
+ * @param event - The collide begin/end payload from Cannon
+ * @param trigger - The trigger body that was entered or left
+ * @param entered - Whether the overlap started or ended
+ */
+export const handleCannonTrigger = (event: CollideBeginEvent | CollideEndEvent, trigger: PhysicsBody, entered: boolean) => {
+  const otherBodyId = getCannonEventBodyId(event.body);
+  if (!otherBodyId) return;
+
+  const manager = PhysicsSystemManager.getInstance();
+  if (entered) {
+    manager.enterTrigger(trigger.id, otherBodyId);
+  } else {
+    manager.exitTrigger(trigger.id, otherBodyId);
   }
 };
 
+/**
+ * Hands a rendered body's live engine handle to PhysicsSystemManager for queries.
+ */
+const registerBodyHandle = (body: PhysicsBody, handle: PhysicsBodyHandle, object?: Object3D | null) => {
+  const manager = PhysicsSystemManager.getInstance();
+  manager.registerBodyHandle(body, handle, object ?? undefined);
+  return () => manager.unregisterBodyHandle(body.id, handle);
+};
+
+// Cannon constraints address bodies through their scene objects, so those are registered too
+const useCannonBodyHandle = (body: PhysicsBody, api: PublicApi, ref: React.RefObject<Object3D>) => {
+  useEffect(() => registerBodyHandle(body, api, ref.current), [body, api, ref]);
+};
+
+const useRapierBodyHandle = (body: PhysicsBody, ref: React.RefObject<RapierRigidBody>) => {
+  useEffect(() => {
+    if (!ref.current) return;
+    return registerBodyHandle(body, ref.current);
+  }, [body, ref]);
+};
+
+/**
+ * Material, damping and collision layer props shared by every body component.
+ * Cannon bodies only name their material; friction and restitution come from the contact materials.
+ */
+const getCannonBodyProps = (body: PhysicsBody) => ({
+  type: body.type === 'kinematic' ? ('Kinematic' as const) : undefined,
+  material: getBodyMaterial(body).name,
+  linearDamping: body.linearDamping,
+  angularDamping: body.angularDamping,
+  velocity: body.velocity ? ([body.velocity.x, body.velocity.y, body.velocity.z] as [number, number, number]) : undefined,
+  collisionFilterGroup: getCollisionLayer(body),
+  collisionFilterMask: getCollisionMask(body),
+  isTrigger: body.isTrigger,
+  ...(body.isTrigger
+    ? {
+        onCollideBegin: (event: CollideBeginEvent) => handleCannonTrigger(event, body, true),
+        onCollideEnd: (event: CollideEndEvent) => handleCannonTrigger(event, body, false),
+      }
+    : {}),
+});
+
+const getRapierBodyType = (body: PhysicsBody) => {
+  if (body.type === 'dynamic') return 'dynamic';
+  return body.type === 'kinematic' ? 'kinematicPosition' : 'fixed';
+};
+
+const getRapierBodyProps = (body: PhysicsBody) => {
+  const material = getBodyMaterial(body);
+  return {
+    friction: material.friction,
+    restitution: material.restitution,
+    frictionCombineRule: RAPIER_COMBINE_RULES[material.frictionCombine ?? 'average'],
+    restitutionCombineRule: RAPIER_COMBINE_RULES[material.restitutionCombine ?? 'average'],
+    linearDamping: body.linearDamping,
+    angularDamping: body.angularDamping,
+    linearVelocity: body.velocity ? ([body.velocity.x, body.velocity.y, body.velocity.z] as [number, number, number]) : undefined,
+    collisionGroups: toRapierCollisionGroups(body),
+    ...(body.isTrigger
+      ? {
+          sensor: true,
+          // Sensors only notice dynamic bodies by default; triggers should also catch kinematic characters
+          activeCollisionTypes: ActiveCollisionTypes.ALL,
+          onIntersectionEnter: (event: IntersectionEnterPayload) => handleRapierIntersection(event, body, true),
+          onIntersectionExit: (event: IntersectionExitPayload) => handleRapierIntersection(event, body, false),
+        }
+      : {}),
+  };
+};
+
 /**
  * PhysicsBodyRenderer Component
  * Renders all physics bodies based on the selected physics engine
@@ -96,6 +328,14 @@ const PhysicsBodyRenderer: React.FC<{ engine: PhysicsEngine }> = ({ engine }) =>
                 return <ConeBodyCannon key={body.id} body={body} engine={engine} />;
               case 'plane':
                 return <PlaneBodyCannon key={body.id} body={body} engine={engine} />;
+              case 'mesh':
+                return <MeshBodyCannon key={body.id} body={body} engine={engine} />;
+              case 'convexHull':
+                return <ConvexHullBodyCannon key={body.id} body={body} engine={engine} />;
+              case 'heightfield':
+                return <HeightfieldBodyCannon key={body.id} body={body} engine={engine} />;
+              case 'compound':
+                return <CompoundBodyCannon key={body.id} body={body} engine={engine} />;
               default:
                 console.warn(`Unsupported shape: ${body.shape}`);
                 return null;
@@ -114,6 +354,14 @@ const PhysicsBodyRenderer: React.FC<{ engine: PhysicsEngine }> = ({ engine }) =>
                 return <ConeBodyRapier key={body.id} body={body} engine={engine} />;
               case 'plane':
                 return <PlaneBodyRapier key={body.id} body={body} engine={engine} />;
+              case 'mesh':
+                return <MeshBodyRapier key={body.id} body={body} engine={engine} />;
+              case 'convexHull':
+                return <ConvexHullBodyRapier key={body.id} body={body} engine={engine} />;
+              case 'heightfield':
+                return <HeightfieldBodyRapier key={body.id} body={body} engine={engine} />;
+              case 'compound':
+                return <CompoundBodyRapier key={body.id} body={body} engine={engine} />;
               default:
                 console.warn(`Unsupported shape: ${body.shape}`);
                 return null;
@@ -135,15 +383,17 @@ const BoxBodyCannon: React.FC<{
   body: PhysicsBody;
   engine: PhysicsEngine;
 }> = ({ body, engine }) => {
-  const [ref] = useBox<Mesh>(() => ({
+  const [ref, api] = useBox<Mesh>(() => ({
+    ...getCannonBodyProps(body),
     mass: body.type === 'dynamic' ? body.mass ?? 1 : 0,
     position: [body.position.x, body.position.y, body.position.z],
     rotation: [body.rotation.x, body.rotation.y, body.rotation.z],
     args: (body.args as [number, number, number]) || [1, 1, 1],
-    onCollide: (e: any) => {
+    onCollide: (e: CollideEvent) => {
       handleCannonCollision(e, body, engine);
     },
   }));
+  useCannonBodyHandle(body, api, ref);
 
   return (
     <mesh ref={ref}>
@@ -157,15 +407,17 @@ const SphereBodyCannon: React.FC<{
   body: PhysicsBody;
   engine: PhysicsEngine;
 }> = ({ body, engine }) => {
-  const [ref] = useSphere<Mesh>(() => ({
+  const [ref, api] = useSphere<Mesh>(() => ({
+    ...getCannonBodyProps(body),
     mass: body.type === 'dynamic' ? body.mass ?? 1 : 0,
     position: [body.position.x, body.position.y, body.position.z],
     rotation: [body.rotation.x, body.rotation.y, body.rotation.z],
     args: (body.args as [number]) || [1],
-    onCollide: (e: any) => {
+    onCollide: (e: CollideEvent) => {
       handleCannonCollision(e, body, engine);
     },
   }));
+  useCannonBodyHandle(body, api, ref);
 
   return (
     <mesh ref={ref}>
@@ -179,15 +431,17 @@ const CapsuleBodyCannon: React.FC<{
   body: PhysicsBody;
   engine: PhysicsEngine;
 }> = ({ body, engine }) => {
-  const [ref] = useCylinder<Mesh>(() => ({
+  const [ref, api] = useCylinder<Mesh>(() => ({
+    ...getCannonBodyProps(body),
     mass: body.type === 'dynamic' ? body.mass ?? 1 : 0,
     position: [body.position.x, body.position.y, body.position.z],
     rotation: [body.rotation.x, body.rotation.y, body.rotation.z],
     args: (body.args as [number, number]) || [0.5, 2],
-    onCollide: (e: any) => {
+    onCollide: (e: CollideEvent) => {
       handleCannonCollision(e, body, engine);
     },
   }));
+  useCannonBodyHandle(body, api, ref);
 
   return (
     <mesh ref={ref}>
@@ -201,16 +455,18 @@ const CylinderBodyCannon: React.FC<{
   body: PhysicsBody;
   engine: PhysicsEngine;
 }> = ({ body, engine }) => {
-  const [ref] = useCylinder<Mesh>(() => ({
+  const [ref, api] = useCylinder<Mesh>(() => ({
+    ...getCannonBodyProps(body),
     mass: body.type === 'dynamic' ? body.mass ?? 1 : 0,
     position: [body.position.x, body.position.y, body.position.z],
     rotation: [body.rotation.x, body.rotation.y, body.rotation.z],
     args:
       (body.args as [number, number, number, number]) || [1, 1, 2, 32],
-    onCollide: (e: any) => {
+    onCollide: (e: CollideEvent) => {
       handleCannonCollision(e, body, engine);
     },
   }));
+  useCannonBodyHandle(body, api, ref);
 
   return (
     <mesh ref={ref}>
@@ -226,16 +482,18 @@ const ConeBodyCannon: React.FC<{
   body: PhysicsBody;
   engine: PhysicsEngine;
 }> = ({ body, engine }) => {
-  const [ref] = useCylinder<Mesh>(() => ({
+  const [ref, api] = useCylinder<Mesh>(() => ({
+    ...getCannonBodyProps(body),
     mass: body.type === 'dynamic' ? body.mass ?? 1 : 0,
     position: [body.position.x, body.position.y, body.position.z],
     rotation: [body.rotation.x, body.rotation.y, body.rotation.z],
     args:
       (body.args as [number, number, number]) || [0.5, 0, 2],
-    onCollide: (e: any) => {
+    onCollide: (e: CollideEvent) => {
       handleCannonCollision(e, body, engine);
     },
   }));
+  useCannonBodyHandle(body, api, ref);
 
   return (
     <mesh ref={ref}>
@@ -249,14 +507,16 @@ const PlaneBodyCannon: React.FC<{
   body: PhysicsBody;
   engine: PhysicsEngine;
 }> = ({ body, engine }) => {
-  const [ref] = usePlane<Mesh>(() => ({
+  const [ref, api] = usePlane<Mesh>(() => ({
+    ...getCannonBodyProps(body),
     mass: 0, // static
     position: [body.position.x, body.position.y, body.position.z],
     rotation: [body.rotation.x, body.rotation.y, body.rotation.z],
-    onCollide: (e: any) => {
+    onCollide: (e: CollideEvent) => {
       handleCannonCollision(e, body, engine);
     },
   }));
+  useCannonBodyHandle(body, api, ref);
 
   return (
     <mesh ref={ref}>
@@ -266,6 +526,133 @@ const PlaneBodyCannon: React.FC<{
   );
 };
 
+/**
+ * Geometry-based colliders render no visuals; the source mesh or terrain is expected to be in the scene already.
+ */
+
+const MeshBodyCannon: React.FC<{
+  body: PhysicsBody;
+  engine: PhysicsEngine;
+}> = ({ body, engine }) => {
+  const [ref, api] = useTrimesh<Group>(() => {
+    const { vertices, indices } = getTrimeshData((body.args as MeshArgs)[0], body.scale);
+    return {
+      ...getCannonBodyProps(body),
+      mass: body.type === 'dynamic' ? body.mass ?? 1 : 0,
+      position: [body.position.x, body.position.y, body.position.z],
+      rotation: [body.rotation.x, body.rotation.y, body.rotation.z],
+      args: [vertices, indices],
+      onCollide: (e: CollideEvent) => {
+        handleCannonCollision(e, body, engine);
+      },
+    };
+  });
+  useCannonBodyHandle(body, api, ref);
+
+  return <group ref={ref} />;
+};
+
+const ConvexHullBodyCannon: React.FC<{
+  body: PhysicsBody;
+  engine: PhysicsEngine;
+}> = ({ body, engine }) => {
+  const [ref, api] = useConvexPolyhedron<Group>(() => {
+    const { vertices, faces } = getConvexHullData((body.args as ConvexHullArgs)[0], body.scale);
+    const points: Triplet[] = [];
+    for (let i = 0; i < vertices.length; i += 3) {
+      points.push([vertices[i], vertices[i + 1], vertices[i + 2]]);
+    }
+    return {
+      ...getCannonBodyProps(body),
+      mass: body.type === 'dynamic' ? body.mass ?? 1 : 0,
+      position: [body.position.x, body.position.y, body.position.z],
+      rotation: [body.rotation.x, body.rotation.y, body.rotation.z],
+      args: [points, faces],
+      onCollide: (e: CollideEvent) => {
+        handleCannonCollision(e, body, engine);
+      },
+    };
+  });
+  useCannonBodyHandle(body, api, ref);
+
+  return <group ref={ref} />;
+};
+
+const HeightfieldBodyCannon: React.FC<{
+  body: PhysicsBody;
+  engine: PhysicsEngine;
+}> = ({ body, engine }) => {
+  const [ref, api] = useHeightfield<Group>(() => {
+    const [heights, elementSize] = body.args as HeightfieldArgs;
+    const { position, quaternion } = getCannonPose(body);
+    const rotation = new Euler().setFromQuaternion(quaternion);
+    return {
+      ...getCannonBodyProps(body),
+      mass: 0, // static
+      position: [position.x, position.y, position.z],
+      rotation: [rotation.x, rotation.y, rotation.z],
+      args: [getCannonHeightfieldData(heights), { elementSize }],
+      onCollide: (e: CollideEvent) => {
+        handleCannonCollision(e, body, engine);
+      },
+    };
+  });
+  useCannonBodyHandle(body, api, ref);
+
+  return <group ref={ref} />;
+};
+
+// Worker-side shape for one compound part; Cannon has no capsule, so capsules become cylinders of the same height
+const toCannonCompoundShape = (part: CompoundColliderPart) => {
+  const pose = {
+    position: [part.position.x, part.position.y, part.position.z] as Triplet,
+    rotation: [part.rotation.x, part.rotation.y, part.rotation.z] as Triplet,
+  };
+  switch (part.shape) {
+    case 'box':
+      return { ...pose, type: 'Box' as const, args: part.args as [number, number, number] };
+    case 'sphere':
+      return { ...pose, type: 'Sphere' as const, args: part.args as [number] };
+    case 'capsule': {
+      const [radius, length] = part.args as [number, number];
+      return { ...pose, type: 'Cylinder' as const, args: [radius, radius, length + radius * 2, 8] };
+    }
+    case 'cylinder':
+      return { ...pose, type: 'Cylinder' as const, args: part.args as [number, number, number, number] };
+    case 'mesh': {
+      const { vertices, indices } = getTrimeshData((part.args as MeshArgs)[0], part.scale);
+      return { ...pose, type: 'Trimesh' as const, args: [vertices, indices] };
+    }
+    case 'convexHull': {
+      const { vertices, faces } = getConvexHullData((part.args as ConvexHullArgs)[0], part.scale);
+      const points: Triplet[] = [];
+      for (let i = 0; i < vertices.length; i += 3) {
+        points.push([vertices[i], vertices[i + 1], vertices[i + 2]]);
+      }
+      return { ...pose, type: 'ConvexPolyhedron' as const, args: [points, faces] };
+    }
+  }
+};
+
+const CompoundBodyCannon: React.FC<{
+  body: PhysicsBody;
+  engine: PhysicsEngine;
+}> = ({ body, engine }) => {
+  const [ref, api] = useCompoundBody<Group>(() => ({
+    ...getCannonBodyProps(body),
+    mass: body.type === 'dynamic' ? body.mass ?? 1 : 0,
+    position: [body.position.x, body.position.y, body.position.z],
+    rotation: [body.rotation.x, body.rotation.y, body.rotation.z],
+    shapes: (body.args as CompoundArgs)[0].map(toCannonCompoundShape),
+    onCollide: (e: CollideEvent) => {
+      handleCannonCollision(e, body, engine);
+    },
+  }));
+  useCannonBodyHandle(body, api, ref);
+
+  return <group ref={ref} />;
+};
+
 /**
  * Implement @react-three/rapier body components
  */
@@ -274,13 +661,18 @@ const BoxBodyRapier: React.FC<{
   body: PhysicsBody;
   engine: PhysicsEngine;
 }> = ({ body, engine }) => {
+  const ref = useRef<RapierRigidBody>(null);
+  useRapierBodyHandle(body, ref);
+
   return (
     <RigidBody
-      type={body.type === 'dynamic' ? 'dynamic' : 'fixed'}
+      ref={ref}
+      type={getRapierBodyType(body)}
       position={[body.position.x, body.position.y, body.position.z]}
       rotation={[body.rotation.x, body.rotation.y, body.rotation.z]}
+      {...getRapierBodyProps(body)}
       colliders="cuboid"
-      onCollisionEnter={(event: any) => {
+      onCollisionEnter={(event: CollisionEnterPayload) => {
         handleRapierCollision(event, body, engine);
       }}
       userData={{ id: body.id }}
@@ -297,13 +689,18 @@ const SphereBodyRapier: React.FC<{
   body: PhysicsBody;
   engine: PhysicsEngine;
 }> = ({ body, engine }) => {
+  const ref = useRef<RapierRigidBody>(null);
+  useRapierBodyHandle(body, ref);
+
   return (
     <RigidBody
-      type={body.type === 'dynamic' ? 'dynamic' : 'fixed'}
+      ref={ref}
+      type={getRapierBodyType(body)}
       position={[body.position.x, body.position.y, body.position.z]}
       rotation={[body.rotation.x, body.rotation.y, body.rotation.z]}
+      {...getRapierBodyProps(body)}
       colliders="ball"
-      onCollisionEnter={(event: any) => {
+      onCollisionEnter={(event: CollisionEnterPayload) => {
         handleRapierCollision(event, body, engine);
       }}
       userData={{ id: body.id }}
@@ -320,13 +717,18 @@ const CapsuleBodyRapier: React.FC<{
   body: PhysicsBody;
   engine: PhysicsEngine;
 }> = ({ body, engine }) => {
+  const ref = useRef<RapierRigidBody>(null);
+  useRapierBodyHandle(body, ref);
+
   return (
     <RigidBody
-      type={body.type === 'dynamic' ? 'dynamic' : 'fixed'}
+      ref={ref}
+      type={getRapierBodyType(body)}
       position={[body.position.x, body.position.y, body.position.z]}
       rotation={[body.rotation.x, body.rotation.y, body.rotation.z]}
+      {...getRapierBodyProps(body)}
       colliders="cuboid" // Adjust if a more appropriate collider is available
-      onCollisionEnter={(event: any) => {
+      onCollisionEnter={(event: CollisionEnterPayload) => {
         handleRapierCollision(event, body, engine);
       }}
       userData={{ id: body.id }}
@@ -343,13 +745,18 @@ const CylinderBodyRapier: React.FC<{
   body: PhysicsBody;
   engine: PhysicsEngine;
 }> = ({ body, engine }) => {
+  const ref = useRef<RapierRigidBody>(null);
+  useRapierBodyHandle(body, ref);
+
   return (
     <RigidBody
-      type={body.type === 'dynamic' ? 'dynamic' : 'fixed'}
+      ref={ref}
+      type={getRapierBodyType(body)}
       position={[body.position.x, body.position.y, body.position.z]}
       rotation={[body.rotation.x, body.rotation.y, body.rotation.z]}
+      {...getRapierBodyProps(body)}
       colliders="cuboid" // Adjust if a more appropriate collider is available
-      onCollisionEnter={(event: any) => {
+      onCollisionEnter={(event: CollisionEnterPayload) => {
         handleRapierCollision(event, body, engine);
       }}
       userData={{ id: body.id }}
@@ -368,13 +775,18 @@ const ConeBodyRapier: React.FC<{
   body: PhysicsBody;
   engine: PhysicsEngine;
 }> = ({ body, engine }) => {
+  const ref = useRef<RapierRigidBody>(null);
+  useRapierBodyHandle(body, ref);
+
   return (
     <RigidBody
-      type={body.type === 'dynamic' ? 'dynamic' : 'fixed'}
+      ref={ref}
+      type={getRapierBodyType(body)}
       position={[body.position.x, body.position.y, body.position.z]}
       rotation={[body.rotation.x, body.rotation.y, body.rotation.z]}
+      {...getRapierBodyProps(body)}
       colliders="cuboid" // Adjust if a more appropriate collider is available
-      onCollisionEnter={(event: any) => {
+      onCollisionEnter={(event: CollisionEnterPayload) => {
         handleRapierCollision(event, body, engine);
       }}
       userData={{ id: body.id }}
@@ -391,13 +803,18 @@ const PlaneBodyRapier: React.FC<{
   body: PhysicsBody;
   engine: PhysicsEngine;
 }> = ({ body, engine }) => {
+  const ref = useRef<RapierRigidBody>(null);
+  useRapierBodyHandle(body, ref);
+
   return (
     <RigidBody
+      ref={ref}
       type="fixed"
       position={[body.position.x, body.position.y, body.position.z]}
       rotation={[body.rotation.x, body.rotation.y, body.rotation.z]}
+      {...getRapierBodyProps(body)}
       colliders="cuboid"
-      onCollisionEnter={(event: any) => {
+      onCollisionEnter={(event: CollisionEnterPayload) => {
         handleRapierCollision(event, body, engine);
       }}
       userData={{ id: body.id }}
@@ -410,6 +827,430 @@ const PlaneBodyRapier: React.FC<{
   );
 };
 
+const MeshBodyRapier: React.FC<{
+  body: PhysicsBody;
+  engine: PhysicsEngine;
+}> = ({ body, engine }) => {
+  const ref = useRef<RapierRigidBody>(null);
+  useRapierBodyHandle(body, ref);
+  const { vertices, indices } = getTrimeshData((body.args as MeshArgs)[0], body.scale);
+
+  return (
+    <RigidBody
+      ref={ref}
+      type={getRapierBodyType(body)}
+      position={[body.position.x, body.position.y, body.position.z]}
+      rotation={[body.rotation.x, body.rotation.y, body.rotation.z]}
+      {...getRapierBodyProps(body)}
+      colliders={false}
+      onCollisionEnter={(event: CollisionEnterPayload) => {
+        handleRapierCollision(event, body, engine);
+      }}
+      userData={{ id: body.id }}
+    >
+      <TrimeshCollider args={[vertices, indices]} />
+    </RigidBody>
+  );
+};
+
+const ConvexHullBodyRapier: React.FC<{
+  body: PhysicsBody;
+  engine: PhysicsEngine;
+}> = ({ body, engine }) => {
+  const ref = useRef<RapierRigidBody>(null);
+  useRapierBodyHandle(body, ref);
+  const { vertices } = getConvexHullData((body.args as ConvexHullArgs)[0], body.scale);
+
+  return (
+    <RigidBody
+      ref={ref}
+      type={getRapierBodyType(body)}
+      position={[body.position.x, body.position.y, body.position.z]}
+      rotation={[body.rotation.x, body.rotation.y, body.rotation.z]}
+      {...getRapierBodyProps(body)}
+      colliders={false}
+      onCollisionEnter={(event: CollisionEnterPayload) => {
+        handleRapierCollision(event, body, engine);
+      }}
+      userData={{ id: body.id }}
+    >
+      <ConvexHullCollider args={[vertices]} />
+    </RigidBody>
+  );
+};
+
+const HeightfieldBodyRapier: React.FC<{
+  body: PhysicsBody;
+  engine: PhysicsEngine;
+}> = ({ body, engine }) => {
+  const ref = useRef<RapierRigidBody>(null);
+  useRapierBodyHandle(body, ref);
+  // Rapier reads heights column by column, which is the flattened heights[x][z] layout.
+  // Memoized because new args would rebuild the collider on every render.
+  const args = useMemo(() => {
+    const [heights, elementSize] = body.args as HeightfieldArgs;
+    const { columns, rows, width, depth } = getHeightfieldSize(heights, elementSize);
+    return [rows - 1, columns - 1, heights.flat(), { x: width, y: 1, z: depth }] as [
+      number,
+      number,
+      number[],
+      { x: number; y: number; z: number },
+    ];
+  }, [body.args]);
+
+  return (
+    <RigidBody
+      ref={ref}
+      type="fixed"
+      position={[body.position.x, body.position.y, body.position.z]}
+      rotation={[body.rotation.x, body.rotation.y, body.rotation.z]}
+      {...getRapierBodyProps(body)}
+      colliders={false}
+      onCollisionEnter={(event: CollisionEnterPayload) => {
+        handleRapierCollision(event, body, engine);
+      }}
+      userData={{ id: body.id }}
+    >
+      <HeightfieldCollider args={args} />
+    </RigidBody>
+  );
+};
+
+const CompoundPartRapier: React.FC<{ part: CompoundColliderPart }> = ({ part }) => {
+  const pose = {
+    position: [part.position.x, part.position.y, part.position.z] as [number, number, number],
+    rotation: [part.rotation.x, part.rotation.y, part.rotation.z] as [number, number, number],
+  };
+  switch (part.shape) {
+    case 'box': {
+      const [width, height, depth] = part.args as [number, number, number];
+      return <CuboidCollider {...pose} args={[width / 2, height / 2, depth / 2]} />;
+    }
+    case 'sphere':
+      return <BallCollider {...pose} args={part.args as [number]} />;
+    case 'capsule': {
+      const [radius, length] = part.args as [number, number];
+      return <CapsuleCollider {...pose} args={[length / 2, radius]} />;
+    }
+    case 'cylinder': {
+      const [radius, , height] = part.args as [number, number, number, number];
+      return <CylinderCollider {...pose} args={[height / 2, radius]} />;
+    }
+    case 'mesh': {
+      const { vertices, indices } = getTrimeshData((part.args as MeshArgs)[0], part.scale);
+      return <TrimeshCollider {...pose} args={[vertices, indices]} />;
+    }
+    case 'convexHull': {
+      const { vertices } = getConvexHullData((part.args as ConvexHullArgs)[0], part.scale);
+      return <ConvexHullCollider {...pose} args={[vertices]} />;
+    }
+  }
+};
+
+const CompoundBodyRapier: React.FC<{
+  body: PhysicsBody;
+  engine: PhysicsEngine;
+}> = ({ body, engine }) => {
+  const ref = useRef<RapierRigidBody>(null);
+  useRapierBodyHandle(body, ref);
+
+  return (
+    <RigidBody
+      ref={ref}
+      type={getRapierBodyType(body)}
+      position={[body.position.x, body.position.y, body.position.z]}
+      rotation={[body.rotation.x, body.rotation.y, body.rotation.z]}
+      {...getRapierBodyProps(body)}
+      colliders={false}
+      onCollisionEnter={(event: CollisionEnterPayload) => {
+        handleRapierCollision(event, body, engine);
+      }}
+      userData={{ id: body.id }}
+    >
+      {(body.args as CompoundArgs)[0].map((part, index) => (
+        <CompoundPartRapier key={index} part={part} />
+      ))}
+    </RigidBody>
+  );
+};
+
+/**
+ * PhysicsJointRenderer Component
+ * Creates each stored joint once both of its bodies are live in the engine.
+ * Keys include each body's handle generation, so a remounted body gets a fresh joint.
+ */
+const PhysicsJointRenderer: React.FC<{ engine: PhysicsEngine }> = ({ engine }) => {
+  const joints = usePhysicsStore((state) => state.joints);
+  const manager = PhysicsSystemManager.getInstance();
+  const [, setHandleVersion] = useState(0);
+
+  useEffect(() => {
+    const unsubscribe = manager.subscribeBodyHandles(() => setHandleVersion((version) => version + 1));
+    // Bodies mounted in the same commit registered before this subscription existed
+    setHandleVersion((version) => version + 1);
+    return unsubscribe;
+  }, [manager]);
+
+  return (
+    <>
+      {Object.values(joints).map((joint) => {
+        const generationA = manager.getBodyHandleGeneration(joint.bodyA);
+        const generationB = manager.getBodyHandleGeneration(joint.bodyB);
+        if (generationA === null || generationB === null) return null;
+
+        const key = `${joint.id}:${generationA}:${generationB}`;
+        switch (engine) {
+          case 'cannon':
+            switch (joint.type) {
+              case 'hinge':
+                return <HingeJointCannon key={key} joint={joint} />;
+              case 'ball':
+                return <BallJointCannon key={key} joint={joint} />;
+              case 'fixed':
+                return <FixedJointCannon key={key} joint={joint} />;
+              case 'distance':
+                return <DistanceJointCannon key={key} joint={joint} />;
+              case 'spring':
+                return <SpringJointCannon key={key} joint={joint} />;
+              default:
+                warnUnsupportedJoint(joint, engine, `"${joint.type}" joints`);
+                return null;
+            }
+          case 'rapier':
+            switch (joint.type) {
+              case 'hinge':
+                return <HingeJointRapier key={key} joint={joint} />;
+              case 'ball':
+                return <BallJointRapier key={key} joint={joint} />;
+              case 'fixed':
+                return <FixedJointRapier key={key} joint={joint} />;
+              case 'prismatic':
+                return <PrismaticJointRapier key={key} joint={joint} />;
+              case 'distance':
+                return <DistanceJointRapier key={key} joint={joint} />;
+              case 'spring':
+                return <SpringJointRapier key={key} joint={joint} />;
+              default:
+                warnUnsupportedJoint(joint, engine, `"${joint.type}" joints`);
+                return null;
+            }
+          default:
+            return null;
+        }
+      })}
+    </>
+  );
+};
+
+const warnedJointFeatures: Set<string> = new Set();
+
+const warnUnsupportedJoint = (joint: PhysicsJoint, engine: PhysicsEngine, feature: string) => {
+  const key = `${joint.id}:${feature}`;
+  if (warnedJointFeatures.has(key)) return;
+  warnedJointFeatures.add(key);
+  console.warn(`Joint "${joint.id}": ${engine} does not support ${feature}; ignoring.`);
+};
+
+/**
+ * Resolves the joint's local frames once and keeps them registered for break checks while mounted.
+ */
+const useJointFrames = (joint: PhysicsJoint): JointFrames => {
+  const manager = PhysicsSystemManager.getInstance();
+  const frames = useMemo(() => manager.computeJointFrames(joint)!, [manager, joint]);
+
+  useEffect(() => manager.trackJoint(joint, frames), [manager, joint, frames]);
+
+  return frames;
+};
+
+const toTriplet = (vector: Vector3): Triplet => [vector.x, vector.y, vector.z];
+
+/**
+ * Implement @react-three/cannon joint components
+ * Cannon has no prismatic constraint and no hinge limits. Its distance constraint holds the body
+ * centers at exactly `length`, ignoring anchors.
+ */
+
+const useCannonBodyRefs = (joint: PhysicsJoint) => {
+  const manager = PhysicsSystemManager.getInstance();
+  return useMemo(
+    () => [{ current: manager.getBodyObject(joint.bodyA) }, { current: manager.getBodyObject(joint.bodyB) }] as const,
+    [manager, joint]
+  );
+};
+
+const HingeJointCannon: React.FC<{ joint: PhysicsJoint }> = ({ joint }) => {
+  const frames = useJointFrames(joint);
+  const [refA, refB] = useCannonBodyRefs(joint);
+  const [, , api] = useHingeConstraint(refA, refB, {
+    pivotA: toTriplet(frames.anchorA),
+    pivotB: toTriplet(frames.anchorB),
+    axisA: toTriplet(frames.axisA),
+    axisB: toTriplet(frames.axisB),
+    collideConnected: joint.collideConnected ?? false,
+  });
+
+  useEffect(() => {
+    if (joint.limits) warnUnsupportedJoint(joint, 'cannon', 'hinge limits');
+    if (!joint.motor) return;
+
+    api.enableMotor();
+    api.setMotorSpeed(joint.motor.targetVelocity);
+    if (joint.motor.strength !== undefined) api.setMotorMaxForce(joint.motor.strength);
+  }, [api, joint]);
+
+  return null;
+};
+
+const BallJointCannon: React.FC<{ joint: PhysicsJoint }> = ({ joint }) => {
+  const frames = useJointFrames(joint);
+  const [refA, refB] = useCannonBodyRefs(joint);
+  usePointToPointConstraint(refA, refB, {
+    pivotA: toTriplet(frames.anchorA),
+    pivotB: toTriplet(frames.anchorB),
+    collideConnected: joint.collideConnected ?? false,
+  });
+
+  return null;
+};
+
+const FixedJointCannon: React.FC<{ joint: PhysicsJoint }> = ({ joint }) => {
+  useJointFrames(joint);
+  const [refA, refB] = useCannonBodyRefs(joint);
+  // Locks the bodies in the relative pose they have when the joint is created
+  useLockConstraint(refA, refB, { collideConnected: joint.collideConnected ?? false });
+
+  return null;
+};
+
+const DistanceJointCannon: React.FC<{ joint: PhysicsJoint }> = ({ joint }) => {
+  const frames = useJointFrames(joint);
+  const [refA, refB] = useCannonBodyRefs(joint);
+  useDistanceConstraint(refA, refB, {
+    distance: frames.length,
+    collideConnected: joint.collideConnected ?? false,
+  });
+
+  return null;
+};
+
+const SpringJointCannon: React.FC<{ joint: PhysicsJoint }> = ({ joint }) => {
+  const frames = useJointFrames(joint);
+  const [refA, refB] = useCannonBodyRefs(joint);
+  useSpring(refA, refB, {
+    localAnchorA: toTriplet(frames.anchorA),
+    localAnchorB: toTriplet(frames.anchorB),
+    restLength: frames.length,
+    stiffness: joint.stiffness ?? DEFAULT_SPRING_STIFFNESS,
+    damping: joint.damping ?? DEFAULT_SPRING_DAMPING,
+  });
+
+  return null;
+};
+
+/**
+ * Implement @react-three/rapier joint components
+ * Rapier expresses hinge and prismatic axes in both bodies' local frames with one vector,
+ * so bodies joined by those should start with the same rotation.
+ */
+
+const useRapierBodyRefs = (joint: PhysicsJoint) => {
+  const manager = PhysicsSystemManager.getInstance();
+  return useMemo(
+    () =>
+      [
+        { current: manager.getBodyHandle(joint.bodyA) as RapierRigidBody },
+        { current: manager.getBodyHandle(joint.bodyB) as RapierRigidBody },
+      ] as const,
+    [manager, joint]
+  );
+};
+
+/**
+ * Applies the joint options Rapier configures after creation rather than through the joint data.
+ */
+const useRapierJointOptions = (
+  joint: PhysicsJoint,
+  jointRef: React.RefObject<{
+    setContactsEnabled: (enabled: boolean) => void;
+    configureMotorVelocity?: (targetVelocity: number, factor: number) => void;
+  } | undefined>
+) => {
+  useEffect(() => {
+    const rapierJoint = jointRef.current;
+    if (!rapierJoint) return;
+
+    rapierJoint.setContactsEnabled(joint.collideConnected ?? false);
+    if (joint.motor && rapierJoint.configureMotorVelocity) {
+      rapierJoint.configureMotorVelocity(joint.motor.targetVelocity, joint.motor.strength ?? 1);
+    }
+  }, [joint, jointRef]);
+};
+
+const toLimits = (joint: PhysicsJoint): [number, number] | undefined =>
+  joint.limits ? [joint.limits.min, joint.limits.max] : undefined;
+
+const HingeJointRapier: React.FC<{ joint: PhysicsJoint }> = ({ joint }) => {
+  const frames = useJointFrames(joint);
+  const [refA, refB] = useRapierBodyRefs(joint);
+  const jointRef = useRevoluteJoint(refA, refB, [frames.anchorA, frames.anchorB, frames.axisA, toLimits(joint)]);
+  useRapierJointOptions(joint, jointRef);
+
+  return null;
+};
+
+const BallJointRapier: React.FC<{ joint: PhysicsJoint }> = ({ joint }) => {
+  const frames = useJointFrames(joint);
+  const [refA, refB] = useRapierBodyRefs(joint);
+  const jointRef = useSphericalJoint(refA, refB, [frames.anchorA, frames.anchorB]);
+  useRapierJointOptions(joint, jointRef);
+
+  return null;
+};
+
+const FixedJointRapier: React.FC<{ joint: PhysicsJoint }> = ({ joint }) => {
+  const frames = useJointFrames(joint);
+  const [refA, refB] = useRapierBodyRefs(joint);
+  const jointRef = useFixedJoint(refA, refB, [frames.anchorA, frames.frameA, frames.anchorB, frames.frameB]);
+  useRapierJointOptions(joint, jointRef);
+
+  return null;
+};
+
+const PrismaticJointRapier: React.FC<{ joint: PhysicsJoint }> = ({ joint }) => {
+  const frames = useJointFrames(joint);
+  const [refA, refB] = useRapierBodyRefs(joint);
+  const jointRef = usePrismaticJoint(refA, refB, [frames.anchorA, frames.anchorB, frames.axisA, toLimits(joint)]);
+  useRapierJointOptions(joint, jointRef);
+
+  return null;
+};
+
+const DistanceJointRapier: React.FC<{ joint: PhysicsJoint }> = ({ joint }) => {
+  const frames = useJointFrames(joint);
+  const [refA, refB] = useRapierBodyRefs(joint);
+  // A rope: the anchors may come closer than `length`, but never further apart
+  const jointRef = useRopeJoint(refA, refB, [frames.anchorA, frames.anchorB, frames.length]);
+  useRapierJointOptions(joint, jointRef);
+
+  return null;
+};
+
+const SpringJointRapier: React.FC<{ joint: PhysicsJoint }> = ({ joint }) => {
+  const frames = useJointFrames(joint);
+  const [refA, refB] = useRapierBodyRefs(joint);
+  const jointRef = useSpringJoint(refA, refB, [
+    frames.anchorA,
+    frames.anchorB,
+    frames.length,
+    joint.stiffness ?? DEFAULT_SPRING_STIFFNESS,
+    joint.damping ?? DEFAULT_SPRING_DAMPING,
+  ]);
+  useRapierJointOptions(joint, jointRef);
+
+  return null;
+};
+
 /**
  * Main PhysicsSystem Component
  * Initializes the physics engine (Rapier or Cannon) based on the provided configuration.
@@ -431,19 +1272,30 @@ export const PhysicsSystem: React.FC<PhysicsSystemProps> = ({
     };
   }, [config]);
 
+  // The overlay layers can be toggled individually afterwards from the profiler's Physics tab
+  useEffect(() => {
+    if (!debug) return;
+    PHYSICS_DEBUG_LAYERS.forEach((layer) => usePhysicsStore.getState().setDebugLayer(layer, true));
+  }, [debug]);
+
   return (
     <>
       {engine === 'cannon' && (
         <CannonPhysics gravity={[gravity.x, gravity.y, gravity.z]}>
-          {debug && <CannonPhysicsDebug />}
+          <CannonBackendBridge />
+          <CannonContactMaterials />
+          <PhysicsDebugRenderer />
           <PhysicsBodyRenderer engine={engine} />
+          <PhysicsJointRenderer engine={engine} />
           {children}
         </CannonPhysics>
       )}
       {engine === 'rapier' && (
         <RapierPhysics gravity={[gravity.x, gravity.y, gravity.z]}>
-          {debug && <RapierPhysicsDebugComponent />}
+          <RapierBackendBridge />
+          <PhysicsDebugRenderer />
           <PhysicsBodyRenderer engine={engine} />
+          <PhysicsJointRenderer engine={engine} />
           {children}
         </RapierPhysics>
       )}
@@ -452,50 +1304,222 @@ export const PhysicsSystem: React.FC<PhysicsSystemProps> = ({
 };
 
 /**
- * Dummy debug components; implement proper debug visuals if needed
+ * Attach the query backend for the engine whose provider they are mounted in.
  */
 
-const CannonPhysicsDebug: React.FC = () => {
-  return null; // Implement debug visuals or use a suitable library
+const CannonBackendBridge: React.FC = () => {
+  useEffect(() => {
+    const manager = PhysicsSystemManager.getInstance();
+    const backend = new CannonBackend();
+    manager.attachBackend(backend);
+    return () => manager.detachBackend(backend);
+  }, []);
+
+  return null;
 };
 
-const RapierPhysicsDebugComponent: React.FC = () => {
-  return null; // Implement Rapier's Debug visuals if needed
+const RapierBackendBridge: React.FC = () => {
+  const { world, rapier } = useRapier();
+  const backendRef = useRef<RapierBackend | null>(null);
+
+  useEffect(() => {
+    const manager = PhysicsSystemManager.getInstance();
+    const backend = new RapierBackend(world, rapier);
+    backendRef.current = backend;
+    manager.attachBackend(backend);
+    return () => {
+      backendRef.current = null;
+      manager.detachBackend(backend);
+    };
+  }, [world, rapier]);
+
+  // Forces applied through the manager last a single step, as they do in Cannon
+  useAfterPhysicsStep(() => backendRef.current?.clearForces());
+
+  return null;
+};
+
+/**
+ * Registers a Cannon contact material for every pair of known materials, so each pair
+ * gets the same combined friction and restitution Rapier would compute.
+ */
+const CannonContactMaterials: React.FC = () => {
+  const materials = usePhysicsStore((state) => state.materials);
+  const known: PhysicsMaterial[] = [
+    getPhysicsMaterial(DEFAULT_PHYSICS_MATERIAL.name),
+    ...Object.values(materials).filter((material) => material.name !== DEFAULT_PHYSICS_MATERIAL.name),
+  ];
+
+  const pairs: [PhysicsMaterial, PhysicsMaterial][] = [];
+  known.forEach((a, i) => known.slice(i).forEach((b) => pairs.push([a, b])));
+
+  return (
+    <>
+      {pairs.map(([a, b]) => (
+        <CannonContactMaterial key={`${a.name}|${b.name}`} a={a} b={b} />
+      ))}
+    </>
+  );
+};
+
+const CannonContactMaterial: React.FC<{ a: PhysicsMaterial; b: PhysicsMaterial }> = ({ a, b }) => {
+  const { friction, restitution } = resolveContactMaterial(a, b);
+  useContactMaterial(a.name, b.name, { friction, restitution }, [friction, restitution]);
+
+  return null;
+};
+
+/**
+ * Debug overlay shared by both engines. Draws the layers enabled in the store from the poses,
+ * contacts and joint anchors the manager reports.
+ */
+const PhysicsDebugRenderer: React.FC = () => {
+  const layers = usePhysicsStore((state) => state.debugLayers);
+  const bodies = usePhysicsStore((state) => state.bodies);
+
+  return (
+    <group name="physicsDebug">
+      {(layers.colliders || layers.aabbs) &&
+        Object.values(bodies).map((body) => <DebugBody key={body.id} body={body} layers={layers} />)}
+      {layers.contacts && (
+        <DebugLines color={DEBUG_COLORS.contact} getPoints={() => getContactLines(PhysicsSystemManager.getInstance().getContacts())} />
+      )}
+      {layers.joints && (
+        <DebugLines color={DEBUG_COLORS.joint} getPoints={() => getJointLines(PhysicsSystemManager.getInstance().getJointAnchors())} />
+      )}
+    </group>
+  );
+};
+
+const DebugBody: React.FC<{ body: PhysicsBody; layers: Record<PhysicsDebugLayer, boolean> }> = ({ body, layers }) => {
+  const meshRef = useRef<Mesh>(null);
+  const geometry = useMemo(() => createDebugGeometry(body), [body]);
+  const material = useMemo(() => new MeshBasicMaterial({ wireframe: true, depthTest: false, transparent: true }), []);
+  const aabb = useMemo(() => new Box3(), []);
+  const aabbHelper = useMemo(() => new Box3Helper(aabb, DEBUG_COLORS.aabb), [aabb]);
+
+  useEffect(() => () => geometry?.dispose(), [geometry]);
+  useEffect(
+    () => () => {
+      material.dispose();
+      aabbHelper.dispose();
+    },
+    [material, aabbHelper]
+  );
+
+  useFrame(() => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+
+    const manager = PhysicsSystemManager.getInstance();
+    // Static bodies never move, and Cannon reports some of them (heightfields) in its own rotated frame
+    const transform = body.type === 'static' ? getInitialTransform(body) : manager.getBodyTransform(body.id);
+    if (!transform) return;
+
+    mesh.position.copy(transform.position);
+    mesh.quaternion.copy(transform.quaternion);
+    const isSleeping = layers.sleepState && (manager.getBodyState(body.id)?.isSleeping ?? false);
+    material.color.set(getBodyDebugColor(body, isSleeping));
+
+    if (layers.aabbs) {
+      mesh.updateMatrixWorld();
+      aabb.setFromObject(mesh, true);
+    }
+  });
+
+  if (!geometry) return null;
+
+  return (
+    <>
+      <mesh ref={meshRef} geometry={geometry} material={material} visible={layers.colliders} renderOrder={999} />
+      {layers.aabbs && <primitive object={aabbHelper} />}
+    </>
+  );
+};
+
+/**
+ * Line segments rebuilt every frame from point pairs.
+ */
+const DebugLines: React.FC<{ color: string; getPoints: () => Vector3[] }> = ({ color, getPoints }) => {
+  const geometry = useMemo(() => new BufferGeometry(), []);
+
+  useEffect(() => () => geometry.dispose(), [geometry]);
+  useFrame(() => {
+    geometry.setFromPoints(getPoints());
+  });
+
+  return (
+    <lineSegments geometry={geometry} renderOrder={999}>
+      <lineBasicMaterial color={color} depthTest={false} transparent />
+    </lineSegments>
+  );
 };
 
 /**
  * Serialize and deserialize physics state
  * Useful for saving/loading the physics state or for testing purposes.
  */
-export const serializeState = (): PhysicsState => {
-  return usePhysicsStore.getState();
+export const serializeState = (): SerializedPhysics => {
+  return PhysicsSystemManager.getInstance().serializeState();
 };
 
-export const deserializeState = (state: PhysicsState): void => {
-  usePhysicsStore.setState(state);
+export const deserializeState = (state: SerializedPhysics): void => {
+  PhysicsSystemManager.getInstance().deserializeState(state);
 };
 
+const DEFAULT_PHYSICS_CONFIG: PhysicsConfig = { engine: 'rapier' };
+const DEFAULT_QUERY_DISTANCE = 1000;
+
 /**
  * Singleton class for physics system management
- * Provides methods to manage physics bodies globally.
+ * Provides methods to manage physics bodies globally and to query the live physics world.
  */
 export class PhysicsSystemManager {
   private static instance: PhysicsSystemManager | null = null;
   private config: PhysicsConfig;
   private isInitialized: boolean = false;
   private refCount: number = 0; // Reference counter
+  private backend: PhysicsBackend | null = null;
+  private bodyHandles: Map<
+    string,
+    { body: PhysicsBody; handle: PhysicsBodyHandle; object?: Object3D; generation: number }
+  > = new Map();
+  private handleGeneration: number = 0;
+  private bodyHandleListeners: Set<() => void> = new Set();
+  private activeJoints: Map<string, { joint: PhysicsJoint; frames: JointFrames }> = new Map();
+  private triggers: TriggerTracker = new TriggerTracker();
+  private pendingBodyStates: Map<string, BodyState> = new Map(); // Restored states waiting for their body to go live
+  private unregisterFromLoop: (() => void) | null = null;
+  private modelColliders: Map<string, string[]> = new Map(); // Asset id -> generated body ids
+  private eventSubscriptions: Unsubscribe[] = [];
 
   private constructor(config: PhysicsConfig) {
     this.config = config;
+    this.eventSubscriptions = [
+      EventDispatcher.on('ASSET_LOADED', ({ id, type }) => {
+        if (type === 'model') this.addModelColliders(id);
+      }),
+      EventDispatcher.on('ASSET_DISPOSED', ({ id }) => this.removeModelColliders(id)),
+    ];
   }
 
-  public static getInstance(config: PhysicsConfig): PhysicsSystemManager {
+  /**
+   * @param config Only used by the call that creates the instance.
+   */
+  public static getInstance(config: PhysicsConfig = DEFAULT_PHYSICS_CONFIG): PhysicsSystemManager {
     if (!PhysicsSystemManager.instance) {
       PhysicsSystemManager.instance = new PhysicsSystemManager(config);
     }
     return PhysicsSystemManager.instance;
   }
 
+  /**
+   * The instance if one exists, for callers that must not create it as a side effect.
+   */
+  public static findInstance(): PhysicsSystemManager | null {
+    return PhysicsSystemManager.instance;
+  }
+
   public initialize() {
     this.refCount++;
 
@@ -516,6 +1540,19 @@ export class PhysicsSystemManager {
     } else if (this.config.engine === 'cannon') {
       console.log('PhysicsSystemManager starting Cannon physics simulation.');
     }
+
+    if (this.unregisterFromLoop === null) {
+      const gameLoop = GameLoop.getInstance();
+      this.unregisterFromLoop = gameLoop.register({
+        id: 'physics',
+        phase: 'fixedUpdate',
+        update: ({ deltaTime }) => {
+          this.checkJointBreaks();
+          this.updateTriggers(deltaTime);
+        }
+      });
+      gameLoop.start();
+    }
   }
 
   public cleanup() {
@@ -529,6 +1566,21 @@ export class PhysicsSystemManager {
         } else if (this.config.engine === 'cannon') {
           console.log('PhysicsSystemManager cleaning up Cannon physics engine.');
         }
+        if (this.backend) {
+          this.backend.dispose();
+          this.backend = null;
+        }
+        this.bodyHandles.clear();
+        this.activeJoints.clear();
+        this.triggers.clear();
+        this.pendingBodyStates.clear();
+        this.bodyHandleListeners.clear();
+        if (this.unregisterFromLoop !== null) {
+          this.unregisterFromLoop();
+          this.unregisterFromLoop = null;
+        }
+        this.eventSubscriptions.forEach(unsubscribe => unsubscribe());
+        this.eventSubscriptions = [];
         this.isInitialized = false;
         PhysicsSystemManager.instance = null;
       }
@@ -536,52 +1588,415 @@ export class PhysicsSystemManager {
       console.warn('PhysicsSystemManager cleanup called but refCount is already 0.');
     }
   }
-}
 
-/**
- * Define a prop type for the PhysicsSystem component
- */
-interface PhysicsSystemProps {
-  config: PhysicsConfig;
-  children: React.ReactNode;
-}
+  /**
+   * Installs the engine adapter that answers queries. Bodies registered before it was attached are handed over.
+   */
+  public attachBackend(backend: PhysicsBackend) {
+    if (this.backend && this.backend !== backend) {
+      this.backend.dispose();
+    }
 
-/**
- * Example PhysicsConfig and PhysicsState interfaces
- * Adjust these according to your actual store implementation
- */
+    this.backend = backend;
+    this.bodyHandles.forEach(({ body, handle }) => {
+      backend.addBody(body, handle);
+      this.applyPendingBodyState(body.id);
+    });
+  }
 
-// src/stores/physicsStore.ts
-// Ensure this file exists and is correctly implemented
+  public detachBackend(backend: PhysicsBackend) {
+    if (this.backend !== backend) return;
 
-/*
-import { Vector3 } from 'three';
-import create from 'zustand';
+    backend.dispose();
+    this.backend = null;
+  }
 
-export type PhysicsEngine = 'cannon' | 'rapier';
+  public getBackend(): PhysicsBackend | null {
+    return this.backend;
+  }
 
-export interface PhysicsConfig {
-  engine: PhysicsEngine;
-  gravity: Vector3;
-  debug: boolean;
-}
+  /**
+   * Links a body id to its live engine handle (a Rapier RigidBody or a Cannon body API).
+   */
+  public registerBodyHandle(body: PhysicsBody, handle: PhysicsBodyHandle, object?: Object3D) {
+    this.bodyHandles.set(body.id, { body, handle, object, generation: ++this.handleGeneration });
+    this.backend?.addBody(body, handle);
+    this.applyPendingBodyState(body.id);
+    this.bodyHandleListeners.forEach(listener => listener());
+  }
 
-export interface PhysicsBody {
-  id: string;
-  shape: string;
-  type: 'static' | 'dynamic';
-  mass?: number;
-  position: Vector3;
-  rotation: Vector3;
-  args?: any;
-  onCollide?: (otherBodyId: string, point: Vector3) => void;
-}
+  public unregisterBodyHandle(id: string, handle: PhysicsBodyHandle) {
+    // A remounted body may already have registered a newer handle under the same id
+    if (this.bodyHandles.get(id)?.handle !== handle) return;
+
+    this.bodyHandles.delete(id);
+    this.backend?.removeBody(id);
+    this.triggers.removeBody(id);
+    this.bodyHandleListeners.forEach(listener => listener());
+  }
+
+  public getBodyHandle(id: string): PhysicsBodyHandle | null {
+    return this.bodyHandles.get(id)?.handle ?? null;
+  }
+
+  public getBodyObject(id: string): Object3D | null {
+    return this.bodyHandles.get(id)?.object ?? null;
+  }
+
+  /**
+   * Reverse of getBodyObject, for engine events that only carry the scene object.
+   */
+  public getBodyIdByObject(object: Object3D): string | null {
+    for (const [id, entry] of this.bodyHandles) {
+      if (entry.object === object) return id;
+    }
+    return null;
+  }
+
+  /**
+   * Increases every time a body registers, so consumers can tell a remounted body from the old one.
+   * @returns null while the body has no live handle.
+   */
+  public getBodyHandleGeneration(id: string): number | null {
+    return this.bodyHandles.get(id)?.generation ?? null;
+  }
+
+  public subscribeBodyHandles(listener: () => void): () => void {
+    this.bodyHandleListeners.add(listener);
+    return () => {
+      this.bodyHandleListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Live transform from the engine, or the spawn pose of a body that is not simulated yet.
+   */
+  public getBodyTransform(id: string): BodyTransform | null {
+    const transform = this.backend?.getBodyTransform(id);
+    if (transform) return transform;
+
+    const body = usePhysicsStore.getState().bodies[id];
+    return body ? getInitialTransform(body) : null;
+  }
+
+  /**
+   * Live pose, velocities and sleep state, or null for bodies that are not simulated yet.
+   */
+  public getBodyState(id: string): BodyState | null {
+    return this.backend?.getBodyState(id) ?? null;
+  }
+
+  /**
+   * Touching pairs as of the last step, for the debug overlay.
+   */
+  public getContacts(): PhysicsContact[] {
+    return this.backend?.getContacts() ?? [];
+  }
+
+  /**
+   * World-space anchors of every joint live in the engine.
+   */
+  public getJointAnchors(): JointAnchors[] {
+    const anchors: JointAnchors[] = [];
+    this.activeJoints.forEach(({ joint, frames }, id) => {
+      const transformA = this.getBodyTransform(joint.bodyA);
+      const transformB = this.getBodyTransform(joint.bodyB);
+      if (!transformA || !transformB) return;
+
+      anchors.push({
+        id,
+        anchorA: frames.anchorA.clone().applyQuaternion(transformA.quaternion).add(transformA.position),
+        anchorB: frames.anchorB.clone().applyQuaternion(transformB.quaternion).add(transformB.position),
+      });
+    });
+    return anchors;
+  }
+
+  /**
+   * Drives a kinematic body to a new pose on the next simulation step. Bodies without a live handle are skipped.
+   */
+  public moveKinematicBody(id: string, position: Vector3, quaternion?: Quaternion) {
+    this.backend?.moveKinematicBody(id, position, quaternion);
+  }
+
+  /**
+   * Pushes a body for one simulation step; call every step for a continuous push.
+   * The optional point is in world space. Like the other body controls, bodies without a live handle are skipped.
+   */
+  public applyForce(id: string, force: Vector3, point?: Vector3) {
+    this.backend?.applyForce(id, force, point);
+  }
+
+  /**
+   * Changes a body's momentum at once, e.g. for explosions, knockback or jump pads.
+   */
+  public applyImpulse(id: string, impulse: Vector3, point?: Vector3) {
+    this.backend?.applyImpulse(id, impulse, point);
+  }
+
+  public applyTorque(id: string, torque: Vector3) {
+    this.backend?.applyTorque(id, torque);
+  }
+
+  public setLinearVelocity(id: string, velocity: Vector3) {
+    this.backend?.setLinearVelocity(id, velocity);
+  }
+
+  public setAngularVelocity(id: string, velocity: Vector3) {
+    this.backend?.setAngularVelocity(id, velocity);
+  }
+
+  /**
+   * Moves a body instantly without sweeping through what lies between. Its velocity is kept.
+   */
+  public teleport(id: string, position: Vector3, quaternion?: Quaternion) {
+    this.backend?.teleport(id, position, quaternion);
+  }
+
+  public sleep(id: string) {
+    this.backend?.sleep(id);
+  }
+
+  public wake(id: string) {
+    this.backend?.wake(id);
+  }
+
+  /**
+   * Captures every stored body as the engine is simulating it right now, velocities and sleep included.
+   * Bodies that are not live yet are recorded at their spawn pose, at rest.
+   */
+  public serializeState(): SerializedPhysics {
+    const bodies = Object.values(usePhysicsStore.getState().bodies).map(body => {
+      const state =
+        this.pendingBodyStates.get(body.id) ??
+        (this.bodyHandles.has(body.id) ? this.backend?.getBodyState(body.id) : null) ??
+        getRestingState(getInitialTransform(body));
+      return toSerializedBody(body, state);
+    });
+    return { bodies };
+  }
+
+  /**
+   * Puts stored bodies back into a snapshot's state so they resume mid-motion. Bodies that are not live yet
+   * take their state once they register; snapshot entries for bodies that no longer exist are skipped.
+   */
+  public deserializeState(snapshot: SerializedPhysics) {
+    const { bodies } = usePhysicsStore.getState();
+    snapshot.bodies.forEach(serialized => {
+      if (!bodies[serialized.id]) {
+        console.warn(`PhysicsSystemManager: Snapshot body "${serialized.id}" does not exist.`);
+        return;
+      }
+
+      this.pendingBodyStates.set(serialized.id, fromSerializedBody(serialized));
+      this.applyPendingBodyState(serialized.id);
+    });
+  }
+
+  private applyPendingBodyState(id: string) {
+    const state = this.pendingBodyStates.get(id);
+    if (!state || !this.backend || !this.bodyHandles.has(id)) return;
+
+    this.pendingBodyStates.delete(id);
+    this.backend.setBodyState(id, state);
+  }
 
-export interface PhysicsState {
-  bodies: Record<string, PhysicsBody>;
+  /**
+   * Joints connect two stored bodies. The joint is created in the engine once both bodies are live.
+   */
+  public addJoint(joint: PhysicsJoint) {
+    usePhysicsStore.getState().addJoint(joint);
+  }
+
+  public removeJoint(id: string) {
+    usePhysicsStore.getState().removeJoint(id);
+  }
+
+  public computeJointFrames(joint: PhysicsJoint): JointFrames | null {
+    const transformA = this.getBodyTransform(joint.bodyA);
+    const transformB = this.getBodyTransform(joint.bodyB);
+    if (!transformA || !transformB) return null;
+
+    return getJointFrames(joint, transformA, transformB);
+  }
+
+  /**
+   * Watches a joint created in the engine for breaking.
+   * @returns A handle that stops watching it.
+   */
+  public trackJoint(joint: PhysicsJoint, frames: JointFrames): () => void {
+    const entry = { joint, frames };
+    this.activeJoints.set(joint.id, entry);
+    return () => {
+      if (this.activeJoints.get(joint.id) === entry) {
+        this.activeJoints.delete(joint.id);
+      }
+    };
+  }
+
+  /**
+   * Removes joints strained past their break distance and reports each one as JOINT_BROKEN.
+   */
+  public checkJointBreaks() {
+    if (!this.backend) return;
+
+    this.activeJoints.forEach(({ joint, frames }, id) => {
+      if (joint.breakDistance === undefined) return;
+
+      const transformA = this.backend!.getBodyTransform(joint.bodyA);
+      const transformB = this.backend!.getBodyTransform(joint.bodyB);
+      if (!transformA || !transformB) return;
+
+      const strain = measureJointStrain(joint, frames, transformA, transformB);
+      if (strain <= joint.breakDistance) return;
+
+      this.activeJoints.delete(id);
+      usePhysicsStore.getState().removeJoint(id);
+      EventDispatcher.dispatch('JOINT_BROKEN', { id, bodyA: joint.bodyA, bodyB: joint.bodyB, strain });
+    });
+  }
+
+  /**
+   * Records a body overlapping a trigger, as reported by the engine. Layers that exclude each other never trigger.
+   */
+  public enterTrigger(triggerId: string, bodyId: string) {
+    const trigger = usePhysicsStore.getState().bodies[triggerId];
+    if (trigger && !shouldReportContact(trigger, bodyId)) return;
+
+    this.triggers.enter(triggerId, bodyId);
+  }
+
+  public exitTrigger(triggerId: string, bodyId: string) {
+    this.triggers.exit(triggerId, bodyId);
+  }
+
+  public getTriggerOccupants(triggerId: string): string[] {
+    return this.triggers.getOccupants(triggerId);
+  }
+
+  /**
+   * Reports TRIGGER_STAY for every body inside a trigger. Runs once per fixed step.
+   */
+  public updateTriggers(deltaTime: number) {
+    this.triggers.update(deltaTime);
+  }
+
+  /**
+   * Registers a named material for bodies to reference through `PhysicsBody.material`.
+   * Bodies read their material when they mount, so register materials before adding the bodies that use them.
+   */
+  public registerMaterial(material: PhysicsMaterial) {
+    usePhysicsStore.getState().addMaterial(material);
+  }
+
+  /**
+   * Builds colliders for a loaded model asset: one compound body from its collider nodes (named `COL_<shape>_*`
+   * or tagged with a `collider` extra), plus a static body per visible mesh if it asked for them through `Asset.collider`.
+   */
+  private addModelColliders(assetId: string) {
+    const asset = useAssetStore.getState().getAsset(assetId);
+    if (!asset?.data || this.modelColliders.has(assetId)) return;
+
+    const compound = createCompoundBody(asset.data, `${assetId}:compound`, asset.compoundCollider);
+    const bodies = [
+      ...(compound ? [compound] : []),
+      ...(asset.collider ? createMeshBodies(asset.data, { idPrefix: assetId, shape: asset.collider }) : []),
+    ];
+    if (bodies.length === 0) return;
+
+    bodies.forEach(body => usePhysicsStore.getState().addBody(body));
+    this.modelColliders.set(assetId, bodies.map(body => body.id));
+  }
+
+  private removeModelColliders(assetId: string) {
+    const bodyIds = this.modelColliders.get(assetId);
+    if (!bodyIds) return;
+
+    bodyIds.forEach(id => usePhysicsStore.getState().removeBody(id));
+    this.modelColliders.delete(assetId);
+  }
+
+  /**
+   * Scene queries. Each returns null (or an empty list) until a physics provider has mounted its backend.
+   */
+
+  public raycast(
+    origin: Vector3,
+    direction: Vector3,
+    maxDistance: number = DEFAULT_QUERY_DISTANCE,
+    filter: PhysicsQueryFilter = {}
+  ): RaycastHit | null {
+    return this.backend ? this.backend.raycast(origin, direction, maxDistance, filter) : null;
+  }
+
+  /**
+   * @returns The nearest hit on each body along the ray, closest first.
+   */
+  public raycastAll(
+    origin: Vector3,
+    direction: Vector3,
+    maxDistance: number = DEFAULT_QUERY_DISTANCE,
+    filter: PhysicsQueryFilter = {}
+  ): RaycastHit[] {
+    return this.backend ? this.backend.raycastAll(origin, direction, maxDistance, filter) : [];
+  }
+
+  public sphereCast(
+    origin: Vector3,
+    radius: number,
+    direction: Vector3,
+    maxDistance: number = DEFAULT_QUERY_DISTANCE,
+    filter: PhysicsQueryFilter = {}
+  ): RaycastHit | null {
+    return this.backend ? this.backend.sphereCast(origin, radius, direction, maxDistance, filter) : null;
+  }
+
+  /**
+   * Sweeps an upright capsule; `halfHeight` is half the length of its straight section.
+   */
+  public capsuleCast(
+    origin: Vector3,
+    radius: number,
+    halfHeight: number,
+    direction: Vector3,
+    maxDistance: number = DEFAULT_QUERY_DISTANCE,
+    filter: PhysicsQueryFilter = {}
+  ): RaycastHit | null {
+    return this.backend ? this.backend.capsuleCast(origin, radius, halfHeight, direction, maxDistance, filter) : null;
+  }
+
+  /**
+   * @returns Ids of the bodies touching the sphere.
+   */
+  public overlapSphere(center: Vector3, radius: number, filter: PhysicsQueryFilter = {}): string[] {
+    return this.backend ? this.backend.overlapSphere(center, radius, filter) : [];
+  }
+
+  /**
+   * @returns Ids of the bodies touching the box.
+   */
+  public overlapBox(
+    center: Vector3,
+    halfExtents: Vector3,
+    rotation: Quaternion = new Quaternion(),
+    filter: PhysicsQueryFilter = {}
+  ): string[] {
+    return this.backend ? this.backend.overlapBox(center, halfExtents, rotation, filter) : [];
+  }
+
+  public closestPoint(
+    point: Vector3,
+    maxDistance: number = DEFAULT_QUERY_DISTANCE,
+    filter: PhysicsQueryFilter = {}
+  ): ClosestPointResult | null {
+    return this.backend ? this.backend.closestPoint(point, maxDistance, filter) : null;
+  }
 }
 
-export const usePhysicsStore = create<PhysicsState>()((set) => ({
-  bodies: {},
-}));
-*/
\ No newline at end of file
+/**
+ * Define a prop type for the PhysicsSystem component
+ */
+interface PhysicsSystemProps {
+  config: PhysicsConfig;
+  children: React.ReactNode;
+}
@@ -0,0 +1,250 @@
+/**
+ * @jest-environment node
+ */
+// src/systems/PhysicsSystem/backends/CannonBackend.test.ts
+
+import { BoxGeometry, Quaternion, SphereGeometry, Vector3 } from 'three';
+import { CannonBackend } from './CannonBackend';
+import { usePhysicsStore } from '../../../stores/physicsStore';
+import { ManualClock, Runtime, createHeadlessProfile } from '../../../utils/Runtime';
+import { PhysicsBody } from '../../../types/physics.types';
+
+const box = (id: string, position: Vector3, overrides: Partial<PhysicsBody> = {}): PhysicsBody => ({
+  id,
+  type: 'static',
+  shape: 'box',
+  position,
+  rotation: new Vector3(),
+  args: [2, 2, 2],
+  ...overrides
+});
+
+describe('CannonBackend', () => {
+  let backend: CannonBackend;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    usePhysicsStore.setState({ bodies: {} });
+    backend = new CannonBackend();
+    backend.addBody(box('near', new Vector3(0, 0, 5)), null);
+    backend.addBody(box('far', new Vector3(0, 0, 10)), null);
+  });
+
+  afterEach(() => {
+    backend.dispose();
+    jest.restoreAllMocks();
+  });
+
+  it('should return the closest ray hit with point, normal and distance', () => {
+    const hit = backend.raycast(new Vector3(), new Vector3(0, 0, 1), 100, {});
+
+    expect(hit?.bodyId).toBe('near');
+    expect(hit?.distance).toBeCloseTo(4);
+    expect(hit?.point.z).toBeCloseTo(4);
+    expect(hit?.normal.z).toBeCloseTo(-1);
+  });
+
+  it('should list every body along the ray, nearest first', () => {
+    const hits = backend.raycastAll(new Vector3(), new Vector3(0, 0, 1), 100, {});
+
+    expect(hits.map(hit => hit.bodyId)).toEqual(['near', 'far']);
+    expect(backend.raycastAll(new Vector3(), new Vector3(0, 0, 1), 3, {})).toEqual([]);
+  });
+
+  it('should filter by excluded ids and collision layers', () => {
+    usePhysicsStore.getState().addBody(box('near', new Vector3(0, 0, 5), { collisionLayer: 4 }));
+
+    expect(backend.raycast(new Vector3(), new Vector3(0, 0, 1), 100, { excludeBodyIds: ['near'] })?.bodyId).toBe('far');
+    expect(backend.raycast(new Vector3(), new Vector3(0, 0, 1), 100, { layerMask: 1 })?.bodyId).toBe('far');
+    expect(backend.raycast(new Vector3(), new Vector3(0, 0, 1), 100, { layerMask: 4 })?.bodyId).toBe('near');
+  });
+
+  it('should stop a sphere cast where the sphere first touches a body', () => {
+    const hit = backend.sphereCast(new Vector3(0, 0, 0), 0.5, new Vector3(0, 0, 1), 100, {});
+
+    expect(hit?.bodyId).toBe('near');
+    expect(hit?.distance).toBeCloseTo(3.5, 2);
+    expect(hit?.point.z).toBeCloseTo(4, 2);
+    expect(hit?.normal.z).toBeCloseTo(-1);
+    expect(backend.sphereCast(new Vector3(3, 0, 0), 0.5, new Vector3(0, 0, 1), 100, {})).toBeNull();
+  });
+
+  it('should sweep an upright capsule along its whole height', () => {
+    const down = backend.capsuleCast(new Vector3(0, 5, 5), 0.5, 1, new Vector3(0, -1, 0), 100, {});
+    expect(down?.bodyId).toBe('near');
+    expect(down?.distance).toBeCloseTo(2.5, 2);
+    expect(down?.normal.y).toBeCloseTo(1);
+
+    // A sphere at the capsule's center passes over the box, but the lower cap does not
+    const forward = new Vector3(0, 0, 1);
+    expect(backend.sphereCast(new Vector3(0, 2.2, 0), 0.5, forward, 100, {})).toBeNull();
+    expect(backend.capsuleCast(new Vector3(0, 2.2, 0), 0.5, 1, forward, 100, {})?.distance).toBeCloseTo(3.5, 1);
+  });
+
+  it('should report bodies overlapping a sphere or a rotated box', () => {
+    expect(backend.overlapSphere(new Vector3(0, 0, 3.5), 0.6, {})).toEqual(['near']);
+    expect(backend.overlapSphere(new Vector3(0, 0, 3.5), 0.4, {})).toEqual([]);
+
+    const longBox = new Vector3(0.1, 0.1, 4);
+    expect(backend.overlapBox(new Vector3(0, 0, 7.5), longBox, new Quaternion(), {}).sort()).toEqual(['far', 'near']);
+    const turned = new Quaternion().setFromAxisAngle(new Vector3(0, 1, 0), Math.PI / 2);
+    expect(backend.overlapBox(new Vector3(0, 0, 7.5), longBox, turned, {})).toEqual([]);
+  });
+
+  it('should find the closest surface point within range', () => {
+    const result = backend.closestPoint(new Vector3(0, 0, 2), 10, {});
+
+    expect(result?.bodyId).toBe('near');
+    expect(result?.isInside).toBe(false);
+    expect(result?.distance).toBeCloseTo(2, 2);
+    expect(result?.point.z).toBeCloseTo(4, 2);
+    expect(backend.closestPoint(new Vector3(0, 0, 5), 10, {})?.isInside).toBe(true);
+    expect(backend.closestPoint(new Vector3(0, 0, -10), 5, {})).toBeNull();
+  });
+
+  it('should follow transforms published by the worker body API', () => {
+    let publishPosition: (value: [number, number, number]) => void = () => {};
+    const api = {
+      position: { subscribe: (callback: typeof publishPosition) => { publishPosition = callback; return () => {}; } },
+      quaternion: { subscribe: () => () => {} },
+      velocity: { subscribe: () => () => {} },
+      angularVelocity: { subscribe: () => () => {} }
+    };
+    backend.addBody(box('mover', new Vector3(0, 0, 50)), api);
+
+    publishPosition([0, 0, 2.5]);
+
+    expect(backend.raycast(new Vector3(), new Vector3(0, 0, 1), 100, {})?.bodyId).toBe('mover');
+  });
+
+  it('should move kinematic bodies through the worker body API', () => {
+    const set = jest.fn();
+    const api = {
+      position: { subscribe: () => () => {}, set },
+      quaternion: { subscribe: () => () => {}, set: jest.fn() },
+      velocity: { subscribe: () => () => {} },
+      angularVelocity: { subscribe: () => () => {} }
+    };
+    backend.addBody(box('lift', new Vector3(0, 0, 50), { type: 'kinematic' }), api);
+
+    backend.moveKinematicBody('lift', new Vector3(1, 2, 3));
+
+    expect(set).toHaveBeenCalledWith(1, 2, 3);
+    expect(api.quaternion.set).not.toHaveBeenCalled();
+  });
+
+  it('should route forces, velocities and sleep through the worker body API', () => {
+    let publishPosition: (value: [number, number, number]) => void = () => {};
+    const api = {
+      position: { subscribe: (callback: typeof publishPosition) => { publishPosition = callback; return () => {}; }, set: jest.fn() },
+      quaternion: { subscribe: () => () => {}, set: jest.fn() },
+      velocity: { subscribe: () => () => {}, set: jest.fn() },
+      angularVelocity: { subscribe: () => () => {}, set: jest.fn() },
+      applyForce: jest.fn(),
+      applyImpulse: jest.fn(),
+      applyTorque: jest.fn(),
+      sleep: jest.fn(),
+      wakeUp: jest.fn()
+    };
+    backend.addBody(box('crate', new Vector3(0, 0, 50), { type: 'dynamic' }), api);
+    publishPosition([1, 2, 3]);
+
+    backend.applyForce('crate', new Vector3(0, 10, 0));
+    backend.applyImpulse('crate', new Vector3(5, 0, 0), new Vector3(1, 3, 3));
+    backend.applyTorque('crate', new Vector3(0, 1, 0));
+    backend.setLinearVelocity('crate', new Vector3(0, 4, 0));
+    backend.setAngularVelocity('crate', new Vector3(1, 0, 0));
+    backend.teleport('crate', new Vector3(7, 8, 9));
+    backend.sleep('crate');
+
+    // The worker expects points relative to the body position
+    expect(api.applyForce).toHaveBeenCalledWith([0, 10, 0], [0, 0, 0]);
+    expect(api.applyImpulse).toHaveBeenCalledWith([5, 0, 0], [0, 1, 0]);
+    expect(api.applyTorque).toHaveBeenCalledWith([0, 1, 0]);
+    expect(api.velocity.set).toHaveBeenCalledWith(0, 4, 0);
+    expect(api.angularVelocity.set).toHaveBeenCalledWith(1, 0, 0);
+    expect(api.position.set).toHaveBeenCalledWith(7, 8, 9);
+    expect(api.wakeUp).toHaveBeenCalled();
+    expect(api.sleep).toHaveBeenCalled();
+  });
+
+  it('should snapshot published velocities and restore a full body state', () => {
+    let publishVelocity: (value: [number, number, number]) => void = () => {};
+    const api = {
+      position: { subscribe: () => () => {}, set: jest.fn() },
+      quaternion: { subscribe: () => () => {}, set: jest.fn() },
+      velocity: { subscribe: (callback: typeof publishVelocity) => { publishVelocity = callback; return () => {}; }, set: jest.fn() },
+      angularVelocity: { subscribe: () => () => {}, set: jest.fn() },
+      sleep: jest.fn(),
+      wakeUp: jest.fn()
+    };
+    backend.addBody(box('crate', new Vector3(0, 0, 50), { type: 'dynamic' }), api);
+    publishVelocity([0, -3, 0]);
+
+    const state = backend.getBodyState('crate')!;
+    expect(state.position.toArray()).toEqual([0, 0, 50]);
+    expect(state.linearVelocity.toArray()).toEqual([0, -3, 0]);
+    expect(state.isSleeping).toBe(false);
+
+    backend.setBodyState('crate', { ...state, position: new Vector3(1, 2, 3), angularVelocity: new Vector3(0, 1, 0), isSleeping: true });
+
+    expect(api.position.set).toHaveBeenCalledWith(1, 2, 3);
+    expect(api.velocity.set).toHaveBeenCalledWith(0, -3, 0);
+    expect(api.angularVelocity.set).toHaveBeenCalledWith(0, 1, 0);
+    expect(api.sleep).toHaveBeenCalled();
+    expect(backend.getBodyState('crate')?.isSleeping).toBe(true);
+  });
+
+  it('should keep recorded contacts only briefly, on the runtime clock', () => {
+    const previousProfile = Runtime.getProfile();
+    const clock = new ManualClock();
+    Runtime.setProfile(createHeadlessProfile(clock));
+    backend.recordContact({ bodyA: 'near', bodyB: 'far', point: new Vector3(0, 0, 7.5), normal: new Vector3(0, 0, 1) });
+
+    expect(backend.getContacts()).toHaveLength(1);
+    clock.advance(1000);
+    expect(backend.getContacts()).toEqual([]);
+    Runtime.setProfile(previousProfile);
+  });
+
+  it('should collide against triangle meshes, convex hulls and heightfields', () => {
+    backend.dispose();
+    backend.addBody(box('ramp', new Vector3(0, 0, 5), { shape: 'mesh', args: [new BoxGeometry(2, 2, 2)] }), null);
+    backend.addBody(
+      box('rock', new Vector3(5, 0, 0), { shape: 'convexHull', args: [new SphereGeometry(1, 16, 8)], scale: new Vector3(2, 2, 2) }),
+      null
+    );
+    // heights[x][z] with a single raised corner at the most negative x and z
+    backend.addBody(
+      box('terrain', new Vector3(0, -10, 0), { shape: 'heightfield', args: [[[4, 0, 0], [0, 0, 0], [0, 0, 0]], 5] }),
+      null
+    );
+
+    expect(backend.raycast(new Vector3(), new Vector3(0, 0, 1), 100, {})?.distance).toBeCloseTo(4);
+    expect(backend.raycast(new Vector3(0, 0.1, 0.1), new Vector3(1, 0, 0), 100, {})?.distance).toBeCloseTo(3, 1);
+
+    const down = new Vector3(0, -1, 0);
+    expect(backend.raycast(new Vector3(-4.99, 0, -4.99), down, 100, {})?.point.y).toBeCloseTo(-6, 1);
+    expect(backend.raycast(new Vector3(4.9, 0, 4.9), down, 100, {})?.point.y).toBeCloseTo(-10);
+  });
+
+  it('should query every part of a compound body at its offset', () => {
+    backend.dispose();
+    backend.addBody(
+      box('table', new Vector3(0, 0, 5), {
+        shape: 'compound',
+        rotation: new Vector3(0, Math.PI / 2, 0),
+        args: [[
+          { shape: 'box', args: [2, 0.2, 2], position: new Vector3(0, 1, 0), rotation: new Vector3() },
+          { shape: 'capsule', args: [0.2, 0.6], position: new Vector3(0, 0.5, 3), rotation: new Vector3() },
+        ]],
+      }),
+      null
+    );
+
+    expect(backend.raycast(new Vector3(0, 5, 5), new Vector3(0, -1, 0), 100, {})?.point.y).toBeCloseTo(1.1);
+    // The body is turned a quarter, so the leg offset along local +Z ends up along world +X
+    expect(backend.raycast(new Vector3(3, 5, 5), new Vector3(0, -1, 0), 100, {})?.point.y).toBeCloseTo(1, 1);
+    expect(backend.raycast(new Vector3(0, 5, 8), new Vector3(0, -1, 0), 100, {})).toBeNull();
+  });
+});
@@ -0,0 +1,652 @@
+// src/systems/PhysicsSystem/backends/CannonBackend.ts
+
+// Purpose: Answers physics queries for the Cannon engine.
+// @react-three/cannon simulates inside a web worker, so queries run against a main-thread mirror world
+// whose bodies follow the worker's transforms through the body API subscriptions.
+
+import { Euler, Quaternion, Vector3 } from 'three';
+import * as CANNON from 'cannon-es';
+import type { PublicApi } from '@react-three/cannon';
+import {
+  BodyState,
+  BodyTransform,
+  CapsuleArgs,
+  ClosestPointResult,
+  CompoundArgs,
+  CompoundColliderPart,
+  ConvexHullArgs,
+  HeightfieldArgs,
+  MeshArgs,
+  PhysicsBackend,
+  PhysicsBody,
+  PhysicsBodyHandle,
+  PhysicsContact,
+  PhysicsQueryFilter,
+  RaycastHit
+} from '../../../types/physics.types';
+import { matchesQueryFilter } from './queryFilter';
+import { getConvexHullData, getHeightfieldSize, getTrimeshData } from '../colliderGeometry';
+import { Runtime } from '../../../utils/Runtime';
+
+interface MirrorBody {
+  body: CANNON.Body;
+  api: PublicApi | null;
+  unsubscribe: (() => void)[];
+  linearVelocity: Vector3; // As last published by the worker
+  angularVelocity: Vector3;
+  sleeping: boolean; // The worker does not publish sleep state, so this only follows sleep() and wake() calls made here
+}
+
+interface ProbeContact {
+  bodyId: string;
+  point: Vector3;
+  normal: Vector3; // Points from the hit body towards the probe
+}
+
+const CAST_REFINE_ITERATIONS = 12;
+const CLOSEST_POINT_ITERATIONS = 24;
+const MAX_CAST_SAMPLES = 256;
+const CAPSULE_SEGMENTS = 12;
+const CONTACT_LIFETIME_MS = 250;
+
+const cannonHeights: WeakMap<number[][], number[][]> = new WeakMap();
+
+// Cannon heightfields lie in their local XY plane with Z up; this turns them Y-up
+const HEIGHTFIELD_ORIENTATION = new Quaternion().setFromAxisAngle(new Vector3(1, 0, 0), -Math.PI / 2);
+
+/**
+ * Reorders heights[x][z] for Cannon, whose grid Y axis points along world -Z once the field is turned Y-up.
+ */
+export const getCannonHeightfieldData = (heights: number[][]): number[][] => {
+  let data = cannonHeights.get(heights);
+  if (!data) {
+    data = heights.map(column => [...column].reverse());
+    cannonHeights.set(heights, data);
+  }
+  return data;
+};
+
+/**
+ * The pose handed to Cannon for a body. Heightfields start at their corner in Cannon,
+ * so they are shifted and turned to be centered and Y-up like Rapier's.
+ */
+export const getCannonPose = (body: PhysicsBody): { position: Vector3; quaternion: Quaternion } => {
+  const position = body.position.clone();
+  const quaternion = new Quaternion().setFromEuler(new Euler(body.rotation.x, body.rotation.y, body.rotation.z));
+
+  if (body.shape === 'heightfield') {
+    const [heights, elementSize] = body.args as HeightfieldArgs;
+    const { width, depth } = getHeightfieldSize(heights, elementSize);
+    position.add(new Vector3(-width / 2, 0, depth / 2).applyQuaternion(quaternion));
+    quaternion.multiply(HEIGHTFIELD_ORIENTATION);
+  }
+
+  return { position, quaternion };
+};
+
+/**
+ * Builds the collider the same way @react-three/cannon does for each shape, so the mirror matches the simulation.
+ */
+export const createCannonShape = (body: PhysicsBody): CANNON.Shape | null => {
+  const args = (body.args || []) as number[];
+
+  switch (body.shape) {
+    case 'box': {
+      const [width = 1, height = 1, depth = 1] = args;
+      return new CANNON.Box(new CANNON.Vec3(width / 2, height / 2, depth / 2));
+    }
+    case 'sphere':
+      return new CANNON.Sphere(args[0] ?? 1);
+    case 'capsule': {
+      // Cannon has no capsule; the renderer simulates it as a cylinder with the same args
+      const [radiusTop = 0.5, radiusBottom = 2, height = 1, segments = 8] = args;
+      return new CANNON.Cylinder(radiusTop, radiusBottom, height, segments);
+    }
+    case 'cylinder': {
+      const [radiusTop = 1, radiusBottom = 1, height = 2, segments = 32] = args;
+      return new CANNON.Cylinder(radiusTop, radiusBottom, height, segments);
+    }
+    case 'cone': {
+      const [radiusTop = 0.5, radiusBottom = 0, height = 2, segments = 8] = args;
+      return new CANNON.Cylinder(radiusTop, radiusBottom, height, segments);
+    }
+    case 'plane':
+      return new CANNON.Plane();
+    case 'mesh': {
+      const { vertices, indices } = getTrimeshData((body.args as MeshArgs)[0], body.scale);
+      return new CANNON.Trimesh(Array.from(vertices), Array.from(indices));
+    }
+    case 'convexHull': {
+      const { vertices, faces } = getConvexHullData((body.args as ConvexHullArgs)[0], body.scale);
+      const points: CANNON.Vec3[] = [];
+      for (let i = 0; i < vertices.length; i += 3) {
+        points.push(new CANNON.Vec3(vertices[i], vertices[i + 1], vertices[i + 2]));
+      }
+      return new CANNON.ConvexPolyhedron({ vertices: points, faces });
+    }
+    case 'heightfield': {
+      const [heights, elementSize] = body.args as HeightfieldArgs;
+      return new CANNON.Heightfield(getCannonHeightfieldData(heights), { elementSize });
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * Cannon collider for one part of a compound body. Cannon has no capsule, so capsules become cylinders of the same height.
+ */
+export const createCannonPartShape = (part: CompoundColliderPart): CANNON.Shape | null => {
+  if (part.shape === 'capsule') {
+    const [radius, length] = part.args as CapsuleArgs;
+    return new CANNON.Cylinder(radius, radius, length + radius * 2, 8);
+  }
+  return createCannonShape({ id: '', type: 'static', ...part });
+};
+
+/**
+ * Every collider of a body with its offset from the body, which is only set for compound parts.
+ */
+const createCannonShapes = (body: PhysicsBody): { shape: CANNON.Shape; offset?: CANNON.Vec3; orientation?: CANNON.Quaternion }[] => {
+  if (body.shape !== 'compound') {
+    const shape = createCannonShape(body);
+    return shape ? [{ shape }] : [];
+  }
+
+  const [parts] = (body.args as CompoundArgs | undefined) ?? [[]];
+  return parts.flatMap(part => {
+    const shape = createCannonPartShape(part);
+    if (!shape) return [];
+    const orientation = new Quaternion().setFromEuler(new Euler(part.rotation.x, part.rotation.y, part.rotation.z));
+    return [{
+      shape,
+      offset: new CANNON.Vec3(part.position.x, part.position.y, part.position.z),
+      orientation: new CANNON.Quaternion(orientation.x, orientation.y, orientation.z, orientation.w),
+    }];
+  });
+};
+
+export class CannonBackend implements PhysicsBackend {
+  public readonly engine = 'cannon' as const;
+  private world: CANNON.World = new CANNON.World();
+  private bodies: Map<string, MirrorBody> = new Map();
+  private bodyIds: Map<CANNON.Body, string> = new Map();
+  private contacts: { contact: PhysicsContact; time: number }[] = [];
+
+  /**
+   * @param handle The body API returned by a @react-three/cannon hook, or null to mirror the spawn pose only.
+   */
+  public addBody(body: PhysicsBody, handle: PhysicsBodyHandle): void {
+    this.removeBody(body.id);
+
+    const shapes = createCannonShapes(body);
+    if (shapes.length === 0) {
+      console.warn(`CannonBackend: Unsupported shape "${body.shape}"`);
+      return;
+    }
+
+    // Kinematic mirror bodies never simulate, but still generate contacts against query probes
+    const mirror = new CANNON.Body({ type: CANNON.Body.KINEMATIC, mass: 0 });
+    shapes.forEach(({ shape, offset, orientation }) => mirror.addShape(shape, offset, orientation));
+    const { position, quaternion } = getCannonPose(body);
+    mirror.position.set(position.x, position.y, position.z);
+    mirror.quaternion.set(quaternion.x, quaternion.y, quaternion.z, quaternion.w);
+    mirror.aabbNeedsUpdate = true;
+
+    const unsubscribe: (() => void)[] = [];
+    const api = handle as PublicApi | null;
+    const entry: MirrorBody = { body: mirror, api, unsubscribe, linearVelocity: new Vector3(), angularVelocity: new Vector3(), sleeping: false };
+    if (api) {
+      unsubscribe.push(
+        api.position.subscribe(([x, y, z]) => {
+          mirror.position.set(x, y, z);
+          mirror.aabbNeedsUpdate = true;
+        }),
+        api.quaternion.subscribe(([x, y, z, w]) => {
+          mirror.quaternion.set(x, y, z, w);
+          mirror.aabbNeedsUpdate = true;
+        }),
+        api.velocity.subscribe(([x, y, z]) => entry.linearVelocity.set(x, y, z)),
+        api.angularVelocity.subscribe(([x, y, z]) => entry.angularVelocity.set(x, y, z))
+      );
+    }
+
+    this.world.addBody(mirror);
+    this.bodies.set(body.id, entry);
+    this.bodyIds.set(mirror, body.id);
+  }
+
+  public removeBody(id: string): void {
+    const mirror = this.bodies.get(id);
+    if (!mirror) return;
+
+    mirror.unsubscribe.forEach(unsubscribe => unsubscribe());
+    this.world.removeBody(mirror.body);
+    this.bodyIds.delete(mirror.body);
+    this.bodies.delete(id);
+  }
+
+  /**
+   * Pose of the worker body as last published through its subscriptions.
+   */
+  public getBodyTransform(id: string): BodyTransform | null {
+    const mirror = this.bodies.get(id);
+    if (!mirror) return null;
+
+    const { position, quaternion } = mirror.body;
+    return {
+      position: new Vector3(position.x, position.y, position.z),
+      quaternion: new Quaternion(quaternion.x, quaternion.y, quaternion.z, quaternion.w)
+    };
+  }
+
+  public getBodyState(id: string): BodyState | null {
+    const mirror = this.bodies.get(id);
+    const transform = this.getBodyTransform(id);
+    if (!mirror || !transform) return null;
+
+    return {
+      ...transform,
+      linearVelocity: mirror.linearVelocity.clone(),
+      angularVelocity: mirror.angularVelocity.clone(),
+      isSleeping: mirror.sleeping
+    };
+  }
+
+  public setBodyState(id: string, state: BodyState): void {
+    const mirror = this.bodies.get(id);
+    if (!mirror?.api) return;
+
+    const { api } = mirror;
+    const { position, quaternion, linearVelocity, angularVelocity } = state;
+    api.position.set(position.x, position.y, position.z);
+    api.quaternion.set(quaternion.x, quaternion.y, quaternion.z, quaternion.w);
+    api.velocity.set(linearVelocity.x, linearVelocity.y, linearVelocity.z);
+    api.angularVelocity.set(angularVelocity.x, angularVelocity.y, angularVelocity.z);
+    if (state.isSleeping) {
+      this.sleep(id);
+    } else {
+      this.wake(id);
+    }
+  }
+
+  /**
+   * The worker only reports contacts as collide events when they begin, so recent ones are kept for a short while.
+   */
+  public recordContact(contact: PhysicsContact): void {
+    this.pruneContacts();
+    this.contacts.push({ contact, time: Runtime.now() });
+  }
+
+  public getContacts(): PhysicsContact[] {
+    this.pruneContacts();
+    return this.contacts.map(({ contact }) => contact);
+  }
+
+  public raycast(origin: Vector3, direction: Vector3, maxDistance: number, filter: PhysicsQueryFilter): RaycastHit | null {
+    return this.raycastAll(origin, direction, maxDistance, filter)[0] || null;
+  }
+
+  public raycastAll(origin: Vector3, direction: Vector3, maxDistance: number, filter: PhysicsQueryFilter): RaycastHit[] {
+    const to = origin.clone().addScaledVector(direction.clone().normalize(), maxDistance);
+    const closestPerBody: Map<string, RaycastHit> = new Map();
+
+    this.world.raycastAll(
+      new CANNON.Vec3(origin.x, origin.y, origin.z),
+      new CANNON.Vec3(to.x, to.y, to.z),
+      { skipBackfaces: true },
+      result => {
+        const bodyId = result.body ? this.bodyIds.get(result.body) : undefined;
+        if (!bodyId || !matchesQueryFilter(bodyId, filter)) return;
+
+        const existing = closestPerBody.get(bodyId);
+        if (existing && existing.distance <= result.distance) return;
+        closestPerBody.set(bodyId, {
+          bodyId,
+          point: new Vector3(result.hitPointWorld.x, result.hitPointWorld.y, result.hitPointWorld.z),
+          normal: new Vector3(result.hitNormalWorld.x, result.hitNormalWorld.y, result.hitNormalWorld.z),
+          distance: result.distance
+        });
+      }
+    );
+
+    return Array.from(closestPerBody.values()).sort((a, b) => a.distance - b.distance);
+  }
+
+  public sphereCast(
+    origin: Vector3,
+    radius: number,
+    direction: Vector3,
+    maxDistance: number,
+    filter: PhysicsQueryFilter
+  ): RaycastHit | null {
+    return this.castProbe(this.createProbe(new CANNON.Sphere(radius)), radius, origin, direction, maxDistance, filter);
+  }
+
+  /**
+   * The capsule probe is a cylinder capped by two spheres, matching Rapier's capsule up to the cylinder's segments.
+   */
+  public capsuleCast(
+    origin: Vector3,
+    radius: number,
+    halfHeight: number,
+    direction: Vector3,
+    maxDistance: number,
+    filter: PhysicsQueryFilter
+  ): RaycastHit | null {
+    const probe = this.createProbe(new CANNON.Sphere(radius));
+    probe.shapeOffsets[0].set(0, halfHeight, 0);
+    probe.addShape(new CANNON.Sphere(radius), new CANNON.Vec3(0, -halfHeight, 0));
+    probe.addShape(new CANNON.Cylinder(radius, radius, halfHeight * 2, CAPSULE_SEGMENTS));
+    probe.updateBoundingRadius();
+    return this.castProbe(probe, radius, origin, direction, maxDistance, filter);
+  }
+
+  public overlapSphere(center: Vector3, radius: number, filter: PhysicsQueryFilter): string[] {
+    return this.overlapProbe(this.createProbe(new CANNON.Sphere(radius)), center, filter);
+  }
+
+  public overlapBox(center: Vector3, halfExtents: Vector3, rotation: Quaternion, filter: PhysicsQueryFilter): string[] {
+    const probe = this.createProbe(new CANNON.Box(this.toVec3(halfExtents)));
+    probe.quaternion.set(rotation.x, rotation.y, rotation.z, rotation.w);
+    return this.overlapProbe(probe, center, filter);
+  }
+
+  /**
+   * Finds the smallest sphere around the point that touches a body, which works for every Cannon shape type.
+   */
+  public closestPoint(point: Vector3, maxDistance: number, filter: PhysicsQueryFilter): ClosestPointResult | null {
+    const sphere = new CANNON.Sphere(maxDistance);
+    const probe = this.createProbe(sphere);
+    const resize = (radius: number) => {
+      sphere.radius = radius;
+      sphere.updateBoundingSphereRadius();
+      probe.updateBoundingRadius();
+    };
+
+    probe.position.copy(this.toVec3(point));
+    probe.aabbNeedsUpdate = true;
+    const candidates = this.bodiesNear(this.probeAABB(probe), filter);
+
+    // A probe deep inside a solid produces no contacts, so containment is tested directly
+    const container = candidates.find(body => this.containsPoint(body, point));
+    if (container) {
+      return { bodyId: this.bodyIds.get(container)!, point: point.clone(), distance: 0, isInside: true };
+    }
+
+    let contacts = this.probeContacts(probe, point, candidates);
+    if (contacts.length === 0) return null;
+
+    let low = 0;
+    let high = maxDistance;
+    for (let i = 0; i < CLOSEST_POINT_ITERATIONS; i++) {
+      const middle = (low + high) / 2;
+      resize(middle);
+      const touching = this.probeContacts(probe, point, candidates);
+      if (touching.length > 0) {
+        high = middle;
+        contacts = touching;
+      } else {
+        low = middle;
+      }
+    }
+
+    const contact = this.nearestContact(contacts, point);
+    return { bodyId: contact.bodyId, point: contact.point, distance: contact.point.distanceTo(point), isInside: false };
+  }
+
+  /**
+   * Moves the worker body; the mirror follows once the worker publishes the new pose.
+   */
+  public moveKinematicBody(id: string, position: Vector3, quaternion?: Quaternion): void {
+    const api = this.bodies.get(id)?.api;
+    if (!api) return;
+
+    api.position.set(position.x, position.y, position.z);
+    if (quaternion) {
+      api.quaternion.set(quaternion.x, quaternion.y, quaternion.z, quaternion.w);
+    }
+  }
+
+  /**
+   * The worker applies forces relative to the body's position, so world points are converted against the mirror.
+   */
+  public applyForce(id: string, force: Vector3, point?: Vector3): void {
+    const mirror = this.bodies.get(id);
+    if (!mirror?.api) return;
+
+    mirror.api.applyForce([force.x, force.y, force.z], this.toRelativePoint(mirror, point));
+    mirror.sleeping = false; // cannon-es wakes bodies it pushes
+  }
+
+  public applyImpulse(id: string, impulse: Vector3, point?: Vector3): void {
+    const mirror = this.bodies.get(id);
+    if (!mirror?.api) return;
+
+    mirror.api.applyImpulse([impulse.x, impulse.y, impulse.z], this.toRelativePoint(mirror, point));
+    mirror.sleeping = false;
+  }
+
+  public applyTorque(id: string, torque: Vector3): void {
+    this.bodies.get(id)?.api?.applyTorque([torque.x, torque.y, torque.z]);
+  }
+
+  public setLinearVelocity(id: string, velocity: Vector3): void {
+    this.bodies.get(id)?.api?.velocity.set(velocity.x, velocity.y, velocity.z);
+  }
+
+  public setAngularVelocity(id: string, velocity: Vector3): void {
+    this.bodies.get(id)?.api?.angularVelocity.set(velocity.x, velocity.y, velocity.z);
+  }
+
+  public teleport(id: string, position: Vector3, quaternion?: Quaternion): void {
+    const api = this.bodies.get(id)?.api;
+    if (!api) return;
+
+    this.wake(id);
+    api.position.set(position.x, position.y, position.z);
+    if (quaternion) {
+      api.quaternion.set(quaternion.x, quaternion.y, quaternion.z, quaternion.w);
+    }
+  }
+
+  public sleep(id: string): void {
+    const mirror = this.bodies.get(id);
+    if (!mirror?.api) return;
+
+    mirror.api.sleep();
+    mirror.sleeping = true;
+  }
+
+  public wake(id: string): void {
+    const mirror = this.bodies.get(id);
+    if (!mirror?.api) return;
+
+    mirror.api.wakeUp();
+    mirror.sleeping = false;
+  }
+
+  public dispose(): void {
+    Array.from(this.bodies.keys()).forEach(id => this.removeBody(id));
+    this.contacts = [];
+  }
+
+  private pruneContacts(): void {
+    const cutoff = Runtime.now() - CONTACT_LIFETIME_MS;
+    this.contacts = this.contacts.filter(({ time }) => time >= cutoff);
+  }
+
+  private toRelativePoint(mirror: MirrorBody, point?: Vector3): [number, number, number] {
+    if (!point) return [0, 0, 0];
+
+    const { position } = mirror.body;
+    return [point.x - position.x, point.y - position.y, point.z - position.z];
+  }
+
+  private createProbe(shape: CANNON.Shape): CANNON.Body {
+    // Dynamic so the narrowphase produces full contacts against the kinematic mirror bodies
+    const probe = new CANNON.Body({ mass: 1 });
+    probe.addShape(shape);
+    return probe;
+  }
+
+  /**
+   * Cannon has no shape casting, so the probe is stepped along the path and the first contact is refined by bisection.
+   * @param stepSize The probe's smallest radius; samples are half of it apart so thin bodies are not skipped.
+   */
+  private castProbe(
+    probe: CANNON.Body,
+    stepSize: number,
+    origin: Vector3,
+    direction: Vector3,
+    maxDistance: number,
+    filter: PhysicsQueryFilter
+  ): RaycastHit | null {
+    const dir = direction.clone().normalize();
+    const positionAt = (distance: number) => origin.clone().addScaledVector(dir, distance);
+
+    probe.position.copy(this.toVec3(origin));
+    probe.aabbNeedsUpdate = true;
+    const bounds = this.probeAABB(probe).clone();
+    probe.position.copy(this.toVec3(positionAt(maxDistance)));
+    probe.aabbNeedsUpdate = true;
+    bounds.extend(this.probeAABB(probe));
+
+    const candidates = this.bodiesNear(bounds, filter);
+    if (candidates.length === 0) return null;
+
+    const step = Math.max(stepSize * 0.5, maxDistance / MAX_CAST_SAMPLES);
+    let contacts = this.probeContacts(probe, positionAt(0), candidates);
+    let hitDistance = 0;
+
+    if (contacts.length === 0) {
+      let free = 0;
+      hitDistance = -1;
+
+      for (let sample = step; free < maxDistance; sample += step) {
+        const distance = Math.min(sample, maxDistance);
+        const touching = this.probeContacts(probe, positionAt(distance), candidates);
+        if (touching.length === 0) {
+          free = distance;
+          continue;
+        }
+
+        // Narrow the gap between the last free sample and the first touching one
+        let low = free;
+        let high = distance;
+        contacts = touching;
+        for (let i = 0; i < CAST_REFINE_ITERATIONS; i++) {
+          const middle = (low + high) / 2;
+          const refined = this.probeContacts(probe, positionAt(middle), candidates);
+          if (refined.length > 0) {
+            high = middle;
+            contacts = refined;
+          } else {
+            low = middle;
+          }
+        }
+        hitDistance = high;
+        break;
+      }
+
+      if (hitDistance < 0) return null;
+    }
+
+    const contact = this.nearestContact(contacts, positionAt(hitDistance));
+    return { bodyId: contact.bodyId, point: contact.point, normal: contact.normal, distance: hitDistance };
+  }
+
+  private overlapProbe(probe: CANNON.Body, center: Vector3, filter: PhysicsQueryFilter): string[] {
+    probe.position.copy(this.toVec3(center));
+    probe.aabbNeedsUpdate = true;
+    const candidates = this.bodiesNear(this.probeAABB(probe), filter);
+    const contacts = this.probeContacts(probe, center, candidates);
+    return Array.from(new Set(contacts.map(contact => contact.bodyId)));
+  }
+
+  private probeAABB(probe: CANNON.Body): CANNON.AABB {
+    probe.updateAABB();
+    return probe.aabb;
+  }
+
+  private bodiesNear(bounds: CANNON.AABB, filter: PhysicsQueryFilter): CANNON.Body[] {
+    const nearby: CANNON.Body[] = [];
+    this.bodies.forEach(({ body }, bodyId) => {
+      if (body.aabbNeedsUpdate) {
+        body.updateAABB();
+      }
+      if (body.aabb.overlaps(bounds) && matchesQueryFilter(bodyId, filter)) {
+        nearby.push(body);
+      }
+    });
+    return nearby;
+  }
+
+  private probeContacts(probe: CANNON.Body, position: Vector3, candidates: CANNON.Body[]): ProbeContact[] {
+    probe.position.set(position.x, position.y, position.z);
+    probe.aabbNeedsUpdate = true;
+
+    const result: CANNON.ContactEquation[] = [];
+    this.world.narrowphase.getContacts(
+      candidates.map(() => probe),
+      candidates,
+      this.world,
+      result,
+      [],
+      [],
+      []
+    );
+
+    return result.map(equation => {
+      // The narrowphase may swap the pair; ni always points from bi to bj
+      const probeIsFirst = equation.bi === probe;
+      const other = probeIsFirst ? equation.bj : equation.bi;
+      const offset = probeIsFirst ? equation.rj : equation.ri;
+      const normal = new Vector3(equation.ni.x, equation.ni.y, equation.ni.z);
+
+      return {
+        bodyId: this.bodyIds.get(other)!,
+        point: new Vector3(other.position.x + offset.x, other.position.y + offset.y, other.position.z + offset.z),
+        normal: probeIsFirst ? normal.negate() : normal
+      };
+    });
+  }
+
+  /**
+   * Solid containment test; triangle meshes and heightfields have no inside.
+   */
+  private containsPoint(body: CANNON.Body, point: Vector3): boolean {
+    const worldPoint = this.toVec3(point);
+
+    return body.shapes.some((shape, index) => {
+      const orientation = body.quaternion.mult(body.shapeOrientations[index]);
+      const position = body.position.vadd(body.quaternion.vmult(body.shapeOffsets[index]));
+      const local = orientation.conjugate().vmult(worldPoint.vsub(position));
+
+      if (shape instanceof CANNON.Sphere) {
+        return local.length() <= shape.radius;
+      }
+      if (shape instanceof CANNON.Box) {
+        const { halfExtents } = shape;
+        return Math.abs(local.x) <= halfExtents.x && Math.abs(local.y) <= halfExtents.y && Math.abs(local.z) <= halfExtents.z;
+      }
+      if (shape instanceof CANNON.Plane) {
+        return local.z <= 0;
+      }
+      if (shape instanceof CANNON.ConvexPolyhedron) {
+        return shape.pointIsInside(local) !== false;
+      }
+      return false;
+    });
+  }
+
+  private nearestContact(contacts: ProbeContact[], target: Vector3): ProbeContact {
+    return contacts.reduce((nearest, contact) =>
+      contact.point.distanceToSquared(target) < nearest.point.distanceToSquared(target) ? contact : nearest
+    );
+  }
+
+  private toVec3(vector: Vector3): CANNON.Vec3 {
+    return new CANNON.Vec3(vector.x, vector.y, vector.z);
+  }
+}
@@ -0,0 +1,197 @@
+/**
+ * @jest-environment node
+ */
+// src/systems/PhysicsSystem/backends/RapierBackend.test.ts
+
+import RAPIER from '@dimforge/rapier3d-compat';
+import { BoxGeometry, Quaternion, SphereGeometry, Vector3 } from 'three';
+import { RapierBackend } from './RapierBackend';
+import { getConvexHullData, getHeightfieldSize, getTrimeshData } from '../colliderGeometry';
+import { usePhysicsStore } from '../../../stores/physicsStore';
+import { PhysicsBody } from '../../../types/physics.types';
+
+const box = (id: string, position: Vector3, overrides: Partial<PhysicsBody> = {}): PhysicsBody => ({
+  id,
+  type: 'static',
+  shape: 'box',
+  position,
+  rotation: new Vector3(),
+  args: [2, 2, 2],
+  ...overrides
+});
+
+describe('RapierBackend', () => {
+  let world: RAPIER.World;
+  let backend: RapierBackend;
+
+  const spawn = (body: PhysicsBody) => {
+    const rigidBody = world.createRigidBody(
+      RAPIER.RigidBodyDesc.fixed().setTranslation(body.position.x, body.position.y, body.position.z)
+    );
+    world.createCollider(RAPIER.ColliderDesc.cuboid(1, 1, 1), rigidBody);
+    backend.addBody(body, rigidBody);
+  };
+
+  beforeAll(async () => {
+    await RAPIER.init();
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    usePhysicsStore.setState({ bodies: {} });
+    world = new RAPIER.World({ x: 0, y: -9.81, z: 0 });
+    backend = new RapierBackend(world, RAPIER);
+    spawn(box('near', new Vector3(0, 0, 5)));
+    spawn(box('far', new Vector3(0, 0, 10)));
+    // Colliders without a registered body id are invisible to queries
+    world.createCollider(RAPIER.ColliderDesc.cuboid(1, 1, 1).setTranslation(0, 0, 2.5));
+    world.step();
+  });
+
+  afterEach(() => {
+    backend.dispose();
+    world.free();
+    jest.restoreAllMocks();
+  });
+
+  it('should return the closest ray hit with point, normal and distance', () => {
+    const hit = backend.raycast(new Vector3(), new Vector3(0, 0, 2), 100, {});
+
+    expect(hit?.bodyId).toBe('near');
+    expect(hit?.distance).toBeCloseTo(4);
+    expect(hit?.point.z).toBeCloseTo(4);
+    expect(hit?.normal.z).toBeCloseTo(-1);
+  });
+
+  it('should list every body along the ray once, nearest first', () => {
+    // A compound body with two parts on the ray
+    const wall = world.createRigidBody(RAPIER.RigidBodyDesc.fixed().setTranslation(0, 0, 20));
+    world.createCollider(RAPIER.ColliderDesc.cuboid(1, 1, 1).setTranslation(0, 0, 3), wall);
+    world.createCollider(RAPIER.ColliderDesc.cuboid(1, 1, 1), wall);
+    backend.addBody(box('wall', new Vector3(0, 0, 20)), wall);
+    world.step();
+
+    const hits = backend.raycastAll(new Vector3(), new Vector3(0, 0, 1), 100, {});
+
+    expect(hits.map(hit => hit.bodyId)).toEqual(['near', 'far', 'wall']);
+    expect(hits[2].distance).toBeCloseTo(19);
+  });
+
+  it('should filter by excluded ids and collision layers', () => {
+    usePhysicsStore.getState().addBody(box('near', new Vector3(0, 0, 5), { collisionLayer: 4 }));
+
+    expect(backend.raycast(new Vector3(), new Vector3(0, 0, 1), 100, { excludeBodyIds: ['near'] })?.bodyId).toBe('far');
+    expect(backend.raycast(new Vector3(), new Vector3(0, 0, 1), 100, { layerMask: 1 })?.bodyId).toBe('far');
+    expect(backend.raycast(new Vector3(), new Vector3(0, 0, 1), 100, { layerMask: 4 })?.bodyId).toBe('near');
+  });
+
+  it('should stop a sphere cast where the sphere first touches a body', () => {
+    const hit = backend.sphereCast(new Vector3(), 0.5, new Vector3(0, 0, 1), 100, {});
+
+    expect(hit?.bodyId).toBe('near');
+    expect(hit?.distance).toBeCloseTo(3.5);
+    expect(hit?.point.z).toBeCloseTo(4);
+    expect(hit?.normal.z).toBeCloseTo(-1);
+  });
+
+  it('should sweep an upright capsule along its whole height', () => {
+    const down = backend.capsuleCast(new Vector3(0, 5, 5), 0.5, 1, new Vector3(0, -1, 0), 100, {});
+    expect(down?.bodyId).toBe('near');
+    expect(down?.distance).toBeCloseTo(2.5);
+    expect(down?.normal.y).toBeCloseTo(1);
+
+    // A sphere at the capsule's center passes over the box, but the lower cap does not
+    const forward = new Vector3(0, 0, 1);
+    expect(backend.sphereCast(new Vector3(0, 2.2, 0), 0.5, forward, 100, {})).toBeNull();
+    expect(backend.capsuleCast(new Vector3(0, 2.2, 0), 0.5, 1, forward, 100, {})?.distance).toBeCloseTo(3.5, 1);
+  });
+
+  it('should report bodies overlapping a sphere or a rotated box', () => {
+    expect(backend.overlapSphere(new Vector3(0, 0, 3.5), 0.6, {})).toEqual(['near']);
+    expect(backend.overlapSphere(new Vector3(0, 0, 3.5), 0.4, {})).toEqual([]);
+
+    const longBox = new Vector3(0.1, 0.1, 4);
+    expect(backend.overlapBox(new Vector3(0, 0, 7.5), longBox, new Quaternion(), {}).sort()).toEqual(['far', 'near']);
+    const turned = new Quaternion().setFromAxisAngle(new Vector3(0, 1, 0), Math.PI / 2);
+    expect(backend.overlapBox(new Vector3(0, 0, 7.5), longBox, turned, {})).toEqual([]);
+  });
+
+  it('should find the closest surface point within range', () => {
+    const result = backend.closestPoint(new Vector3(0, 2, 5), 10, {});
+
+    expect(result?.bodyId).toBe('near');
+    expect(result?.distance).toBeCloseTo(1);
+    expect(result?.point.y).toBeCloseTo(1);
+    expect(backend.closestPoint(new Vector3(0, 0, 5), 10, {})?.isInside).toBe(true);
+    expect(backend.closestPoint(new Vector3(0, 20, 5), 5, {})).toBeNull();
+  });
+
+  it('should collide against triangle meshes, convex hulls and heightfields', () => {
+    const attach = (id: string, x: number, y: number, z: number, collider: RAPIER.ColliderDesc) => {
+      const rigidBody = world.createRigidBody(RAPIER.RigidBodyDesc.fixed().setTranslation(x, y, z));
+      world.createCollider(collider, rigidBody);
+      backend.addBody(box(id, new Vector3(x, y, z)), rigidBody);
+    };
+
+    const { vertices, indices } = getTrimeshData(new BoxGeometry(2, 2, 2));
+    attach('ramp', 0, 0, -5, RAPIER.ColliderDesc.trimesh(vertices, indices));
+    const hull = getConvexHullData(new SphereGeometry(1, 16, 8), new Vector3(2, 2, 2));
+    attach('rock', 5, 0, 0, RAPIER.ColliderDesc.convexHull(hull.vertices)!);
+    // Same layout the Rapier body component builds from heights[x][z]
+    const heights = [[4, 0, 0], [0, 0, 0], [0, 0, 0]];
+    const { columns, rows, width, depth } = getHeightfieldSize(heights, 5);
+    attach('terrain', 0, -10, 0, RAPIER.ColliderDesc.heightfield(rows - 1, columns - 1, new Float32Array(heights.flat()), { x: width, y: 1, z: depth }));
+    world.step();
+
+    expect(backend.raycast(new Vector3(), new Vector3(0, 0, -1), 100, {})?.distance).toBeCloseTo(4);
+    expect(backend.raycast(new Vector3(0, 0.1, 0.1), new Vector3(1, 0, 0), 100, {})?.distance).toBeCloseTo(3, 1);
+
+    const down = new Vector3(0, -1, 0);
+    expect(backend.raycast(new Vector3(-4.99, 0, -4.99), down, 100, {})?.point.y).toBeCloseTo(-6, 1);
+    expect(backend.raycast(new Vector3(4.9, 0, 4.9), down, 100, {})?.point.y).toBeCloseTo(-10);
+  });
+
+  it('should drive dynamic bodies with impulses, single-step forces, velocities and teleports', () => {
+    const rigidBody = world.createRigidBody(RAPIER.RigidBodyDesc.dynamic().setTranslation(20, 0, 0).setGravityScale(0));
+    world.createCollider(RAPIER.ColliderDesc.ball(0.5).setDensity(1), rigidBody);
+    backend.addBody(box('ball', new Vector3(20, 0, 0), { type: 'dynamic' }), rigidBody);
+    const mass = rigidBody.mass();
+
+    backend.applyImpulse('ball', new Vector3(mass * 2, 0, 0));
+    expect(rigidBody.linvel().x).toBeCloseTo(2);
+
+    backend.applyForce('ball', new Vector3(0, mass * 60, 0));
+    world.step();
+    backend.clearForces();
+    world.step();
+    expect(rigidBody.linvel().y).toBeCloseTo(60 * world.timestep);
+
+    backend.setLinearVelocity('ball', new Vector3());
+    backend.setAngularVelocity('ball', new Vector3(0, 3, 0));
+    expect(rigidBody.angvel().y).toBeCloseTo(3);
+
+    backend.teleport('ball', new Vector3(30, 1, 0));
+    expect(backend.getBodyTransform('ball')?.position.toArray()).toEqual([30, 1, 0]);
+
+    backend.sleep('ball');
+    expect(rigidBody.isSleeping()).toBe(true);
+    backend.wake('ball');
+    expect(rigidBody.isSleeping()).toBe(false);
+  });
+
+  it('should list touching pairs once with the normal pointing from the first body to the second', () => {
+    const crate = world.createRigidBody(RAPIER.RigidBodyDesc.dynamic().setTranslation(0, 2.4, 5));
+    world.createCollider(RAPIER.ColliderDesc.cuboid(0.5, 0.5, 0.5), crate);
+    backend.addBody(box('crate', new Vector3(0, 2.4, 5), { type: 'dynamic' }), crate);
+    for (let i = 0; i < 30; i++) world.step();
+
+    const contacts = backend.getContacts();
+
+    expect(contacts.length).toBeGreaterThan(0);
+    contacts.forEach(({ bodyA, bodyB, point, normal }) => {
+      expect([bodyA, bodyB].sort()).toEqual(['crate', 'near']);
+      expect(point.y).toBeCloseTo(1, 1);
+      expect(normal.y).toBeCloseTo(bodyA === 'crate' ? -1 : 1);
+    });
+  });
+});
@@ -0,0 +1,389 @@
+// src/systems/PhysicsSystem/backends/RapierBackend.ts
+
+// Purpose: Answers physics queries against the live Rapier world owned by @react-three/rapier.
+// Rapier runs on the main thread, so every query is synchronous and sees the current frame's state.
+
+import { Quaternion, Vector3 } from 'three';
+import type RAPIER from '@dimforge/rapier3d-compat';
+import type { Collider, Shape, World, RigidBody as RapierRigidBody } from '@dimforge/rapier3d-compat';
+import {
+  BodyState,
+  BodyTransform,
+  ClosestPointResult,
+  PhysicsBackend,
+  PhysicsBody,
+  PhysicsBodyHandle,
+  PhysicsContact,
+  PhysicsQueryFilter,
+  RaycastHit
+} from '../../../types/physics.types';
+import { matchesQueryFilter } from './queryFilter';
+
+type RapierModule = typeof RAPIER;
+
+const IDENTITY_ROTATION = { x: 0, y: 0, z: 0, w: 1 };
+
+export class RapierBackend implements PhysicsBackend {
+  public readonly engine = 'rapier' as const;
+  private world: World;
+  private rapier: RapierModule;
+  private bodies: Map<string, RapierRigidBody> = new Map();
+  private forcedBodies: Set<RapierRigidBody> = new Set(); // Bodies holding forces that must not outlive the step
+
+  constructor(world: World, rapier: RapierModule) {
+    this.world = world;
+    this.rapier = rapier;
+  }
+
+  public addBody(body: PhysicsBody, handle: PhysicsBodyHandle): void {
+    const rigidBody = handle as RapierRigidBody;
+    rigidBody.userData = { ...(rigidBody.userData as object), id: body.id };
+    this.bodies.set(body.id, rigidBody);
+  }
+
+  public removeBody(id: string): void {
+    this.bodies.delete(id);
+  }
+
+  public getBodyTransform(id: string): BodyTransform | null {
+    const rigidBody = this.bodies.get(id);
+    if (!rigidBody) return null;
+
+    const { x, y, z } = rigidBody.translation();
+    const rotation = rigidBody.rotation();
+    return {
+      position: new Vector3(x, y, z),
+      quaternion: new Quaternion(rotation.x, rotation.y, rotation.z, rotation.w)
+    };
+  }
+
+  public getBodyState(id: string): BodyState | null {
+    const rigidBody = this.bodies.get(id);
+    const transform = this.getBodyTransform(id);
+    if (!rigidBody || !transform) return null;
+
+    const linvel = rigidBody.linvel();
+    const angvel = rigidBody.angvel();
+    return {
+      ...transform,
+      linearVelocity: new Vector3(linvel.x, linvel.y, linvel.z),
+      angularVelocity: new Vector3(angvel.x, angvel.y, angvel.z),
+      isSleeping: rigidBody.isSleeping()
+    };
+  }
+
+  public setBodyState(id: string, state: BodyState): void {
+    const rigidBody = this.bodies.get(id);
+    if (!rigidBody) return;
+
+    const { quaternion } = state;
+    rigidBody.setTranslation(state.position, false);
+    rigidBody.setRotation({ x: quaternion.x, y: quaternion.y, z: quaternion.z, w: quaternion.w }, false);
+    rigidBody.setLinvel(state.linearVelocity, false);
+    rigidBody.setAngvel(state.angularVelocity, false);
+    if (state.isSleeping) {
+      rigidBody.sleep();
+    } else {
+      rigidBody.wakeUp();
+    }
+  }
+
+  /**
+   * Touching pairs from the narrow phase as of the last step. Each pair between registered bodies is listed once.
+   */
+  public getContacts(): PhysicsContact[] {
+    const contacts: PhysicsContact[] = [];
+    this.bodies.forEach((rigidBody, bodyA) => {
+      for (let i = 0; i < rigidBody.numColliders(); i++) {
+        const collider = rigidBody.collider(i);
+        this.world.contactPairsWith(collider, other => {
+          const bodyB = this.bodyIdOf(other);
+          // Both colliders of a pair enumerate it; the one with the lower handle reports it
+          if (!bodyB || other.handle < collider.handle) return;
+
+          this.world.contactPair(collider, other, (manifold, flipped) => {
+            const normal = manifold.normal();
+            const direction = new Vector3(normal.x, normal.y, normal.z).multiplyScalar(flipped ? -1 : 1);
+            for (let c = 0; c < manifold.numSolverContacts(); c++) {
+              const { x, y, z } = manifold.solverContactPoint(c);
+              contacts.push({ bodyA, bodyB, point: new Vector3(x, y, z), normal: direction.clone() });
+            }
+          });
+        });
+      }
+    });
+    return contacts;
+  }
+
+  public raycast(origin: Vector3, direction: Vector3, maxDistance: number, filter: PhysicsQueryFilter): RaycastHit | null {
+    const dir = direction.clone().normalize();
+    const hit = this.world.castRayAndGetNormal(
+      new this.rapier.Ray(origin, dir),
+      maxDistance,
+      true,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      this.colliderFilter(filter)
+    );
+    if (!hit) return null;
+
+    return {
+      bodyId: this.bodyIdOf(hit.collider)!,
+      point: origin.clone().addScaledVector(dir, hit.timeOfImpact),
+      normal: new Vector3(hit.normal.x, hit.normal.y, hit.normal.z),
+      distance: hit.timeOfImpact
+    };
+  }
+
+  public raycastAll(origin: Vector3, direction: Vector3, maxDistance: number, filter: PhysicsQueryFilter): RaycastHit[] {
+    const dir = direction.clone().normalize();
+    const closestPerBody: Map<string, RaycastHit> = new Map();
+
+    // Compound bodies have a collider per part; each body is reported once, at its nearest part
+    this.world.intersectionsWithRay(
+      new this.rapier.Ray(origin, dir),
+      maxDistance,
+      true,
+      intersection => {
+        const bodyId = this.bodyIdOf(intersection.collider)!;
+        const existing = closestPerBody.get(bodyId);
+        if (!existing || intersection.timeOfImpact < existing.distance) {
+          closestPerBody.set(bodyId, {
+            bodyId,
+            point: origin.clone().addScaledVector(dir, intersection.timeOfImpact),
+            normal: new Vector3(intersection.normal.x, intersection.normal.y, intersection.normal.z),
+            distance: intersection.timeOfImpact
+          });
+        }
+        return true;
+      },
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      this.colliderFilter(filter)
+    );
+
+    return Array.from(closestPerBody.values()).sort((a, b) => a.distance - b.distance);
+  }
+
+  public sphereCast(
+    origin: Vector3,
+    radius: number,
+    direction: Vector3,
+    maxDistance: number,
+    filter: PhysicsQueryFilter
+  ): RaycastHit | null {
+    return this.castShape(origin, new this.rapier.Ball(radius), direction, maxDistance, filter);
+  }
+
+  public capsuleCast(
+    origin: Vector3,
+    radius: number,
+    halfHeight: number,
+    direction: Vector3,
+    maxDistance: number,
+    filter: PhysicsQueryFilter
+  ): RaycastHit | null {
+    return this.castShape(origin, new this.rapier.Capsule(halfHeight, radius), direction, maxDistance, filter);
+  }
+
+  public overlapSphere(center: Vector3, radius: number, filter: PhysicsQueryFilter): string[] {
+    return this.overlapShape(center, IDENTITY_ROTATION, new this.rapier.Ball(radius), filter);
+  }
+
+  public overlapBox(center: Vector3, halfExtents: Vector3, rotation: Quaternion, filter: PhysicsQueryFilter): string[] {
+    return this.overlapShape(
+      center,
+      rotation,
+      new this.rapier.Cuboid(halfExtents.x, halfExtents.y, halfExtents.z),
+      filter
+    );
+  }
+
+  public closestPoint(point: Vector3, maxDistance: number, filter: PhysicsQueryFilter): ClosestPointResult | null {
+    const projection = this.world.projectPoint(
+      point,
+      true,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      this.colliderFilter(filter)
+    );
+    if (!projection) return null;
+
+    const closest = new Vector3(projection.point.x, projection.point.y, projection.point.z);
+    const distance = projection.isInside ? 0 : closest.distanceTo(point);
+    if (distance > maxDistance) return null;
+
+    return {
+      bodyId: this.bodyIdOf(projection.collider)!,
+      point: closest,
+      distance,
+      isInside: projection.isInside
+    };
+  }
+
+  public moveKinematicBody(id: string, position: Vector3, quaternion?: Quaternion): void {
+    const rigidBody = this.bodies.get(id);
+    if (!rigidBody) return;
+
+    rigidBody.setNextKinematicTranslation(position);
+    if (quaternion) {
+      rigidBody.setNextKinematicRotation({ x: quaternion.x, y: quaternion.y, z: quaternion.z, w: quaternion.w });
+    }
+  }
+
+  /**
+   * Rapier keeps added forces until they are reset, so they are tracked and cleared by clearForces after each step.
+   */
+  public applyForce(id: string, force: Vector3, point?: Vector3): void {
+    const rigidBody = this.bodies.get(id);
+    if (!rigidBody) return;
+
+    if (point) {
+      rigidBody.addForceAtPoint(force, point, true);
+    } else {
+      rigidBody.addForce(force, true);
+    }
+    this.forcedBodies.add(rigidBody);
+  }
+
+  public applyImpulse(id: string, impulse: Vector3, point?: Vector3): void {
+    const rigidBody = this.bodies.get(id);
+    if (!rigidBody) return;
+
+    if (point) {
+      rigidBody.applyImpulseAtPoint(impulse, point, true);
+    } else {
+      rigidBody.applyImpulse(impulse, true);
+    }
+  }
+
+  public applyTorque(id: string, torque: Vector3): void {
+    const rigidBody = this.bodies.get(id);
+    if (!rigidBody) return;
+
+    rigidBody.addTorque(torque, true);
+    this.forcedBodies.add(rigidBody);
+  }
+
+  public setLinearVelocity(id: string, velocity: Vector3): void {
+    this.bodies.get(id)?.setLinvel(velocity, true);
+  }
+
+  public setAngularVelocity(id: string, velocity: Vector3): void {
+    this.bodies.get(id)?.setAngvel(velocity, true);
+  }
+
+  public teleport(id: string, position: Vector3, quaternion?: Quaternion): void {
+    const rigidBody = this.bodies.get(id);
+    if (!rigidBody) return;
+
+    rigidBody.setTranslation(position, true);
+    if (quaternion) {
+      rigidBody.setRotation({ x: quaternion.x, y: quaternion.y, z: quaternion.z, w: quaternion.w }, true);
+    }
+  }
+
+  public sleep(id: string): void {
+    this.bodies.get(id)?.sleep();
+  }
+
+  public wake(id: string): void {
+    this.bodies.get(id)?.wakeUp();
+  }
+
+  /**
+   * Drops the forces and torques applied since the last step. Call after every world step.
+   */
+  public clearForces(): void {
+    this.forcedBodies.forEach(rigidBody => {
+      // Bodies removed from the world since the force was applied are no longer valid
+      if (!this.world.bodies.contains(rigidBody.handle)) return;
+      rigidBody.resetForces(false);
+      rigidBody.resetTorques(false);
+    });
+    this.forcedBodies.clear();
+  }
+
+  public dispose(): void {
+    this.bodies.clear();
+    this.forcedBodies.clear();
+  }
+
+  private castShape(
+    origin: Vector3,
+    shape: Shape,
+    direction: Vector3,
+    maxDistance: number,
+    filter: PhysicsQueryFilter
+  ): RaycastHit | null {
+    const dir = direction.clone().normalize();
+    // With a unit velocity the time of impact equals the distance travelled
+    const hit = this.world.castShape(
+      origin,
+      IDENTITY_ROTATION,
+      dir,
+      shape,
+      0,
+      maxDistance,
+      true,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      this.colliderFilter(filter)
+    );
+    if (!hit) return null;
+
+    return {
+      bodyId: this.bodyIdOf(hit.collider)!,
+      point: new Vector3(hit.witness1.x, hit.witness1.y, hit.witness1.z),
+      normal: new Vector3(hit.normal1.x, hit.normal1.y, hit.normal1.z),
+      distance: hit.time_of_impact
+    };
+  }
+
+  private overlapShape(
+    center: Vector3,
+    rotation: { x: number; y: number; z: number; w: number },
+    shape: Shape,
+    filter: PhysicsQueryFilter
+  ): string[] {
+    const bodyIds: Set<string> = new Set();
+    this.world.intersectionsWithShape(
+      center,
+      { x: rotation.x, y: rotation.y, z: rotation.z, w: rotation.w },
+      shape,
+      collider => {
+        bodyIds.add(this.bodyIdOf(collider)!);
+        return true;
+      },
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      this.colliderFilter(filter)
+    );
+    return Array.from(bodyIds);
+  }
+
+  /**
+   * Colliders that do not belong to a registered body (no id in userData) are never reported.
+   */
+  private colliderFilter(filter: PhysicsQueryFilter): (collider: Collider) => boolean {
+    return collider => {
+      const bodyId = this.bodyIdOf(collider);
+      return bodyId !== null && matchesQueryFilter(bodyId, filter);
+    };
+  }
+
+  private bodyIdOf(collider: Collider): string | null {
+    const userData = collider.parent()?.userData as { id?: string } | undefined;
+    return userData?.id ?? null;
+  }
+}
@@ -0,0 +1,28 @@
+// src/systems/PhysicsSystem/backends/queryFilter.ts
+
+import { PhysicsQueryFilter } from '../../../types/physics.types';
+import { usePhysicsStore } from '../../../stores/physicsStore';
+import { DEFAULT_COLLISION_LAYER } from '../collisionFiltering';
+
+/**
+ * Shared by every backend so both engines apply the same filter rules.
+ */
+export const matchesQueryFilter = (bodyId: string, filter: PhysicsQueryFilter): boolean => {
+  if (filter.excludeBodyIds && filter.excludeBodyIds.includes(bodyId)) {
+    return false;
+  }
+
+  const body = usePhysicsStore.getState().bodies[bodyId];
+  if (body?.isTrigger && !filter.includeTriggers) {
+    return false;
+  }
+
+  if (filter.layerMask !== undefined) {
+    const layer = body?.collisionLayer ?? DEFAULT_COLLISION_LAYER;
+    if ((layer & filter.layerMask) === 0) {
+      return false;
+    }
+  }
+
+  return filter.predicate ? filter.predicate(bodyId) : true;
+};
@@ -0,0 +1,83 @@
+// src/systems/PhysicsSystem/colliderGeometry.test.ts
+
+import { BoxGeometry, CylinderGeometry, Group, Mesh, SphereGeometry, Vector3 } from 'three';
+import { createCompoundBody, createMeshBodies, getColliderTag } from './colliderGeometry';
+import { CompoundArgs } from '../../types/physics.types';
+
+const node = (name: string, geometry: BoxGeometry | SphereGeometry | CylinderGeometry, position: Vector3) => {
+  const mesh = new Mesh(geometry);
+  mesh.name = name;
+  mesh.position.copy(position);
+  return mesh;
+};
+
+const rounded = (values: ArrayLike<number>) => Array.from(values, value => Number(value.toFixed(5)));
+
+// A crate model: one rendered mesh plus collider nodes tagged by name and by glTF extras
+const createCrate = () => {
+  const root = new Group();
+  root.position.set(10, 0, 0);
+  root.rotation.y = Math.PI / 2;
+  root.scale.setScalar(2);
+
+  const visual = node('Crate', new BoxGeometry(2, 2, 2), new Vector3());
+  const base = node('COL_box_base', new BoxGeometry(2, 1, 4), new Vector3(0, 0.5, 0));
+  const knob = node('Knob', new SphereGeometry(0.5), new Vector3(0, 2, 0));
+  knob.userData.collider = 'sphere';
+  const hull = node('COL_convex', new BoxGeometry(1, 1, 1), new Vector3(1, 0, 0));
+
+  // Multi-material glTF meshes load as primitives under the named node
+  const handle = new Group();
+  handle.name = 'COL_capsule_handle';
+  handle.add(node('handle_0', new CylinderGeometry(0.25, 0.25, 2), new Vector3()));
+
+  root.add(visual, base, knob, hull, handle);
+  return { root, visual, base };
+};
+
+describe('colliderGeometry', () => {
+  it('should read collider tags from node names and glTF extras', () => {
+    const { root, visual, base } = createCrate();
+
+    expect(getColliderTag(base)).toBe('box');
+    expect(getColliderTag(visual)).toBeNull();
+    expect(getColliderTag(root.children[3])).toBe('convexHull');
+    expect(getColliderTag(root.children[4].children[0], root)).toBe('capsule');
+    expect(getColliderTag(Object.assign(new Mesh(), { name: 'COL_unknown_part' }))).toBeNull();
+  });
+
+  it('should build one compound body from the collider nodes at the model pose', () => {
+    const { root, visual, base } = createCrate();
+
+    const body = createCompoundBody(root, 'crate:compound', { type: 'dynamic', mass: 5 })!;
+
+    expect(body).toMatchObject({ id: 'crate:compound', type: 'dynamic', shape: 'compound', mass: 5 });
+    expect(body.position.toArray()).toEqual([10, 0, 0]);
+    expect(body.rotation.y).toBeCloseTo(Math.PI / 2);
+
+    // Parts are posed in the body frame with the model's scale baked in
+    const [parts] = body.args as CompoundArgs;
+    const byName = Object.fromEntries(parts.map(part => [part.name, part]));
+    expect(parts).toHaveLength(4);
+    expect(byName.COL_box_base.args).toEqual([4, 2, 8]);
+    expect(rounded(byName.COL_box_base.position.toArray())).toEqual([0, 1, 0]);
+    expect(byName.Knob).toMatchObject({ shape: 'sphere', args: [1] });
+    expect(byName.COL_convex).toMatchObject({ shape: 'convexHull' });
+    expect(rounded(byName.COL_convex.scale!.toArray())).toEqual([2, 2, 2]);
+    expect(byName.handle_0.shape).toBe('capsule');
+    expect(rounded(byName.handle_0.args as number[])).toEqual([0.5, 3]);
+
+    expect(base.visible).toBe(false);
+    expect(visual.visible).toBe(true);
+  });
+
+  it('should leave collider nodes out of per-mesh bodies and build nothing for untagged models', () => {
+    const { root } = createCrate();
+
+    expect(createMeshBodies(root, { idPrefix: 'crate', shape: 'mesh' }).map(body => body.id)).toEqual(['crate:Crate']);
+
+    const plain = new Group();
+    plain.add(node('Crate', new BoxGeometry(), new Vector3()));
+    expect(createCompoundBody(plain, 'plain:compound')).toBeNull();
+  });
+});
@@ -0,0 +1,342 @@
+// src/systems/PhysicsSystem/colliderGeometry.ts
+
+// Purpose: Turns three.js geometry into collider data for both engines.
+// Extraction is cached per geometry and scale, so instanced props and reloaded levels reuse the same buffers.
+
+import { Box3, BufferGeometry, Euler, Matrix4, Mesh, Object3D, Quaternion, Vector3 } from 'three';
+import {
+  CompoundColliderOptions,
+  CompoundColliderPart,
+  CompoundPartShape,
+  ConvexHullData,
+  MeshColliderShape,
+  PhysicsBody,
+  TrimeshData,
+} from '../../types/physics.types';
+
+export interface MeshBodyOptions {
+  idPrefix: string;
+  shape: MeshColliderShape;
+  type?: PhysicsBody['type'];
+  collisionLayer?: number;
+}
+
+const geometryCache: WeakMap<BufferGeometry, Map<string, TrimeshData | ConvexHullData>> = new WeakMap();
+
+const cached = <T extends TrimeshData | ConvexHullData>(
+  geometry: BufferGeometry,
+  kind: MeshColliderShape,
+  scale: Vector3 | undefined,
+  build: () => T
+): T => {
+  let entries = geometryCache.get(geometry);
+  if (!entries) {
+    entries = new Map();
+    geometryCache.set(geometry, entries);
+    // Disposed geometry may be refilled with new data, so its colliders are rebuilt on next use
+    geometry.addEventListener('dispose', () => geometryCache.delete(geometry));
+  }
+
+  const key = scale ? `${kind}:${scale.x},${scale.y},${scale.z}` : kind;
+  let data = entries.get(key) as T | undefined;
+  if (!data) {
+    data = build();
+    entries.set(key, data);
+  }
+  return data;
+};
+
+const readVertices = (geometry: BufferGeometry, scale?: Vector3): Float32Array => {
+  const position = geometry.getAttribute('position');
+  const vertices = new Float32Array(position.count * 3);
+
+  for (let i = 0; i < position.count; i++) {
+    vertices[i * 3] = position.getX(i) * (scale?.x ?? 1);
+    vertices[i * 3 + 1] = position.getY(i) * (scale?.y ?? 1);
+    vertices[i * 3 + 2] = position.getZ(i) * (scale?.z ?? 1);
+  }
+  return vertices;
+};
+
+export const getTrimeshData = (geometry: BufferGeometry, scale?: Vector3): TrimeshData =>
+  cached(geometry, 'mesh', scale, () => {
+    const vertices = readVertices(geometry, scale);
+    const index = geometry.getIndex();
+    const indices = index
+      ? Uint32Array.from(index.array as ArrayLike<number>)
+      : Uint32Array.from({ length: vertices.length / 3 }, (_, i) => i);
+    return { vertices, indices };
+  });
+
+interface HullFace {
+  indices: [number, number, number];
+  normal: Vector3;
+  offset: number;
+}
+
+const HULL_EPSILON = 1e-6;
+
+const makeFace = (points: Vector3[], a: number, b: number, c: number): HullFace => {
+  const normal = new Vector3()
+    .subVectors(points[b], points[a])
+    .cross(new Vector3().subVectors(points[c], points[a]))
+    .normalize();
+  return { indices: [a, b, c], normal, offset: normal.dot(points[a]) };
+};
+
+const distanceAbove = (face: HullFace, point: Vector3) => face.normal.dot(point) - face.offset;
+
+/**
+ * Incremental convex hull. Returns outward-facing triangles (counter-clockwise seen from outside)
+ * indexing into points, or an empty list when the points are flat or degenerate.
+ */
+const buildHull = (points: Vector3[]): [number, number, number][] => {
+  if (points.length < 4) return [];
+
+  // Seed tetrahedron: two far-apart points, the point farthest from their line, then from their plane
+  let a = 0;
+  let b = 0;
+  points.forEach((point, i) => {
+    if (point.x < points[a].x) a = i;
+    if (point.x > points[b].x) b = i;
+  });
+  const line = new Vector3().subVectors(points[b], points[a]);
+  if (line.lengthSq() < HULL_EPSILON) return [];
+
+  let c = -1;
+  let best = HULL_EPSILON;
+  points.forEach((point, i) => {
+    const distance = new Vector3().subVectors(point, points[a]).cross(line).lengthSq();
+    if (distance > best) {
+      best = distance;
+      c = i;
+    }
+  });
+  if (c < 0) return [];
+
+  const base = makeFace(points, a, b, c);
+  let d = -1;
+  best = HULL_EPSILON;
+  points.forEach((point, i) => {
+    const distance = Math.abs(distanceAbove(base, point));
+    if (distance > best) {
+      best = distance;
+      d = i;
+    }
+  });
+  if (d < 0) return [];
+
+  let faces: HullFace[] = distanceAbove(base, points[d]) > 0
+    ? [makeFace(points, a, c, b), makeFace(points, a, b, d), makeFace(points, b, c, d), makeFace(points, c, a, d)]
+    : [base, makeFace(points, a, d, b), makeFace(points, b, d, c), makeFace(points, c, d, a)];
+
+  points.forEach((point, i) => {
+    if (i === a || i === b || i === c || i === d) return;
+    const visible = faces.filter(face => distanceAbove(face, point) > HULL_EPSILON);
+    if (visible.length === 0) return;
+
+    // Edges of the visible region that are not shared by two visible faces form the horizon
+    const edges: Set<string> = new Set();
+    visible.forEach(({ indices: [x, y, z] }) => {
+      edges.add(`${x},${y}`);
+      edges.add(`${y},${z}`);
+      edges.add(`${z},${x}`);
+    });
+    const horizon: [number, number][] = [];
+    edges.forEach(edge => {
+      const [from, to] = edge.split(',').map(Number);
+      if (!edges.has(`${to},${from}`)) horizon.push([from, to]);
+    });
+
+    faces = faces.filter(face => !visible.includes(face));
+    horizon.forEach(([from, to]) => faces.push(makeFace(points, from, to, i)));
+  });
+
+  return faces.map(face => face.indices);
+};
+
+export const getConvexHullData = (geometry: BufferGeometry, scale?: Vector3): ConvexHullData =>
+  cached(geometry, 'convexHull', scale, () => {
+    const source = readVertices(geometry, scale);
+    const points: Vector3[] = [];
+    for (let i = 0; i < source.length; i += 3) {
+      points.push(new Vector3(source[i], source[i + 1], source[i + 2]));
+    }
+
+    // Only vertices used by the hull are kept, renumbered in order of first use
+    const remap: Map<number, number> = new Map();
+    const vertices: number[] = [];
+    const faces = buildHull(points).map(triangle =>
+      triangle.map(index => {
+        if (!remap.has(index)) {
+          remap.set(index, vertices.length / 3);
+          vertices.push(points[index].x, points[index].y, points[index].z);
+        }
+        return remap.get(index)!;
+      })
+    );
+
+    return { vertices: new Float32Array(vertices), faces };
+  });
+
+/**
+ * Size of a heightfield grid; heights[x][z] covers (columns - 1) * elementSize along X.
+ */
+export const getHeightfieldSize = (heights: number[][], elementSize: number) => ({
+  columns: heights.length,
+  rows: heights[0]?.length ?? 0,
+  width: (heights.length - 1) * elementSize,
+  depth: ((heights[0]?.length ?? 1) - 1) * elementSize
+});
+
+/**
+ * Builds one static body per mesh under the root, using each mesh's world transform.
+ * Used to give loaded levels colliders that match their rendered geometry.
+ */
+export const createMeshBodies = (root: Object3D, options: MeshBodyOptions): PhysicsBody[] => {
+  const bodies: PhysicsBody[] = [];
+  const position = new Vector3();
+  const quaternion = new Quaternion();
+  const scale = new Vector3();
+  const usedIds: Set<string> = new Set();
+
+  root.updateMatrixWorld(true);
+  root.traverse(child => {
+    const mesh = child as Mesh;
+    if (!mesh.isMesh || !mesh.geometry || getColliderTag(mesh, root)) return;
+
+    mesh.matrixWorld.decompose(position, quaternion, scale);
+    const rotation = new Euler().setFromQuaternion(quaternion);
+
+    // glTF node names are not guaranteed to be unique
+    let id = `${options.idPrefix}:${mesh.name || mesh.uuid}`;
+    for (let suffix = 2; usedIds.has(id); suffix++) {
+      id = `${options.idPrefix}:${mesh.name || mesh.uuid}#${suffix}`;
+    }
+    usedIds.add(id);
+
+    bodies.push({
+      id,
+      type: options.type || 'static',
+      shape: options.shape,
+      position: position.clone(),
+      rotation: new Vector3(rotation.x, rotation.y, rotation.z),
+      args: [mesh.geometry],
+      scale: scale.clone(),
+      collisionLayer: options.collisionLayer
+    });
+  });
+
+  return bodies;
+};
+
+// Collider node tags, by node name (COL_box_wheel) or glTF extras ({ "collider": "box" })
+const COLLIDER_NAME_PATTERN = /^COL_([a-z]+)(?:_|$)/i;
+const COLLIDER_TAGS: Record<string, CompoundPartShape> = {
+  box: 'box',
+  sphere: 'sphere',
+  capsule: 'capsule',
+  cylinder: 'cylinder',
+  convex: 'convexHull',
+  convexhull: 'convexHull',
+  mesh: 'mesh',
+  trimesh: 'mesh',
+};
+
+const toColliderShape = (tag: unknown): CompoundPartShape | null =>
+  typeof tag === 'string' ? COLLIDER_TAGS[tag.toLowerCase()] ?? null : null;
+
+/**
+ * The collider shape a node asks for, if any. glTF primitives of a multi-material mesh are loaded as children
+ * of the named node, so an untagged mesh inherits its parent's tag.
+ */
+export const getColliderTag = (object: Object3D, root?: Object3D): CompoundPartShape | null => {
+  const ownTag = (node: Object3D) =>
+    toColliderShape(node.userData?.collider) ?? toColliderShape(COLLIDER_NAME_PATTERN.exec(node.name)?.[1]);
+  const parent = object.parent;
+  return ownTag(object) ?? (parent && parent !== root ? ownTag(parent) : null);
+};
+
+// Primitive sized to fit a mesh's bounds, centered where the bounds are
+const createPrimitivePart = (
+  shape: Exclude<CompoundPartShape, 'mesh' | 'convexHull'>,
+  geometry: BufferGeometry,
+  position: Vector3,
+  quaternion: Quaternion,
+  scale: Vector3
+): Pick<CompoundColliderPart, 'args' | 'position'> => {
+  if (!geometry.boundingBox) geometry.computeBoundingBox();
+  const bounds = geometry.boundingBox as Box3;
+  const size = bounds.getSize(new Vector3()).multiply(scale);
+  size.set(Math.abs(size.x), Math.abs(size.y), Math.abs(size.z)); // Mirrored nodes have negative scale
+  const center = bounds.getCenter(new Vector3()).multiply(scale).applyQuaternion(quaternion).add(position);
+
+  switch (shape) {
+    case 'box':
+      return { args: [size.x, size.y, size.z], position: center };
+    case 'sphere':
+      return { args: [Math.max(size.x, size.y, size.z) / 2], position: center };
+    case 'capsule': {
+      const radius = Math.max(size.x, size.z) / 2;
+      return { args: [radius, Math.max(0, size.y - radius * 2)], position: center };
+    }
+    case 'cylinder': {
+      const radius = Math.max(size.x, size.z) / 2;
+      return { args: [radius, radius, size.y, 16], position: center };
+    }
+  }
+};
+
+/**
+ * Builds one body from every collider node under the root, or null when there are none. Parts keep their pose
+ * relative to the root, so the body sits at the root's world pose; the root's scale is baked into the parts.
+ * Collider nodes are hidden, since they only stand in for the rendered meshes.
+ */
+export const createCompoundBody = (
+  root: Object3D,
+  id: string,
+  options: CompoundColliderOptions = {}
+): PhysicsBody | null => {
+  root.updateMatrixWorld(true);
+  const rootPosition = new Vector3();
+  const rootQuaternion = new Quaternion();
+  root.matrixWorld.decompose(rootPosition, rootQuaternion, new Vector3());
+  const toBodySpace = new Matrix4().compose(rootPosition, rootQuaternion, new Vector3(1, 1, 1)).invert();
+
+  const parts: CompoundColliderPart[] = [];
+  root.traverse(child => {
+    const mesh = child as Mesh;
+    const shape = mesh.isMesh && mesh.geometry ? getColliderTag(mesh, root) : null;
+    if (!shape) return;
+
+    const position = new Vector3();
+    const quaternion = new Quaternion();
+    const scale = new Vector3();
+    new Matrix4().multiplyMatrices(toBodySpace, mesh.matrixWorld).decompose(position, quaternion, scale);
+    const euler = new Euler().setFromQuaternion(quaternion);
+    const rotation = new Vector3(euler.x, euler.y, euler.z);
+
+    if (shape === 'mesh' || shape === 'convexHull') {
+      parts.push({ shape, args: [mesh.geometry], position, rotation, scale, name: mesh.name });
+    } else {
+      parts.push({ shape, ...createPrimitivePart(shape, mesh.geometry, position, quaternion, scale), rotation, name: mesh.name });
+    }
+    mesh.visible = false;
+  });
+
+  if (parts.length === 0) return null;
+
+  const rotation = new Euler().setFromQuaternion(rootQuaternion);
+  return {
+    id,
+    type: options.type ?? 'static',
+    shape: 'compound',
+    position: rootPosition,
+    rotation: new Vector3(rotation.x, rotation.y, rotation.z),
+    args: [parts],
+    mass: options.mass,
+    collisionLayer: options.collisionLayer,
+    collidesWith: options.collidesWith,
+    material: options.material,
+  };
+};
@@ -0,0 +1,109 @@
+/**
+ * @jest-environment node
+ */
+// src/systems/PhysicsSystem/collisionFiltering.test.ts
+
+import RAPIER from '@dimforge/rapier3d-compat';
+import * as CANNON from 'cannon-es';
+import { Vector3 } from 'three';
+import {
+  CollisionLayer,
+  canCollide,
+  collisionMask,
+  getCollisionLayer,
+  getCollisionMask,
+  toRapierCollisionGroups,
+} from './collisionFiltering';
+import { PhysicsBody } from '../../types/physics.types';
+
+const ball = (id: string, overrides: Partial<PhysicsBody> = {}): PhysicsBody => ({
+  id,
+  type: 'dynamic',
+  shape: 'sphere',
+  position: new Vector3(),
+  rotation: new Vector3(),
+  args: [0.5],
+  ...overrides,
+});
+
+const player = ball('player', { collisionLayer: CollisionLayer.player });
+const debris = ball('debris', {
+  collisionLayer: CollisionLayer.debris,
+  collidesWith: collisionMask('default', 'debris'),
+});
+const ground = ball('ground');
+
+describe('collisionFiltering', () => {
+  beforeAll(async () => {
+    await RAPIER.init();
+  });
+
+  it('should require each body to accept the other', () => {
+    expect(canCollide(player, ground)).toBe(true);
+    expect(canCollide(debris, ground)).toBe(true);
+    expect(canCollide(debris, player)).toBe(false);
+    expect(canCollide(player, debris)).toBe(false);
+
+    const bullet = ball('bullet', {
+      collisionLayer: CollisionLayer.projectile,
+      collidesWith: collisionMask('default', 'enemy'),
+    });
+    expect(canCollide(bullet, player)).toBe(false);
+    expect(canCollide(bullet, ball('grunt', { collisionLayer: CollisionLayer.enemy }))).toBe(true);
+  });
+
+  it('should pack Rapier interaction groups as memberships and filter', () => {
+    expect(toRapierCollisionGroups(debris)).toBe(((CollisionLayer.debris << 16) | 0b10001) >>> 0);
+    expect(toRapierCollisionGroups(ground)).toBe(0x0001ffff);
+  });
+
+  it('should stop filtered bodies from touching in Rapier', () => {
+    const world = new RAPIER.World({ x: 0, y: 0, z: 0 });
+    const spawn = (body: PhysicsBody, x: number) => {
+      const rigidBody = world.createRigidBody(RAPIER.RigidBodyDesc.dynamic().setTranslation(x, 0, 0));
+      world.createCollider(RAPIER.ColliderDesc.ball(0.5).setCollisionGroups(toRapierCollisionGroups(body)), rigidBody);
+      return rigidBody;
+    };
+
+    // Filtered pairs may stay in the broad phase, so count actual contact points
+    const touching = (a: RAPIER.RigidBody, b: RAPIER.RigidBody) => {
+      let points = 0;
+      world.contactPair(a.collider(0), b.collider(0), (manifold) => (points += manifold.numContacts()));
+      return points > 0;
+    };
+
+    const first = spawn(player, 0);
+    const second = spawn(debris, 0.5);
+    world.step();
+    expect(touching(first, second)).toBe(false);
+
+    const third = spawn(ground, 0.25);
+    world.step();
+    expect(touching(first, third)).toBe(true);
+    world.free();
+  });
+
+  it('should stop filtered bodies from touching in Cannon', () => {
+    const world = new CANNON.World();
+    const spawn = (body: PhysicsBody, x: number) => {
+      const cannonBody = new CANNON.Body({
+        mass: 1,
+        shape: new CANNON.Sphere(0.5),
+        position: new CANNON.Vec3(x, 0, 0),
+        collisionFilterGroup: getCollisionLayer(body),
+        collisionFilterMask: getCollisionMask(body),
+      });
+      world.addBody(cannonBody);
+      return cannonBody;
+    };
+
+    spawn(player, 0);
+    spawn(debris, 0.5);
+    world.step(1 / 60);
+    expect(world.contacts).toHaveLength(0);
+
+    spawn(ground, 0.75);
+    world.step(1 / 60);
+    expect(world.contacts.length).toBeGreaterThan(0);
+  });
+});
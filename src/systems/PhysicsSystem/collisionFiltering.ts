@@ -0,0 +1,42 @@
+// src/systems/PhysicsSystem/collisionFiltering.ts
+
+// Purpose: Bitmask collision layers shared by both engines, the queries and the onCollide handlers.
+// Layers must fit in 16 bits because Rapier packs membership and filter into one 32-bit value.
+
+import { PhysicsBody } from '../../types/physics.types';
+
+export const CollisionLayer = {
+  default: 1 << 0,
+  player: 1 << 1,
+  enemy: 1 << 2,
+  projectile: 1 << 3,
+  debris: 1 << 4,
+  trigger: 1 << 5,
+} as const;
+
+export type CollisionLayerName = keyof typeof CollisionLayer;
+
+export const DEFAULT_COLLISION_LAYER = CollisionLayer.default;
+export const ALL_COLLISION_LAYERS = 0xffff;
+
+/**
+ * Combines named layers into one mask, e.g. `collisionMask('player', 'enemy')`.
+ */
+export const collisionMask = (...layers: CollisionLayerName[]): number =>
+  layers.reduce((mask, layer) => mask | CollisionLayer[layer], 0);
+
+export const getCollisionLayer = (body: PhysicsBody): number => body.collisionLayer ?? DEFAULT_COLLISION_LAYER;
+
+export const getCollisionMask = (body: PhysicsBody): number => body.collidesWith ?? ALL_COLLISION_LAYERS;
+
+/**
+ * Two bodies collide only when each one's layer is in the other's mask, the same rule Cannon and Rapier apply.
+ */
+export const canCollide = (a: PhysicsBody, b: PhysicsBody): boolean =>
+  (getCollisionLayer(a) & getCollisionMask(b)) !== 0 && (getCollisionLayer(b) & getCollisionMask(a)) !== 0;
+
+/**
+ * Rapier interaction groups: memberships in the high 16 bits, filter in the low 16 bits.
+ */
+export const toRapierCollisionGroups = (body: PhysicsBody): number =>
+  (((getCollisionLayer(body) & ALL_COLLISION_LAYERS) << 16) | (getCollisionMask(body) & ALL_COLLISION_LAYERS)) >>> 0;
@@ -0,0 +1,74 @@
+// src/systems/PhysicsSystem/debugGeometry.test.ts
+
+import { BoxGeometry, Vector3 } from 'three';
+import { DEBUG_COLORS, createDebugGeometry, getBodyDebugColor, getContactLines, getJointLines } from './debugGeometry';
+import { PhysicsBody } from '../../types/physics.types';
+
+const body = (overrides: Partial<PhysicsBody>): PhysicsBody => ({
+  id: 'body',
+  type: 'dynamic',
+  shape: 'box',
+  position: new Vector3(),
+  rotation: new Vector3(),
+  ...overrides,
+});
+
+const size = (geometry: ReturnType<typeof createDebugGeometry>) => {
+  geometry!.computeBoundingBox();
+  return geometry!.boundingBox!.getSize(new Vector3()).toArray().map(value => Number(value.toFixed(3)));
+};
+
+describe('debugGeometry', () => {
+  it('should outline primitives with the same args their colliders use', () => {
+    expect(size(createDebugGeometry(body({ args: [1, 2, 3] })))).toEqual([1, 2, 3]);
+    expect(size(createDebugGeometry(body({ shape: 'capsule', args: [0.5, 1] })))).toEqual([1, 2, 1]);
+    expect(size(createDebugGeometry(body({ shape: 'sphere', args: [2] })))[1]).toBe(4);
+  });
+
+  it('should outline geometry colliders in the body frame', () => {
+    const mesh = createDebugGeometry(body({ shape: 'mesh', args: [new BoxGeometry(2, 2, 2)], scale: new Vector3(1, 2, 1) }));
+    const hull = createDebugGeometry(body({ shape: 'convexHull', args: [new BoxGeometry(2, 2, 2)] }));
+    const terrain = createDebugGeometry(body({ shape: 'heightfield', args: [[[4, 0, 0], [0, 0, 0], [0, 0, 0]], 5] }));
+
+    expect(size(mesh)).toEqual([2, 4, 2]);
+    expect(hull!.getIndex()!.count).toBe(36);
+    expect(size(terrain)).toEqual([10, 4, 10]);
+    // heights[0][0] sits at the most negative x and z corner
+    const position = terrain!.getAttribute('position');
+    expect([position.getX(0), position.getY(0), position.getZ(0)]).toEqual([-5, 4, -5]);
+    expect(createDebugGeometry(body({ shape: 'mesh', args: undefined }))).toBeNull();
+  });
+
+  it('should outline every compound part at its offset', () => {
+    const compound = createDebugGeometry(
+      body({
+        shape: 'compound',
+        args: [[
+          { shape: 'box', args: [1, 1, 1], position: new Vector3(2, 0, 0), rotation: new Vector3() },
+          { shape: 'sphere', args: [0.5], position: new Vector3(-2, 0, 0), rotation: new Vector3() },
+        ]],
+      })
+    );
+
+    expect(size(compound)).toEqual([5, 1, 1]);
+    expect(createDebugGeometry(body({ shape: 'compound', args: [[]] }))).toBeNull();
+  });
+
+  it('should color by body type and grey out sleeping bodies', () => {
+    expect(getBodyDebugColor(body({ type: 'static' }), false)).toBe(DEBUG_COLORS.static);
+    expect(getBodyDebugColor(body({ isTrigger: true }), false)).toBe(DEBUG_COLORS.trigger);
+    expect(getBodyDebugColor(body({}), true)).toBe(DEBUG_COLORS.sleeping);
+  });
+
+  it('should draw contact normals and joint anchors as segment pairs', () => {
+    const contacts = getContactLines([
+      { bodyA: 'a', bodyB: 'b', point: new Vector3(0, 1, 0), normal: new Vector3(0, -1, 0) },
+    ]);
+    const joints = getJointLines([{ id: 'hinge', anchorA: new Vector3(), anchorB: new Vector3(1, 0, 0) }]);
+
+    expect(contacts).toHaveLength(8);
+    expect(contacts[7].toArray()).toEqual([0, 0.6, 0]);
+    expect(joints).toHaveLength(14);
+    expect(joints.slice(12).map(point => point.x)).toEqual([0, 1]);
+  });
+});
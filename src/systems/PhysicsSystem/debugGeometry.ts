@@ -0,0 +1,178 @@
+// src/systems/PhysicsSystem/debugGeometry.ts
+
+// Purpose: Geometry and colors for the physics debug overlay. Collider outlines are built from the stored body
+// definitions, so both engines draw the same shapes at the poses they report.
+
+import {
+  BoxGeometry,
+  BufferAttribute,
+  BufferGeometry,
+  CapsuleGeometry,
+  ConeGeometry,
+  CylinderGeometry,
+  Euler,
+  Matrix4,
+  PlaneGeometry,
+  Quaternion,
+  SphereGeometry,
+  Vector3,
+} from 'three';
+import { getConvexHullData, getHeightfieldSize, getTrimeshData } from './colliderGeometry';
+import {
+  CompoundArgs,
+  ConvexHullArgs,
+  HeightfieldArgs,
+  JointAnchors,
+  MeshArgs,
+  PhysicsBody,
+  PhysicsContact,
+  PhysicsDebugLayer,
+} from '../../types/physics.types';
+
+export const PHYSICS_DEBUG_LAYERS: PhysicsDebugLayer[] = ['colliders', 'sleepState', 'aabbs', 'contacts', 'joints'];
+
+export const DEBUG_COLORS = {
+  dynamic: '#3cff6e',
+  kinematic: '#b07cff',
+  static: '#4aa3ff',
+  trigger: '#ffb02e',
+  sleeping: '#7a7a7a',
+  aabb: '#ffe14d',
+  contact: '#ff4d4d',
+  joint: '#ff66d9',
+} as const;
+
+const NORMAL_LENGTH = 0.4;
+const MARKER_SIZE = 0.05;
+
+const toGeometry = (vertices: Float32Array, indices: ArrayLike<number>): BufferGeometry => {
+  const geometry = new BufferGeometry();
+  geometry.setAttribute('position', new BufferAttribute(vertices, 3));
+  geometry.setIndex(Array.from(indices));
+  return geometry;
+};
+
+// Same layout as the engines: heights[x][z], centered on the body
+const createHeightfieldGeometry = ([heights, elementSize]: HeightfieldArgs): BufferGeometry => {
+  const { columns, rows, width, depth } = getHeightfieldSize(heights, elementSize);
+  const vertices = new Float32Array(columns * rows * 3);
+  const indices: number[] = [];
+
+  for (let x = 0; x < columns; x++) {
+    for (let z = 0; z < rows; z++) {
+      const i = x * rows + z;
+      vertices.set([x * elementSize - width / 2, heights[x][z], z * elementSize - depth / 2], i * 3);
+      if (x < columns - 1 && z < rows - 1) {
+        indices.push(i, i + 1, i + rows, i + 1, i + rows + 1, i + rows);
+      }
+    }
+  }
+  return toGeometry(vertices, indices);
+};
+
+// Parts posed in the body frame and joined into one geometry
+const createCompoundGeometry = ([parts]: CompoundArgs): BufferGeometry | null => {
+  const positions: number[] = [];
+  const indices: number[] = [];
+
+  parts.forEach(part => {
+    const geometry = createDebugGeometry({ id: '', type: 'static', ...part });
+    if (!geometry) return;
+
+    const rotation = new Quaternion().setFromEuler(new Euler(part.rotation.x, part.rotation.y, part.rotation.z));
+    geometry.applyMatrix4(new Matrix4().compose(part.position, rotation, new Vector3(1, 1, 1)));
+    const position = geometry.getAttribute('position');
+    const offset = positions.length / 3;
+    for (let i = 0; i < position.count; i++) {
+      positions.push(position.getX(i), position.getY(i), position.getZ(i));
+    }
+    const index = geometry.getIndex();
+    for (let i = 0; i < (index ? index.count : position.count); i++) {
+      indices.push(offset + (index ? index.getX(i) : i));
+    }
+    geometry.dispose();
+  });
+
+  return positions.length > 0 ? toGeometry(new Float32Array(positions), indices) : null;
+};
+
+/**
+ * Outline geometry for a body's collider in its local frame, or null when the body has no usable args.
+ */
+export const createDebugGeometry = (body: PhysicsBody): BufferGeometry | null => {
+  const args = body.args as number[] | undefined;
+
+  switch (body.shape) {
+    case 'box':
+      return new BoxGeometry(...((args as [number, number, number]) || [1, 1, 1]));
+    case 'sphere':
+      return new SphereGeometry(args?.[0] ?? 1, 16, 12);
+    case 'capsule':
+      return new CapsuleGeometry(args?.[0] ?? 0.5, args?.[1] ?? 2, 4, 12);
+    case 'cylinder':
+      return new CylinderGeometry(args?.[0] ?? 1, args?.[1] ?? 1, args?.[2] ?? 2, 16);
+    case 'cone':
+      return new ConeGeometry(args?.[0] ?? 0.5, args?.[1] ?? 2, 16);
+    case 'plane':
+      return new PlaneGeometry(args?.[0] ?? 1000, args?.[1] ?? 1000);
+    case 'mesh': {
+      const [geometry] = (body.args as MeshArgs | undefined) ?? [];
+      if (!geometry) return null;
+      const { vertices, indices } = getTrimeshData(geometry, body.scale);
+      return toGeometry(vertices, indices);
+    }
+    case 'convexHull': {
+      const [geometry] = (body.args as ConvexHullArgs | undefined) ?? [];
+      if (!geometry) return null;
+      const { vertices, faces } = getConvexHullData(geometry, body.scale);
+      return toGeometry(vertices, faces.flat());
+    }
+    case 'heightfield':
+      return body.args ? createHeightfieldGeometry(body.args as HeightfieldArgs) : null;
+    case 'compound':
+      return body.args ? createCompoundGeometry(body.args as CompoundArgs) : null;
+    default:
+      return null;
+  }
+};
+
+/**
+ * Outline color by body type. With sleep coloring on, sleeping bodies are greyed out.
+ */
+export const getBodyDebugColor = (body: PhysicsBody, isSleeping: boolean): string => {
+  if (isSleeping) return DEBUG_COLORS.sleeping;
+  if (body.isTrigger) return DEBUG_COLORS.trigger;
+  return DEBUG_COLORS[body.type];
+};
+
+// Three short axis-aligned segments around a point
+const pushMarker = (points: Vector3[], center: Vector3) => {
+  [new Vector3(MARKER_SIZE, 0, 0), new Vector3(0, MARKER_SIZE, 0), new Vector3(0, 0, MARKER_SIZE)].forEach(offset => {
+    points.push(center.clone().sub(offset), center.clone().add(offset));
+  });
+};
+
+/**
+ * Line segment pairs marking each contact point and its normal.
+ */
+export const getContactLines = (contacts: PhysicsContact[]): Vector3[] => {
+  const points: Vector3[] = [];
+  contacts.forEach(({ point, normal }) => {
+    pushMarker(points, point);
+    points.push(point.clone(), point.clone().addScaledVector(normal, NORMAL_LENGTH));
+  });
+  return points;
+};
+
+/**
+ * Line segment pairs marking both anchors of each joint and joining them, so a stretched joint shows a gap.
+ */
+export const getJointLines = (joints: JointAnchors[]): Vector3[] => {
+  const points: Vector3[] = [];
+  joints.forEach(({ anchorA, anchorB }) => {
+    pushMarker(points, anchorA);
+    pushMarker(points, anchorB);
+    points.push(anchorA.clone(), anchorB.clone());
+  });
+  return points;
+};
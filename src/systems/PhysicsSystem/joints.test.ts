@@ -0,0 +1,142 @@
+/**
+ * @jest-environment node
+ */
+// src/systems/PhysicsSystem/joints.test.ts
+
+import RAPIER from '@dimforge/rapier3d-compat';
+import { Quaternion, Vector3 } from 'three';
+import { getInitialTransform, getJointFrames, measureJointStrain } from './joints';
+import { PhysicsSystemManager } from './PhysicsSystem';
+import { usePhysicsStore } from '../../stores/physicsStore';
+import { EventDispatcher } from '../../utils/EventDispatcher';
+import { BodyTransform, PhysicsBackend, PhysicsBody, PhysicsJoint } from '../../types/physics.types';
+
+const body = (id: string, position: Vector3, rotation = new Vector3()): PhysicsBody => ({
+  id,
+  type: 'dynamic',
+  shape: 'box',
+  position,
+  rotation,
+  args: [1, 1, 1],
+});
+
+const toWorld = (point: Vector3, transform: BodyTransform) =>
+  point.clone().applyQuaternion(transform.quaternion).add(transform.position);
+
+describe('joints', () => {
+  const frame = body('frame', new Vector3(0, 2, 0));
+  const door = body('door', new Vector3(1, 2, 0), new Vector3(0, Math.PI / 2, 0));
+  const hinge: PhysicsJoint = { id: 'hinge', type: 'hinge', bodyA: 'frame', bodyB: 'door', anchorA: new Vector3(0.5, 2, 0) };
+
+  beforeAll(async () => {
+    await RAPIER.init();
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should express world anchors and axes in each body frame', () => {
+    const transformA = getInitialTransform(frame);
+    const transformB = getInitialTransform(door);
+    const frames = getJointFrames(hinge, transformA, transformB);
+
+    expect(toWorld(frames.anchorA, transformA).distanceTo(new Vector3(0.5, 2, 0))).toBeCloseTo(0);
+    expect(toWorld(frames.anchorB, transformB).distanceTo(new Vector3(0.5, 2, 0))).toBeCloseTo(0);
+    expect(frames.axisB.clone().applyQuaternion(transformB.quaternion).y).toBeCloseTo(1);
+    expect(measureJointStrain(hinge, frames, transformA, transformB)).toBeCloseTo(0);
+  });
+
+  it('should default to the midpoint, or to the body centers for distance joints', () => {
+    const transformA = getInitialTransform(frame);
+    const transformB = getInitialTransform(door);
+    const ball = getJointFrames({ ...hinge, type: 'ball', anchorA: undefined }, transformA, transformB);
+    const rope = getJointFrames({ ...hinge, type: 'distance', anchorA: undefined }, transformA, transformB);
+
+    expect(toWorld(ball.anchorA, transformA).x).toBeCloseTo(0.5);
+    expect(rope.anchorA.length()).toBeCloseTo(0);
+    expect(rope.anchorB.length()).toBeCloseTo(0);
+    expect(rope.length).toBeCloseTo(1);
+  });
+
+  it('should only count stretch past the length for distance joints, and off-axis drift for prismatic joints', () => {
+    const transformA = getInitialTransform(frame);
+    const rope: PhysicsJoint = { id: 'rope', type: 'distance', bodyA: 'frame', bodyB: 'door' };
+    const slider: PhysicsJoint = { id: 'slider', type: 'prismatic', bodyA: 'frame', bodyB: 'door', axis: new Vector3(1, 0, 0) };
+    const moved = (x: number, y: number): BodyTransform => ({ position: new Vector3(x, y, 0), quaternion: new Quaternion() });
+    const ropeFrames = getJointFrames(rope, transformA, moved(1, 2));
+    const sliderFrames = getJointFrames(slider, transformA, moved(1, 2));
+
+    expect(measureJointStrain(rope, ropeFrames, transformA, moved(0.5, 2))).toBe(0);
+    expect(measureJointStrain(rope, ropeFrames, transformA, moved(1.5, 2))).toBeCloseTo(0.5);
+    expect(measureJointStrain(slider, sliderFrames, transformA, moved(3, 2))).toBeCloseTo(0);
+    expect(measureJointStrain(slider, sliderFrames, transformA, moved(1, 2.25))).toBeCloseTo(0.25);
+  });
+
+  it('should hold a Rapier ball joint built from the frames under gravity', () => {
+    const world = new RAPIER.World({ x: 0, y: -9.81, z: 0 });
+    const transformA = getInitialTransform(frame);
+    const transformB = getInitialTransform(door);
+    const spawn = (transform: BodyTransform, desc: RAPIER.RigidBodyDesc) => {
+      const { x, y, z, w } = transform.quaternion;
+      const rigidBody = world.createRigidBody(desc.setTranslation(transform.position.x, transform.position.y, transform.position.z).setRotation({ x, y, z, w }));
+      world.createCollider(RAPIER.ColliderDesc.cuboid(0.5, 0.5, 0.05), rigidBody);
+      return rigidBody;
+    };
+    const rigidA = spawn(transformA, RAPIER.RigidBodyDesc.fixed());
+    const rigidB = spawn(transformB, RAPIER.RigidBodyDesc.dynamic());
+    const pendulum: PhysicsJoint = { ...hinge, type: 'ball' };
+    const frames = getJointFrames(pendulum, transformA, transformB);
+    world.createImpulseJoint(RAPIER.JointData.spherical(frames.anchorA, frames.anchorB), rigidA, rigidB, true);
+
+    for (let i = 0; i < 60; i++) world.step();
+
+    const { x, y, z } = rigidB.translation();
+    const rotation = rigidB.rotation();
+    const current = { position: new Vector3(x, y, z), quaternion: new Quaternion(rotation.x, rotation.y, rotation.z, rotation.w) };
+    expect(y).toBeLessThan(1.9);
+    expect(measureJointStrain(pendulum, frames, transformA, current)).toBeLessThan(0.01);
+    world.free();
+  });
+
+  describe('break detection', () => {
+    let manager: PhysicsSystemManager;
+    let transforms: Record<string, BodyTransform>;
+
+    beforeEach(() => {
+      usePhysicsStore.setState({ bodies: {}, joints: {} });
+      usePhysicsStore.getState().addBody(frame);
+      usePhysicsStore.getState().addBody(door);
+      transforms = { frame: getInitialTransform(frame), door: getInitialTransform(door) };
+      manager = PhysicsSystemManager.getInstance();
+      manager.attachBackend({ getBodyTransform: (id: string) => transforms[id] ?? null, dispose: () => {} } as unknown as PhysicsBackend);
+    });
+
+    afterEach(() => {
+      (PhysicsSystemManager as any).instance = null;
+    });
+
+    it('should remove a joint strained past its break distance and report it', () => {
+      const listener = jest.fn();
+      const unsubscribe = EventDispatcher.on('JOINT_BROKEN', listener);
+      const joint = { ...hinge, breakDistance: 0.2 };
+      manager.addJoint(joint);
+      manager.trackJoint(joint, manager.computeJointFrames(joint)!);
+
+      transforms.door = { ...transforms.door, position: new Vector3(1.1, 2, 0) };
+      manager.checkJointBreaks();
+      expect(usePhysicsStore.getState().joints.hinge).toBeDefined();
+
+      transforms.door = { ...transforms.door, position: new Vector3(1.5, 2, 0) };
+      manager.checkJointBreaks();
+      expect(usePhysicsStore.getState().joints.hinge).toBeUndefined();
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener.mock.calls[0][0]).toEqual({ id: 'hinge', bodyA: 'frame', bodyB: 'door', strain: expect.closeTo(0.5) });
+      unsubscribe();
+    });
+  });
+});
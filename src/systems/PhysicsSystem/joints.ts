@@ -0,0 +1,89 @@
+// src/systems/PhysicsSystem/joints.ts
+
+// Purpose: Engine-independent joint geometry. Joints are declared with world-space anchors and axes;
+// these helpers convert them into each body's local frame and measure how far a joint has been pulled apart.
+
+import { Euler, Quaternion, Vector3 } from 'three';
+import { BodyTransform, PhysicsBody, PhysicsJoint } from '../../types/physics.types';
+
+export interface JointFrames {
+  anchorA: Vector3; // In body A's local space
+  anchorB: Vector3; // In body B's local space
+  axisA: Vector3; // Unit axis in body A's local space
+  axisB: Vector3; // Unit axis in body B's local space
+  frameA: Quaternion; // Local rotations that both map to the same world orientation, used by fixed joints
+  frameB: Quaternion;
+  length: number; // Distance joint maximum or spring rest length
+}
+
+const DEFAULT_AXIS = new Vector3(0, 1, 0);
+
+// cannon-es spring defaults, applied to both engines
+export const DEFAULT_SPRING_STIFFNESS = 100;
+export const DEFAULT_SPRING_DAMPING = 1;
+
+// Joints that connect two separate points rather than pinning one shared point
+const isTwoPointJoint = (joint: PhysicsJoint) => joint.type === 'distance' || joint.type === 'spring';
+
+/**
+ * Spawn pose of a body as declared in the store.
+ */
+export const getInitialTransform = (body: PhysicsBody): BodyTransform => ({
+  position: body.position.clone(),
+  quaternion: new Quaternion().setFromEuler(new Euler(body.rotation.x, body.rotation.y, body.rotation.z)),
+});
+
+const toLocalPoint = (point: Vector3, transform: BodyTransform) =>
+  point.clone().sub(transform.position).applyQuaternion(transform.quaternion.clone().invert());
+
+const toWorldPoint = (point: Vector3, transform: BodyTransform) =>
+  point.clone().applyQuaternion(transform.quaternion).add(transform.position);
+
+/**
+ * Resolves a joint's world-space declaration against the bodies' current transforms.
+ */
+export const getJointFrames = (joint: PhysicsJoint, transformA: BodyTransform, transformB: BodyTransform): JointFrames => {
+  const twoPoint = isTwoPointJoint(joint);
+  const midpoint = transformA.position.clone().lerp(transformB.position, 0.5);
+  const worldAnchorA = joint.anchorA?.clone() ?? (twoPoint ? transformA.position.clone() : midpoint);
+  const worldAnchorB = joint.anchorB?.clone() ?? (twoPoint ? transformB.position.clone() : worldAnchorA.clone());
+  const separation = worldAnchorA.distanceTo(worldAnchorB);
+  const axis = (joint.axis ?? DEFAULT_AXIS).clone().normalize();
+  const inverseA = transformA.quaternion.clone().invert();
+  const inverseB = transformB.quaternion.clone().invert();
+
+  return {
+    anchorA: toLocalPoint(worldAnchorA, transformA),
+    anchorB: toLocalPoint(worldAnchorB, transformB),
+    axisA: axis.clone().applyQuaternion(inverseA),
+    axisB: axis.clone().applyQuaternion(inverseB),
+    frameA: inverseA,
+    frameB: inverseB,
+    length: (joint.type === 'distance' ? joint.length : joint.restLength) ?? separation,
+  };
+};
+
+/**
+ * How far the joint is violated, in meters: anchor separation for pinned joints, off-axis drift for
+ * prismatic joints and stretch past the length for distance and spring joints.
+ */
+export const measureJointStrain = (
+  joint: PhysicsJoint,
+  frames: JointFrames,
+  transformA: BodyTransform,
+  transformB: BodyTransform
+): number => {
+  const offset = toWorldPoint(frames.anchorB, transformB).sub(toWorldPoint(frames.anchorA, transformA));
+
+  switch (joint.type) {
+    case 'distance':
+    case 'spring':
+      return Math.max(0, offset.length() - frames.length);
+    case 'prismatic': {
+      const axis = frames.axisA.clone().applyQuaternion(transformA.quaternion);
+      return offset.sub(axis.multiplyScalar(offset.dot(axis))).length();
+    }
+    default:
+      return offset.length();
+  }
+};
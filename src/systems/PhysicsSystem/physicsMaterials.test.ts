@@ -0,0 +1,52 @@
+/**
+ * @jest-environment node
+ */
+// src/systems/PhysicsSystem/physicsMaterials.test.ts
+
+import {
+  DEFAULT_PHYSICS_MATERIAL,
+  combineCoefficients,
+  getPhysicsMaterial,
+  resolveContactMaterial,
+} from './physicsMaterials';
+import { usePhysicsStore } from '../../stores/physicsStore';
+import { PhysicsMaterial } from '../../types/physics.types';
+
+const ice: PhysicsMaterial = { name: 'ice', friction: 0.02, restitution: 0.1, frictionCombine: 'min' };
+const rubber: PhysicsMaterial = { name: 'rubber', friction: 0.9, restitution: 0.8, restitutionCombine: 'max' };
+
+describe('physicsMaterials', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    usePhysicsStore.setState({ materials: {} });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should apply the highest-priority rule of the two materials', () => {
+    expect(combineCoefficients(0.2, 0.6)).toBeCloseTo(0.4);
+    expect(combineCoefficients(0.2, 0.6, 'min', 'average')).toBeCloseTo(0.2);
+    expect(combineCoefficients(0.2, 0.6, 'min', 'multiply')).toBeCloseTo(0.12);
+    expect(combineCoefficients(0.2, 0.6, 'max', 'multiply')).toBeCloseTo(0.6);
+  });
+
+  it('should resolve friction and restitution for a pair regardless of order', () => {
+    const contact = resolveContactMaterial(ice, rubber);
+
+    expect(contact.friction).toBeCloseTo(0.02);
+    expect(contact.restitution).toBeCloseTo(0.8);
+    expect(resolveContactMaterial(rubber, ice)).toEqual(contact);
+  });
+
+  it('should look up registered materials and fall back to the default', () => {
+    usePhysicsStore.getState().addMaterial(ice);
+
+    expect(getPhysicsMaterial('ice')).toBe(ice);
+    expect(getPhysicsMaterial()).toBe(DEFAULT_PHYSICS_MATERIAL);
+    expect(getPhysicsMaterial('lava')).toBe(DEFAULT_PHYSICS_MATERIAL);
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('"lava"'));
+  });
+});
@@ -0,0 +1,70 @@
+// src/systems/PhysicsSystem/physicsMaterials.ts
+
+// Purpose: Resolves named physics materials and combines them per contact pair.
+// The combine rules mirror Rapier's, so Cannon contact materials come out the same as Rapier contacts.
+
+import { CoefficientCombineRule } from '@dimforge/rapier3d-compat';
+import { usePhysicsStore } from '../../stores/physicsStore';
+import { CombineRule, ContactMaterial, PhysicsBody, PhysicsMaterial } from '../../types/physics.types';
+
+export const DEFAULT_PHYSICS_MATERIAL: PhysicsMaterial = {
+  name: 'default',
+  friction: 0.5,
+  restitution: 0,
+};
+
+// Ordered by priority, lowest first
+const COMBINE_RULE_PRIORITY: CombineRule[] = ['average', 'min', 'multiply', 'max'];
+
+export const RAPIER_COMBINE_RULES: Record<CombineRule, CoefficientCombineRule> = {
+  average: CoefficientCombineRule.Average,
+  min: CoefficientCombineRule.Min,
+  multiply: CoefficientCombineRule.Multiply,
+  max: CoefficientCombineRule.Max,
+};
+
+const warnedMaterials: Set<string> = new Set();
+
+/**
+ * Looks up a registered material by name. Unknown names fall back to the default material.
+ */
+export const getPhysicsMaterial = (name?: string): PhysicsMaterial => {
+  if (!name || name === DEFAULT_PHYSICS_MATERIAL.name) {
+    return usePhysicsStore.getState().materials[DEFAULT_PHYSICS_MATERIAL.name] ?? DEFAULT_PHYSICS_MATERIAL;
+  }
+
+  const material = usePhysicsStore.getState().materials[name];
+  if (!material) {
+    if (!warnedMaterials.has(name)) {
+      warnedMaterials.add(name);
+      console.warn(`Physics material "${name}" is not registered, using "${DEFAULT_PHYSICS_MATERIAL.name}".`);
+    }
+    return DEFAULT_PHYSICS_MATERIAL;
+  }
+  return material;
+};
+
+export const getBodyMaterial = (body: PhysicsBody): PhysicsMaterial => getPhysicsMaterial(body.material);
+
+export const combineCoefficients = (a: number, b: number, ruleA: CombineRule = 'average', ruleB: CombineRule = 'average'): number => {
+  const rule = COMBINE_RULE_PRIORITY.indexOf(ruleA) >= COMBINE_RULE_PRIORITY.indexOf(ruleB) ? ruleA : ruleB;
+
+  switch (rule) {
+    case 'min':
+      return Math.min(a, b);
+    case 'multiply':
+      return a * b;
+    case 'max':
+      return Math.max(a, b);
+    default:
+      return (a + b) / 2;
+  }
+};
+
+/**
+ * Friction and restitution for a contact between two materials.
+ */
+export const resolveContactMaterial = (a: PhysicsMaterial, b: PhysicsMaterial): ContactMaterial => ({
+  friction: combineCoefficients(a.friction, b.friction, a.frictionCombine, b.frictionCombine),
+  restitution: combineCoefficients(a.restitution, b.restitution, a.restitutionCombine, b.restitutionCombine),
+});
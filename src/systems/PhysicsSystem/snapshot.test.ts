@@ -0,0 +1,118 @@
+/**
+ * @jest-environment node
+ */
+// src/systems/PhysicsSystem/snapshot.test.ts
+
+import RAPIER from '@dimforge/rapier3d-compat';
+import { Vector3 } from 'three';
+import { PhysicsSystemManager, deserializeState, serializeState } from './PhysicsSystem';
+import { RapierBackend } from './backends/RapierBackend';
+import { usePhysicsStore } from '../../stores/physicsStore';
+import { PhysicsBody } from '../../types/physics.types';
+import { SerializedPhysics } from '../../types/serialization.types';
+
+const ball = (id: string, position: Vector3): PhysicsBody => ({
+  id,
+  type: 'dynamic',
+  shape: 'sphere',
+  position,
+  rotation: new Vector3(),
+  args: [0.5],
+  mass: 2,
+});
+
+describe('physics snapshots', () => {
+  let world: RAPIER.World;
+  let manager: PhysicsSystemManager;
+
+  const spawn = (body: PhysicsBody) => {
+    usePhysicsStore.getState().addBody(body);
+    const rigidBody = world.createRigidBody(
+      RAPIER.RigidBodyDesc.dynamic().setTranslation(body.position.x, body.position.y, body.position.z)
+    );
+    world.createCollider(RAPIER.ColliderDesc.ball(0.5), rigidBody);
+    return rigidBody;
+  };
+
+  const step = (count: number) => {
+    for (let i = 0; i < count; i++) world.step();
+  };
+
+  beforeAll(async () => {
+    await RAPIER.init();
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    usePhysicsStore.setState({ bodies: {} });
+    world = new RAPIER.World({ x: 0, y: -9.81, z: 0 });
+    manager = PhysicsSystemManager.getInstance();
+    manager.attachBackend(new RapierBackend(world, RAPIER));
+  });
+
+  afterEach(() => {
+    (PhysicsSystemManager as any).instance = null;
+    world.free();
+    jest.restoreAllMocks();
+  });
+
+  it('should capture live transforms, velocities and sleep state', () => {
+    const thrown = spawn(ball('thrown', new Vector3(0, 10, 0)));
+    const resting = spawn(ball('resting', new Vector3(5, 0, 0)));
+    manager.registerBodyHandle(usePhysicsStore.getState().bodies.thrown, thrown);
+    manager.registerBodyHandle(usePhysicsStore.getState().bodies.resting, resting);
+    usePhysicsStore.getState().addBody(ball('unmounted', new Vector3(0, 3, 0)));
+    thrown.setLinvel({ x: 4, y: 0, z: 0 }, true);
+    thrown.setAngvel({ x: 0, y: 2, z: 0 }, true);
+    resting.sleep();
+    step(10);
+
+    const snapshot = serializeState();
+    const byId = Object.fromEntries(snapshot.bodies.map(body => [body.id, body]));
+
+    expect(byId.thrown.position[0]).toBeCloseTo(40 * world.timestep);
+    expect(byId.thrown.velocity[1]).toBeCloseTo(-9.81 * 10 * world.timestep, 1);
+    expect(byId.thrown.angularVelocity).toEqual([0, expect.closeTo(2), 0]);
+    expect(byId.thrown.mass).toBe(2);
+    expect(byId.resting.isSleeping).toBe(true);
+    expect(byId.unmounted).toMatchObject({ position: [0, 3, 0], velocity: [0, 0, 0], isSleeping: false });
+  });
+
+  it('should resume mid-motion after a restore', () => {
+    const thrown = spawn(ball('thrown', new Vector3(0, 10, 0)));
+    manager.registerBodyHandle(usePhysicsStore.getState().bodies.thrown, thrown);
+    thrown.setLinvel({ x: 4, y: 6, z: 0 }, true);
+    step(10);
+    const snapshot: SerializedPhysics = JSON.parse(JSON.stringify(serializeState()));
+    step(20);
+    const expected = thrown.translation();
+
+    step(40);
+    deserializeState(snapshot);
+    expect(thrown.linvel().y).toBeCloseTo(snapshot.bodies[0].velocity[1]);
+    step(20);
+
+    expect(thrown.translation().x).toBeCloseTo(expected.x, 4);
+    expect(thrown.translation().y).toBeCloseTo(expected.y, 4);
+  });
+
+  it('should hold restored state until the body goes live', () => {
+    usePhysicsStore.getState().addBody(ball('late', new Vector3(0, 1, 0)));
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    deserializeState({
+      bodies: [
+        { id: 'late', mass: 2, position: [3, 4, 5], rotation: [0, 0, 0, 1], velocity: [1, 0, 0], angularVelocity: [0, 0, 0], forces: [], isSleeping: false },
+        { id: 'gone', mass: 1, position: [0, 0, 0], rotation: [0, 0, 0, 1], velocity: [0, 0, 0], angularVelocity: [0, 0, 0], forces: [], isSleeping: false },
+      ],
+    });
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(serializeState().bodies[0].position).toEqual([3, 4, 5]);
+
+    const late = spawn(ball('late', new Vector3(0, 1, 0)));
+    manager.registerBodyHandle(usePhysicsStore.getState().bodies.late, late);
+
+    expect(late.translation()).toEqual({ x: 3, y: 4, z: 5 });
+    expect(late.linvel().x).toBe(1);
+  });
+});
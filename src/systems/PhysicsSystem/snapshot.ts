@@ -0,0 +1,39 @@
+// src/systems/PhysicsSystem/snapshot.ts
+
+// Purpose: Converts live body states to and from the save format, which holds plain arrays so it survives JSON.
+
+import { Quaternion, Vector3 } from 'three';
+import { BodyState, BodyTransform, PhysicsBody } from '../../types/physics.types';
+import { SerializedBody } from '../../types/serialization.types';
+
+const toTriplet = (vector: Vector3): [number, number, number] => [vector.x, vector.y, vector.z];
+
+/**
+ * State of a body that has not moved since it spawned.
+ */
+export const getRestingState = (transform: BodyTransform): BodyState => ({
+  position: transform.position.clone(),
+  quaternion: transform.quaternion.clone(),
+  linearVelocity: new Vector3(),
+  angularVelocity: new Vector3(),
+  isSleeping: false,
+});
+
+export const toSerializedBody = (body: PhysicsBody, state: BodyState): SerializedBody => ({
+  id: body.id,
+  mass: body.type === 'dynamic' ? body.mass ?? 1 : 0,
+  position: toTriplet(state.position),
+  rotation: [state.quaternion.x, state.quaternion.y, state.quaternion.z, state.quaternion.w],
+  velocity: toTriplet(state.linearVelocity),
+  angularVelocity: toTriplet(state.angularVelocity),
+  forces: [],
+  isSleeping: state.isSleeping,
+});
+
+export const fromSerializedBody = (serialized: SerializedBody): BodyState => ({
+  position: new Vector3(...serialized.position),
+  quaternion: new Quaternion(...serialized.rotation),
+  linearVelocity: new Vector3(...serialized.velocity),
+  angularVelocity: new Vector3(...serialized.angularVelocity),
+  isSleeping: serialized.isSleeping,
+});
@@ -0,0 +1,152 @@
+/**
+ * @jest-environment node
+ */
+// src/systems/PhysicsSystem/triggers.test.ts
+
+import RAPIER from '@dimforge/rapier3d-compat';
+import { Vector3 } from 'three';
+import { PhysicsSystemManager } from './PhysicsSystem';
+import { RapierBackend } from './backends/RapierBackend';
+import { CollisionLayer, collisionMask } from './collisionFiltering';
+import { usePhysicsStore } from '../../stores/physicsStore';
+import { EventDispatcher } from '../../utils/EventDispatcher';
+import { PhysicsBody } from '../../types/physics.types';
+
+const body = (id: string, overrides: Partial<PhysicsBody> = {}): PhysicsBody => ({
+  id,
+  type: 'static',
+  shape: 'box',
+  position: new Vector3(),
+  rotation: new Vector3(),
+  args: [2, 2, 2],
+  ...overrides,
+});
+
+describe('triggers', () => {
+  let manager: PhysicsSystemManager;
+  let enter: jest.Mock;
+  let stay: jest.Mock;
+  let exit: jest.Mock;
+  let unsubscribe: (() => void)[];
+
+  beforeAll(async () => {
+    await RAPIER.init();
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    usePhysicsStore.setState({ bodies: {}, triggerOccupants: {} });
+    usePhysicsStore.getState().addBody(body('zone', { isTrigger: true }));
+    usePhysicsStore.getState().addBody(body('player', { type: 'kinematic' }));
+    manager = PhysicsSystemManager.getInstance();
+    enter = jest.fn();
+    stay = jest.fn();
+    exit = jest.fn();
+    unsubscribe = [
+      EventDispatcher.on('TRIGGER_ENTER', enter),
+      EventDispatcher.on('TRIGGER_STAY', stay),
+      EventDispatcher.on('TRIGGER_EXIT', exit),
+    ];
+  });
+
+  afterEach(() => {
+    unsubscribe.forEach(stop => stop());
+    (PhysicsSystemManager as any).instance = null;
+    jest.restoreAllMocks();
+  });
+
+  it('should enter once per body, report the stay every step and exit after the last collider leaves', () => {
+    manager.enterTrigger('zone', 'player');
+    manager.enterTrigger('zone', 'player');
+    expect(enter).toHaveBeenCalledTimes(1);
+    expect(enter).toHaveBeenCalledWith({ triggerId: 'zone', bodyId: 'player' }, 'TRIGGER_ENTER');
+    expect(usePhysicsStore.getState().triggerOccupants).toEqual({ zone: ['player'] });
+
+    manager.updateTriggers(0.5);
+    manager.updateTriggers(0.25);
+    expect(stay).toHaveBeenLastCalledWith({ triggerId: 'zone', bodyId: 'player', duration: 0.75 }, 'TRIGGER_STAY');
+
+    manager.exitTrigger('zone', 'player');
+    expect(exit).not.toHaveBeenCalled();
+    manager.exitTrigger('zone', 'player');
+    expect(exit).toHaveBeenCalledWith({ triggerId: 'zone', bodyId: 'player', duration: 0.75 }, 'TRIGGER_EXIT');
+    expect(usePhysicsStore.getState().triggerOccupants).toEqual({});
+    expect(manager.getTriggerOccupants('zone')).toEqual([]);
+
+    manager.exitTrigger('zone', 'player');
+    expect(exit).toHaveBeenCalledTimes(1);
+  });
+
+  it('should ignore bodies on layers the trigger does not watch', () => {
+    usePhysicsStore.getState().updateBody('zone', { collidesWith: collisionMask('player') });
+    usePhysicsStore.getState().addBody(body('crate', { type: 'dynamic' }));
+    usePhysicsStore.getState().updateBody('player', { collisionLayer: CollisionLayer.player });
+
+    manager.enterTrigger('zone', 'crate');
+    manager.enterTrigger('zone', 'player');
+
+    expect(manager.getTriggerOccupants('zone')).toEqual(['player']);
+  });
+
+  it('should exit bodies whose engine handle goes away', () => {
+    const handle = {} as any;
+    manager.registerBodyHandle(usePhysicsStore.getState().bodies.player, handle);
+    manager.enterTrigger('zone', 'player');
+
+    manager.unregisterBodyHandle('player', handle);
+
+    expect(exit).toHaveBeenCalledWith({ triggerId: 'zone', bodyId: 'player', duration: 0 }, 'TRIGGER_EXIT');
+    expect(usePhysicsStore.getState().triggerOccupants.zone).toBeUndefined();
+  });
+
+  it('should sense kinematic bodies with a Rapier sensor and hide it from queries', () => {
+    const world = new RAPIER.World({ x: 0, y: 0, z: 0 });
+    const backend = new RapierBackend(world, RAPIER);
+    manager.attachBackend(backend);
+
+    const zone = world.createRigidBody(RAPIER.RigidBodyDesc.fixed());
+    world.createCollider(
+      RAPIER.ColliderDesc.cuboid(1, 1, 1)
+        .setSensor(true)
+        .setActiveCollisionTypes(RAPIER.ActiveCollisionTypes.ALL)
+        .setActiveEvents(RAPIER.ActiveEvents.COLLISION_EVENTS),
+      zone
+    );
+    backend.addBody(usePhysicsStore.getState().bodies.zone, zone);
+    const player = world.createRigidBody(RAPIER.RigidBodyDesc.kinematicPositionBased().setTranslation(5, 0, 0));
+    world.createCollider(RAPIER.ColliderDesc.ball(0.5), player);
+    backend.addBody(usePhysicsStore.getState().bodies.player, player);
+
+    const eventQueue = new RAPIER.EventQueue(true);
+    const bodyIds = new Map([[zone.handle, 'zone'], [player.handle, 'player']]);
+    const drain = () =>
+      eventQueue.drainCollisionEvents((handleA, handleB, started) => {
+        const triggerId = bodyIds.get(world.getCollider(handleA).parent()!.handle)!;
+        const bodyId = bodyIds.get(world.getCollider(handleB).parent()!.handle)!;
+        const [sensor, other] = triggerId === 'zone' ? [triggerId, bodyId] : [bodyId, triggerId];
+        if (started) {
+          manager.enterTrigger(sensor, other);
+        } else {
+          manager.exitTrigger(sensor, other);
+        }
+      });
+
+    world.step(eventQueue);
+    drain();
+    expect(backend.raycast(new Vector3(-5, 0, 0), new Vector3(1, 0, 0), 20, {})?.bodyId).toBe('player');
+    expect(backend.raycast(new Vector3(-5, 0, 0), new Vector3(1, 0, 0), 20, { includeTriggers: true })?.bodyId).toBe('zone');
+
+    player.setNextKinematicTranslation({ x: 0, y: 0, z: 0 });
+    world.step(eventQueue);
+    drain();
+    expect(enter).toHaveBeenCalledWith({ triggerId: 'zone', bodyId: 'player' }, 'TRIGGER_ENTER');
+
+    player.setNextKinematicTranslation({ x: 5, y: 0, z: 0 });
+    world.step(eventQueue);
+    drain();
+    expect(exit).toHaveBeenCalledTimes(1);
+
+    eventQueue.free();
+    world.free();
+  });
+});
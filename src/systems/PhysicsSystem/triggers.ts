@@ -0,0 +1,95 @@
+// src/systems/PhysicsSystem/triggers.ts
+
+// Purpose: Engine-independent bookkeeping for trigger volumes. Engines report sensor overlaps per collider;
+// the tracker folds them into one enter and one exit per body and times how long each body has been inside.
+
+import { usePhysicsStore } from '../../stores/physicsStore';
+import { EventDispatcher } from '../../utils/EventDispatcher';
+
+interface TriggerContact {
+  colliders: number; // Overlapping colliders of the occupant; compound bodies enter through several
+  duration: number; // Seconds inside the trigger
+}
+
+export class TriggerTracker {
+  private contacts: Map<string, Map<string, TriggerContact>> = new Map(); // Trigger id -> occupant id -> contact
+
+  public enter(triggerId: string, bodyId: string) {
+    let occupants = this.contacts.get(triggerId);
+    if (!occupants) {
+      occupants = new Map();
+      this.contacts.set(triggerId, occupants);
+    }
+
+    const contact = occupants.get(bodyId);
+    if (contact) {
+      contact.colliders++;
+      return;
+    }
+
+    occupants.set(bodyId, { colliders: 1, duration: 0 });
+    usePhysicsStore.getState().addTriggerOccupant(triggerId, bodyId);
+    EventDispatcher.dispatch('TRIGGER_ENTER', { triggerId, bodyId });
+  }
+
+  /**
+   * Exits that were never entered are ignored, so engines may report a removed body's overlaps late.
+   */
+  public exit(triggerId: string, bodyId: string) {
+    const contact = this.contacts.get(triggerId)?.get(bodyId);
+    if (!contact) return;
+
+    contact.colliders--;
+    if (contact.colliders <= 0) {
+      this.release(triggerId, bodyId, contact);
+    }
+  }
+
+  /**
+   * Advances every occupant's stay by one fixed step and reports it as TRIGGER_STAY.
+   */
+  public update(deltaTime: number) {
+    this.contacts.forEach((occupants, triggerId) => {
+      occupants.forEach((contact, bodyId) => {
+        contact.duration += deltaTime;
+        EventDispatcher.dispatch('TRIGGER_STAY', { triggerId, bodyId, duration: contact.duration });
+      });
+    });
+  }
+
+  /**
+   * Ends every overlap a body takes part in, as a trigger or as an occupant. Used when its engine handle goes away.
+   */
+  public removeBody(id: string) {
+    this.contacts.get(id)?.forEach((contact, bodyId) => this.release(id, bodyId, contact));
+    this.contacts.forEach((occupants, triggerId) => {
+      const contact = occupants.get(id);
+      if (contact) this.release(triggerId, id, contact);
+    });
+  }
+
+  public getOccupants(triggerId: string): string[] {
+    return Array.from(this.contacts.get(triggerId)?.keys() ?? []);
+  }
+
+  /**
+   * Forgets every overlap without reporting exits, for when the whole simulation is torn down.
+   */
+  public clear() {
+    this.contacts.forEach((occupants, triggerId) => {
+      occupants.forEach((_contact, bodyId) => usePhysicsStore.getState().removeTriggerOccupant(triggerId, bodyId));
+    });
+    this.contacts.clear();
+  }
+
+  private release(triggerId: string, bodyId: string, contact: TriggerContact) {
+    const occupants = this.contacts.get(triggerId);
+    occupants?.delete(bodyId);
+    if (occupants && occupants.size === 0) {
+      this.contacts.delete(triggerId);
+    }
+
+    usePhysicsStore.getState().removeTriggerOccupant(triggerId, bodyId);
+    EventDispatcher.dispatch('TRIGGER_EXIT', { triggerId, bodyId, duration: contact.duration });
+  }
+}
@@ -20,6 +20,8 @@ import { DOFEffect } from './effects/DOFEffect';
 import { SSAOEffect } from './effects/SSAOEffect';
 import { MotionBlurEffect } from './effects/MotionBlurEffect';
 import { EventDispatcher } from '../../utils/EventDispatcher';
+import { GameLoop } from '../GameLoop/GameLoop';
+import { FrameContext } from '../../types/gameLoop.types';
 
 export class PostProcessingSystem {
   private static instance: PostProcessingSystem | null = null;
@@ -27,7 +29,7 @@ export class PostProcessingSystem {
   private composer: EffectComposer;
   private renderPass: RenderPass;
   private antialiasPass: ShaderPass | SMAAPass | null;
-  private frameId: number | null = null;
+  private unregisterFromLoop: (() => void) | null = null;
 
   private constructor(config: PostProcessingConfig) {
     this.config = config;
@@ -199,21 +201,27 @@ export class PostProcessingSystem {
     this.composer.render(deltaTime);
   }
 
-  private update = (time: number): void => {
-    this.render(time);
-    this.frameId = requestAnimationFrame(this.update);
+  private update = ({ unscaledDeltaTime }: FrameContext): void => {
+    this.render(unscaledDeltaTime);
   };
 
   public start(): void {
-    if (this.frameId === null) {
-      this.frameId = requestAnimationFrame(this.update);
+    if (this.unregisterFromLoop === null) {
+      const gameLoop = GameLoop.getInstance();
+      this.unregisterFromLoop = gameLoop.register({
+        id: 'postProcessing',
+        phase: 'render',
+        runWhilePaused: true,
+        update: this.update
+      });
+      gameLoop.start();
     }
   }
 
   public stop(): void {
-    if (this.frameId !== null) {
-      cancelAnimationFrame(this.frameId);
-      this.frameId = null;
+    if (this.unregisterFromLoop !== null) {
+      this.unregisterFromLoop();
+      this.unregisterFromLoop = null;
     }
   }
 
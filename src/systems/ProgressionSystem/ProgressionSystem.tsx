@@ -3,9 +3,11 @@
 import { ProgressionLevel } from '../../types/progression.types';
 import { useProgressionStore } from '../../stores/progressionStore';
 import { EventDispatcher } from '../../utils/EventDispatcher';
+import { EventMap, Unsubscribe } from '../../types/event.types';
 
 export class ProgressionSystem {
   private static instance: ProgressionSystem | null = null;
+  private eventSubscriptions: Unsubscribe[] = [];
 
   private constructor() {
     this.setupEventListeners();
@@ -19,10 +21,12 @@ export class ProgressionSystem {
   }
 
   private setupEventListeners(): void {
-    EventDispatcher.on("LEVEL_UP", this.handleLevelUp.bind(this));
+    this.eventSubscriptions = [
+      EventDispatcher.on("LEVEL_UP", this.handleLevelUp.bind(this))
+    ];
   }
 
-  private handleLevelUp(data: { oldLevel: number; newLevel: number }): void {
+  private handleLevelUp(data: EventMap['LEVEL_UP']): void {
     const store = useProgressionStore.getState();
     const newLevelData = store.levels[data.newLevel];
 
@@ -68,6 +72,7 @@ export class ProgressionSystem {
   }
 
   public cleanup(): void {
-    EventDispatcher.off("LEVEL_UP", this.handleLevelUp.bind(this));
+    this.eventSubscriptions.forEach(unsubscribe => unsubscribe());
+    this.eventSubscriptions = [];
   }
 }
@@ -0,0 +1,126 @@
+// src/systems/RagdollSystem/Ragdoll.test.ts
+
+import { Bone, BufferGeometry, MeshBasicMaterial, Quaternion, Skeleton, SkinnedMesh, Vector3 } from 'three';
+import { Ragdoll } from './Ragdoll';
+import { PhysicsSystemManager } from '../PhysicsSystem/PhysicsSystem';
+import { usePhysicsStore } from '../../stores/physicsStore';
+import { CompoundArgs, RagdollConfig } from '../../types/physics.types';
+
+// hips -> spine -> head, standing upright with the hips at 1m
+const createCharacter = () => {
+  const hips = new Bone();
+  hips.name = 'hips';
+  hips.position.set(0, 1, 0);
+  const spine = new Bone();
+  spine.name = 'spine';
+  spine.position.set(0, 0.5, 0);
+  const head = new Bone();
+  head.name = 'head';
+  head.position.set(0, 0.4, 0);
+  hips.add(spine);
+  spine.add(head);
+
+  const mesh = new SkinnedMesh(new BufferGeometry(), new MeshBasicMaterial());
+  mesh.add(hips);
+  mesh.bind(new Skeleton([hips, spine, head]));
+  return { mesh, hips, spine, head };
+};
+
+describe('Ragdoll', () => {
+  let character: ReturnType<typeof createCharacter>;
+  let config: RagdollConfig;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    usePhysicsStore.setState({ bodies: {}, joints: {} });
+    character = createCharacter();
+    config = { id: 'guard', mesh: character.mesh, mass: 90, blendTime: 0.2 };
+  });
+
+  afterEach(() => {
+    (PhysicsSystemManager as any).instance = null;
+    jest.restoreAllMocks();
+  });
+
+  it('should build a capsule body per bone segment joined by limited hinges', () => {
+    const ragdoll = new Ragdoll(config);
+    expect(ragdoll.getBodyIds()).toEqual(['guard:hips', 'guard:spine']);
+
+    ragdoll.activate();
+    const { bodies, joints } = usePhysicsStore.getState();
+
+    expect(bodies['guard:hips'].position.toArray()).toEqual([0, 1.25, 0]);
+    expect(bodies['guard:hips'].mass).toBeCloseTo(50);
+    expect(bodies['guard:spine'].position.y).toBeCloseTo(1.7);
+    expect(bodies['guard:spine'].mass).toBeCloseTo(40);
+    const [[capsule]] = bodies['guard:spine'].args as CompoundArgs;
+    expect(capsule.shape).toBe('capsule');
+    expect(capsule.args[0]).toBeCloseTo(0.08);
+    expect(capsule.args[1]).toBeCloseTo(0.24);
+
+    expect(joints['guard:spine:joint']).toMatchObject({
+      type: 'hinge',
+      bodyA: 'guard:hips',
+      bodyB: 'guard:spine',
+      limits: { min: -Math.PI / 3, max: Math.PI / 3 },
+    });
+    expect(joints['guard:spine:joint'].anchorA!.toArray()).toEqual([0, 1.5, 0]);
+    expect(joints['guard:spine:joint'].axis!.toArray()).toEqual([1, 0, 0]);
+
+    ragdoll.deactivate();
+    expect(usePhysicsStore.getState().bodies).toEqual({});
+    expect(usePhysicsStore.getState().joints).toEqual({});
+  });
+
+  it('should keep the animated momentum when activated', () => {
+    const ragdoll = new Ragdoll(config);
+    ragdoll.update(0.1);
+    character.hips.position.x += 0.2;
+    ragdoll.update(0.1);
+
+    ragdoll.activate();
+    const { bodies } = usePhysicsStore.getState();
+    expect(bodies['guard:hips'].velocity!.x).toBeCloseTo(2);
+    expect(bodies['guard:spine'].velocity!.x).toBeCloseTo(2);
+    ragdoll.deactivate();
+
+    // The spine sways forward while the character runs, so its body moves faster than the hips'
+    ragdoll.update(0.1);
+    character.hips.position.x += 0.2;
+    character.spine.rotation.z = -0.2;
+    ragdoll.update(0.1);
+
+    ragdoll.activate(new Vector3(0, 0, 3));
+    const [hips, spine] = ['guard:hips', 'guard:spine'].map(id => usePhysicsStore.getState().bodies[id]);
+    const momentum = hips.velocity!.clone().multiplyScalar(hips.mass!).addScaledVector(spine.velocity!, spine.mass!);
+    const average = momentum.divideScalar(hips.mass! + spine.mass!);
+    expect(average.x).toBeCloseTo(0);
+    expect(average.y).toBeCloseTo(0);
+    expect(average.z).toBeCloseTo(3);
+    expect(spine.velocity!.x).toBeGreaterThan(hips.velocity!.x);
+  });
+
+  it('should blend the skeleton from the animated pose to the bodies', () => {
+    const ragdoll = new Ragdoll(config);
+    ragdoll.activate();
+
+    // The bodies fell one meter and the spine tipped over sideways around its joint
+    const tipped = new Quaternion().setFromAxisAngle(new Vector3(0, 0, 1), Math.PI / 2);
+    jest.spyOn(PhysicsSystemManager.getInstance(), 'getBodyTransform').mockImplementation(id =>
+      id === 'guard:hips'
+        ? { position: new Vector3(0, 0.25, 0), quaternion: new Quaternion() }
+        : { position: new Vector3(-0.2, 0.5, 0), quaternion: tipped }
+    );
+
+    ragdoll.update(0.1);
+    expect(ragdoll.getBlendWeight()).toBeCloseTo(0.5);
+    expect(character.hips.position.y).toBeCloseTo(0.5);
+
+    ragdoll.update(0.1);
+    expect(ragdoll.getBlendWeight()).toBe(1);
+    expect(character.hips.position.y).toBeCloseTo(0);
+    expect(character.spine.position.toArray()).toEqual([0, 0.5, 0]);
+    expect(character.spine.quaternion.angleTo(tipped)).toBeCloseTo(0);
+    expect(new Vector3().setFromMatrixPosition(character.head.matrixWorld).x).toBeCloseTo(-0.4);
+  });
+});
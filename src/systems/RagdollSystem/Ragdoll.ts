@@ -0,0 +1,252 @@
+// src/systems/RagdollSystem/Ragdoll.ts
+
+// Purpose: A ragdoll generated from a skinned mesh's skeleton. Each bone with a child gets a capsule body spanning
+// to that child, and each body hangs off its parent's with a limited joint. Until it is activated the skeleton is
+// only watched, so the bodies can start out with the speed the animation was moving at.
+
+import { Bone, Euler, Matrix4, Quaternion, Vector3 } from 'three';
+import { PhysicsSystemManager } from '../PhysicsSystem/PhysicsSystem';
+import { usePhysicsStore } from '../../stores/physicsStore';
+import { JointLimits, RagdollBoneConfig, RagdollConfig } from '../../types/physics.types';
+
+const DEFAULT_LIMITS: JointLimits = { min: -Math.PI / 3, max: Math.PI / 3 };
+const UP = new Vector3(0, 1, 0);
+const X_AXIS = new Vector3(1, 0, 0);
+const MIN_BONE_LENGTH = 1e-3;
+
+interface RagdollPart {
+  bone: Bone;
+  bodyId: string;
+  parent: RagdollPart | null; // Nearest ancestor bone with a body
+  settings: RagdollBoneConfig;
+  mass: number;
+  lastCenter: Vector3 | null;
+  velocity: Vector3; // Sampled from the animation while inactive
+  offset: Matrix4; // Bone pose in its body's frame, fixed at activation
+}
+
+const isBone = (object: unknown): object is Bone => object instanceof Bone;
+
+const getDepth = (bone: Bone) => {
+  let depth = 0;
+  for (let parent = bone.parent; isBone(parent); parent = parent.parent) depth++;
+  return depth;
+};
+
+// World-space segment from a bone to its child, or to the middle of its children
+const getSegment = (bone: Bone) => {
+  const start = new Vector3().setFromMatrixPosition(bone.matrixWorld);
+  const children = bone.children.filter(isBone);
+  const end = children
+    .reduce((sum, child) => sum.add(new Vector3().setFromMatrixPosition(child.matrixWorld)), new Vector3())
+    .divideScalar(Math.max(children.length, 1));
+  return { start, end: children.length > 0 ? end : start.clone() };
+};
+
+const getCenter = (bone: Bone) => {
+  const { start, end } = getSegment(bone);
+  return start.lerp(end, 0.5);
+};
+
+export class Ragdoll {
+  public readonly id: string;
+  private config: RagdollConfig;
+  private parts: RagdollPart[]; // Parents before children
+  private active: boolean = false;
+  private blendWeight: number = 0;
+
+  constructor(config: RagdollConfig) {
+    this.id = config.id;
+    this.config = config;
+    this.refreshPose();
+
+    const bones = config.mesh.skeleton.bones
+      .filter(bone => (config.bones ? bone.name in config.bones : bone.children.some(isBone)))
+      .filter(bone => {
+        const { start, end } = getSegment(bone);
+        return start.distanceTo(end) > MIN_BONE_LENGTH;
+      })
+      .sort((a, b) => getDepth(a) - getDepth(b));
+
+    const lengths = bones.map(bone => {
+      const { start, end } = getSegment(bone);
+      return start.distanceTo(end);
+    });
+    const totalLength = lengths.reduce((sum, length) => sum + length, 0);
+    const totalMass = config.mass ?? 70;
+
+    const partsByBone = new Map<Bone, RagdollPart>();
+    this.parts = bones.map((bone, index) => {
+      let parent: RagdollPart | null = null;
+      for (let ancestor = bone.parent; isBone(ancestor) && !parent; ancestor = ancestor.parent) {
+        parent = partsByBone.get(ancestor) ?? null;
+      }
+      const part: RagdollPart = {
+        bone,
+        bodyId: `${config.id}:${bone.name}`,
+        parent,
+        settings: config.bones?.[bone.name] ?? {},
+        mass: (totalMass * lengths[index]) / totalLength,
+        lastCenter: null,
+        velocity: new Vector3(),
+        offset: new Matrix4(),
+      };
+      partsByBone.set(bone, part);
+      return part;
+    });
+  }
+
+  public isActive(): boolean {
+    return this.active;
+  }
+
+  /**
+   * How far the skeleton follows the bodies: 0 is fully animated and 1 is fully ragdoll.
+   */
+  public getBlendWeight(): number {
+    return this.blendWeight;
+  }
+
+  /**
+   * Ids of the bodies in bone order, parents first.
+   */
+  public getBodyIds(): string[] {
+    return this.parts.map(part => part.bodyId);
+  }
+
+  /**
+   * Creates the bodies and joints in the current pose and starts blending the skeleton over to them. Each body
+   * keeps the speed its bone was animating at; when a velocity is given, the whole ragdoll is shifted to carry
+   * it as its mass-weighted average, so a falling character keeps its momentum.
+   */
+  public activate(velocity?: Vector3): void {
+    if (this.active) return;
+    this.refreshPose();
+
+    const velocities = this.parts.map(part => part.velocity.clone());
+    if (velocity) {
+      const totalMass = this.parts.reduce((sum, part) => sum + part.mass, 0);
+      const average = this.parts
+        .reduce((sum, part, index) => sum.addScaledVector(velocities[index], part.mass), new Vector3())
+        .divideScalar(totalMass);
+      velocities.forEach(partVelocity => partVelocity.sub(average).add(velocity));
+    }
+
+    const physicsStore = usePhysicsStore.getState();
+    this.parts.forEach((part, index) => {
+      const { start, end } = getSegment(part.bone);
+      const length = start.distanceTo(end);
+      const radius = part.settings.radius ?? length * (this.config.radiusScale ?? 0.2);
+      const direction = end.clone().sub(start).normalize();
+      // The capsule is rotated inside an unrotated body, so hinge axes mean the same thing on every part
+      const capsuleRotation = new Euler().setFromQuaternion(new Quaternion().setFromUnitVectors(UP, direction));
+      const center = start.clone().lerp(end, 0.5);
+
+      part.offset.makeTranslation(center.x, center.y, center.z).invert().multiply(part.bone.matrixWorld);
+      physicsStore.addBody({
+        id: part.bodyId,
+        type: 'dynamic',
+        shape: 'compound',
+        position: center,
+        rotation: new Vector3(),
+        args: [[{
+          shape: 'capsule',
+          args: [radius, Math.max(length - radius * 2, 0)],
+          position: new Vector3(),
+          rotation: new Vector3(capsuleRotation.x, capsuleRotation.y, capsuleRotation.z),
+          name: part.bone.name,
+        }]],
+        mass: part.mass,
+        velocity: velocities[index],
+        collisionLayer: this.config.collisionLayer,
+        collidesWith: this.config.collidesWith,
+      });
+    });
+
+    this.parts.forEach(part => {
+      if (!part.parent) return;
+      const type = part.settings.joint ?? 'hinge';
+      physicsStore.addJoint({
+        id: `${part.bodyId}:joint`,
+        type,
+        bodyA: part.parent.bodyId,
+        bodyB: part.bodyId,
+        anchorA: new Vector3().setFromMatrixPosition(part.bone.matrixWorld),
+        axis: (part.settings.axis ?? X_AXIS).clone().transformDirection(part.bone.matrixWorld),
+        limits: type === 'hinge' ? part.settings.limits ?? DEFAULT_LIMITS : undefined,
+      });
+    });
+
+    this.active = true;
+  }
+
+  /**
+   * Removes the bodies and joints and hands the skeleton straight back to the animation.
+   */
+  public deactivate(): void {
+    if (!this.active) return;
+
+    const physicsStore = usePhysicsStore.getState();
+    this.parts.forEach(part => {
+      if (part.parent) physicsStore.removeJoint(`${part.bodyId}:joint`);
+    });
+    this.parts.forEach(part => {
+      physicsStore.removeBody(part.bodyId);
+      part.lastCenter = null;
+      part.velocity.set(0, 0, 0);
+    });
+    this.active = false;
+    this.blendWeight = 0;
+  }
+
+  /**
+   * Call after the animation has posed the skeleton. While inactive this tracks how fast each bone moves; while
+   * active it blends the skeleton from the animated pose towards the bodies.
+   */
+  public update(deltaTime: number): void {
+    this.refreshPose();
+
+    if (!this.active) {
+      this.parts.forEach(part => {
+        const center = getCenter(part.bone);
+        if (part.lastCenter && deltaTime > 0) {
+          part.velocity.copy(center).sub(part.lastCenter).divideScalar(deltaTime);
+        }
+        part.lastCenter = center;
+      });
+      return;
+    }
+
+    const blendTime = this.config.blendTime ?? 0.2;
+    this.blendWeight = blendTime > 0 ? Math.min(1, this.blendWeight + deltaTime / blendTime) : 1;
+    this.applyBodyPose();
+  }
+
+  private applyBodyPose(): void {
+    const manager = PhysicsSystemManager.getInstance();
+    const position = new Vector3();
+    const quaternion = new Quaternion();
+    const scale = new Vector3();
+
+    this.parts.forEach(part => {
+      const transform = manager.getBodyTransform(part.bodyId);
+      if (!transform) return;
+
+      const { bone } = part;
+      const world = new Matrix4().compose(transform.position, transform.quaternion, new Vector3(1, 1, 1)).multiply(part.offset);
+      const local = bone.parent ? bone.parent.matrixWorld.clone().invert().multiply(world) : world;
+      local.decompose(position, quaternion, scale);
+
+      bone.quaternion.slerp(quaternion, this.blendWeight);
+      // Only the top body moves the skeleton; the rest just turn their bones so limbs keep their lengths
+      if (!part.parent) bone.position.lerp(position, this.blendWeight);
+      bone.updateWorldMatrix(false, true);
+    });
+  }
+
+  private refreshPose(): void {
+    this.config.mesh.skeleton.bones
+      .filter(bone => !isBone(bone.parent))
+      .forEach(bone => bone.updateWorldMatrix(true, true));
+  }
+}
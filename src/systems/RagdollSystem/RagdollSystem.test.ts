@@ -0,0 +1,86 @@
+// src/systems/RagdollSystem/RagdollSystem.test.ts
+
+import { Bone, BufferGeometry, MeshBasicMaterial, Skeleton, SkinnedMesh, Vector3 } from 'three';
+import { RagdollSystem } from './RagdollSystem';
+import { CharacterControllerSystem } from '../CharacterControllerSystem/CharacterControllerSystem';
+import { GameLoop } from '../GameLoop/GameLoop';
+import { usePhysicsStore } from '../../stores/physicsStore';
+import { useAIStore } from '../../stores/aiStore';
+import { EventDispatcher } from '../../utils/EventDispatcher';
+import { AIEntity } from '../../types/ai.types';
+
+const createMesh = () => {
+  const hips = new Bone();
+  hips.name = 'hips';
+  hips.position.set(0, 1, 0);
+  const spine = new Bone();
+  spine.name = 'spine';
+  spine.position.set(0, 0.6, 0);
+  hips.add(spine);
+
+  const mesh = new SkinnedMesh(new BufferGeometry(), new MeshBasicMaterial());
+  mesh.add(hips);
+  mesh.bind(new Skeleton([hips, spine]));
+  return mesh;
+};
+
+describe('RagdollSystem', () => {
+  let system: RagdollSystem;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    usePhysicsStore.setState({ bodies: {}, joints: {} });
+    GameLoop.getInstance().setManualStepping(true);
+    system = RagdollSystem.getInstance();
+    system.start();
+  });
+
+  afterEach(() => {
+    system.cleanup();
+    (RagdollSystem as any).instance = null;
+    CharacterControllerSystem.getInstance().cleanup();
+    (CharacterControllerSystem as any).instance = null;
+    useAIStore.setState({ entities: {} });
+    GameLoop.getInstance().cleanup();
+    jest.restoreAllMocks();
+  });
+
+  it('should update ragdolls after animation every frame', () => {
+    const ragdoll = system.addRagdoll({ id: 'guard', mesh: createMesh() });
+    const update = jest.spyOn(ragdoll, 'update');
+
+    expect(GameLoop.getInstance().getExecutionOrder('lateUpdate')).toContain('ragdolls');
+    GameLoop.getInstance().advance(1 / 60);
+    expect(update).toHaveBeenCalled();
+
+    system.removeRagdoll('guard');
+    expect(system.getRagdoll('guard')).toBeNull();
+  });
+
+  it('should take over from the character controller when its entity dies', () => {
+    CharacterControllerSystem.getInstance().addController({ id: 'guard-capsule', position: new Vector3(0, 1, 0) });
+    useAIStore.setState({ entities: { guard: { id: 'guard', controllerId: 'guard-capsule' } as AIEntity } });
+    const ragdoll = system.addRagdoll({ id: 'guard-ragdoll', mesh: createMesh(), entityId: 'guard' });
+
+    EventDispatcher.dispatch('ENTITY_DIED', { entityId: 'someone-else', position: new Vector3(), velocity: new Vector3() });
+    expect(ragdoll.isActive()).toBe(false);
+
+    EventDispatcher.dispatch('ENTITY_DIED', { entityId: 'guard', position: new Vector3(0, 1, 0), velocity: new Vector3(4, 0, 0) });
+
+    expect(ragdoll.isActive()).toBe(true);
+    expect(CharacterControllerSystem.getInstance().getController('guard-capsule')).toBeNull();
+    expect(usePhysicsStore.getState().bodies['guard-capsule']).toBeUndefined();
+    expect(usePhysicsStore.getState().bodies['guard-ragdoll:hips'].velocity!.toArray()).toEqual([4, 0, 0]);
+  });
+
+  it('should still take over on death after a cleanup', () => {
+    system.cleanup();
+    system = RagdollSystem.getInstance();
+    system.start();
+    const ragdoll = system.addRagdoll({ id: 'guard-ragdoll', mesh: createMesh(), entityId: 'guard' });
+
+    EventDispatcher.dispatch('ENTITY_DIED', { entityId: 'guard', position: new Vector3(), velocity: new Vector3() });
+
+    expect(ragdoll.isActive()).toBe(true);
+  });
+});
@@ -0,0 +1,114 @@
+// src/systems/RagdollSystem/RagdollSystem.ts
+
+// Purpose: Owns the ragdolls and updates them after animation has posed the skeletons each frame.
+// A ragdoll tied to an AI entity takes over from its character controller when the entity dies.
+
+import { Vector3 } from 'three';
+import { Ragdoll } from './Ragdoll';
+import { CharacterControllerSystem } from '../CharacterControllerSystem/CharacterControllerSystem';
+import { GameLoop } from '../GameLoop/GameLoop';
+import { useAIStore } from '../../stores/aiStore';
+import { EventDispatcher } from '../../utils/EventDispatcher';
+import { EventMap, Unsubscribe } from '../../types/event.types';
+import { RagdollConfig } from '../../types/physics.types';
+
+export class RagdollSystem {
+  private static instance: RagdollSystem | null = null;
+  private ragdolls: Map<string, Ragdoll> = new Map();
+  private entityRagdolls: Map<string, string> = new Map(); // AI entity id to ragdoll id
+  private unregisterFromLoop: (() => void) | null = null;
+  private eventSubscriptions: Unsubscribe[] = [];
+
+  private constructor() {
+    this.setupEventListeners();
+  }
+
+  public static getInstance(): RagdollSystem {
+    if (!RagdollSystem.instance) {
+      RagdollSystem.instance = new RagdollSystem();
+    }
+    return RagdollSystem.instance;
+  }
+
+  private setupEventListeners(): void {
+    this.eventSubscriptions.push(
+      EventDispatcher.on("ENTITY_DIED", this.handleEntityDied.bind(this))
+    );
+  }
+
+  /**
+   * Builds a ragdoll for a skinned mesh. The skeleton stays animated until it is activated.
+   */
+  public addRagdoll(config: RagdollConfig): Ragdoll {
+    this.removeRagdoll(config.id);
+
+    const ragdoll = new Ragdoll(config);
+    this.ragdolls.set(config.id, ragdoll);
+    if (config.entityId) this.entityRagdolls.set(config.entityId, config.id);
+    return ragdoll;
+  }
+
+  public removeRagdoll(id: string): void {
+    const ragdoll = this.ragdolls.get(id);
+    if (!ragdoll) return;
+
+    ragdoll.deactivate();
+    this.ragdolls.delete(id);
+    this.entityRagdolls.forEach((ragdollId, entityId) => {
+      if (ragdollId === id) this.entityRagdolls.delete(entityId);
+    });
+  }
+
+  public getRagdoll(id: string): Ragdoll | null {
+    return this.ragdolls.get(id) ?? null;
+  }
+
+  /**
+   * Turns a character into a ragdoll. See Ragdoll.activate for how the velocity is used.
+   */
+  public activateRagdoll(id: string, velocity?: Vector3): void {
+    const ragdoll = this.ragdolls.get(id);
+    if (!ragdoll) {
+      console.warn(`RagdollSystem: No ragdoll "${id}" to activate.`);
+      return;
+    }
+    ragdoll.activate(velocity);
+  }
+
+  public start(): void {
+    if (this.unregisterFromLoop !== null) return;
+    const gameLoop = GameLoop.getInstance();
+    this.unregisterFromLoop = gameLoop.register({
+      id: 'ragdolls',
+      phase: 'lateUpdate',
+      update: ({ deltaTime }) => this.ragdolls.forEach(ragdoll => ragdoll.update(deltaTime))
+    });
+    gameLoop.start();
+  }
+
+  public stop(): void {
+    if (this.unregisterFromLoop !== null) {
+      this.unregisterFromLoop();
+      this.unregisterFromLoop = null;
+    }
+  }
+
+  public cleanup(): void {
+    this.stop();
+    this.eventSubscriptions.forEach(unsubscribe => unsubscribe());
+    this.eventSubscriptions = [];
+    Array.from(this.ragdolls.keys()).forEach(id => this.removeRagdoll(id));
+    RagdollSystem.instance = null;
+  }
+
+  private handleEntityDied(data: EventMap['ENTITY_DIED']): void {
+    const ragdollId = this.entityRagdolls.get(data.entityId);
+    if (!ragdollId) return;
+
+    // The capsule would fight the limbs for the same space
+    const controllerId = useAIStore.getState().entities[data.entityId]?.controllerId;
+    if (controllerId) CharacterControllerSystem.getInstance().removeController(controllerId);
+
+    this.activateRagdoll(ragdollId, data.velocity);
+  }
+}
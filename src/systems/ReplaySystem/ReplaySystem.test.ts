@@ -0,0 +1,230 @@
+/**
+ * @jest-environment node
+ */
+// src/systems/ReplaySystem/ReplaySystem.test.ts
+
+import { Vector3 } from 'three';
+import { ReplaySystem } from './ReplaySystem';
+import { HeadlessSimulation } from '../HeadlessSimulation/HeadlessSimulation';
+import { GameLoop } from '../GameLoop/GameLoop';
+import { PathfindingSystem } from '../PathfindingSystem/PathfindingSystem';
+import { IdleBehavior } from '../AISystem/behaviors/IdleBehavior';
+import { FleeBehavior } from '../AISystem/behaviors/FleeBehavior';
+import { fromSerializedEntity, toSerializedEntity } from '../AISystem/snapshot';
+import { useAIStore } from '../../stores/aiStore';
+import { useGameLoopStore } from '../../stores/gameLoopStore';
+import { useInputStore } from '../../stores/inputStore';
+import { useReplayStore } from '../../stores/replayStore';
+import { EventDispatcher } from '../../utils/EventDispatcher';
+import { Random } from '../../utils/Random';
+import { AIEntity } from '../../types/ai.types';
+import { InputEvent } from '../../types/input.types';
+import { SerializedData } from '../../types/serialization.types';
+
+const jumpInput = (value: number): InputEvent => ({
+  action: 'jump',
+  value,
+  device: 'keyboard',
+  timestamp: 0,
+  kind: 'action'
+});
+
+describe('ReplaySystem', () => {
+  let simulation: HeadlessSimulation;
+  let replay: ReplaySystem;
+  let trace: string[];
+
+  beforeEach(() => {
+    (GameLoop as any).instance = null;
+    (ReplaySystem as any).instance = null;
+    (EventDispatcher as any).events = {};
+    useGameLoopStore.getState().reset();
+    useInputStore.getState().reset();
+    useReplayStore.getState().reset();
+    Random.setSeed(42);
+
+    simulation = new HeadlessSimulation();
+    simulation.start();
+    replay = ReplaySystem.getInstance();
+
+    // A fixed-step system whose output depends on both input and randomness
+    trace = [];
+    GameLoop.getInstance().register({
+      id: 'gameplay',
+      phase: 'fixedUpdate',
+      update: ({ fixedFrame }) => {
+        const jumping = useInputStore.getState().activeActions.has('jump');
+        trace.push(`${fixedFrame}:${jumping ? 'jump' : 'idle'}:${Random.stream('gameplay').int(0, 99)}`);
+      }
+    });
+  });
+
+  afterEach(() => {
+    replay.cleanup();
+    simulation.dispose();
+  });
+
+  const recordSession = () => {
+    replay.startRecording();
+    simulation.step(3);
+    EventDispatcher.dispatch('INPUT_RECEIVED', jumpInput(1));
+    useInputStore.getState().setActiveAction('jump', true);
+    simulation.step(2);
+    EventDispatcher.dispatch('INPUT_RECEIVED', jumpInput(0));
+    useInputStore.getState().setActiveAction('jump', false);
+    simulation.step(3);
+    return replay.stopRecording();
+  };
+
+  it('should stamp inputs with the fixed step they first affect', () => {
+    const recording = recordSession();
+
+    expect(recording.frameCount).toBe(8);
+    expect(recording.inputs.map(input => [input.frame, input.value])).toEqual([[3, 1], [5, 0]]);
+    expect(recording.random.seed).toBe(Random.getState().seed);
+  });
+
+  it('should reproduce the recorded session frame by frame', () => {
+    const recording = recordSession();
+    const original = [...trace];
+    trace.length = 0;
+
+    replay.load(replay.importRecording(replay.exportRecording(recording)));
+    replay.step(recording.frameCount);
+
+    expect(trace).toEqual(original);
+    expect(useReplayStore.getState().frame).toBe(8);
+  });
+
+  it('should seek backwards by re-simulating from the start', () => {
+    const recording = recordSession();
+    const original = [...trace];
+    const restoreState = jest.fn();
+
+    replay.load(recording, { restoreState });
+    replay.seek(6);
+    trace.length = 0;
+    replay.seek(4);
+    replay.step(4);
+
+    expect(restoreState).toHaveBeenCalledTimes(2);
+    expect(trace).toEqual(original);
+  });
+
+  it('should play in real time and report when playback finishes', () => {
+    const recording = recordSession();
+    const started = jest.fn();
+    const finished = jest.fn();
+    EventDispatcher.on('REPLAY_PLAYBACK_STARTED', started);
+    EventDispatcher.on('REPLAY_PLAYBACK_FINISHED', finished);
+
+    replay.load(recording);
+    replay.play();
+    for (let i = 0; i < 10; i++) {
+      simulation.getClock().advance(50);
+    }
+
+    expect(started).toHaveBeenCalledWith({ frameCount: 8 }, 'REPLAY_PLAYBACK_STARTED');
+    expect(finished).toHaveBeenCalledTimes(1);
+    expect(useReplayStore.getState().status).toBe('paused');
+  });
+
+  it('should refuse to record during playback', () => {
+    const recording = recordSession();
+    replay.load(recording);
+
+    expect(() => replay.startRecording()).toThrow('Cannot record');
+  });
+
+  describe('with AI entities', () => {
+    const createEntity = (id: string, overrides: Partial<AIEntity> = {}): AIEntity => ({
+      id,
+      position: new Vector3(),
+      rotation: new Vector3(),
+      health: 100,
+      maxHealth: 100,
+      speed: 5,
+      currentBehavior: 'idle',
+      behaviors: [],
+      aggressionLevel: 1,
+      detectionRange: 10,
+      attackRange: 2,
+      lastAttackTime: 0,
+      attackCooldown: 1000,
+      ...overrides,
+    });
+
+    let idle: IdleBehavior;
+    let flee: FleeBehavior;
+
+    const saveState = (): Partial<SerializedData> => ({
+      systems: {
+        ai: {
+          time: GameLoop.getInstance().getFrameInfo().time * 1000,
+          entities: Object.values(useAIStore.getState().entities).map(entity => toSerializedEntity(entity)),
+        },
+      },
+    });
+
+    const restoreState = (state: Partial<SerializedData> | undefined) => {
+      const entities: Record<string, AIEntity> = {};
+      state?.systems?.ai?.entities.forEach(serialized => {
+        entities[serialized.id] = fromSerializedEntity(serialized, { idle, flee }, state.systems!.ai!.time);
+      });
+      useAIStore.setState({ entities });
+    };
+
+    beforeEach(() => {
+      (PathfindingSystem as any).instance = { findPath: (_from: Vector3, to: Vector3) => [to.clone()] };
+      idle = new IdleBehavior();
+      flee = new FleeBehavior();
+      useAIStore.setState({
+        entities: {
+          wanderer: createEntity('wanderer', { behaviors: [idle] }),
+          coward: createEntity('coward', { behaviors: [flee], currentBehavior: 'flee', targetId: 'player', health: 20 }),
+          player: createEntity('player', { position: new Vector3(3, 0, 0) }),
+        },
+      });
+
+      // Drives each entity's behavior the way the AI system does, on the loop's fixed steps
+      GameLoop.getInstance().register({
+        id: 'ai',
+        phase: 'fixedUpdate',
+        update: ({ deltaTime }) => {
+          Object.values(useAIStore.getState().entities).forEach(entity => {
+            const behavior = entity.behaviors[0];
+            if (!behavior) return;
+            behavior.execute(entity);
+            behavior.update(entity, deltaTime);
+          });
+        },
+      });
+    });
+
+    afterEach(() => {
+      (PathfindingSystem as any).instance = null;
+      useAIStore.setState({ entities: {} });
+    });
+
+    it('should make the same AI decisions when seeking as in the recorded session', () => {
+      // Start recording a few seconds in, with idle and escape timers already running
+      simulation.step(200);
+      replay.startRecording(saveState());
+      simulation.step(600);
+      const recording = replay.stopRecording();
+      const original = saveState();
+      const wandered = useAIStore.getState().entities.wanderer.position.length();
+      expect(wandered).toBeGreaterThan(0);
+
+      replay.load(recording, { restoreState });
+      replay.seek(recording.frameCount);
+      expect(saveState()).toEqual(original);
+
+      // Backwards and forwards again
+      replay.seek(250);
+      replay.seek(recording.frameCount);
+      expect(saveState()).toEqual(original);
+      expect(useAIStore.getState().entities.wanderer.position.length()).toBe(wandered);
+    });
+  });
+});
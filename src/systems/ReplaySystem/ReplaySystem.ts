@@ -0,0 +1,371 @@
+// src/systems/ReplaySystem/ReplaySystem.ts
+
+// Purpose: Records input against fixed-step frame numbers and plays it back deterministically.
+// A recording holds the RNG state and initial save state, so replaying from frame 0 reproduces the session.
+
+import { ReplayInput, ReplayPlaybackOptions, ReplayRecording } from '../../types/replay.types';
+import { SerializedData } from '../../types/serialization.types';
+import { InputEvent } from '../../types/input.types';
+import { Unsubscribe } from '../../types/event.types';
+import { useReplayStore } from '../../stores/replayStore';
+import { useInputStore } from '../../stores/inputStore';
+import { useGameLoopStore } from '../../stores/gameLoopStore';
+import { GameLoop } from '../GameLoop/GameLoop';
+import { EventDispatcher } from '../../utils/EventDispatcher';
+import { Random } from '../../utils/Random';
+import { Runtime } from '../../utils/Runtime';
+
+const REPLAY_VERSION = 1;
+const MAX_FRAMES_PER_TICK = 5;
+
+// Compact file layout: each input is a tuple instead of an object
+type PackedInput = [number, 0 | 1, string, number, string];
+
+interface ReplayFile extends Omit<ReplayRecording, 'inputs'> {
+  inputs: PackedInput[];
+}
+
+export class ReplaySystem {
+  private static instance: ReplaySystem | null = null;
+
+  // Recording
+  private inputs: ReplayInput[] = [];
+  private startFixedFrame: number = 0;
+  private recordingStart: Omit<ReplayRecording, 'inputs' | 'frameCount'> | null = null;
+  private inputSubscription: Unsubscribe | null = null;
+
+  // Playback
+  private recording: ReplayRecording | null = null;
+  private options: ReplayPlaybackOptions = {};
+  private inputCursor: number = 0;
+  private frameId: number | null = null;
+  private lastTime: number = 0;
+  private accumulator: number = 0;
+  private finishedNotified: boolean = false;
+  private loopWasManual: boolean = false;
+
+  private constructor() {}
+
+  public static getInstance(): ReplaySystem {
+    if (!ReplaySystem.instance) {
+      ReplaySystem.instance = new ReplaySystem();
+    }
+    return ReplaySystem.instance;
+  }
+
+  /**
+   * Starts capturing input. The RNG state is snapshotted now, so start recording before gameplay randomness is used.
+   * @param initialState Save data the session starts from, e.g. the loaded save.
+   */
+  public startRecording(initialState?: Partial<SerializedData>): void {
+    if (useReplayStore.getState().status !== 'idle') {
+      throw new Error('ReplaySystem: Cannot record while a replay is active');
+    }
+
+    this.inputs = [];
+    const { time, fixedFrame } = GameLoop.getInstance().getFrameInfo();
+    this.startFixedFrame = fixedFrame;
+    this.recordingStart = {
+      version: REPLAY_VERSION,
+      fixedTimeStep: useGameLoopStore.getState().fixedTimeStep,
+      startTime: time,
+      startFixedFrame: fixedFrame,
+      random: Random.getState(),
+      initialState
+    };
+    this.inputSubscription = EventDispatcher.on('INPUT_RECEIVED', this.handleInput);
+
+    useReplayStore.getState().setStatus('recording');
+    EventDispatcher.dispatch('REPLAY_RECORDING_STARTED', { seed: this.recordingStart.random.seed });
+  }
+
+  public stopRecording(): ReplayRecording {
+    if (!this.recordingStart) {
+      throw new Error('ReplaySystem: Not recording');
+    }
+
+    if (this.inputSubscription) {
+      this.inputSubscription();
+      this.inputSubscription = null;
+    }
+
+    const recording: ReplayRecording = {
+      ...this.recordingStart,
+      frameCount: this.currentRecordingFrame(),
+      inputs: this.inputs
+    };
+    this.recordingStart = null;
+    this.inputs = [];
+
+    useReplayStore.getState().setStatus('idle');
+    EventDispatcher.dispatch('REPLAY_RECORDING_STOPPED', { frameCount: recording.frameCount });
+    return recording;
+  }
+
+  public isRecording(): boolean {
+    return this.recordingStart !== null;
+  }
+
+  /**
+   * Encodes a recording as a compact JSON string for attaching to bug reports.
+   */
+  public exportRecording(recording: ReplayRecording): string {
+    const file: ReplayFile = {
+      ...recording,
+      inputs: recording.inputs.map(input => [
+        input.frame,
+        input.kind === 'axis' ? 1 : 0,
+        input.action,
+        input.value,
+        input.device
+      ])
+    };
+    return JSON.stringify(file);
+  }
+
+  public importRecording(data: string): ReplayRecording {
+    const file: ReplayFile = JSON.parse(data);
+    if (file.version !== REPLAY_VERSION) {
+      throw new Error(`ReplaySystem: Unsupported replay version ${file.version}`);
+    }
+
+    return {
+      ...file,
+      inputs: file.inputs.map(([frame, kind, action, value, device]) => ({
+        frame,
+        kind: kind === 1 ? 'axis' : 'action',
+        action: action as ReplayInput['action'],
+        value,
+        device: device as ReplayInput['device']
+      }))
+    };
+  }
+
+  /**
+   * Loads a recording for playback and rewinds the game to its first frame.
+   * Live input is suspended and the game loop only advances through the replay until stop() is called.
+   */
+  public load(recording: ReplayRecording, options: ReplayPlaybackOptions = {}): void {
+    if (this.isRecording()) {
+      throw new Error('ReplaySystem: Cannot play back while recording');
+    }
+
+    this.stop();
+    this.recording = {
+      ...recording,
+      inputs: [...recording.inputs].sort((a, b) => a.frame - b.frame)
+    };
+    this.options = options;
+
+    const gameLoop = GameLoop.getInstance();
+    this.loopWasManual = gameLoop.isManualStepping();
+    gameLoop.setManualStepping(true);
+    this.rewind();
+
+    useReplayStore.getState().setFrameCount(recording.frameCount);
+    useReplayStore.getState().setStatus('paused');
+    EventDispatcher.dispatch('REPLAY_PLAYBACK_STARTED', { frameCount: recording.frameCount });
+  }
+
+  /**
+   * Plays in real time at the given speed multiplier.
+   */
+  public play(speed: number = 1): void {
+    if (!this.recording) return;
+
+    useReplayStore.getState().setSpeed(speed);
+    useReplayStore.getState().setStatus('playing');
+    if (this.frameId === null) {
+      this.lastTime = Runtime.now();
+      this.accumulator = 0;
+      this.frameId = Runtime.clock.requestFrame(this.tick);
+    }
+  }
+
+  public pause(): void {
+    if (!this.recording) return;
+    this.cancelTick();
+    useReplayStore.getState().setStatus('paused');
+  }
+
+  /**
+   * Runs the given number of frames, including render phases.
+   */
+  public step(frames: number = 1): void {
+    if (!this.recording) return;
+    for (let i = 0; i < frames && !this.isFinished(); i++) {
+      this.runFrame(true);
+    }
+    this.checkFinished();
+  }
+
+  /**
+   * Jumps to a frame. Seeking backwards restores the initial state and re-simulates from frame 0.
+   */
+  public seek(frame: number): void {
+    if (!this.recording) return;
+
+    const target = Math.max(0, Math.min(frame, this.recording.frameCount));
+    if (target < useReplayStore.getState().frame) {
+      this.rewind();
+    }
+
+    // Fast-forward through fixed steps only, then run one full frame at the target if possible
+    while (useReplayStore.getState().frame < target - 1) {
+      this.runFrame(false);
+    }
+    if (useReplayStore.getState().frame < target) {
+      this.runFrame(true);
+    }
+    this.checkFinished();
+  }
+
+  /**
+   * Ends playback, restores live input and hands the game loop back to its own frame scheduling.
+   */
+  public stop(): void {
+    if (!this.recording) return;
+
+    this.cancelTick();
+    const frame = useReplayStore.getState().frame;
+    this.recording = null;
+    this.options = {};
+
+    // Headless runs keep stepping manually; otherwise the loop resumes scheduling frames
+    if (!this.loopWasManual) {
+      const gameLoop = GameLoop.getInstance();
+      gameLoop.setManualStepping(false);
+      gameLoop.start();
+    }
+
+    useReplayStore.getState().reset();
+    EventDispatcher.dispatch('REPLAY_PLAYBACK_STOPPED', { frame });
+  }
+
+  public cleanup(): void {
+    if (this.isRecording()) {
+      this.stopRecording();
+    }
+    this.stop();
+  }
+
+  private handleInput = (event: InputEvent): void => {
+    this.inputs.push({
+      frame: this.currentRecordingFrame(),
+      kind: event.kind || 'action',
+      action: event.action,
+      value: event.value,
+      device: event.device
+    });
+  };
+
+  /**
+   * The fixed step that will run next, relative to the start of the recording.
+   * Input arriving now is first seen by that step.
+   */
+  private currentRecordingFrame(): number {
+    return GameLoop.getInstance().getFrameInfo().fixedFrame - this.startFixedFrame;
+  }
+
+  private rewind(): void {
+    const recording = this.recording!;
+
+    const gameLoop = GameLoop.getInstance();
+    gameLoop.reset();
+    gameLoop.setSimulationTime(recording.startTime ?? 0, recording.startFixedFrame ?? 0);
+    useGameLoopStore.getState().setFixedTimeStep(recording.fixedTimeStep);
+
+    useInputStore.getState().reset();
+    Random.setState(recording.random);
+    if (this.options.restoreState) {
+      this.options.restoreState(recording.initialState);
+    }
+
+    this.inputCursor = 0;
+    this.finishedNotified = false;
+    useReplayStore.getState().setFrame(0);
+  }
+
+  /**
+   * Applies the inputs recorded for the current frame, then advances the loop by one fixed step.
+   * @param render Whether to run the variable-step phases too.
+   */
+  private runFrame(render: boolean): void {
+    const recording = this.recording!;
+    const frame = useReplayStore.getState().frame;
+
+    while (this.inputCursor < recording.inputs.length && recording.inputs[this.inputCursor].frame <= frame) {
+      this.applyInput(recording.inputs[this.inputCursor]);
+      this.inputCursor++;
+    }
+
+    const gameLoop = GameLoop.getInstance();
+    if (render) {
+      gameLoop.advance(recording.fixedTimeStep);
+    } else {
+      gameLoop.stepFixed(1);
+    }
+
+    useReplayStore.getState().setFrame(frame + 1);
+  }
+
+  private applyInput(input: ReplayInput): void {
+    const inputStore = useInputStore.getState();
+    if (input.kind === 'axis') {
+      inputStore.setAxisValue(input.action, input.value);
+    } else {
+      inputStore.setActiveAction(input.action, input.value > 0);
+    }
+    inputStore.setCurrentDevice(input.device);
+  }
+
+  private tick = (): void => {
+    const now = Runtime.now();
+    const { speed } = useReplayStore.getState();
+    this.accumulator += ((now - this.lastTime) / 1000) * speed;
+    this.lastTime = now;
+
+    const fixedTimeStep = this.recording!.fixedTimeStep;
+    let frames = 0;
+    while (this.accumulator >= fixedTimeStep && frames < MAX_FRAMES_PER_TICK && !this.isFinished()) {
+      this.runFrame(true);
+      this.accumulator -= fixedTimeStep;
+      frames++;
+    }
+    if (frames === MAX_FRAMES_PER_TICK) {
+      this.accumulator = 0;
+    }
+
+    this.frameId = null;
+    if (!this.checkFinished()) {
+      this.frameId = Runtime.clock.requestFrame(this.tick);
+    }
+  };
+
+  private cancelTick(): void {
+    if (this.frameId !== null) {
+      Runtime.clock.cancelFrame(this.frameId);
+      this.frameId = null;
+    }
+  }
+
+  private isFinished(): boolean {
+    return !this.recording || useReplayStore.getState().frame >= this.recording.frameCount;
+  }
+
+  /**
+   * Pauses at the last frame and notifies listeners once per pass.
+   * @returns Whether the replay has finished.
+   */
+  private checkFinished(): boolean {
+    if (!this.recording || !this.isFinished()) return false;
+
+    this.cancelTick();
+    useReplayStore.getState().setStatus('paused');
+    if (!this.finishedNotified) {
+      this.finishedNotified = true;
+      EventDispatcher.dispatch('REPLAY_PLAYBACK_FINISHED', { frameCount: this.recording.frameCount });
+    }
+    return true;
+  }
+}
@@ -17,6 +17,7 @@ import { useLogicStore } from "../../stores/logicStore";
 import { GameEvent, LogicComponent } from "../../types/logic.types";
 import { EventDispatcher } from "../../utils/EventDispatcher";
 import { MemorySystemInstance } from "../MemorySystem/MemorySystem"; // Assuming this import exists
+import { EntityRegistry } from "../EntityRegistry/EntityRegistry";
 
 /**
  * Singleton Class: SceneGraphSystemClass
@@ -30,6 +31,7 @@ export class SceneGraphSystemClass {
   private logicComponents: Record<string, LogicComponent> = {};
   private eventInterval: NodeJS.Timeout | null = null;
   private resetGameListener: (() => void) | null = null;
+  private unregisterEntityCleanup: (() => void) | null = null;
 
   // Separate map to manage Object3D instances outside of the Zustand store
   private object3DMap: Record<string, Object3D> = {};
@@ -56,6 +58,12 @@ export class SceneGraphSystemClass {
     // Subscribe to global events if necessary
     EventDispatcher.on("RESET_GAME", this.resetGameListener);
 
+    // Detach the Object3D too when an entity owning a scene node is destroyed
+    this.unregisterEntityCleanup = EntityRegistry.getInstance().registerCleanup(
+      "SceneNode",
+      ({ nodeId }) => this.removeObject(nodeId)
+    );
+
     this.processEvents(); // Start processing events
   }
 
@@ -398,6 +406,11 @@ export class SceneGraphSystemClass {
       this.resetGameListener = null;
     }
 
+    if (this.unregisterEntityCleanup) {
+      this.unregisterEntityCleanup();
+      this.unregisterEntityCleanup = null;
+    }
+
     if (this.config.debug) {
       console.log("SceneGraphSystem: Cleanup complete.");
     }
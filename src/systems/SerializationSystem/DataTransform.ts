@@ -67,9 +67,9 @@ export class DataTransform {
 	private async encrypt(data: string): Promise<string> {
 		const encoder=new TextEncoder();
 		const key=await this.deriveKey();
-		const iv=window.crypto.getRandomValues(new Uint8Array(12));
+		const iv=globalThis.crypto.getRandomValues(new Uint8Array(12));
 
-		const encryptedData=await window.crypto.subtle.encrypt(
+		const encryptedData=await globalThis.crypto.subtle.encrypt(
 			{name: 'AES-GCM',iv},
 			key,
 			encoder.encode(data)
@@ -85,7 +85,7 @@ export class DataTransform {
 		const {iv,data: encryptedData}=JSON.parse(data);
 		const key=await this.deriveKey();
 
-		const decryptedData=await window.crypto.subtle.decrypt(
+		const decryptedData=await globalThis.crypto.subtle.decrypt(
 			{name: 'AES-GCM',iv: new Uint8Array(iv)},
 			key,
 			new Uint8Array(encryptedData)
@@ -96,7 +96,7 @@ export class DataTransform {
 
 	private async deriveKey(): Promise<CryptoKey> {
 		const encoder=new TextEncoder();
-		const keyMaterial=await window.crypto.subtle.importKey(
+		const keyMaterial=await globalThis.crypto.subtle.importKey(
 			'raw',
 			encoder.encode(this.encryptionKey),
 			'PBKDF2',
@@ -104,7 +104,7 @@ export class DataTransform {
 			['deriveBits','deriveKey']
 		);
 
-		return window.crypto.subtle.deriveKey(
+		return globalThis.crypto.subtle.deriveKey(
 			{
 				name: 'PBKDF2',
 				salt: encoder.encode('salt'),
@@ -128,7 +128,7 @@ export class DataTransform {
 	public async generateChecksum(data: SerializedData): Promise<string> {
 		const encoder=new TextEncoder();
 		const dataBuffer=encoder.encode(JSON.stringify(data));
-		const hashBuffer=await window.crypto.subtle.digest('SHA-256',dataBuffer);
+		const hashBuffer=await globalThis.crypto.subtle.digest('SHA-256',dataBuffer);
 		return Array.from(new Uint8Array(hashBuffer))
 			.map(b => b.toString(16).padStart(2,'0'))
 			.join('');
@@ -7,6 +7,8 @@ import {
 import { useSerializationStore } from '../../stores/serializationStore';
 import { DataTransform } from './DataTransform';
 import { EventDispatcher } from '../../utils/EventDispatcher';
+import { Runtime } from '../../utils/Runtime';
+import { Random } from '../../utils/Random';
 
 export class SerializationSystem {
   private static instance: SerializationSystem | null = null;
@@ -39,7 +41,10 @@ export class SerializationSystem {
       const fullData: SerializedData = {
         version: '1.0.0',
         timestamp: Date.now(),
-        systems: data.systems || {},
+        systems: {
+          random: Random.getState(),
+          ...data.systems
+        },
         state: data.state || {},
         metadata: {
           playtime: this.calculatePlaytime(),
@@ -94,6 +99,11 @@ export class SerializationSystem {
         throw new Error('Save data integrity check failed');
       }
 
+      // Resume random sequences exactly where the save left them
+      if (data.systems.random) {
+        Random.setState(data.systems.random);
+      }
+
       useSerializationStore.getState().setPending(false);
       EventDispatcher.dispatch('GAME_LOADED', { slot, timestamp: Date.now() });
 
@@ -123,7 +133,7 @@ export class SerializationSystem {
 
   private async saveToStorage(slot: string, data: string): Promise<void> {
     try {
-      localStorage.setItem(`save_${slot}`, data);
+      Runtime.storage.setItem(`save_${slot}`, data);
     } catch (error) {
       if (error instanceof Error) {
         throw new Error(`Failed to save game data: ${error.message}`);
@@ -133,11 +143,11 @@ export class SerializationSystem {
   }
 
   private async loadFromStorage(slot: string): Promise<string | null> {
-    return localStorage.getItem(`save_${slot}`);
+    return Runtime.storage.getItem(`save_${slot}`);
   }
 
   private async removeFromStorage(slot: string): Promise<void> {
-    localStorage.removeItem(`save_${slot}`);
+    Runtime.storage.removeItem(`save_${slot}`);
   }
 
   private calculatePlaytime(): number {
@@ -185,7 +195,7 @@ export class SerializationSystem {
       };
 
       const serialized = await this.dataTransform.serialize(backupData);
-      localStorage.setItem('game_backup', serialized);
+      Runtime.storage.setItem('game_backup', serialized);
 
       EventDispatcher.dispatch('BACKUP_CREATED', { timestamp: Date.now() });
     } catch (error) {
@@ -195,7 +205,7 @@ export class SerializationSystem {
 
   public async restoreFromBackup(): Promise<void> {
     try {
-      const backupData = localStorage.getItem('game_backup');
+      const backupData = Runtime.storage.getItem('game_backup');
       if (!backupData) {
         throw new Error('No backup found');
       }
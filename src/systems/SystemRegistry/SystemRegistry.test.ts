@@ -0,0 +1,118 @@
+// src/systems/SystemRegistry/SystemRegistry.test.ts
+
+import { SystemRegistry } from './SystemRegistry';
+import { GameLoop } from '../GameLoop/GameLoop';
+import { useGameLoopStore } from '../../stores/gameLoopStore';
+import { EventDispatcher } from '../../utils/EventDispatcher';
+import { GameSystem } from '../../types/system.types';
+
+describe('SystemRegistry', () => {
+  let registry: SystemRegistry;
+  let calls: string[];
+
+  const tracked = (id: string, dependencies?: string[]): GameSystem => ({
+    id,
+    dependencies,
+    init: () => { calls.push(`init:${id}`); },
+    start: () => { calls.push(`start:${id}`); },
+    pause: () => { calls.push(`pause:${id}`); },
+    resume: () => { calls.push(`resume:${id}`); },
+    dispose: () => { calls.push(`dispose:${id}`); }
+  });
+
+  beforeEach(() => {
+    (GameLoop as any).instance = null;
+    (SystemRegistry as any).instance = null;
+    (EventDispatcher as any).events = {};
+    useGameLoopStore.getState().reset();
+    jest.spyOn(window, 'requestAnimationFrame').mockImplementation(() => 1);
+    jest.spyOn(window, 'cancelAnimationFrame').mockImplementation(() => {});
+    registry = SystemRegistry.getInstance();
+    calls = [];
+  });
+
+  afterEach(() => {
+    registry.cleanup();
+    GameLoop.getInstance().cleanup();
+    jest.restoreAllMocks();
+  });
+
+  it('should order systems after their dependencies', () => {
+    registry.register(tracked('ai', ['physics', 'navigation']));
+    registry.register(tracked('navigation', ['physics']));
+    registry.register(tracked('physics'));
+    registry.register(tracked('audio'));
+
+    expect(registry.getStartupOrder()).toEqual(['physics', 'navigation', 'ai', 'audio']);
+  });
+
+  it('should reject missing and circular dependencies', () => {
+    registry.register(tracked('ai', ['physics']));
+    expect(() => registry.getStartupOrder()).toThrow('unregistered system "physics"');
+
+    registry.register(tracked('physics', ['ai']));
+    expect(() => registry.getStartupOrder()).toThrow('Circular dependency');
+  });
+
+  it('should start in dependency order and dispose in reverse', async () => {
+    registry.register(tracked('ai', ['physics']));
+    registry.register(tracked('physics'));
+
+    await registry.initAll();
+    registry.startAll();
+    registry.disposeAll();
+
+    expect(calls).toEqual([
+      'init:physics', 'init:ai',
+      'start:physics', 'start:ai',
+      'dispose:ai', 'dispose:physics'
+    ]);
+    expect(registry.getStatus('ai')).toBe('registered');
+  });
+
+  it('should drive update hooks from the game loop in the requested phase', async () => {
+    const update = jest.fn();
+    registry.register({ id: 'weather', updatePhase: 'lateUpdate', update });
+
+    await registry.initAll();
+    registry.startAll();
+    GameLoop.getInstance().advance(0.016);
+
+    expect(GameLoop.getInstance().getExecutionOrder('lateUpdate')).toEqual(['weather']);
+    expect(update).toHaveBeenCalledTimes(1);
+
+    registry.unregister('weather');
+    expect(GameLoop.getInstance().isRegistered('weather')).toBe(false);
+  });
+
+  it('should forward game loop pause and resume', async () => {
+    registry.register(tracked('physics'));
+    await registry.initAll();
+    registry.startAll();
+
+    GameLoop.getInstance().pause();
+    expect(registry.getStatus('physics')).toBe('paused');
+    GameLoop.getInstance().resume();
+
+    expect(calls.slice(-2)).toEqual(['pause:physics', 'resume:physics']);
+    expect(registry.getStatus('physics')).toBe('running');
+  });
+
+  it('should name the system whose init failed', async () => {
+    registry.register({ id: 'network', init: async () => { throw new Error('offline'); } });
+
+    await expect(registry.initAll()).rejects.toThrow('"network" failed to initialize: offline');
+  });
+
+  it('should serialize and restore system state by id', () => {
+    let score = 10;
+    registry.register({ id: 'score', serialize: () => score, deserialize: data => { score = data as number; } });
+
+    const saved = registry.serialize();
+    score = 0;
+    registry.deserialize(saved);
+
+    expect(saved).toEqual({ score: 10 });
+    expect(score).toBe(10);
+  });
+});
@@ -0,0 +1,245 @@
+// src/systems/SystemRegistry/SystemRegistry.ts
+
+// Purpose: Runs pluggable game systems through one lifecycle.
+// Startup follows declared dependencies; shutdown runs in reverse. Update hooks are driven by the GameLoop.
+
+import { GameSystem, SystemContext, SystemStatus } from '../../types/system.types';
+import { Unsubscribe } from '../../types/event.types';
+import { GameLoop } from '../GameLoop/GameLoop';
+import { EventDispatcher } from '../../utils/EventDispatcher';
+
+interface SystemEntry {
+  system: GameSystem;
+  status: SystemStatus;
+  unregisterFromLoop: (() => void) | null;
+}
+
+export class SystemRegistry {
+  private static instance: SystemRegistry | null = null;
+  private entries: Map<string, SystemEntry> = new Map();
+  private order: string[] | null = null;
+  private initialized: string[] = [];
+  private eventSubscriptions: Unsubscribe[] = [];
+  private context: SystemContext = {
+    get: <T extends GameSystem = GameSystem>(id: string) => this.get<T>(id)
+  };
+
+  private constructor() {
+    this.eventSubscriptions = [
+      EventDispatcher.on('GAME_LOOP_PAUSED', () => this.pauseAll()),
+      EventDispatcher.on('GAME_LOOP_RESUMED', () => this.resumeAll()),
+      EventDispatcher.on('RESET_GAME', () => this.resetAll())
+    ];
+  }
+
+  public static getInstance(): SystemRegistry {
+    if (!SystemRegistry.instance) {
+      SystemRegistry.instance = new SystemRegistry();
+    }
+    return SystemRegistry.instance;
+  }
+
+  /**
+   * Adds a system. Systems registered after startup are not started automatically; call initAll/startAll again.
+   * @returns A handle that disposes and removes the system.
+   */
+  public register(system: GameSystem): () => void {
+    if (this.entries.has(system.id)) {
+      throw new Error(`SystemRegistry: System "${system.id}" is already registered`);
+    }
+
+    this.entries.set(system.id, { system, status: 'registered', unregisterFromLoop: null });
+    this.order = null;
+    return () => this.unregister(system.id);
+  }
+
+  public unregister(id: string): void {
+    const entry = this.entries.get(id);
+    if (!entry) return;
+
+    this.disposeEntry(entry);
+    this.entries.delete(id);
+    this.order = null;
+  }
+
+  public get<T extends GameSystem = GameSystem>(id: string): T | undefined {
+    return this.entries.get(id)?.system as T | undefined;
+  }
+
+  public getStatus(id: string): SystemStatus | undefined {
+    return this.entries.get(id)?.status;
+  }
+
+  /**
+   * Returns system ids with every system after its dependencies.
+   * Ties keep registration order.
+   */
+  public getStartupOrder(): string[] {
+    if (!this.order) {
+      this.order = this.resolveOrder();
+    }
+    return [...this.order];
+  }
+
+  /**
+   * Initializes registered systems in dependency order, awaiting async init hooks one at a time.
+   */
+  public async initAll(): Promise<void> {
+    for (const id of this.getStartupOrder()) {
+      const entry = this.entries.get(id)!;
+      if (entry.status !== 'registered') continue;
+
+      try {
+        await entry.system.init?.(this.context);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`SystemRegistry: "${id}" failed to initialize: ${message}`);
+      }
+      entry.status = 'initialized';
+      this.initialized.push(id);
+    }
+  }
+
+  /**
+   * Starts initialized systems in dependency order and hooks their update into the game loop.
+   */
+  public startAll(): void {
+    const gameLoop = GameLoop.getInstance();
+
+    this.getStartupOrder().forEach(id => {
+      const entry = this.entries.get(id)!;
+      if (entry.status !== 'initialized') return;
+
+      const { system } = entry;
+      system.start?.();
+
+      if (system.update) {
+        const update = system.update;
+        entry.unregisterFromLoop = gameLoop.register({
+          id: system.id,
+          phase: system.updatePhase || 'update',
+          after: system.dependencies,
+          runWhilePaused: system.runWhilePaused,
+          update: context => update.call(system, context)
+        });
+      }
+
+      entry.status = 'running';
+      EventDispatcher.dispatch('SYSTEM_STARTED', { systemId: id });
+    });
+
+    gameLoop.start();
+  }
+
+  public pauseAll(): void {
+    this.getStartupOrder().forEach(id => {
+      const entry = this.entries.get(id)!;
+      if (entry.status !== 'running') return;
+      entry.system.pause?.();
+      entry.status = 'paused';
+    });
+  }
+
+  public resumeAll(): void {
+    this.getStartupOrder().forEach(id => {
+      const entry = this.entries.get(id)!;
+      if (entry.status !== 'paused') return;
+      entry.system.resume?.();
+      entry.status = 'running';
+    });
+  }
+
+  public resetAll(): void {
+    this.getStartupOrder().forEach(id => {
+      const entry = this.entries.get(id)!;
+      if (entry.status === 'running' || entry.status === 'paused') {
+        entry.system.reset?.();
+      }
+    });
+  }
+
+  /**
+   * Disposes every initialized system in reverse init order. Systems stay registered and can be initialized again.
+   */
+  public disposeAll(): void {
+    [...this.initialized].reverse().forEach(id => {
+      this.disposeEntry(this.entries.get(id)!);
+    });
+  }
+
+  /**
+   * Collects the state of every system that implements serialize, keyed by system id.
+   */
+  public serialize(): Record<string, unknown> {
+    const data: Record<string, unknown> = {};
+    this.getStartupOrder().forEach(id => {
+      const { system } = this.entries.get(id)!;
+      if (system.serialize) {
+        data[id] = system.serialize();
+      }
+    });
+    return data;
+  }
+
+  public deserialize(data: Record<string, unknown>): void {
+    this.getStartupOrder().forEach(id => {
+      const { system } = this.entries.get(id)!;
+      if (system.deserialize && id in data) {
+        system.deserialize(data[id]);
+      }
+    });
+  }
+
+  public cleanup(): void {
+    this.disposeAll();
+    this.entries.clear();
+    this.order = null;
+    this.eventSubscriptions.forEach(unsubscribe => unsubscribe());
+    this.eventSubscriptions = [];
+    SystemRegistry.instance = null;
+  }
+
+  private disposeEntry(entry: SystemEntry): void {
+    if (entry.status === 'registered') return;
+
+    if (entry.unregisterFromLoop) {
+      entry.unregisterFromLoop();
+      entry.unregisterFromLoop = null;
+    }
+    entry.system.dispose?.();
+    entry.status = 'registered';
+    this.initialized = this.initialized.filter(id => id !== entry.system.id);
+    EventDispatcher.dispatch('SYSTEM_DISPOSED', { systemId: entry.system.id });
+  }
+
+  private resolveOrder(): string[] {
+    const remaining = Array.from(this.entries.values()).map(entry => entry.system);
+    const placed: Set<string> = new Set();
+    const ordered: string[] = [];
+
+    remaining.forEach(system => {
+      (system.dependencies || []).forEach(dependency => {
+        if (!this.entries.has(dependency)) {
+          throw new Error(`SystemRegistry: "${system.id}" depends on unregistered system "${dependency}"`);
+        }
+      });
+    });
+
+    while (remaining.length > 0) {
+      const index = remaining.findIndex(system =>
+        (system.dependencies || []).every(dependency => placed.has(dependency))
+      );
+      if (index === -1) {
+        throw new Error(
+          `SystemRegistry: Circular dependency between ${remaining.map(system => system.id).join(', ')}`
+        );
+      }
+
+      const [next] = remaining.splice(index, 1);
+      placed.add(next.id);
+      ordered.push(next.id);
+    }
+
+    return ordered;
+  }
+}
@@ -0,0 +1,85 @@
+// src/systems/SystemRegistry/coreSystems.ts
+
+// Wraps the built-in singletons as GameSystem plugins so the registry owns their lifecycle.
+
+import { GameSystem } from '../../types/system.types';
+import { PhysicsConfig } from '../../types/physics.types';
+import { PhysicsSystemManager } from '../PhysicsSystem/PhysicsSystem';
+import { SceneGraphSystemClass } from '../SceneGraphSystem/SceneGraphSystem';
+import { PostProcessingSystem } from '../PostProcessingSystem/PostProcessingSystem';
+import { AISystem } from '../AISystem/AISystem';
+import { PerceptionSystem } from '../PerceptionSystem/PerceptionSystem';
+import { CharacterControllerSystem } from '../CharacterControllerSystem/CharacterControllerSystem';
+import { VehicleSystem } from '../VehicleSystem/VehicleSystem';
+import { RagdollSystem } from '../RagdollSystem/RagdollSystem';
+import { SerializationSystem } from '../SerializationSystem/SerializationSystem';
+
+export interface CoreSystemsConfig {
+  physics: PhysicsConfig;
+  sceneGraph: SceneGraphSystemClass;
+}
+
+export const createCoreSystems = (config: CoreSystemsConfig): GameSystem[] => {
+  const physics = PhysicsSystemManager.getInstance(config.physics);
+  const postProcessing = PostProcessingSystem.getInstance();
+  const ai = AISystem.getInstance();
+  const perception = PerceptionSystem.getInstance();
+  const characterControllers = CharacterControllerSystem.getInstance();
+  const vehicles = VehicleSystem.getInstance();
+  const ragdolls = RagdollSystem.getInstance();
+  const serialization = SerializationSystem.getInstance();
+
+  return [
+    {
+      id: 'physics',
+      init: () => physics.initialize(),
+      start: () => physics.start(),
+      dispose: () => physics.cleanup()
+    },
+    {
+      id: 'sceneGraph',
+      dispose: () => config.sceneGraph.cleanup()
+    },
+    {
+      id: 'postProcessing',
+      dependencies: ['sceneGraph'],
+      start: () => postProcessing.start(),
+      dispose: () => postProcessing.cleanup()
+    },
+    {
+      id: 'ai',
+      dependencies: ['physics', 'sceneGraph'],
+      start: () => ai.start(),
+      dispose: () => ai.cleanup()
+    },
+    {
+      id: 'perception',
+      dependencies: ['physics', 'ai'],
+      start: () => perception.start(),
+      dispose: () => perception.cleanup()
+    },
+    {
+      id: 'characterControllers',
+      dependencies: ['physics'],
+      start: () => characterControllers.start(),
+      dispose: () => characterControllers.cleanup()
+    },
+    {
+      id: 'vehicles',
+      dependencies: ['physics'],
+      start: () => vehicles.start(),
+      dispose: () => vehicles.cleanup()
+    },
+    {
+      id: 'ragdolls',
+      dependencies: ['physics'],
+      start: () => ragdolls.start(),
+      dispose: () => ragdolls.cleanup()
+    },
+    {
+      id: 'serialization',
+      start: () => serialization.enableAutoSave(),
+      dispose: () => serialization.cleanup()
+    }
+  ];
+};
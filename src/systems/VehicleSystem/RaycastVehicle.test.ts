@@ -0,0 +1,131 @@
+/**
+ * @jest-environment node
+ */
+// src/systems/VehicleSystem/RaycastVehicle.test.ts
+
+import RAPIER from '@dimforge/rapier3d-compat';
+import { Vector3 } from 'three';
+import { RaycastVehicle, getTireFriction } from './RaycastVehicle';
+import { PhysicsSystemManager } from '../PhysicsSystem/PhysicsSystem';
+import { RapierBackend } from '../PhysicsSystem/backends/RapierBackend';
+import { usePhysicsStore } from '../../stores/physicsStore';
+import { PhysicsBody, VehicleConfig } from '../../types/physics.types';
+
+const wheel = (x: number, z: number, front: boolean) => ({
+  position: new Vector3(x, -0.3, z),
+  radius: 0.35,
+  suspensionRestLength: 0.4,
+  steering: front,
+  driven: !front,
+});
+
+const car: VehicleConfig = {
+  id: 'car',
+  position: new Vector3(0, 1, 0),
+  mass: 1200,
+  wheels: [wheel(-0.8, -1.4, true), wheel(0.8, -1.4, true), wheel(-0.8, 1.4, false), wheel(0.8, 1.4, false)],
+  engineTorque: 2000,
+  brakeTorque: 3000,
+  maxSteerAngle: 0.5,
+};
+
+describe('RaycastVehicle', () => {
+  let world: RAPIER.World;
+  let vehicle: RaycastVehicle;
+  let chassis: RAPIER.RigidBody;
+
+  const register = (body: PhysicsBody, rigidBody: RAPIER.RigidBody) => {
+    usePhysicsStore.getState().addBody(body);
+    PhysicsSystemManager.getInstance().registerBodyHandle(usePhysicsStore.getState().bodies[body.id], rigidBody);
+  };
+
+  const step = (count: number) => {
+    for (let i = 0; i < count; i++) {
+      vehicle.update(world.timestep);
+      world.step();
+    }
+  };
+
+  beforeAll(async () => {
+    await RAPIER.init();
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    usePhysicsStore.setState({ bodies: {} });
+    world = new RAPIER.World({ x: 0, y: -9.81, z: 0 });
+    PhysicsSystemManager.getInstance().attachBackend(new RapierBackend(world, RAPIER));
+
+    const ground = world.createRigidBody(RAPIER.RigidBodyDesc.fixed().setTranslation(0, -0.5, 0));
+    world.createCollider(RAPIER.ColliderDesc.cuboid(200, 0.5, 200), ground);
+    register({ id: 'ground', type: 'static', shape: 'box', position: new Vector3(0, -0.5, 0), rotation: new Vector3(), args: [400, 1, 400] }, ground);
+
+    chassis = world.createRigidBody(RAPIER.RigidBodyDesc.dynamic().setTranslation(0, 1, 0));
+    world.createCollider(RAPIER.ColliderDesc.cuboid(0.9, 0.3, 2).setMass(1200), chassis);
+    register({ id: 'car', type: 'dynamic', shape: 'box', position: new Vector3(0, 1, 0), rotation: new Vector3(), args: [1.8, 0.6, 4], mass: 1200 }, chassis);
+
+    vehicle = new RaycastVehicle(car);
+  });
+
+  afterEach(() => {
+    (PhysicsSystemManager as any).instance = null;
+    world.free();
+    jest.restoreAllMocks();
+  });
+
+  it('should rise to the peak friction and fall off towards sliding', () => {
+    const curve = { peakSlip: 0.1, peakFriction: 1.2, slideFriction: 0.7 };
+
+    expect(getTireFriction(curve, 0.05)).toBeCloseTo(0.6);
+    expect(getTireFriction(curve, -0.1)).toBeCloseTo(1.2);
+    expect(getTireFriction(curve, 0.3)).toBeLessThan(0.8);
+    expect(getTireFriction(curve, 2)).toBeCloseTo(0.7);
+  });
+
+  it('should settle on its springs with each wheel carrying a quarter of the weight', () => {
+    step(240);
+
+    // 1200 kg over four 40000 N/m springs compresses each by about 7.4 cm
+    const compressed = 0.4 - (1200 * 9.81) / 4 / 40000;
+    expect(chassis.translation().y).toBeCloseTo(0.35 + compressed + 0.3, 2);
+    vehicle.getState().wheels.forEach(state => {
+      expect(state.isGrounded).toBe(true);
+      expect(state.groundBodyId).toBe('ground');
+      expect(state.suspensionLength).toBeCloseTo(compressed, 2);
+    });
+    expect(vehicle.getWheelTransform(0)!.position.y).toBeCloseTo(0.35, 2);
+  });
+
+  it('should accelerate under throttle and stop under the brakes', () => {
+    step(60);
+    vehicle.setControls({ throttle: 1 });
+    step(120);
+
+    const { speed } = vehicle.getState();
+    expect(speed).toBeGreaterThan(5);
+    expect(chassis.translation().z).toBeLessThan(-4);
+    expect(Math.abs(chassis.translation().x)).toBeLessThan(0.05);
+    expect(vehicle.getState().wheels[2].rotation).not.toBe(0);
+
+    vehicle.setControls({ throttle: 0, brake: 1 });
+    step(180);
+    expect(Math.abs(vehicle.getState().speed)).toBeLessThan(0.1);
+  });
+
+  it('should turn right with positive steering without sliding sideways', () => {
+    step(60);
+    vehicle.setControls({ throttle: 1 });
+    step(90);
+    vehicle.setControls({ throttle: 0.2, steering: 1 });
+    step(60);
+
+    const forward = new Vector3(0, 0, -1).applyQuaternion(vehicle.getChassisTransform()!.quaternion);
+    expect(forward.x).toBeGreaterThan(0.3);
+    expect(vehicle.getState().wheels[0].steerAngle).toBe(0.5);
+
+    const { x, y, z } = chassis.linvel();
+    const velocity = new Vector3(x, y, z);
+    const right = new Vector3(1, 0, 0).applyQuaternion(vehicle.getChassisTransform()!.quaternion);
+    expect(Math.abs(velocity.dot(right))).toBeLessThan(0.2 * velocity.length());
+  });
+});
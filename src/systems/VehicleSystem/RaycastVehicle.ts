@@ -0,0 +1,259 @@
+// src/systems/VehicleSystem/RaycastVehicle.ts
+
+// Purpose: A car built from one dynamic chassis body and a ray per wheel. Each ray finds the ground, a spring and
+// damper hold the chassis up, and tire forces push it along. Works the same on both engines because it only relies
+// on the PhysicsSystemManager queries and impulses.
+
+import { Quaternion, Vector3 } from 'three';
+import { PhysicsSystemManager } from '../PhysicsSystem/PhysicsSystem';
+import { ALL_COLLISION_LAYERS } from '../PhysicsSystem/collisionFiltering';
+import {
+  BodyState,
+  BodyTransform,
+  PhysicsQueryFilter,
+  TireFrictionCurve,
+  VehicleConfig,
+  VehicleControls,
+  VehicleState,
+  VehicleWheelConfig,
+  VehicleWheelState,
+} from '../../types/physics.types';
+
+type WheelSettings = Required<VehicleWheelConfig>;
+
+const DEFAULT_FRICTION_CURVE: TireFrictionCurve = {
+  peakSlip: 0.14,
+  peakFriction: 1.2,
+  slideFriction: 0.8,
+};
+
+const DEFAULT_WHEEL: Omit<WheelSettings, 'position' | 'radius' | 'suspensionRestLength'> = {
+  suspensionStiffness: 40000,
+  suspensionDamping: 3000,
+  maxSuspensionForce: 50000,
+  steering: false,
+  driven: false,
+  frictionCurve: DEFAULT_FRICTION_CURVE,
+};
+
+const UP = new Vector3(0, 1, 0);
+const RIGHT = new Vector3(1, 0, 0);
+const FORWARD = new Vector3(0, 0, -1);
+const MIN_SLIP_SPEED = 0.5; // Below this, slip angles are noise; the velocity clamp does the work instead
+
+/**
+ * Friction coefficient of a tire at a slip angle in radians. Grip rises linearly to the peak and then decays
+ * towards the sliding value, which is what makes a car break away instead of grip forever.
+ */
+export const getTireFriction = (curve: TireFrictionCurve, slip: number): number => {
+  const absSlip = Math.abs(slip);
+  if (absSlip <= curve.peakSlip) {
+    return curve.peakSlip > 0 ? (curve.peakFriction * absSlip) / curve.peakSlip : curve.peakFriction;
+  }
+  const falloff = Math.exp(-(absSlip - curve.peakSlip) / Math.max(curve.peakSlip, 1e-3));
+  return curve.slideFriction + (curve.peakFriction - curve.slideFriction) * falloff;
+};
+
+export class RaycastVehicle {
+  public readonly id: string;
+  private config: VehicleConfig;
+  private mass: number;
+  private wheels: WheelSettings[];
+  private wheelStates: VehicleWheelState[];
+  private wheelSpin: number[];
+  private controls: VehicleControls = { throttle: 0, brake: 0, steering: 0 };
+  private speed: number = 0;
+  private transform: BodyTransform | null = null; // Chassis pose seen on the last step
+
+  constructor(config: VehicleConfig) {
+    this.id = config.id;
+    this.config = config;
+    this.mass = config.mass ?? 1200;
+    this.wheels = config.wheels.map(wheel => ({ ...DEFAULT_WHEEL, ...wheel, position: wheel.position.clone() }));
+    this.wheelSpin = this.wheels.map(() => 0);
+    this.wheelStates = this.wheels.map(wheel => ({
+      isGrounded: false,
+      contactPoint: null,
+      contactNormal: null,
+      groundBodyId: null,
+      suspensionLength: wheel.suspensionRestLength,
+      steerAngle: 0,
+      rotation: 0,
+      slipAngle: 0,
+    }));
+  }
+
+  /**
+   * Driver input to use until changed. Values are clamped to their ranges.
+   */
+  public setControls(controls: Partial<VehicleControls>) {
+    const clamp = (value: number, min: number) => Math.min(1, Math.max(min, value));
+    if (controls.throttle !== undefined) this.controls.throttle = clamp(controls.throttle, -1);
+    if (controls.brake !== undefined) this.controls.brake = clamp(controls.brake, 0);
+    if (controls.steering !== undefined) this.controls.steering = clamp(controls.steering, -1);
+  }
+
+  public getControls(): VehicleControls {
+    return { ...this.controls };
+  }
+
+  /**
+   * Casts every wheel and applies suspension and tire impulses for one fixed step. Does nothing until the chassis
+   * body is live in an engine.
+   */
+  public update(deltaTime: number) {
+    const manager = PhysicsSystemManager.getInstance();
+    const state = manager.getBodyState(this.id);
+    if (!state || deltaTime <= 0) return;
+
+    this.transform = { position: state.position.clone(), quaternion: state.quaternion.clone() };
+    const up = UP.clone().applyQuaternion(state.quaternion);
+    const chassisForward = FORWARD.clone().applyQuaternion(state.quaternion);
+    this.speed = state.linearVelocity.dot(chassisForward);
+
+    const filter: PhysicsQueryFilter = {
+      layerMask: this.config.collidesWith ?? ALL_COLLISION_LAYERS,
+      excludeBodyIds: [this.id],
+    };
+    const contacts = this.wheels.map((wheel, index) => this.castWheel(index, wheel, state, up, filter));
+    const groundedCount = contacts.filter(Boolean).length;
+    const drivenCount = this.wheels.filter(wheel => wheel.driven).length;
+    // Share of the chassis mass each grounded wheel is responsible for when stopping motion
+    const massShare = this.mass / Math.max(groundedCount, 1);
+
+    this.wheels.forEach((wheel, index) => {
+      const wheelState = this.wheelStates[index];
+      const contact = contacts[index];
+      if (!contact) {
+        wheelState.slipAngle = 0;
+        this.spinWheel(index, this.wheelSpin[index], deltaTime);
+        return;
+      }
+
+      const { point, normal, load } = contact;
+      const offset = point.clone().sub(state.position);
+      const pointVelocity = state.angularVelocity.clone().cross(offset).add(state.linearVelocity);
+
+      // Tire frame on the ground plane
+      const heading = chassisForward.clone().applyAxisAngle(up, -wheelState.steerAngle);
+      const tireForward = heading.addScaledVector(normal, -heading.dot(normal)).normalize();
+      const tireRight = tireForward.clone().cross(normal).normalize();
+      const longitudinalSpeed = pointVelocity.dot(tireForward);
+      const lateralSpeed = pointVelocity.dot(tireRight);
+
+      // Engine and brakes along the tire
+      let longitudinal = wheel.driven && drivenCount > 0
+        ? (this.config.engineTorque * this.controls.throttle) / drivenCount / wheel.radius
+        : 0;
+      const brakeForce = (this.config.brakeTorque * this.controls.brake) / wheel.radius;
+      const stopForce = (Math.abs(longitudinalSpeed) * massShare) / deltaTime;
+      longitudinal -= Math.sign(longitudinalSpeed) * Math.min(brakeForce, stopForce);
+
+      // Sideways grip from the friction curve, never more than it takes to cancel the sideways motion
+      const slipAngle = Math.atan2(lateralSpeed, Math.max(Math.abs(longitudinalSpeed), MIN_SLIP_SPEED));
+      const lateralGrip = getTireFriction(wheel.frictionCurve, slipAngle) * load;
+      let lateral = -Math.sign(lateralSpeed) * Math.min(lateralGrip, (Math.abs(lateralSpeed) * massShare) / deltaTime);
+
+      // The tire can only transmit so much force in total
+      const maxGrip = wheel.frictionCurve.peakFriction * load;
+      const total = Math.hypot(longitudinal, lateral);
+      if (total > maxGrip) {
+        longitudinal *= maxGrip / total;
+        lateral *= maxGrip / total;
+      }
+
+      manager.applyImpulse(this.id, normal.clone().multiplyScalar(load * deltaTime), point);
+
+      // Tire forces act nearer the center of mass along the up axis, so the chassis rolls less in corners
+      const rollInfluence = this.config.rollInfluence ?? 0.1;
+      const tirePoint = point.clone().addScaledVector(up, -offset.dot(up) * (1 - rollInfluence));
+      const tireForce = tireForward.multiplyScalar(longitudinal).addScaledVector(tireRight, lateral);
+      manager.applyImpulse(this.id, tireForce.multiplyScalar(deltaTime), tirePoint);
+
+      wheelState.slipAngle = slipAngle;
+      this.spinWheel(index, longitudinalSpeed / wheel.radius, deltaTime);
+    });
+  }
+
+  public getState(): VehicleState {
+    return {
+      speed: this.speed,
+      wheels: this.wheelStates.map(wheel => ({
+        ...wheel,
+        contactPoint: wheel.contactPoint?.clone() ?? null,
+        contactNormal: wheel.contactNormal?.clone() ?? null,
+      })),
+    };
+  }
+
+  /**
+   * Chassis pose seen on the last step, or null before the chassis went live.
+   */
+  public getChassisTransform(): BodyTransform | null {
+    return this.transform ? { position: this.transform.position.clone(), quaternion: this.transform.quaternion.clone() } : null;
+  }
+
+  /**
+   * World pose of a wheel's center for rendering, including suspension travel, steering and spin.
+   */
+  public getWheelTransform(index: number): BodyTransform | null {
+    const wheel = this.wheels[index];
+    if (!wheel || !this.transform) return null;
+
+    const { position, quaternion } = this.transform;
+    const wheelState = this.wheelStates[index];
+    const down = UP.clone().applyQuaternion(quaternion).negate();
+    return {
+      position: wheel.position.clone().applyQuaternion(quaternion).add(position).addScaledVector(down, wheelState.suspensionLength),
+      quaternion: quaternion
+        .clone()
+        .multiply(new Quaternion().setFromAxisAngle(UP, -wheelState.steerAngle))
+        .multiply(new Quaternion().setFromAxisAngle(RIGHT, -wheelState.rotation)),
+    };
+  }
+
+  /**
+   * Finds the ground under a wheel and works out how hard its suspension pushes back, or returns null when airborne.
+   */
+  private castWheel(index: number, wheel: WheelSettings, state: BodyState, up: Vector3, filter: PhysicsQueryFilter) {
+    const wheelState = this.wheelStates[index];
+    wheelState.steerAngle = wheel.steering ? this.controls.steering * this.config.maxSteerAngle : 0;
+
+    const mount = wheel.position.clone().applyQuaternion(state.quaternion).add(state.position);
+    const down = up.clone().negate();
+    const hit = PhysicsSystemManager.getInstance().raycast(mount, down, wheel.suspensionRestLength + wheel.radius, filter);
+    if (!hit) {
+      Object.assign(wheelState, {
+        isGrounded: false,
+        contactPoint: null,
+        contactNormal: null,
+        groundBodyId: null,
+        suspensionLength: wheel.suspensionRestLength,
+      });
+      return null;
+    }
+
+    const suspensionLength = Math.max(0, hit.distance - wheel.radius);
+    const compression = wheel.suspensionRestLength - suspensionLength;
+    const offset = hit.point.clone().sub(state.position);
+    const closingSpeed = state.angularVelocity.clone().cross(offset).add(state.linearVelocity).dot(up);
+    const load = Math.min(
+      wheel.maxSuspensionForce,
+      Math.max(0, wheel.suspensionStiffness * compression - wheel.suspensionDamping * closingSpeed)
+    );
+
+    Object.assign(wheelState, {
+      isGrounded: true,
+      contactPoint: hit.point.clone(),
+      contactNormal: hit.normal.clone(),
+      groundBodyId: hit.bodyId,
+      suspensionLength,
+    });
+    return { point: hit.point, normal: hit.normal, load };
+  }
+
+  private spinWheel(index: number, angularSpeed: number, deltaTime: number) {
+    this.wheelSpin[index] = angularSpeed;
+    this.wheelStates[index].rotation = (this.wheelStates[index].rotation + angularSpeed * deltaTime) % (Math.PI * 2);
+  }
+}
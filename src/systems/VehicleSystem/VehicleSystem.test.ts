@@ -0,0 +1,93 @@
+// src/systems/VehicleSystem/VehicleSystem.test.ts
+
+import { PerspectiveCamera, Quaternion, Vector3 } from 'three';
+import { VehicleSystem } from './VehicleSystem';
+import { CameraSystem } from '../CameraSystem/CameraSystem';
+import { GameLoop } from '../GameLoop/GameLoop';
+import { usePhysicsStore } from '../../stores/physicsStore';
+import { useInputStore } from '../../stores/inputStore';
+import { VehicleConfig } from '../../types/physics.types';
+
+const car: VehicleConfig = {
+  id: 'car',
+  position: new Vector3(0, 1, 0),
+  chassisSize: [2, 0.5, 4],
+  mass: 900,
+  wheels: [{ position: new Vector3(0, -0.25, -1.5), radius: 0.3, suspensionRestLength: 0.3, steering: true }],
+  engineTorque: 1000,
+  brakeTorque: 1500,
+  maxSteerAngle: 0.6,
+  collisionLayer: 4,
+};
+
+describe('VehicleSystem', () => {
+  let system: VehicleSystem;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    usePhysicsStore.setState({ bodies: {} });
+    useInputStore.getState().reset();
+    GameLoop.getInstance().setManualStepping(true);
+    system = VehicleSystem.getInstance();
+    system.start();
+  });
+
+  afterEach(() => {
+    system.cleanup();
+    (VehicleSystem as any).instance = null;
+    (CameraSystem as any).instance = null;
+    GameLoop.getInstance().cleanup();
+    jest.restoreAllMocks();
+  });
+
+  it('should back each vehicle with a dynamic box chassis', () => {
+    system.addVehicle(car);
+
+    expect(usePhysicsStore.getState().bodies.car).toMatchObject({
+      type: 'dynamic',
+      shape: 'box',
+      args: [2, 0.5, 4],
+      mass: 900,
+      collisionLayer: 4,
+    });
+
+    system.removeVehicle('car');
+    expect(usePhysicsStore.getState().bodies.car).toBeUndefined();
+    expect(system.getVehicle('car')).toBeNull();
+  });
+
+  it('should map the move axes and brake action to the driver controls', () => {
+    const vehicle = system.addVehicle(car);
+    system.bindInput('car');
+
+    useInputStore.getState().setAxisValue('moveX', -0.5);
+    useInputStore.getState().setAxisValue('moveY', -1);
+    useInputStore.getState().setActiveAction('brake', true);
+    GameLoop.getInstance().stepFixed(1);
+
+    expect(vehicle.getControls()).toEqual({ throttle: 1, steering: -0.5, brake: 1 });
+
+    system.unbindInput('car');
+    expect(vehicle.getControls()).toEqual({ throttle: 0, steering: 0, brake: 0 });
+  });
+
+  it('should hand the chassis pose to the chase camera', () => {
+    const cameraSystem = CameraSystem.getInstance();
+    cameraSystem.registerCamera('main', new PerspectiveCamera());
+    cameraSystem.setActiveCamera('main');
+    const vehicle = system.addVehicle(car);
+    const heading = new Quaternion().setFromAxisAngle(new Vector3(0, 1, 0), 1);
+    jest.spyOn(vehicle, 'getChassisTransform').mockReturnValue({ position: new Vector3(3, 1, 2), quaternion: heading });
+    const setOrientation = jest.spyOn(cameraSystem.getActiveController()!, 'setTargetOrientation');
+
+    system.bindInput('car', { followCamera: false });
+    GameLoop.getInstance().stepFixed(1);
+    expect(setOrientation).not.toHaveBeenCalled();
+
+    system.bindInput('car');
+    GameLoop.getInstance().stepFixed(1);
+    expect(cameraSystem.getActiveController()!.getTarget().toArray()).toEqual([3, 1, 2]);
+    expect(setOrientation).toHaveBeenCalledWith(heading);
+    cameraSystem.cleanup();
+  });
+});
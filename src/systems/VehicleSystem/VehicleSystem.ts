@@ -0,0 +1,134 @@
+// src/systems/VehicleSystem/VehicleSystem.ts
+
+// Purpose: Owns the raycast vehicles and steps them every fixed update, after AI has had its say.
+// The player's vehicle is driven from the input store and can hand its pose to the chase camera.
+
+import { Vector3 } from 'three';
+import { RaycastVehicle } from './RaycastVehicle';
+import { CameraSystem } from '../CameraSystem/CameraSystem';
+import { GameLoop } from '../GameLoop/GameLoop';
+import { usePhysicsStore } from '../../stores/physicsStore';
+import { useInputStore } from '../../stores/inputStore';
+import { VehicleConfig, VehicleInputOptions } from '../../types/physics.types';
+
+const DEFAULT_INPUT_OPTIONS: Required<VehicleInputOptions> = {
+  followCamera: true,
+};
+
+export class VehicleSystem {
+  private static instance: VehicleSystem | null = null;
+  private vehicles: Map<string, RaycastVehicle> = new Map();
+  private inputBindings: Map<string, Required<VehicleInputOptions>> = new Map();
+  private unregisterFromLoop: (() => void) | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): VehicleSystem {
+    if (!VehicleSystem.instance) {
+      VehicleSystem.instance = new VehicleSystem();
+    }
+    return VehicleSystem.instance;
+  }
+
+  /**
+   * Creates a vehicle and the dynamic box chassis its wheels hold up.
+   */
+  public addVehicle(config: VehicleConfig): RaycastVehicle {
+    this.removeVehicle(config.id);
+
+    const vehicle = new RaycastVehicle(config);
+    usePhysicsStore.getState().addBody({
+      id: config.id,
+      type: 'dynamic',
+      shape: 'box',
+      position: config.position.clone(),
+      rotation: config.rotation?.clone() ?? new Vector3(),
+      args: config.chassisSize ?? [1.8, 0.6, 4],
+      mass: config.mass ?? 1200,
+      collisionLayer: config.collisionLayer,
+      collidesWith: config.collidesWith,
+    });
+
+    this.vehicles.set(config.id, vehicle);
+    return vehicle;
+  }
+
+  public removeVehicle(id: string): void {
+    if (!this.vehicles.has(id)) return;
+
+    this.vehicles.delete(id);
+    this.inputBindings.delete(id);
+    usePhysicsStore.getState().removeBody(id);
+  }
+
+  public getVehicle(id: string): RaycastVehicle | null {
+    return this.vehicles.get(id) ?? null;
+  }
+
+  /**
+   * Drives a vehicle from the input store every step. "moveY" at -1 is full throttle and at +1 reverses,
+   * "moveX" steers and the "brake" action brakes.
+   */
+  public bindInput(id: string, options: VehicleInputOptions = {}): void {
+    if (!this.vehicles.has(id)) {
+      console.warn(`VehicleSystem: No vehicle "${id}" to bind input to.`);
+      return;
+    }
+    this.inputBindings.set(id, { ...DEFAULT_INPUT_OPTIONS, ...options });
+  }
+
+  public unbindInput(id: string): void {
+    this.inputBindings.delete(id);
+    this.vehicles.get(id)?.setControls({ throttle: 0, brake: 0, steering: 0 });
+  }
+
+  public start(): void {
+    if (this.unregisterFromLoop !== null) return;
+    const gameLoop = GameLoop.getInstance();
+    this.unregisterFromLoop = gameLoop.register({
+      id: 'vehicles',
+      phase: 'fixedUpdate',
+      after: ['ai'],
+      update: ({ deltaTime }) => this.updateVehicles(deltaTime)
+    });
+    gameLoop.start();
+  }
+
+  public stop(): void {
+    if (this.unregisterFromLoop !== null) {
+      this.unregisterFromLoop();
+      this.unregisterFromLoop = null;
+    }
+  }
+
+  public cleanup(): void {
+    this.stop();
+    Array.from(this.vehicles.keys()).forEach(id => this.removeVehicle(id));
+  }
+
+  private updateVehicles(deltaTime: number): void {
+    this.inputBindings.forEach((_options, id) => this.applyInput(id));
+    this.vehicles.forEach(vehicle => vehicle.update(deltaTime));
+    this.inputBindings.forEach((options, id) => {
+      if (options.followCamera) this.followCamera(id);
+    });
+  }
+
+  private applyInput(id: string): void {
+    const { axisValues, activeActions } = useInputStore.getState();
+    this.vehicles.get(id)?.setControls({
+      throttle: -(axisValues.moveY || 0),
+      steering: axisValues.moveX || 0,
+      brake: activeActions.has('brake') ? 1 : 0,
+    });
+  }
+
+  private followCamera(id: string): void {
+    const transform = this.vehicles.get(id)?.getChassisTransform();
+    if (!transform) return;
+
+    const cameraSystem = CameraSystem.getInstance();
+    cameraSystem.setTarget(transform.position);
+    cameraSystem.setTargetOrientation(transform.quaternion);
+  }
+}
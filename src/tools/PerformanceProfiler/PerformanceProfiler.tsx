@@ -3,11 +3,12 @@ import { Html } from '@react-three/drei';
 import { MetricsDisplay } from './components/MetricsDisplay';
 import { TimelineView } from './components/TimelineView';
 import { SystemMonitor } from './components/SystemMonitor';
+import { PhysicsDebugPanel } from './components/PhysicsDebugPanel';
 import { useProfiler } from './hooks/useProfiler';
 
 const PerformanceProfiler = () => {
   const { isVisible, toggleVisibility, metrics } = useProfiler();
-  const [activeTab, setActiveTab] = useState<'metrics' | 'timeline' | 'systems'>('metrics');
+  const [activeTab, setActiveTab] = useState<'metrics' | 'timeline' | 'systems' | 'physics'>('metrics');
 
   if (!isVisible) {
     return (
@@ -58,6 +59,12 @@ const PerformanceProfiler = () => {
           >
             Systems
           </button>
+          <button
+            className={`flex-1 py-2 ${activeTab === 'physics' ? 'bg-gray-800' : ''}`}
+            onClick={() => setActiveTab('physics')}
+          >
+            Physics
+          </button>
         </div>
 
         {/* Content Area */}
@@ -65,6 +72,7 @@ const PerformanceProfiler = () => {
           {activeTab === 'metrics' && <MetricsDisplay metrics={metrics} />}
           {activeTab === 'timeline' && <TimelineView metrics={metrics} />}
           {activeTab === 'systems' && <SystemMonitor metrics={metrics} />}
+          {activeTab === 'physics' && <PhysicsDebugPanel />}
         </div>
       </div>
     </Html>
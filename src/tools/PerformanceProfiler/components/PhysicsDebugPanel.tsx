@@ -0,0 +1,32 @@
+import React from 'react';
+import { usePhysicsStore } from '../../../stores/physicsStore';
+import { PhysicsDebugLayer } from '../../../types/physics.types';
+
+const LAYER_LABELS: Record<PhysicsDebugLayer, string> = {
+  colliders: 'Collider wireframes',
+  sleepState: 'Sleeping / awake colors',
+  aabbs: 'Bounding boxes',
+  contacts: 'Contact points & normals',
+  joints: 'Joint anchors',
+};
+
+export const PhysicsDebugPanel: React.FC = () => {
+  const debugLayers = usePhysicsStore((state) => state.debugLayers);
+  const setDebugLayer = usePhysicsStore((state) => state.setDebugLayer);
+
+  return (
+    <div className="space-y-2">
+      <div className="text-sm text-gray-400 mb-2">Debug Overlay</div>
+      {(Object.keys(LAYER_LABELS) as PhysicsDebugLayer[]).map((layer) => (
+        <label key={layer} className="flex items-center gap-2 bg-gray-800 p-2 rounded text-sm">
+          <input
+            type="checkbox"
+            checked={debugLayers[layer]}
+            onChange={(event) => setDebugLayer(layer, event.target.checked)}
+          />
+          {LAYER_LABELS[layer]}
+        </label>
+      ))}
+    </div>
+  );
+};
@@ -5,7 +5,7 @@ export interface Ability {
 	name: string; // Display name
 	description: string; // Detailed description of the ability
 	cooldown: number; // Time in seconds before reuse
-	lastUsed: number; // Timestamp of the last activation
+	lastUsed: number; // Game loop simulation milliseconds of the last activation
 	isAvailable: boolean; // True if off cooldown
 	activate: () => void; // Function to trigger the ability
 	iconPath?: string; // Optional: Path to the ability's icon for UI
@@ -17,8 +17,9 @@ export interface AbilityState {
 	abilities: Record<string,Ability>; // Map of ability IDs to definitions
 	addAbility: (ability: Ability) => void; // Function to register a new ability
 	useAbility: (id: string) => void; // Activate an ability by ID
-	updateCooldowns: (currentTime: number) => void; // Refresh cooldowns
+	updateCooldowns: (currentTime: number) => void; // Refresh cooldowns at a simulation time in milliseconds
 	getAbilityById: (id: string) => Ability|undefined; // Retrieve ability details
+	getRemainingCooldown: (id: string) => number; // Seconds until the ability is ready again
 }
 
 export interface AbilityConfig {
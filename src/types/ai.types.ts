@@ -33,8 +33,169 @@ export interface AIEntity {
 	aggressionLevel: number;
 	detectionRange: number;
 	attackRange: number;
-	lastAttackTime: number;
+	lastAttackTime: number; // Simulation milliseconds
 	attackCooldown: number;
+	controllerId?: string; // Character controller that moves this entity; its position then follows the controller's feet
+	behaviorTreeId?: string; // Tree in AIState.behaviorTrees that drives this entity instead of priority selection
+	behaviorTreeState?: BehaviorTreeState; // Created on the first tick
+	behaviorStates?: AIBehaviorStates; // Each behavior's progress for this entity, created the first time it runs
+	patrolPoints?: Vector3[]; // This entity's patrol route; defaults to the patrol behavior's own points
+	perception?: AIPerceptionConfig; // Set to let the entity find its target by sight and hearing
+	perceivedTargets?: PerceivedTarget[]; // What the entity remembers sensing, kept up by the perception system
+	lastKnownTargetPosition?: Vector3; // Where the entity last sensed its target; behaviors head here
+	utilityProfileId?: string; // Profile in AIState.utilityProfiles that scores this entity's behaviors instead of priority selection
+	utilityState?: UtilityState; // Created on the first selection
+	ammo?: number; // Left unset by entities that do not track ammo
+	maxAmmo?: number;
+	velocity?: Vector3; // Steering velocity, carried from one update to the next
+	maxForce?: number; // How quickly steering can change the velocity, in m/s² (defaults to 4 × the steering speed)
+}
+
+// Per-entity progress of the built-in behaviors. Plain data, so it can be saved with the entity.
+// Times are simulation milliseconds (getSimulationTime); null means it has not happened yet.
+export interface IdleBehaviorState {
+	nextActionTime: number;
+}
+
+export interface PatrolBehaviorState {
+	patrolIndex: number;
+}
+
+export interface CombatBehaviorState {
+	lastRepositionTime: number|null;
+}
+
+export interface FleeBehaviorState {
+	lastPathUpdateTime: number|null;
+	fleeStartPosition: [number,number,number]|null; // Set while fleeing
+}
+
+export interface AIBehaviorStates {
+	idle?: IdleBehaviorState;
+	patrol?: PatrolBehaviorState;
+	combat?: CombatBehaviorState;
+	flee?: FleeBehaviorState;
+}
+
+export type AISense='sight'|'hearing';
+
+// How an entity senses perception targets
+export interface AIPerceptionConfig {
+	fieldOfView?: number; // Full width of the view cone in radians (defaults to 120 degrees)
+	sightRange?: number; // Defaults to the entity's detectionRange
+	hearingMultiplier?: number; // Scales the radius noises are heard within (defaults to 1)
+	memoryDuration?: number; // Seconds for a fully aware memory to fade away (defaults to 5)
+	eyeHeight?: number; // Above the entity's position (defaults to 1.6)
+}
+
+// One target an entity remembers. Plain data, so it can be saved with the entity.
+export interface PerceivedTarget {
+	targetId: string;
+	lastKnownPosition: [number,number,number];
+	sense: AISense; // How it was last sensed
+	awareness: number; // 1 when seen, less for faint noises, fading to 0 when it is forgotten
+	timeSinceSensed: number; // Seconds
+	visible: boolean; // In sight on the last update
+}
+
+// Something entities can see and hear, such as the player
+export interface PerceptionTargetOptions {
+	bodyId?: string; // Ignored by line of sight rays, which would otherwise hit the target itself
+	controllerId?: string; // Character controller whose steps make footstep noise
+	aimHeight?: number; // Point above the position that sight rays aim at (defaults to 1)
+}
+
+export interface PerceptionConfig {
+	lineOfSight: 'physics'|'occluders'|'none'; // What blocks sight: physics bodies (occluder bounds until a physics world is attached), occluder bounds or nothing
+	weaponHolderId: string; // Target whose position weapon noise comes from
+	gunshotRadius: number;
+	meleeRadius: number;
+	footstepRadius: number; // At walking speed; louder when running
+	strideLength: number; // Meters walked per footstep
+}
+
+// What steering moves: a point on the ground with a velocity and limits
+export interface SteeringAgent {
+	position: Vector3;
+	velocity: Vector3;
+	maxSpeed: number;
+	maxForce: number; // Largest change in velocity per second
+}
+
+export interface SteeringObstacle {
+	position: Vector3;
+	radius: number;
+}
+
+// A wall along the ground from start to end; its height is ignored
+export interface SteeringWall {
+	start: Vector3;
+	end: Vector3;
+}
+
+export interface WeightedSteering {
+	force: Vector3;
+	weight: number;
+}
+
+// Where a wandering agent's target sits on its circle. Plain data, so it can be kept with the entity.
+export interface WanderState {
+	angle: number;
+}
+
+// Reads one fact about an entity as a number from 0 to 1
+export type UtilityInput=(entity: AIEntity,args: Record<string,unknown>) => number;
+
+// Maps an input to a score. Both run from 0 to 1; results are clamped.
+export interface UtilityCurve {
+	type: 'linear'|'exponential'|'logistic'|'step';
+	slope?: number; // linear (defaults to 1)
+	intercept?: number; // linear (defaults to 0)
+	exponent?: number; // exponential (defaults to 2)
+	steepness?: number; // logistic (defaults to 10)
+	midpoint?: number; // Centre of the logistic curve and threshold of the step (defaults to 0.5)
+	invert?: boolean; // Scores 1 - input, e.g. to prefer low health
+}
+
+export interface UtilityConsideration {
+	input: string; // Name of a registered UtilityInput
+	args?: Record<string,unknown>;
+	curve: UtilityCurve;
+}
+
+export interface UtilityBehaviorScorer {
+	behavior: AIBehaviorType;
+	considerations: UtilityConsideration[];
+	weight?: number; // Multiplies the score (defaults to 1)
+	checkConditions?: boolean; // Scores 0 unless the behavior's own conditions hold
+}
+
+// How an entity weighs its behaviors against each other
+export interface UtilityProfile {
+	scorers: UtilityBehaviorScorer[];
+	momentum?: number; // Fraction added to the current behavior's score so close calls do not flip back and forth (defaults to 0.25)
+	minCommitTime?: number; // Seconds a choice is held before another can replace it (defaults to 0)
+	minScore?: number; // Nothing scoring at or below this is chosen and the entity idles (defaults to 0)
+}
+
+export interface UtilityConsiderationScore {
+	input: string;
+	value: number; // What the input read
+	score: number; // After the curve
+}
+
+export interface UtilityBehaviorScore {
+	behavior: AIBehaviorType;
+	score: number; // Final score, momentum included
+	momentum: number; // The part of the score added by momentum
+	considerations: UtilityConsiderationScore[];
+}
+
+// An entity's utility selection. Plain data, so it can be saved with the entity.
+export interface UtilityState {
+	current: AIBehaviorType|null;
+	heldFor: number; // Seconds since current was chosen
+	scores: UtilityBehaviorScore[]; // Breakdown of the last selection, highest first
 }
 
 export interface AIModifier {
@@ -43,9 +204,65 @@ export interface AIModifier {
 	update: (entity: AIEntity,deltaTime: number) => void;
 }
 
+// Result of ticking a behavior tree node
+export type BehaviorTreeStatus='success'|'failure'|'running';
+
+// What a leaf sees while an entity's tree ticks
+export interface BehaviorTreeContext {
+	entity: AIEntity;
+	deltaTime: number;
+	time: number; // Seconds the entity's tree has been ticking
+	blackboard: Record<string,unknown>; // Per-entity scratch data shared by the tree's leaves
+}
+
+export type BehaviorTreeAction=(context: BehaviorTreeContext,args: Record<string,unknown>) => BehaviorTreeStatus;
+export type BehaviorTreeCondition=(context: BehaviorTreeContext,args: Record<string,unknown>) => boolean;
+
+// Tree nodes are plain data, so trees can be loaded from JSON or put together with the builders.
+// Durations are in seconds of tree time.
+export type BehaviorTreeNode=
+	|{type: 'sequence'; children: BehaviorTreeNode[]; memory?: boolean} // Succeeds once every child has. With memory it resumes at the running child instead of re-checking the earlier ones
+	|{type: 'selector'; children: BehaviorTreeNode[]; memory?: boolean} // Succeeds with the first child that does not fail
+	|{type: 'parallel'; children: BehaviorTreeNode[]; successThreshold?: number; failureThreshold?: number} // Ticks every child; by default all must succeed and one failure fails it
+	|{type: 'inverter'; child: BehaviorTreeNode}
+	|{type: 'cooldown'; child: BehaviorTreeNode; duration: number} // Fails without ticking the child until duration has passed since it last finished
+	|{type: 'repeat'; child: BehaviorTreeNode; count?: number; untilFailure?: boolean} // Runs the child count times (forever when omitted), or until it fails
+	|{type: 'timeout'; child: BehaviorTreeNode; duration: number} // Fails and halts the child when it runs longer than duration
+	|{type: 'action'; name: string; args?: Record<string,unknown>} // A registered BehaviorTreeAction
+	|{type: 'condition'; name: string; args?: Record<string,unknown>} // A registered BehaviorTreeCondition
+	|{type: 'behavior'; behavior: AIBehaviorType; ignoreConditions?: boolean}; // Runs an AIBehavior; fails when its conditions do not hold, otherwise keeps running
+
+export type BehaviorTreeNodeType=BehaviorTreeNode['type'];
+
+// Leaves a tree's nodes can name
+export interface BehaviorTreeLeaves {
+	actions: Record<string,BehaviorTreeAction>;
+	conditions: Record<string,BehaviorTreeCondition>;
+	behaviors: Partial<Record<AIBehaviorType,AIBehavior>>;
+}
+
+// Running state of one node for one entity
+export interface BehaviorTreeNodeState {
+	child?: number; // Running child of a sequence or selector with memory
+	iteration?: number; // Finished runs of a repeat
+	startedAt?: number; // When a timeout's child started running
+	readyAt?: number; // When a cooldown lets its child run again; survives the node being interrupted
+}
+
+// One entity's progress through its tree. Plain data, so it can be saved with the entity
+export interface BehaviorTreeState {
+	time: number;
+	status: BehaviorTreeStatus|null; // Result of the last tick
+	nodes: Record<string,BehaviorTreeNodeState>; // By node path: "0" is the root, "0.2" its third child
+	running: string[]; // Nodes that returned running on the last tick
+	blackboard: Record<string,unknown>;
+}
+
 export interface AIState {
 	entities: Record<string,AIEntity>;
-	behaviorTree: Record<string,AIBehavior>;
+	behaviorTree: Record<string,AIBehavior>; // Behaviors that "behavior" tree nodes can run, by type
+	behaviorTrees: Record<string,BehaviorTreeNode>; // Trees entities can be assigned, by id
+	utilityProfiles: Record<string,UtilityProfile>; // Profiles entities can be assigned, by id
 	modifiers: Record<string,AIModifier>;
 	pathfindingEnabled: boolean;
 
@@ -54,6 +271,8 @@ export interface AIState {
 	updateEntity: (id: string,updates: Partial<AIEntity>) => void;
 	removeEntity: (id: string) => void;
 	addBehavior: (behavior: AIBehavior) => void;
+	addBehaviorTree: (id: string,tree: BehaviorTreeNode) => void;
+	addUtilityProfile: (id: string,profile: UtilityProfile) => void;
 	addModifier: (modifier: AIModifier) => void;
 	togglePathfinding: () => void;
 }
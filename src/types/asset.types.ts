@@ -1,6 +1,7 @@
 // src/types/asset.types.ts
 
 import {Object3D} from "three";
+import {CompoundColliderOptions,MeshColliderShape} from "./physics.types";
 
 export type AssetType="model"|"texture"|"sound"|"video"|"other"|"unsupported";
 
@@ -13,6 +14,8 @@ export interface Asset {
 	data: any; // The loaded asset data (e.g., THREE.Object3D, Texture, AudioBuffer)
 	progress?: number; // Loading progress percentage (0 to 100)
 	priority?: number;
+	collider?: MeshColliderShape; // Models only: build static colliders from the model's meshes once loaded
+	compoundCollider?: CompoundColliderOptions; // Models only: settings for the body built from collider nodes (COL_box_*, extras.collider)
 }
 
 export interface AssetState {
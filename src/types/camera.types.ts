@@ -2,7 +2,7 @@
 
 import {Vector3,Euler,Camera} from 'three';
 
-export type CameraMode='firstPerson'|'thirdPerson'|'orbital'|'cinematic';
+export type CameraMode='firstPerson'|'thirdPerson'|'orbital'|'cinematic'|'chase';
 
 export interface CameraTransition {
 	id: string;
@@ -0,0 +1,75 @@
+// src/types/entity.types.ts
+
+import {Euler,Vector3} from 'three';
+
+export type EntityId=string;
+
+// Components are small records. Most of them link the entity to the record a subsystem owns.
+export interface TransformComponent {
+	position: Vector3;
+	rotation: Euler;
+	scale: Vector3;
+}
+
+export interface RigidBodyComponent {
+	bodyId: string; // Key in usePhysicsStore.bodies
+}
+
+export interface AIAgentComponent {
+	agentId: string; // Key in useAIStore.entities
+}
+
+export interface SceneNodeComponent {
+	nodeId: string; // Key in useSceneGraphStore.nodes
+}
+
+export interface LODComponent {
+	objectId: string; // Key in useLODStore.objects
+}
+
+export interface OccludableComponent {
+	occluderId: string; // Key in useOcclusionStore.occluders
+}
+
+export interface InventoryComponent {
+	gridIds: string[]; // Keys in useInventoryStore.grids owned by this entity
+}
+
+// Every known component, by name
+export interface ComponentMap {
+	Transform: TransformComponent;
+	RigidBody: RigidBodyComponent;
+	AIAgent: AIAgentComponent;
+	SceneNode: SceneNodeComponent;
+	LOD: LODComponent;
+	Occludable: OccludableComponent;
+	Inventory: InventoryComponent;
+}
+
+export type ComponentType=keyof ComponentMap;
+
+export type ComponentSet=Partial<ComponentMap>;
+
+export interface EntityRecord {
+	id: EntityId;
+	name?: string;
+	components: ComponentSet;
+}
+
+// Result of an archetype query: the entity plus the requested components, guaranteed present
+export type QueryResult<T extends ComponentType>={
+	id: EntityId;
+	components: ComponentSet&Pick<ComponentMap,T>;
+};
+
+// Called when a component leaves an entity, to release what it points to in other systems
+export type ComponentCleanup<T extends ComponentType>=(component: ComponentMap[T],entityId: EntityId) => void;
+
+export interface EntityState {
+	entities: Record<EntityId,EntityRecord>;
+	addEntity: (entity: EntityRecord) => void;
+	removeEntity: (id: EntityId) => void;
+	setComponent: <T extends ComponentType>(id: EntityId,type: T,component: ComponentMap[T]) => void;
+	removeComponent: (id: EntityId,type: ComponentType) => void;
+	reset: () => void;
+}
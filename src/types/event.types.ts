@@ -0,0 +1,164 @@
+// src/types/event.types.ts
+
+import {Vector3} from 'three';
+import {AIBehaviorType} from './ai.types';
+import {AssetType} from './asset.types';
+import {ComponentType} from './entity.types';
+import {InputDevice,InputEvent} from './input.types';
+import {InventoryItem} from './inventory.types';
+import {GameEvent} from './logic.types';
+
+export interface LevelLoadingOptions {
+	transitionType: 'fade'|'crossfade'|'instant';
+	transitionDuration: number;
+	loadingPriority: 'terrain'|'entities'|'parallel';
+	generateNavMesh: boolean;
+}
+
+/**
+ * Maps every event name to the payload it carries.
+ * Add an entry here before dispatching a new event.
+ */
+export interface EventMap {
+	// Game lifecycle
+	GAME_INIT: {timestamp: number};
+	GAME_CLEANUP: {timestamp: number};
+	RESET_GAME: void;
+	NEW_GAME_EVENT: GameEvent;
+	GAME_LOOP_PAUSED: {frame: number};
+	GAME_LOOP_RESUMED: {frame: number};
+	TIME_SCALE_CHANGED: {timeScale: number};
+
+	// System registry
+	SYSTEM_STARTED: {systemId: string};
+	SYSTEM_DISPOSED: {systemId: string};
+
+	// Levels
+	LEVEL_READY: {levelId?: string; timestamp: number};
+	LEVEL_CLEANUP: {levelId?: string; timestamp: number};
+	LEVEL_LOAD_REQUEST: {levelId: string; options: LevelLoadingOptions};
+	LEVEL_SAVE_REQUEST: {levelId: string; levelData: Record<string,unknown>};
+	LEVEL_EDIT_REQUEST: {levelId: string};
+	LEVEL_DATA_UPDATE: {levelId: string; updates: Record<string,unknown>};
+	LEVEL_LOADING_PROGRESS: {progress: number};
+	LEVEL_TRANSITION_START: {fromLevel?: string; toLevel: string; transitionType: LevelLoadingOptions['transitionType']};
+	LEVEL_LOAD_COMPLETE: {levelId: string};
+	LEVEL_LOAD_ERROR: {levelId: string; error: unknown};
+	LEVEL_SAVE_COMPLETE: {levelId: string};
+	LEVEL_SAVE_ERROR: {levelId: string; error: unknown};
+	LEVEL_EDITOR_OPEN: {levelData: unknown};
+
+	// Abilities and progression
+	ABILITY_USED: {abilityId: string; timestamp: number};
+	ABILITY_READY: {abilityId: string; timestamp: number};
+	ABILITIES_UNLOCKED: {abilities: string[]};
+	ITEMS_UNLOCKED: {items: string[]};
+	XP_GAINED: {amount: number};
+	LEVEL_UP: {oldLevel: number; newLevel: number};
+
+	// Inventory
+	INVENTORY_ITEM_ADDED: {gridId: string; item: InventoryItem};
+	INVENTORY_ITEM_REMOVED: {gridId: string; slotId: string; item: InventoryItem};
+	INVENTORY_ITEM_MOVED: {fromGridId: string; fromSlotId: string; toGridId: string; toSlotId: string};
+	INVENTORY_ITEM_EQUIPPED: {item: InventoryItem};
+	INVENTORY_ITEM_UNEQUIPPED: {item: InventoryItem};
+	INVENTORY_ITEMS_STACKED: {gridId: string; targetSlotId: string; sourceSlotId: string};
+	INVENTORY_STACK_SPLIT: {gridId: string; slotId: string; amount: number};
+	INVENTORY_CURRENCY_ADDED: {amount: number};
+	INVENTORY_CURRENCY_REMOVED: {amount: number};
+	INVENTORY_FULL: {item: InventoryItem};
+	ITEM_DROPPED: {item: InventoryItem; position: {x: number; y: number; z: number}};
+	ITEM_PICKED_UP: {item: InventoryItem};
+
+	// Weapons
+	WEAPON_EQUIPPED: {weaponId: string};
+	WEAPON_FIRED: {weaponId: string; target?: Vector3};
+	WEAPON_SWUNG: {weaponId: string};
+	WEAPON_RELOADED: {weaponId: string};
+
+	// AI
+	AI_ENTITY_ADDED: {entityId: string};
+	AI_ENTITY_REMOVED: {entityId: string};
+	AI_ATTACK: {attackerId: string; targetId?: string; position: Vector3; direction: Vector3};
+	AI_FLEE_START: {entityId: string; position: Vector3};
+	AI_FLEE_COMPLETE: {entityId: string; position: Vector3};
+	AI_PATROL_POINT_REACHED: {entityId: string; patrolIndex: number};
+	AI_PATROL_POINT_UNREACHABLE: {entityId: string; patrolIndex: number};
+	ENTITY_BEHAVIOR_CHANGE: {entityId: string; newBehavior: AIBehaviorType};
+	ENTITY_DAMAGED: {entityId: string; damage: number};
+	ENTITY_DIED: {entityId: string; position: Vector3; velocity: Vector3};
+	PLAYER_DETECTED: {entityId: string; playerId: string};
+	AI_TARGET_LOST: {entityId: string; targetId: string; lastKnownPosition: Vector3};
+	NOISE_EMITTED: {sourceId: string; position: Vector3; radius: number};
+	NAVIGATION_MESH_UPDATED: {timestamp: number};
+
+	// Entity registry
+	ENTITY_CREATED: {entityId: string};
+	ENTITY_DESTROYED: {entityId: string};
+	ENTITY_COMPONENT_ADDED: {entityId: string; component: ComponentType};
+	ENTITY_COMPONENT_REMOVED: {entityId: string; component: ComponentType};
+
+	// Serialization
+	GAME_SAVED: {slot: string; timestamp: number};
+	GAME_LOADED: {slot: string; timestamp: number};
+	SAVE_ERROR: {error: string};
+	LOAD_ERROR: {error: string};
+	SAVE_DELETED: {slot: string};
+	BACKUP_CREATED: {timestamp: number};
+	BACKUP_RESTORED: {timestamp: number};
+
+	// Input
+	INPUT_DEVICE_CONNECTED: {device: InputDevice};
+	INPUT_DEVICE_DISCONNECTED: {device: InputDevice};
+	GAMEPAD_CONNECTED: {gamepadId: string};
+	GAMEPAD_DISCONNECTED: {gamepadId: string};
+	GAMEPAD_BUTTON: {gamepadId: string; button: number; pressed: boolean};
+	GAMEPAD_AXIS: {gamepadId: string; axis: number; value: number};
+	INPUT_RECEIVED: InputEvent;
+
+	// Replay
+	REPLAY_RECORDING_STARTED: {seed: number};
+	REPLAY_RECORDING_STOPPED: {frameCount: number};
+	REPLAY_PLAYBACK_STARTED: {frameCount: number};
+	REPLAY_PLAYBACK_STOPPED: {frame: number};
+	REPLAY_PLAYBACK_FINISHED: {frameCount: number};
+
+	// Assets
+	ASSET_LOADED: {id: string; type: AssetType; data?: unknown};
+	ASSET_ERROR: {id: string; type: AssetType; error: string};
+	ASSET_DISPOSED: {id: string; type: AssetType};
+
+	// Physics
+	JOINT_BROKEN: {id: string; bodyA: string; bodyB: string; strain: number};
+	CHARACTER_GROUNDED: {id: string; groundBodyId: string; impactSpeed: number};
+	CHARACTER_AIRBORNE: {id: string; jumped: boolean};
+	TRIGGER_ENTER: {triggerId: string; bodyId: string};
+	TRIGGER_STAY: {triggerId: string; bodyId: string; duration: number}; // Every fixed step; seconds inside so far
+	TRIGGER_EXIT: {triggerId: string; bodyId: string; duration: number};
+}
+
+export type EventName=keyof EventMap;
+
+// "*" matches every event, "LEVEL_*" matches every event starting with "LEVEL_"
+export type EventPattern='*'|`${string}*`;
+
+export type EventsMatching<P extends EventPattern>=
+	P extends `${infer Prefix}*`? Extract<EventName,`${Prefix}${string}`>:never;
+
+export type EventListener<K extends EventName>=(data: EventMap[K],event: K) => void;
+
+// Receives a (payload, name) pair that narrows together when the name is checked
+export type PatternListener<P extends EventPattern>=(
+	...args: {[K in EventsMatching<P>]: [data: EventMap[K],event: K]}[EventsMatching<P>]
+) => void;
+
+// Events whose payload is void may be dispatched without data
+export type EventArgs<K extends EventName>=
+	EventMap[K] extends void? [data?: EventMap[K]]:[data: EventMap[K]];
+
+export interface ListenerOptions {
+	priority?: number; // Higher priorities run first; equal priorities run in subscription order
+	once?: boolean; // Remove the listener after its first call
+}
+
+export type Unsubscribe=() => void;
@@ -0,0 +1,40 @@
+// src/types/gameLoop.types.ts
+
+// Phases run in this order every frame. Only fixedUpdate runs on the fixed timestep.
+export type LoopPhase='fixedUpdate'|'update'|'lateUpdate'|'render';
+
+export interface FrameContext {
+	deltaTime: number; // Seconds for this call, scaled by timeScale (fixedTimeStep during fixedUpdate)
+	unscaledDeltaTime: number; // Real seconds elapsed since the previous frame
+	alpha: number; // Interpolation factor between the last two fixed steps (0-1)
+	time: number; // Scaled simulation time in seconds
+	frame: number; // Rendered frame counter
+	fixedFrame: number; // Fixed step counter
+	timeScale: number;
+	paused: boolean;
+}
+
+export interface LoopSystem {
+	id: string; // Unique identifier, used for ordering
+	phase: LoopPhase;
+	update: (context: FrameContext) => void;
+	after?: string[]; // Systems in the same phase that must run before this one
+	before?: string[]; // Systems in the same phase that must run after this one
+	runWhilePaused?: boolean; // Keep receiving variable-step updates while paused
+}
+
+export interface GameLoopConfig {
+	maxSubSteps: number; // Cap on fixed steps per frame to avoid a spiral of death
+	maxFrameTime: number; // Clamp for long frames (tab switches, breakpoints), in seconds
+}
+
+export interface GameLoopState {
+	paused: boolean;
+	timeScale: number;
+	fixedTimeStep: number; // Seconds per fixed step
+
+	setPaused: (paused: boolean) => void;
+	setTimeScale: (timeScale: number) => void;
+	setFixedTimeStep: (fixedTimeStep: number) => void;
+	reset: () => void;
+}
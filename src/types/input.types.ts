@@ -13,7 +13,8 @@ export type InputAction=
 	|'menu'
 	|'inventory'
 	|'pause'
-	|'run'; // Added 'run'
+	|'run' // Added 'run'
+	|'brake';
 
 export interface InputAxis {
 	id: string;
@@ -84,6 +85,7 @@ export interface InputEvent {
 	value: number;
 	device: InputDevice;
 	timestamp: number;
+	kind?: 'action'|'axis'; // Axis events carry the axis name in `action`
 }
 
 export interface InputStore extends InputState {
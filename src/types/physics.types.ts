@@ -1,6 +1,6 @@
 // src/types/physics.types.ts
 
-import {Vector3} from "three";
+import {BufferGeometry,Quaternion,SkinnedMesh,Vector3} from "three";
 
 // Enum for physics engine choices
 export type PhysicsEngine="cannon"|"rapier";
@@ -13,7 +13,13 @@ export type ColliderShape=
 	|"cone"
 	|"cylinder"
 	|"plane"
-	|"mesh";
+	|"mesh" // Triangle mesh; best for static level geometry
+	|"convexHull"
+	|"heightfield"
+	|"compound"; // Several posed parts on one rigid body
+
+// Shapes that can be generated from a mesh's geometry
+export type MeshColliderShape="mesh"|"convexHull";
 
 // Define specific args types for each shape
 export type BoxArgs=[number,number,number];
@@ -22,7 +28,10 @@ export type CapsuleArgs=[number,number];
 export type CylinderArgs=[number,number,number,number];
 export type ConeArgs=[number,number,number];
 export type PlaneArgs=[number,number];
-export type MeshArgs=any[]; // Customize as needed
+export type MeshArgs=[BufferGeometry];
+export type ConvexHullArgs=[BufferGeometry]; // The hull is generated from the geometry's vertices
+export type HeightfieldArgs=[number[][],number]; // heights[x][z] and grid spacing; Y-up and centered on the body
+export type CompoundArgs=[CompoundColliderPart[]];
 
 export type PhysicsBodyArgs=
 	|BoxArgs
@@ -31,33 +40,343 @@ export type PhysicsBodyArgs=
 	|CylinderArgs
 	|ConeArgs
 	|PlaneArgs
-	|MeshArgs;
+	|MeshArgs
+	|ConvexHullArgs
+	|HeightfieldArgs
+	|CompoundArgs;
+
+// Shapes a compound body can be built from
+export type CompoundPartShape="box"|"sphere"|"capsule"|"cylinder"|"convexHull"|"mesh";
+
+// One collider of a compound body, posed relative to the body
+export interface CompoundColliderPart {
+	shape: CompoundPartShape;
+	args: BoxArgs|SphereArgs|CapsuleArgs|CylinderArgs|MeshArgs|ConvexHullArgs; // Same layout as a body of that shape
+	position: Vector3; // Relative to the body
+	rotation: Vector3; // Euler angles relative to the body
+	scale?: Vector3; // Baked into mesh and convex hull parts
+	name?: string; // Node the part was generated from
+}
+
+// Settings for the body built from a model's collider nodes
+export interface CompoundColliderOptions {
+	type?: PhysicsBody["type"]; // Defaults to "static"
+	mass?: number;
+	collisionLayer?: number;
+	collidesWith?: number;
+	material?: string;
+}
 
 // Base interface for a physics body
 export interface PhysicsBody {
 	id: string; // Unique identifier
-	type: "dynamic"|"static"; // Type of body
+	type: "dynamic"|"static"|"kinematic"; // Kinematic bodies are moved by code and push dynamic bodies aside
 	shape: ColliderShape; // Shape of the collider
 	position: Vector3; // Initial position
 	rotation: Vector3; // Initial rotation
 	mass?: number; // Mass (for dynamic bodies)
 	args?: PhysicsBodyArgs; // Arguments for the collider shape
 	velocity?: Vector3; // Initial velocity
+	scale?: Vector3; // Scale baked into mesh and convex hull colliders
+	collisionLayer?: number; // Bitmask of the layers this body belongs to (defaults to 1)
+	collidesWith?: number; // Bitmask of the layers this body collides with (defaults to every layer)
+	material?: string; // Name of a registered physics material (defaults to "default")
+	linearDamping?: number;
+	angularDamping?: number;
+	isTrigger?: boolean; // Non-solid sensor; overlapping bodies raise TRIGGER_ENTER/STAY/EXIT instead of colliding
 	// Additional properties as needed
 	onCollide?: (otherBodyId: string,contactPoint: Vector3) => void; // Collision callback
 }
 
+// How two touching materials combine a coefficient. When the two sides disagree,
+// the rule with the highest priority wins: max > multiply > min > average.
+export type CombineRule="average"|"min"|"multiply"|"max";
+
+// Surface properties shared by every body that names this material
+export interface PhysicsMaterial {
+	name: string;
+	friction: number;
+	restitution: number; // Bounciness, 0 to 1
+	frictionCombine?: CombineRule; // Defaults to "average"
+	restitutionCombine?: CombineRule; // Defaults to "average"
+}
+
+// Friction and restitution resolved for one pair of materials
+export interface ContactMaterial {
+	friction: number;
+	restitution: number;
+}
+
+// Constraint kinds shared by both engines
+export type JointType="hinge"|"ball"|"fixed"|"prismatic"|"distance"|"spring";
+
+// Range of motion: radians for hinges, meters for prismatic joints
+export interface JointLimits {
+	min: number;
+	max: number;
+}
+
+// Drives a hinge or prismatic joint towards a target speed
+export interface JointMotor {
+	targetVelocity: number; // Radians or meters per second
+	strength?: number; // Cannon: maximum motor force. Rapier: velocity gain
+}
+
+// A constraint between two bodies. Anchors and axes are world-space at the moment the joint is created.
+export interface PhysicsJoint {
+	id: string;
+	type: JointType;
+	bodyA: string; // PhysicsBody id
+	bodyB: string; // PhysicsBody id
+	anchorA?: Vector3; // Defaults to the midpoint of the two bodies, or to body A's center for distance and spring joints
+	anchorB?: Vector3; // Defaults to anchorA, or to body B's center for distance and spring joints
+	axis?: Vector3; // Hinge rotation axis or prismatic slide axis (defaults to Y)
+	limits?: JointLimits; // Hinge and prismatic joints
+	motor?: JointMotor; // Hinge and prismatic joints
+	length?: number; // Distance joints: maximum anchor separation (defaults to the initial separation)
+	restLength?: number; // Spring joints (defaults to the initial separation)
+	stiffness?: number; // Spring joints
+	damping?: number; // Spring joints
+	breakDistance?: number; // Breaks once the anchors are pulled this far out of alignment
+	collideConnected?: boolean; // Let the two bodies collide with each other (defaults to false)
+}
+
+// Settings for a kinematic capsule that walks on the physics world
+export interface CharacterControllerConfig {
+	id: string; // Also the id of the kinematic capsule body it moves
+	position: Vector3; // Initial capsule center
+	radius?: number; // Defaults to 0.4
+	height?: number; // Total capsule height including both caps (defaults to 1.8)
+	maxSlopeAngle?: number; // Radians; steeper surfaces block like walls (defaults to 45 degrees)
+	stepHeight?: number; // Ledges up to this height are climbed without jumping (defaults to 0.35)
+	snapDistance?: number; // Grounded characters stick to floors up to this far below them (defaults to 0.3)
+	skinWidth?: number; // Gap kept between the capsule and surfaces (defaults to 0.02)
+	gravity?: number; // Downward acceleration while airborne (defaults to 9.81)
+	jumpSpeed?: number; // Defaults to 5
+	collisionLayer?: number; // See PhysicsBody.collisionLayer
+	collidesWith?: number; // See PhysicsBody.collidesWith
+}
+
+// Result of the last controller step
+export interface CharacterControllerState {
+	position: Vector3; // Capsule center
+	velocity: Vector3; // Actual velocity over the last step
+	isGrounded: boolean;
+	groundNormal: Vector3|null;
+	groundBodyId: string|null; // The body being stood on; moving bodies carry the character
+}
+
+// How an input-driven character reads the "moveX"/"moveY" axes and the "jump" and "run" actions
+export interface CharacterInputOptions {
+	speed?: number; // Meters per second at full deflection (defaults to 5)
+	runMultiplier?: number; // Applied while "run" is held (defaults to 1.6)
+}
+
+// Grip of a tire against slip, as a fraction of the load on it. Rises linearly to the peak, then falls off towards slideFriction
+export interface TireFrictionCurve {
+	peakSlip: number; // Slip angle in radians where grip peaks
+	peakFriction: number; // Friction coefficient at the peak
+	slideFriction: number; // Friction coefficient once the tire is fully sliding
+}
+
+// One wheel of a raycast vehicle, in chassis space
+export interface VehicleWheelConfig {
+	position: Vector3; // Suspension mount point relative to the chassis center
+	radius: number;
+	suspensionRestLength: number; // Spring length at rest, measured from the mount to the wheel center
+	suspensionStiffness?: number; // Spring force per meter of compression (defaults to 40000)
+	suspensionDamping?: number; // Damper force per meter per second (defaults to 3000)
+	maxSuspensionForce?: number; // Defaults to 50000
+	steering?: boolean; // Turned by the steering input (defaults to false)
+	driven?: boolean; // Receives engine torque (defaults to false)
+	frictionCurve?: TireFrictionCurve; // Defaults to a road tire peaking at 1.2 around 8 degrees of slip
+}
+
+// Settings for a chassis body held up and pushed along by raycast wheels
+export interface VehicleConfig {
+	id: string; // Also the id of the dynamic chassis body
+	position: Vector3; // Initial chassis center
+	rotation?: Vector3; // Initial chassis rotation as Euler angles; forward is -Z
+	chassisSize?: [number,number,number]; // Box width, height and length (defaults to 1.8, 0.6, 4)
+	mass?: number; // Defaults to 1200
+	wheels: VehicleWheelConfig[];
+	engineTorque: number; // Torque shared by the driven wheels at full throttle
+	brakeTorque: number; // Torque on every wheel at full brake
+	maxSteerAngle: number; // Radians at full steering input
+	rollInfluence?: number; // Scales the height at which side forces act; lower values roll less (defaults to 0.1)
+	collisionLayer?: number; // See PhysicsBody.collisionLayer
+	collidesWith?: number; // See PhysicsBody.collidesWith
+}
+
+// Driver input, each in -1..1 except brake which is 0..1. Positive steering turns right
+export interface VehicleControls {
+	throttle: number; // Negative values drive in reverse
+	brake: number;
+	steering: number;
+}
+
+// Result of the last vehicle step for one wheel
+export interface VehicleWheelState {
+	isGrounded: boolean;
+	contactPoint: Vector3|null;
+	contactNormal: Vector3|null;
+	groundBodyId: string|null;
+	suspensionLength: number; // Current spring length; equals the rest length while airborne
+	steerAngle: number; // Radians
+	rotation: number; // Accumulated spin in radians, for rendering
+	slipAngle: number; // Radians between the tire heading and its sideways motion
+}
+
+// Result of the last vehicle step
+export interface VehicleState {
+	speed: number; // Forward speed in meters per second; negative while reversing
+	wheels: VehicleWheelState[];
+}
+
+// How an input-driven vehicle reads the "moveY" and "moveX" axes and the "brake" action
+export interface VehicleInputOptions {
+	followCamera?: boolean; // Keep the active camera's target on the chassis for the chase mode (defaults to true)
+}
+
+// How one bone's body hangs off its parent in a ragdoll
+export interface RagdollBoneConfig {
+	radius?: number; // Capsule radius (defaults to radiusScale times the bone length)
+	joint?: "hinge"|"ball"; // Defaults to "hinge"; ball joints swing freely in every direction
+	axis?: Vector3; // Hinge axis in the bone's local space (defaults to X)
+	limits?: JointLimits; // Hinge limits around the pose at activation (defaults to +-60 degrees)
+}
+
+// Settings for a ragdoll built from a skinned mesh's skeleton
+export interface RagdollConfig {
+	id: string; // Prefix for the ids of its bodies and joints
+	mesh: SkinnedMesh;
+	bones?: Record<string,RagdollBoneConfig>; // Bones that get a body, by name (defaults to every bone with a child bone)
+	mass?: number; // Total mass, shared out by bone length (defaults to 70)
+	radiusScale?: number; // Defaults to 0.2
+	blendTime?: number; // Seconds to blend fully between the animated and ragdoll poses (defaults to 0.2)
+	entityId?: string; // AI entity whose death activates this ragdoll
+	collisionLayer?: number; // See PhysicsBody.collisionLayer
+	collidesWith?: number; // See PhysicsBody.collidesWith
+}
+
 // Physics configuration options
 export interface PhysicsConfig {
 	engine: PhysicsEngine; // Which physics engine to use
 	gravity?: Vector3; // Gravity vector
-	debug?: boolean; // Enable debug visuals
+	debug?: boolean; // Start with every debug overlay layer enabled
 }
 
+// Overlay layers drawn by the physics debug renderer
+export type PhysicsDebugLayer="colliders"|"sleepState"|"aabbs"|"contacts"|"joints";
+
 // Interface for physics state managed by the store
 export interface PhysicsState {
 	bodies: Record<string,PhysicsBody>; // Map of body IDs to bodies
+	materials: Record<string,PhysicsMaterial>; // Map of material names to materials
+	joints: Record<string,PhysicsJoint>; // Map of joint IDs to joints
+	triggerOccupants: Record<string,string[]>; // Map of trigger body IDs to the IDs of the bodies inside them
+	debugLayers: Record<PhysicsDebugLayer,boolean>; // Debug overlay layers currently drawn
 	addBody: (body: PhysicsBody) => void; // Function to add a physics body
 	removeBody: (id: string) => void; // Function to remove a physics body
 	updateBody: (id: string,updatedBody: Partial<PhysicsBody>) => void; // Update a body's properties
+	addMaterial: (material: PhysicsMaterial) => void; // Register or replace a named material
+	addJoint: (joint: PhysicsJoint) => void; // Function to add a joint between two bodies
+	removeJoint: (id: string) => void; // Function to remove a joint
+	addTriggerOccupant: (triggerId: string,bodyId: string) => void;
+	removeTriggerOccupant: (triggerId: string,bodyId: string) => void;
+	setDebugLayer: (layer: PhysicsDebugLayer,enabled: boolean) => void;
+}
+
+// Collider data extracted from a geometry, cached per geometry and scale
+export interface TrimeshData {
+	vertices: Float32Array;
+	indices: Uint32Array;
+}
+
+export interface ConvexHullData {
+	vertices: Float32Array;
+	faces: number[][]; // Vertex indices per face, counter-clockwise seen from outside
+}
+
+// Narrows which bodies a scene query can hit
+export interface PhysicsQueryFilter {
+	layerMask?: number; // Only hit bodies on one of these layers
+	excludeBodyIds?: string[]; // Bodies to ignore, e.g. the shooter
+	predicate?: (bodyId: string) => boolean; // Extra per-body test
+	includeTriggers?: boolean; // Trigger volumes are skipped unless set
+}
+
+// Result of a ray or shape cast
+export interface RaycastHit {
+	bodyId: string;
+	point: Vector3; // World-space hit point on the body's surface
+	normal: Vector3; // Surface normal at the hit point
+	distance: number; // Distance travelled along the cast direction
+}
+
+// Result of a closest point query
+export interface ClosestPointResult {
+	bodyId: string;
+	point: Vector3; // Closest point on the body's surface, or the query point when inside
+	distance: number;
+	isInside: boolean;
+}
+
+// Current world transform of a live body
+export interface BodyTransform {
+	position: Vector3;
+	quaternion: Quaternion;
+}
+
+// A touching pair as reported by the engine
+export interface PhysicsContact {
+	bodyA: string;
+	bodyB: string;
+	point: Vector3; // World space
+	normal: Vector3; // Points from bodyA towards bodyB
+}
+
+// World-space anchors of a live joint, one on each body
+export interface JointAnchors {
+	id: string;
+	anchorA: Vector3;
+	anchorB: Vector3;
+}
+
+// Everything needed to resume a body mid-motion
+export interface BodyState extends BodyTransform {
+	linearVelocity: Vector3;
+	angularVelocity: Vector3;
+	isSleeping: boolean;
+}
+
+// Engine-specific handle for a live body: a Rapier RigidBody or a Cannon body API
+export type PhysicsBodyHandle=unknown;
+
+// Engine adapter that answers queries against the live simulation
+export interface PhysicsBackend {
+	engine: PhysicsEngine;
+	addBody: (body: PhysicsBody,handle: PhysicsBodyHandle) => void;
+	removeBody: (id: string) => void;
+	raycast: (origin: Vector3,direction: Vector3,maxDistance: number,filter: PhysicsQueryFilter) => RaycastHit|null;
+	raycastAll: (origin: Vector3,direction: Vector3,maxDistance: number,filter: PhysicsQueryFilter) => RaycastHit[];
+	sphereCast: (origin: Vector3,radius: number,direction: Vector3,maxDistance: number,filter: PhysicsQueryFilter) => RaycastHit|null;
+	capsuleCast: (origin: Vector3,radius: number,halfHeight: number,direction: Vector3,maxDistance: number,filter: PhysicsQueryFilter) => RaycastHit|null; // Upright capsule; halfHeight excludes the caps
+	overlapSphere: (center: Vector3,radius: number,filter: PhysicsQueryFilter) => string[];
+	overlapBox: (center: Vector3,halfExtents: Vector3,rotation: Quaternion,filter: PhysicsQueryFilter) => string[];
+	closestPoint: (point: Vector3,maxDistance: number,filter: PhysicsQueryFilter) => ClosestPointResult|null;
+	getBodyTransform: (id: string) => BodyTransform|null;
+	getBodyState: (id: string) => BodyState|null;
+	setBodyState: (id: string,state: BodyState) => void;
+	getContacts: () => PhysicsContact[];
+	moveKinematicBody: (id: string,position: Vector3,quaternion?: Quaternion) => void; // Takes effect on the next simulation step
+	applyForce: (id: string,force: Vector3,point?: Vector3) => void; // Lasts one simulation step; point is in world space and defaults to the center of mass
+	applyImpulse: (id: string,impulse: Vector3,point?: Vector3) => void;
+	applyTorque: (id: string,torque: Vector3) => void; // Lasts one simulation step
+	setLinearVelocity: (id: string,velocity: Vector3) => void;
+	setAngularVelocity: (id: string,velocity: Vector3) => void;
+	teleport: (id: string,position: Vector3,quaternion?: Quaternion) => void; // Keeps the body's velocity
+	sleep: (id: string) => void;
+	wake: (id: string) => void;
+	dispose: () => void;
 }
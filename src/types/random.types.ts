@@ -0,0 +1,9 @@
+// src/types/random.types.ts
+
+export type RandomSeed=number|string;
+
+// State of every named stream, enough to resume the exact same sequences
+export interface SerializedRandom {
+	seed: number;
+	streams: Record<string,number>;
+}
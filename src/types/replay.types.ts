@@ -0,0 +1,44 @@
+// src/types/replay.types.ts
+
+import {InputAction,InputDevice} from './input.types';
+import {SerializedRandom} from './random.types';
+import {SerializedData} from './serialization.types';
+
+export type ReplayStatus='idle'|'recording'|'playing'|'paused';
+
+// One input, stamped with the fixed step (counted from the start of the recording) it first affects
+export interface ReplayInput {
+	frame: number;
+	kind: 'action'|'axis';
+	action: InputAction;
+	value: number;
+	device: InputDevice;
+}
+
+export interface ReplayRecording {
+	version: number;
+	fixedTimeStep: number;
+	startTime?: number; // Loop simulation time in seconds when recording started; rewinds put the loop back there
+	startFixedFrame?: number;
+	frameCount: number;
+	random: SerializedRandom;
+	initialState?: Partial<SerializedData>;
+	inputs: ReplayInput[];
+}
+
+export interface ReplayPlaybackOptions {
+	// Puts the game back into the recording's initial state. Called on load and on every backwards seek.
+	restoreState?: (state: Partial<SerializedData>|undefined) => void;
+}
+
+export interface ReplayState {
+	status: ReplayStatus;
+	frame: number;
+	frameCount: number;
+	speed: number;
+	setStatus: (status: ReplayStatus) => void;
+	setFrame: (frame: number) => void;
+	setFrameCount: (frameCount: number) => void;
+	setSpeed: (speed: number) => void;
+	reset: () => void;
+}
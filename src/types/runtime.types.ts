@@ -0,0 +1,47 @@
+// src/types/runtime.types.ts
+
+import {Camera,Scene} from 'three';
+
+export type RuntimeMode='browser'|'headless';
+
+// Time source and frame scheduler used by the game loop
+export interface FrameClock {
+	now: () => number; // Milliseconds
+	requestFrame: (callback: () => void) => number;
+	cancelFrame: (handle: number) => void;
+}
+
+// The subset of `window` that input handling listens on
+export interface InputEventTarget {
+	addEventListener: Window['addEventListener'];
+	removeEventListener: Window['removeEventListener'];
+	innerWidth: number;
+	innerHeight: number;
+}
+
+export interface GamepadSource {
+	getGamepads: () => (Gamepad|null)[];
+}
+
+export type KeyValueStorage=Pick<Storage,'getItem'|'setItem'|'removeItem'>;
+
+export interface FrameRenderer {
+	render: (scene: Scene,camera: Camera) => void;
+	setSize: (width: number,height: number) => void;
+	dispose: () => void;
+}
+
+export interface RuntimeProfile {
+	mode: RuntimeMode;
+	clock: FrameClock;
+	input: InputEventTarget;
+	gamepads: GamepadSource;
+	storage: KeyValueStorage;
+}
+
+export interface HeadlessSimulationOptions {
+	fixedTimeStep?: number; // Seconds per simulated frame
+	scene?: Scene;
+	camera?: Camera;
+	renderer?: FrameRenderer; // Defaults to a NullRenderer
+}
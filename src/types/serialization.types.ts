@@ -1,4 +1,7 @@
 // src/types/serialization.types.ts
+import {AIBehaviorStates,AIBehaviorType,AIPerceptionConfig,BehaviorTreeState,PerceivedTarget,UtilityState} from './ai.types';
+import {SerializedRandom} from './random.types';
+
 export interface SerializedSceneGraph {
 	nodes: SerializedNode[];
 }
@@ -20,8 +23,48 @@ export interface SerializedBody {
 	id: string;
 	mass: number;
 	position: [number, number, number];
+	rotation: [number, number, number, number]; // Quaternion
 	velocity: [number, number, number];
-	forces: [number, number, number][];
+	angularVelocity: [number, number, number];
+	forces: [number, number, number][]; // Forces only last one step, so snapshots taken between steps carry none
+	isSleeping: boolean;
+}
+
+export interface SerializedAIEntity {
+	id: string;
+	position: [number, number, number];
+	rotation: [number, number, number]; // Euler angles
+	health: number;
+	maxHealth: number;
+	speed: number;
+	currentBehavior: AIBehaviorType;
+	behaviors: AIBehaviorType[]; // Rebuilt from the behavior definitions on load
+	targetId?: string;
+	path?: [number, number, number][];
+	aggressionLevel: number;
+	detectionRange: number;
+	attackRange: number;
+	lastAttackTime: number;
+	attackCooldown: number;
+	controllerId?: string;
+	behaviorTreeId?: string;
+	behaviorTreeState?: BehaviorTreeState;
+	behaviorStates?: AIBehaviorStates;
+	patrolPoints?: [number, number, number][];
+	perception?: AIPerceptionConfig;
+	perceivedTargets?: PerceivedTarget[];
+	lastKnownTargetPosition?: [number, number, number];
+	utilityProfileId?: string;
+	utilityState?: UtilityState;
+	ammo?: number;
+	maxAmmo?: number;
+	velocity?: [number, number, number];
+	maxForce?: number;
+}
+
+export interface SerializedAI {
+	time?: number; // Simulation milliseconds when the snapshot was taken; restored timers move on by the time since
+	entities: SerializedAIEntity[];
 }
 
 export interface SerializedInput {
@@ -40,9 +83,11 @@ export interface SerializedData {
 	systems: {
 		scene?: SerializedSceneGraph;
 		physics?: SerializedPhysics;
+		ai?: SerializedAI;
 		input?: SerializedInput;
 		camera?: SerializedCamera;
 		particles?: SerializedParticles;
+		random?: SerializedRandom;
 	};
 	state: {
 		player?: SerializedPlayerState;
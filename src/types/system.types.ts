@@ -0,0 +1,31 @@
+// src/types/system.types.ts
+
+import {FrameContext,LoopPhase} from './gameLoop.types';
+
+export type SystemStatus='registered'|'initialized'|'running'|'paused';
+
+// Handed to init so a system can reach the systems it depends on
+export interface SystemContext {
+	get: <T extends GameSystem=GameSystem>(id: string) => T|undefined;
+}
+
+/**
+ * A pluggable system. Every hook is optional; the registry calls them in dependency order
+ * (startup) or reverse dependency order (shutdown).
+ */
+export interface GameSystem {
+	id: string;
+	dependencies?: string[]; // Ids of systems that must be initialized and started first
+	updatePhase?: LoopPhase; // Game loop phase for update(), defaults to 'update'
+	runWhilePaused?: boolean;
+
+	init?: (context: SystemContext) => void|Promise<void>;
+	start?: () => void;
+	update?: (context: FrameContext) => void;
+	pause?: () => void;
+	resume?: () => void;
+	reset?: () => void; // Called on RESET_GAME
+	dispose?: () => void;
+	serialize?: () => unknown;
+	deserialize?: (data: unknown) => void;
+}
@@ -0,0 +1,70 @@
+// src/utils/EventDispatcher.test.ts
+
+import { EventDispatcher } from './EventDispatcher';
+
+describe('EventDispatcher', () => {
+  const unsubscribes: Array<() => void> = [];
+
+  afterEach(() => {
+    unsubscribes.splice(0).forEach(unsubscribe => unsubscribe());
+  });
+
+  it('should call listeners highest priority first, then in subscription order', () => {
+    const calls: string[] = [];
+    unsubscribes.push(
+      EventDispatcher.on('GAME_LOOP_PAUSED', () => calls.push('default')),
+      EventDispatcher.on('GAME_LOOP_PAUSED', () => calls.push('late'), { priority: -1 }),
+      EventDispatcher.on('GAME_LOOP_PAUSED', () => calls.push('early'), { priority: 5 }),
+      EventDispatcher.on('GAME_LOOP_PAUSED', () => calls.push('default again'))
+    );
+
+    EventDispatcher.dispatch('GAME_LOOP_PAUSED', { frame: 1 });
+
+    expect(calls).toEqual(['early', 'default', 'default again', 'late']);
+  });
+
+  it('should call once listeners for a single dispatch', () => {
+    const listener = jest.fn();
+    unsubscribes.push(EventDispatcher.once('GAME_LOOP_PAUSED', listener));
+
+    EventDispatcher.dispatch('GAME_LOOP_PAUSED', { frame: 1 });
+    EventDispatcher.dispatch('GAME_LOOP_PAUSED', { frame: 2 });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ frame: 1 }, 'GAME_LOOP_PAUSED');
+    expect(EventDispatcher.hasListeners('GAME_LOOP_PAUSED')).toBe(false);
+  });
+
+  it('should deliver matching events to wildcard listeners with the event name', () => {
+    const levelListener = jest.fn();
+    const everyListener = jest.fn();
+    unsubscribes.push(EventDispatcher.on('LEVEL_*', levelListener), EventDispatcher.on('*', everyListener));
+
+    EventDispatcher.dispatch('LEVEL_LOAD_COMPLETE', { levelId: 'intro' });
+    EventDispatcher.dispatch('GAME_LOOP_RESUMED', { frame: 3 });
+
+    expect(levelListener).toHaveBeenCalledTimes(1);
+    expect(levelListener).toHaveBeenCalledWith({ levelId: 'intro' }, 'LEVEL_LOAD_COMPLETE');
+    expect(everyListener.mock.calls.map(([, event]) => event)).toEqual(['LEVEL_LOAD_COMPLETE', 'GAME_LOOP_RESUMED']);
+  });
+
+  it('should remove only the subscription an unsubscribe belongs to', () => {
+    const listener = jest.fn();
+    const unsubscribeFirst = EventDispatcher.on('GAME_LOOP_PAUSED', listener);
+    unsubscribes.push(
+      EventDispatcher.on('GAME_LOOP_PAUSED', listener),
+      EventDispatcher.once('GAME_LOOP_PAUSED', listener)
+    );
+
+    unsubscribeFirst();
+    EventDispatcher.dispatch('GAME_LOOP_PAUSED', { frame: 1 });
+    expect(listener).toHaveBeenCalledTimes(2);
+
+    EventDispatcher.dispatch('GAME_LOOP_PAUSED', { frame: 2 });
+    expect(listener).toHaveBeenCalledTimes(3);
+
+    // off still removes every subscription of the callback
+    EventDispatcher.off('GAME_LOOP_PAUSED', listener);
+    expect(EventDispatcher.hasListeners('GAME_LOOP_PAUSED')).toBe(false);
+  });
+});
@@ -1,45 +1,136 @@
 // Global event handling system for cross-module communication.
 // src/utils/EventDispatcher.ts
 
-type EventCallback=(data: any) => void;
+import {
+	EventArgs,
+	EventListener,
+	EventMap,
+	EventName,
+	EventPattern,
+	ListenerOptions,
+	PatternListener,
+	Unsubscribe,
+} from "../types/event.types";
+
+type AnyListener=(data: any,event: any) => void;
+
+interface ListenerEntry {
+	key: string;
+	callback: AnyListener;
+	priority: number;
+	once: boolean;
+	order: number;
+}
 
 /**
  * Singleton Class: EventDispatcherClass
  * Manages event subscriptions and dispatches.
+ * Keys are either exact event names or patterns ending in "*".
  */
 class EventDispatcherClass {
-	private events: Record<string,EventCallback[]>={};
+	private events: Record<string,ListenerEntry[]>={};
+	private nextOrder: number=0;
 
 	/**
-	 * Subscribes to an event.
-	 * @param event The event type to subscribe to.
-	 * @param callback The callback to invoke when the event is dispatched.
+	 * Subscribes to an event or an event pattern such as "LEVEL_*".
+	 * @param event The event type or pattern to subscribe to.
+	 * @param callback The callback to invoke when a matching event is dispatched.
+	 * @param options Priority and once settings.
+	 * @returns A handle that removes this subscription.
 	 */
-	public on(event: string,callback: EventCallback): void {
+	public on<K extends EventName>(event: K,callback: EventListener<K>,options?: ListenerOptions): Unsubscribe;
+	public on<P extends EventPattern>(event: P,callback: PatternListener<P>,options?: ListenerOptions): Unsubscribe;
+	public on(event: string,callback: AnyListener,options: ListenerOptions={}): Unsubscribe {
 		if(!this.events[event]) {
 			this.events[event]=[];
 		}
-		this.events[event].push(callback);
+		const entry: ListenerEntry={
+			key: event,
+			callback,
+			priority: options.priority??0,
+			once: options.once??false,
+			order: this.nextOrder++,
+		};
+		this.events[event].push(entry);
+		// Removes only this subscription, even if the same callback is subscribed elsewhere
+		return () => this.removeEntry(entry);
+	}
+
+	/**
+	 * Subscribes to an event for a single dispatch.
+	 * @param event The event type or pattern to subscribe to.
+	 * @param callback The callback to invoke once.
+	 * @param priority Optional listener priority.
+	 * @returns A handle that removes this subscription before it fires.
+	 */
+	public once<K extends EventName>(event: K,callback: EventListener<K>,priority?: number): Unsubscribe;
+	public once<P extends EventPattern>(event: P,callback: PatternListener<P>,priority?: number): Unsubscribe;
+	public once(event: string,callback: AnyListener,priority: number=0): Unsubscribe {
+		return this.on(event as EventName,callback,{priority,once: true});
 	}
 
 	/**
 	 * Unsubscribes from an event.
-	 * @param event The event type to unsubscribe from.
+	 * @param event The event type or pattern to unsubscribe from.
 	 * @param callback The callback to remove.
 	 */
-	public off(event: string,callback: EventCallback): void {
+	public off<K extends EventName>(event: K,callback: EventListener<K>): void;
+	public off<P extends EventPattern>(event: P,callback: PatternListener<P>): void;
+	public off(event: string,callback: AnyListener): void {
 		if(!this.events[event]) return;
-		this.events[event]=this.events[event].filter((cb) => cb!==callback);
+		this.events[event]=this.events[event].filter((entry) => entry.callback!==callback);
+		if(this.events[event].length===0) {
+			delete this.events[event];
+		}
 	}
 
 	/**
-	 * Dispatches an event to all subscribed callbacks.
+	 * Dispatches an event to all subscribed callbacks, highest priority first.
 	 * @param event The event type to dispatch.
 	 * @param data The data to pass to the callbacks.
 	 */
-	public dispatch(event: string,data: any): void {
-		if(!this.events[event]) return;
-		this.events[event].forEach((callback) => callback(data));
+	public dispatch<K extends EventName>(event: K,...[data]: EventArgs<K>): void {
+		const listeners=this.collectListeners(event);
+
+		listeners.forEach((entry) => {
+			if(entry.once) {
+				this.removeEntry(entry);
+			}
+			entry.callback(data as EventMap[K],event);
+		});
+	}
+
+	/**
+	 * Checks whether any listener would receive the given event.
+	 * @param event The event type to check.
+	 */
+	public hasListeners(event: EventName): boolean {
+		return this.collectListeners(event).length>0;
+	}
+
+	private collectListeners(event: string): ListenerEntry[] {
+		const matching: ListenerEntry[]=[];
+
+		Object.keys(this.events).forEach((key) => {
+			if(key===event||this.matchesPattern(key,event)) {
+				matching.push(...this.events[key]);
+			}
+		});
+
+		return matching.sort((a,b) => b.priority-a.priority||a.order-b.order);
+	}
+
+	private matchesPattern(pattern: string,event: string): boolean {
+		return pattern.endsWith("*")&&event.startsWith(pattern.slice(0,-1));
+	}
+
+	private removeEntry(entry: ListenerEntry): void {
+		const entries=this.events[entry.key];
+		if(!entries) return;
+		this.events[entry.key]=entries.filter((candidate) => candidate!==entry);
+		if(this.events[entry.key].length===0) {
+			delete this.events[entry.key];
+		}
 	}
 }
 
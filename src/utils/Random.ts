@@ -0,0 +1,164 @@
+// Seeded random number service with named, independently reproducible streams.
+// src/utils/Random.ts
+
+import {RandomSeed,SerializedRandom} from "../types/random.types";
+
+/**
+ * FNV-1a hash, used to turn stream names and string seeds into 32-bit seeds.
+ */
+const hashString=(value: string,hash: number=0x811c9dc5): number => {
+	for(let i=0;i<value.length;i++) {
+		hash^=value.charCodeAt(i);
+		hash=Math.imul(hash,0x01000193);
+	}
+	return hash>>>0;
+};
+
+const normalizeSeed=(seed: RandomSeed): number =>
+	typeof seed==="string"? hashString(seed):seed>>>0;
+
+/**
+ * A single Mulberry32 sequence. Its whole state is one 32-bit integer.
+ */
+export class RandomStream {
+	private state: number;
+
+	constructor(seed: number) {
+		this.state=seed>>>0;
+	}
+
+	/**
+	 * Returns a float in [0, 1), like Math.random().
+	 */
+	public next(): number {
+		return this.nextUint32()/4294967296;
+	}
+
+	public nextUint32(): number {
+		this.state=(this.state+0x6d2b79f5)>>>0;
+		let t=this.state;
+		t=Math.imul(t^(t>>>15),t|1);
+		t^=t+Math.imul(t^(t>>>7),t|61);
+		return (t^(t>>>14))>>>0;
+	}
+
+	/**
+	 * Returns a float in [min, max).
+	 */
+	public range(min: number,max: number): number {
+		return min+this.next()*(max-min);
+	}
+
+	/**
+	 * Returns an integer in [min, max], both inclusive.
+	 */
+	public int(min: number,max: number): number {
+		return Math.floor(this.range(min,max+1));
+	}
+
+	/**
+	 * Returns true with the given probability.
+	 * @param probability Value between 0 and 1.
+	 */
+	public chance(probability: number): boolean {
+		return this.next()<probability;
+	}
+
+	public pick<T>(items: readonly T[]): T|undefined {
+		return items.length>0? items[Math.floor(this.next()*items.length)]:undefined;
+	}
+
+	/**
+	 * Returns a reproducible identifier such as "ai-3f2a9c01".
+	 */
+	public id(prefix: string): string {
+		return `${prefix}-${this.nextUint32().toString(16).padStart(8,"0")}`;
+	}
+
+	public getState(): number {
+		return this.state;
+	}
+
+	public setState(state: number): void {
+		this.state=state>>>0;
+	}
+}
+
+/**
+ * Singleton Class: RandomClass
+ * Derives every stream from one master seed and the stream name, so a stream's sequence
+ * does not depend on how often other streams were used.
+ */
+class RandomClass {
+	private seed: number=normalizeSeed(Date.now());
+	private streams: Map<string,RandomStream>=new Map();
+
+	/**
+	 * Reseeds the service. Existing streams are reset in place, so references held by systems stay valid.
+	 * @param seed A number or any string.
+	 */
+	public setSeed(seed: RandomSeed): void {
+		this.seed=normalizeSeed(seed);
+		this.streams.forEach((stream,name) => stream.setState(this.deriveSeed(name)));
+	}
+
+	public getSeed(): number {
+		return this.seed;
+	}
+
+	/**
+	 * Returns the named stream, creating it on first use.
+	 * Use one name per system ("particles") or per entity ("ai:<entityId>").
+	 */
+	public stream(name: string="default"): RandomStream {
+		let stream=this.streams.get(name);
+		if(!stream) {
+			stream=new RandomStream(this.deriveSeed(name));
+			this.streams.set(name,stream);
+		}
+		return stream;
+	}
+
+	public hasStream(name: string): boolean {
+		return this.streams.has(name);
+	}
+
+	/**
+	 * Drops a stream, e.g. when its entity is removed. Using the name again starts it from the beginning.
+	 */
+	public removeStream(name: string): void {
+		this.streams.delete(name);
+	}
+
+	/**
+	 * Shorthand for a float in [0, 1) from the default stream.
+	 */
+	public next(): number {
+		return this.stream().next();
+	}
+
+	public getState(): SerializedRandom {
+		const streams: Record<string,number>={};
+		this.streams.forEach((stream,name) => {
+			streams[name]=stream.getState();
+		});
+		return {seed: this.seed,streams};
+	}
+
+	/**
+	 * Restores a saved state. Streams missing from the save restart from the saved seed.
+	 */
+	public setState(state: SerializedRandom): void {
+		this.setSeed(state.seed);
+		Object.entries(state.streams).forEach(([name,value]) => {
+			this.stream(name).setState(value);
+		});
+	}
+
+	private deriveSeed(name: string): number {
+		return hashString(name,this.seed);
+	}
+}
+
+// Export the singleton instance
+export const Random=new RandomClass();
@@ -0,0 +1,174 @@
+// Runtime profile: where systems get time, input devices and storage from.
+// src/utils/Runtime.ts
+
+import {Camera,Scene} from "three";
+import {
+	FrameClock,
+	FrameRenderer,
+	GamepadSource,
+	InputEventTarget,
+	KeyValueStorage,
+	RuntimeProfile,
+} from "../types/runtime.types";
+
+/**
+ * Clock that only moves when advanced, so frames can be stepped deterministically.
+ */
+export class ManualClock implements FrameClock {
+	private currentTime: number=0;
+	private nextHandle: number=1;
+	private callbacks: Map<number,() => void>=new Map();
+
+	public now=(): number => this.currentTime;
+
+	public requestFrame=(callback: () => void): number => {
+		const handle=this.nextHandle++;
+		this.callbacks.set(handle,callback);
+		return handle;
+	};
+
+	public cancelFrame=(handle: number): void => {
+		this.callbacks.delete(handle);
+	};
+
+	/**
+	 * Moves time forward and runs the frame callbacks that were pending.
+	 * Callbacks requested while running wait for the next advance.
+	 * @param milliseconds Time to advance.
+	 */
+	public advance(milliseconds: number): void {
+		this.currentTime+=milliseconds;
+		const pending=Array.from(this.callbacks.values());
+		this.callbacks.clear();
+		pending.forEach((callback) => callback());
+	}
+}
+
+/**
+ * Renderer stand-in that keeps world matrices current without drawing anything.
+ */
+export class NullRenderer implements FrameRenderer {
+	public render(scene: Scene,camera: Camera): void {
+		scene.updateMatrixWorld();
+		camera.updateMatrixWorld();
+	}
+
+	public setSize(): void {}
+
+	public dispose(): void {}
+}
+
+/**
+ * In-memory replacement for localStorage.
+ */
+export class MemoryStorage implements KeyValueStorage {
+	private items: Map<string,string>=new Map();
+
+	public getItem(key: string): string|null {
+		return this.items.has(key)? this.items.get(key)!:null;
+	}
+
+	public setItem(key: string,value: string): void {
+		this.items.set(key,String(value));
+	}
+
+	public removeItem(key: string): void {
+		this.items.delete(key);
+	}
+}
+
+const nullInput: InputEventTarget={
+	addEventListener: () => {},
+	removeEventListener: () => {},
+	innerWidth: 1,
+	innerHeight: 1,
+};
+
+const nullGamepads: GamepadSource={
+	getGamepads: () => [],
+};
+
+/**
+ * Profile backed by the browser window, requestAnimationFrame and localStorage.
+ */
+export const createBrowserProfile=(): RuntimeProfile => ({
+	mode: "browser",
+	clock: {
+		now: () => performance.now(),
+		requestFrame: (callback) => requestAnimationFrame(() => callback()),
+		cancelFrame: (handle) => cancelAnimationFrame(handle),
+	},
+	input: window,
+	gamepads: {
+		getGamepads: () => (navigator.getGamepads? Array.from(navigator.getGamepads()):[]),
+	},
+	// Resolved on every call so a replaced localStorage is picked up
+	storage: {
+		getItem: (key) => window.localStorage.getItem(key),
+		setItem: (key,value) => window.localStorage.setItem(key,value),
+		removeItem: (key) => window.localStorage.removeItem(key),
+	},
+});
+
+/**
+ * Profile for Node scripts and tests: manual clock, no input devices, in-memory storage.
+ * @param clock Optional clock to share with the caller.
+ */
+export const createHeadlessProfile=(clock: ManualClock=new ManualClock()): RuntimeProfile => ({
+	mode: "headless",
+	clock,
+	input: nullInput,
+	gamepads: nullGamepads,
+	storage: new MemoryStorage(),
+});
+
+/**
+ * Singleton Class: RuntimeClass
+ * Holds the active runtime profile. Defaults to the browser when a window exists.
+ */
+class RuntimeClass {
+	private profile: RuntimeProfile|null=null;
+
+	public getProfile(): RuntimeProfile {
+		if(!this.profile) {
+			this.profile=typeof window!=="undefined"? createBrowserProfile():createHeadlessProfile();
+		}
+		return this.profile;
+	}
+
+	/**
+	 * Replaces the active profile. Systems that already subscribed to input keep their old target
+	 * until they are cleaned up, so switch profiles before starting systems.
+	 * @param profile The profile to use from now on.
+	 */
+	public setProfile(profile: RuntimeProfile): void {
+		this.profile=profile;
+	}
+
+	public isHeadless(): boolean {
+		return this.getProfile().mode==="headless";
+	}
+
+	public get clock(): FrameClock {
+		return this.getProfile().clock;
+	}
+
+	public get input(): InputEventTarget {
+		return this.getProfile().input;
+	}
+
+	public get gamepads(): GamepadSource {
+		return this.getProfile().gamepads;
+	}
+
+	public get storage(): KeyValueStorage {
+		return this.getProfile().storage;
+	}
+
+	public now(): number {
+		return this.getProfile().clock.now();
+	}
+}
+
+// Export the singleton instance
+export const Runtime=new RuntimeClass();